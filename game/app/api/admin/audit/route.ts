@@ -0,0 +1,23 @@
+/**
+ * Admin API route for reading the audit log
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '../../../server/adminAuth';
+import { getModerationRepository } from '../../../server/moderation';
+
+// Latest admin actions, newest first (query param: limit, default 50)
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const limit = Number(req.nextUrl.searchParams.get('limit') || 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    return NextResponse.json(
+      { error: 'limit must be an integer from 1 to 500', code: 'INVALID_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(await getModerationRepository().listAudit(limit));
+}
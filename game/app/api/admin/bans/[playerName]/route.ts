@@ -0,0 +1,22 @@
+/**
+ * Admin API route for lifting a ban
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { recordAdminAction, requireAdmin } from '../../../../server/adminAuth';
+import { getModerationRepository } from '../../../../server/moderation';
+
+// Unban a name
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ playerName: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { playerName } = await params;
+  if (!(await getModerationRepository().removeBan(playerName))) {
+    return NextResponse.json({ error: 'Player is not banned', code: 'NOT_FOUND' }, { status: 404 });
+  }
+
+  await recordAdminAction(req, 'player.unban', playerName);
+
+  return NextResponse.json({ message: `Ban lifted for ${playerName}` });
+}
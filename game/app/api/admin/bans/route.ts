@@ -0,0 +1,47 @@
+/**
+ * Admin API routes for banned player names
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { recordAdminAction, requireAdmin } from '../../../server/adminAuth';
+import { getModerationRepository } from '../../../server/moderation';
+import { sanitizePlayerName } from '../../../utils/playerName';
+import { getScoreRepository } from '../../../server/scoreRepository';
+
+// List banned names
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  return NextResponse.json(await getModerationRepository().listBans());
+}
+
+// Ban a name (body: { playerName, reason?, removeScores? })
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => null);
+  const playerName = typeof body?.playerName === 'string' ? sanitizePlayerName(body.playerName) : '';
+  if (!playerName || (body.reason !== undefined && typeof body.reason !== 'string')) {
+    return NextResponse.json(
+      { error: 'Required fields: playerName (string). Optional: reason (string), removeScores (boolean)', code: 'INVALID_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  const ban = await getModerationRepository().addBan({
+    playerName,
+    reason: body.reason,
+    date: new Date().toISOString(),
+  });
+
+  // Optionally take the player's existing scores off the leaderboard too
+  const removedScores = body.removeScores === true
+    ? await getScoreRepository().removeByPlayer(playerName)
+    : 0;
+
+  await recordAdminAction(req, 'player.ban', playerName, { reason: body.reason, removedScores });
+
+  return NextResponse.json({ ...ban, removedScores }, { status: 201 });
+}
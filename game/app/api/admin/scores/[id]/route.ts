@@ -0,0 +1,23 @@
+/**
+ * Admin API route for deleting a single score
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { recordAdminAction, requireAdmin } from '../../../../server/adminAuth';
+import { getScoreRepository } from '../../../../server/scoreRepository';
+
+// Delete a score by id
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const removed = await getScoreRepository().remove(id);
+  if (!removed) {
+    return NextResponse.json({ error: 'Score not found', code: 'NOT_FOUND' }, { status: 404 });
+  }
+
+  await recordAdminAction(req, 'score.delete', id, { playerName: removed.playerName, score: removed.score });
+
+  return NextResponse.json(removed);
+}
@@ -0,0 +1,18 @@
+/**
+ * Admin API route for clearing the leaderboard
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { recordAdminAction, requireAdmin } from '../../../server/adminAuth';
+import { getScoreRepository } from '../../../server/scoreRepository';
+
+// Delete all scores
+export async function DELETE(req: NextRequest) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  await getScoreRepository().clear();
+  await recordAdminAction(req, 'scores.clear');
+
+  return NextResponse.json({ message: 'All scores deleted' });
+}
@@ -0,0 +1,18 @@
+/**
+ * API route for public player profiles
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlayerProfile } from '../../../server/players';
+
+// Best score, run count and recent history for a player
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const profile = await getPlayerProfile(id);
+
+  if (!profile) {
+    return NextResponse.json({ error: 'Player not found', code: 'NOT_FOUND' }, { status: 404 });
+  }
+
+  return NextResponse.json(profile);
+}
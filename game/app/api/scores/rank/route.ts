@@ -0,0 +1,27 @@
+/**
+ * API route for looking up where a score would place on a leaderboard
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseLeaderboardFilter } from '../../../server/leaderboard';
+import { getScoreRepository } from '../../../server/scoreRepository';
+
+// Rank a score (query params: score, window, seed)
+export async function GET(req: NextRequest) {
+  const searchParams = req.nextUrl.searchParams;
+  const score = Number(searchParams.get('score'));
+  const filter = parseLeaderboardFilter(searchParams);
+
+  if (!searchParams.has('score') || !Number.isInteger(score) || score < 0) {
+    return NextResponse.json(
+      { error: 'score must be a non-negative integer', code: 'INVALID_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  if (!filter.ok) {
+    return NextResponse.json({ error: filter.message, code: 'INVALID_REQUEST' }, { status: 400 });
+  }
+
+  return NextResponse.json(await getScoreRepository().rank(score, filter.value));
+}
@@ -0,0 +1,32 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the score API routes
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+
+const submit = (forwardedFor: string) =>
+  POST(new NextRequest('http://localhost/api/scores', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': forwardedFor },
+    body: JSON.stringify({}),
+  }));
+
+describe('POST /api/scores', () => {
+  it('should rate limit clients without a trusted proxy, whatever address they claim', async () => {
+    delete process.env.TRUST_PROXY;
+
+    for (let i = 0; i < 10; i++) {
+      expect((await submit(`10.0.0.${i}`)).status).toBe(400);
+    }
+
+    const limited = await submit('10.0.0.99');
+    expect(limited.status).toBe(429);
+    expect(await limited.json()).toMatchObject({ code: 'RATE_LIMITED' });
+    expect(limited.headers.get('Retry-After')).toBeTruthy();
+  });
+});
@@ -3,52 +3,110 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { verifyRun } from '../../server/runVerification';
+import { parseScoreQuery } from '../../server/leaderboard';
+import { ScoreEntry, getScoreRepository } from '../../server/scoreRepository';
+import { getModerationRepository, normalizePlayerName } from '../../server/moderation';
+import { RateLimiter, UNKNOWN_CLIENT, getClientIp } from '../../server/rateLimit';
+import { parseScoreSubmission } from '../../server/scoreValidation';
+import { authenticatePlayer } from '../../server/players';
+import { getPlayerRepository } from '../../server/playerRepository';
 
-// In-memory storage for scores (would be replaced with a database in production)
-let scores: { 
-  id: string; 
-  playerName: string; 
-  score: number; 
-  date: string;
-}[] = [];
-
-// Get top scores
+// Get a page of top scores
 export async function GET(req: NextRequest) {
-  // Extract limit from search params (default to 10)
-  const searchParams = req.nextUrl.searchParams;
-  const limit = parseInt(searchParams.get('limit') || '10', 10);
+  // Query params: limit, cursor, window (daily, weekly, all-time) and seed
+  const query = parseScoreQuery(req.nextUrl.searchParams);
+  if (!query.ok) {
+    return NextResponse.json({ error: query.message, code: 'INVALID_REQUEST' }, { status: 400 });
+  }
   
-  // Sort scores by score (descending) and take top N
-  const topScores = [...scores]
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit);
+  // Highest first, with a cursor for the next page
+  const page = await getScoreRepository().list(query.value);
   
-  return NextResponse.json(topScores);
+  return NextResponse.json(page);
 }
 
-// Save a new score
+// Submission limits per client address and per player name
+const ipLimiter = new RateLimiter({ limit: 10, windowMs: 60_000 });
+const nameLimiter = new RateLimiter({ limit: 5, windowMs: 60_000 });
+
+const rateLimited = (retryAfter: number) => NextResponse.json(
+  { error: `Too many submissions. Try again in ${retryAfter} seconds.`, code: 'RATE_LIMITED', retryAfter },
+  { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+);
+
+// Save a new score after re-simulating the submitted run
 export async function POST(req: NextRequest) {
   try {
-    const body = await req.json();
+    // Requests from unknown addresses share one bucket; limits apply before the costly run verification
+    const ipLimit = ipLimiter.consume(getClientIp(req) ?? UNKNOWN_CLIENT);
+    if (!ipLimit.allowed) {
+      return rateLimited(ipLimit.retryAfter);
+    }
+    
+    const body = await req.json().catch(() => null);
     
-    // Validate required fields
-    if (!body.playerName || typeof body.score !== 'number') {
+    // Validate field types, ranges and the player name
+    const submission = parseScoreSubmission(body);
+    if (!submission.ok) {
       return NextResponse.json(
-        { error: 'Invalid request. Required fields: playerName (string) and score (number)' },
+        { error: submission.message, code: 'INVALID_REQUEST', fields: submission.fields },
         { status: 400 }
       );
     }
     
+    const { playerName, score, run, player } = submission.value;
+    
+    const nameLimit = nameLimiter.consume(normalizePlayerName(playerName));
+    if (!nameLimit.allowed) {
+      return rateLimited(nameLimit.retryAfter);
+    }
+    
+    if (await getModerationRepository().isBanned(playerName)) {
+      return NextResponse.json(
+        {
+          error: 'This player name is banned from the leaderboard',
+          code: 'PLAYER_BANNED',
+          fields: { playerName: 'This name is banned from the leaderboard' },
+        },
+        { status: 403 }
+      );
+    }
+    
+    // The stored score is the one computed by the server, never the client's claim
+    const verification = verifyRun(run, score);
+    if (!verification.ok) {
+      return NextResponse.json(
+        { error: verification.message, code: verification.code },
+        { status: verification.code === 'INVALID_RUN' ? 400 : 422 }
+      );
+    }
+    
+    // Register the device on first submission, then require its secret and claim the name
+    const auth = await authenticatePlayer(getPlayerRepository(), player, playerName);
+    if (!auth.ok) {
+      return NextResponse.json(
+        {
+          error: auth.message,
+          code: auth.code,
+          fields: auth.code === 'NAME_TAKEN' ? { playerName: auth.message } : undefined,
+        },
+        { status: auth.status }
+      );
+    }
+    
     // Create new score entry
-    const newScore = {
+    const newScore: ScoreEntry = {
       id: crypto.randomUUID(),
-      playerName: body.playerName,
-      score: body.score,
+      playerName,
+      playerId: auth.player.id,
+      score: verification.score,
+      seed: verification.run.seed,
       date: new Date().toISOString(),
     };
     
-    // Add to scores array
-    scores.push(newScore);
+    // Persist through the configured score store
+    await getScoreRepository().add(newScore);
     
     // Return the created score
     return NextResponse.json(newScore, { status: 201 });
@@ -60,10 +118,3 @@ export async function POST(req: NextRequest) {
     );
   }
 }
-
-// Delete all scores (for testing/admin purposes)
-export async function DELETE(req: NextRequest) {
-  // In a real app, you would check for admin privileges here
-  scores = [];
-  return NextResponse.json({ message: 'All scores deleted' });
-} 
\ No newline at end of file
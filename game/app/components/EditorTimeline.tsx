@@ -0,0 +1,235 @@
+/**
+ * EditorTimeline - Scrolling view of a level where obstacles are placed, dragged and resized
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Level, LevelObstacle, createLevelObstacle } from '../engine/levels';
+import { drawObstacle } from '../engine/obstacles';
+import { GROUND_HEIGHT } from '../engine/constants';
+import { Canvas2DRenderer } from '../render/Canvas2DRenderer';
+import { DEFAULT_THEME } from '../render/theme';
+import {
+  RESIZE_HANDLE_SIZE,
+  editorField,
+  entryBounds,
+  hitTest,
+  moveEntry,
+  resizeEntry,
+  sortObstacles,
+} from '../utils/levelEditor';
+
+interface EditorTimelineProps {
+  level: Level;
+  width: number; // Width of the view; the height is the level's
+  selectedIndex: number | null;
+  playhead: number; // Distance play-tests can start from
+  onChange: (level: Level) => void;
+  onSelect: (index: number | null) => void;
+  onPlayheadChange: (distance: number) => void;
+}
+
+// An obstacle being dragged, as it was when the drag started
+interface Drag {
+  index: number;
+  handle: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  entry: LevelObstacle;
+}
+
+// Distance between grid lines, and between labelled ones (px)
+const GRID_STEP = 100;
+const LABEL_STEP = 500;
+
+// Room past the finish line the view scrolls to (px)
+const SCROLL_MARGIN = 200;
+
+const LABEL_FONT = '12px Arial';
+const GRID_COLOR = 'rgba(0, 0, 0, 0.15)';
+const SECTION_COLOR = '#2563EB';
+const CUE_COLOR = '#9333EA';
+const FINISH_COLOR = '#16A34A';
+const PLAYHEAD_COLOR = '#DC2626';
+const SELECTION_COLOR = '#FACC15';
+
+const EditorTimeline: React.FC<EditorTimelineProps> = ({
+  level,
+  width,
+  selectedIndex,
+  playhead,
+  onChange,
+  onSelect,
+  onPlayheadChange
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [scroll, setScroll] = useState(0);
+
+  const field = editorField(level, width);
+  const maxScroll = Math.max(0, level.length + SCROLL_MARGIN - width);
+
+  // Keep the view on the course when the level gets shorter
+  useEffect(() => {
+    setScroll(current => Math.min(current, maxScroll));
+  }, [maxScroll]);
+
+  // Redraw whenever the level or the view changes
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) {
+      return;
+    }
+
+    const painter = new Canvas2DRenderer(ctx);
+    const field = editorField(level, width);
+    const { palette } = DEFAULT_THEME.definition;
+    const { height } = level;
+    const groundTop = height - GROUND_HEIGHT;
+    const viewX = (distance: number) => distance - scroll;
+
+    painter.fillRect(0, 0, width, height, palette.sky);
+    painter.fillRect(0, groundTop, width, GROUND_HEIGHT, palette.ground);
+
+    // Distance grid
+    const firstLine = Math.floor(scroll / GRID_STEP) * GRID_STEP;
+    for (let distance = firstLine; distance <= scroll + width; distance += GRID_STEP) {
+      painter.fillRect(viewX(distance), 0, 1, groundTop, GRID_COLOR);
+      if (distance % LABEL_STEP === 0) {
+        painter.fillText(`${distance}`, viewX(distance) + 3, 14, { font: LABEL_FONT, color: palette.text });
+      }
+    }
+
+    level.obstacles.forEach((entry, index) => {
+      const obstacle = createLevelObstacle(entry, field, viewX(entry.distance), `editor-${index}`);
+      drawObstacle(painter, obstacle, palette);
+    });
+
+    level.sections.forEach(section => {
+      painter.fillRect(viewX(section.distance), 0, 2, height, SECTION_COLOR);
+      painter.fillText(`${section.speed} px/s`, viewX(section.distance) + 4, 30, { font: LABEL_FONT, color: SECTION_COLOR });
+    });
+    level.cues.forEach(cue => {
+      painter.fillRect(viewX(cue.distance), 0, 2, height, CUE_COLOR);
+      painter.fillText(cue.cue, viewX(cue.distance) + 4, 46, { font: LABEL_FONT, color: CUE_COLOR });
+    });
+
+    painter.fillRect(viewX(level.length), 0, 4, height, FINISH_COLOR);
+    painter.fillText('Finish', viewX(level.length) + 6, 62, { font: LABEL_FONT, color: FINISH_COLOR });
+
+    // Outline and resize handle of the selected obstacle
+    const selected = selectedIndex !== null ? level.obstacles[selectedIndex] : undefined;
+    if (selected) {
+      const bounds = entryBounds(selected, field);
+      const x = viewX(bounds.x);
+      painter.fillRect(x - 2, bounds.y - 2, bounds.width + 4, 2, SELECTION_COLOR);
+      painter.fillRect(x - 2, bounds.y + bounds.height, bounds.width + 4, 2, SELECTION_COLOR);
+      painter.fillRect(x - 2, bounds.y, 2, bounds.height, SELECTION_COLOR);
+      painter.fillRect(x + bounds.width, bounds.y, 2, bounds.height, SELECTION_COLOR);
+      painter.fillRect(
+        x + bounds.width - RESIZE_HANDLE_SIZE,
+        bounds.y + bounds.height - RESIZE_HANDLE_SIZE,
+        RESIZE_HANDLE_SIZE,
+        RESIZE_HANDLE_SIZE,
+        SELECTION_COLOR
+      );
+    }
+
+    painter.fillRect(viewX(playhead) - 1, 0, 2, height, PLAYHEAD_COLOR);
+  }, [level, selectedIndex, playhead, scroll, width]);
+
+  // Pointer position in course coordinates
+  const coursePoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) * width) / rect.width + scroll,
+      y: ((event.clientY - rect.top) * level.height) / rect.height,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = coursePoint(event);
+    const hit = hitTest(level, field, x, y);
+
+    // Clicking empty space moves the playhead
+    if (!hit) {
+      onSelect(null);
+      onPlayheadChange(Math.max(0, Math.round(x)));
+      return;
+    }
+
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    dragRef.current = { ...hit, startX: x, startY: y, entry: level.obstacles[hit.index] };
+    onSelect(hit.index);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      return;
+    }
+
+    const { x, y } = coursePoint(event);
+    const dx = x - drag.startX;
+    const dy = y - drag.startY;
+    let entry: LevelObstacle;
+    if (drag.handle === 'move') {
+      entry = moveEntry(drag.entry, field, dx, dy);
+    } else {
+      const bounds = entryBounds(drag.entry, field);
+      entry = resizeEntry(drag.entry, bounds.width + dx, bounds.height + dy);
+    }
+
+    onChange({
+      ...level,
+      obstacles: level.obstacles.map((current, index) => (index === drag.index ? entry : current)),
+    });
+  };
+
+  // Dropping puts the obstacles back in course order, keeping the dragged one selected
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    if (!drag) {
+      return;
+    }
+    dragRef.current = null;
+
+    const dragged = level.obstacles[drag.index];
+    const sorted = sortObstacles(level);
+    onChange(sorted);
+    onSelect(sorted.obstacles.indexOf(dragged));
+  };
+
+  const handleWheel = (event: React.WheelEvent<HTMLCanvasElement>) => {
+    const delta = Math.abs(event.deltaX) > Math.abs(event.deltaY) ? event.deltaX : event.deltaY;
+    setScroll(current => Math.min(maxScroll, Math.max(0, current + delta)));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={level.height}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onWheel={handleWheel}
+        className="border border-gray-300 rounded touch-none cursor-crosshair"
+        style={{ width: '100%', maxWidth: width }}
+        aria-label="Level timeline"
+      />
+      <input
+        type="range"
+        min="0"
+        max={maxScroll}
+        value={scroll}
+        onChange={(e) => setScroll(parseInt(e.target.value))}
+        className="w-full"
+        aria-label="Scroll the timeline"
+      />
+    </div>
+  );
+};
+
+export default EditorTimeline;
@@ -0,0 +1,82 @@
+/**
+ * FaceCalibration - Records a relaxed face so expressions are measured against the player's own neutral face
+ */
+
+import React, { useState } from 'react';
+import { FaCamera, FaRedo } from 'react-icons/fa';
+import {
+  faceManager,
+  sampleFaceMeasurements,
+  setFaceBaseline,
+  resetFaceBaseline,
+} from '../utils/faceUtils';
+import { deriveFaceBaseline } from '../utils/expressionDetection';
+
+// How long the neutral face is recorded (ms)
+const RECORD_DURATION = 3000;
+
+type CalibrationStep = 'idle' | 'neutral' | 'done' | 'failed';
+
+const STEP_INSTRUCTIONS: Record<CalibrationStep, string> = {
+  idle: 'Calibrate so blinks, open mouths and head tilts are measured against your own face.',
+  neutral: 'Look at the screen with a relaxed face and your eyes open...',
+  done: 'Calibrated! Expressions are now measured against your neutral face.',
+  failed: "We couldn't see your face clearly. Face the camera in good light and try again.",
+};
+
+const FaceCalibration: React.FC = () => {
+  const [step, setStep] = useState<CalibrationStep>('idle');
+  const [faceInView, setFaceInView] = useState<boolean>(false);
+
+  const recording = step === 'neutral';
+
+  const runCalibration = async () => {
+    setStep('neutral');
+    const samples = await sampleFaceMeasurements(RECORD_DURATION, measurements => setFaceInView(!!measurements));
+
+    const baseline = deriveFaceBaseline(samples);
+    if (!baseline) {
+      setStep('failed');
+      return;
+    }
+
+    setFaceBaseline(baseline);
+    setStep('done');
+  };
+
+  const handleReset = () => {
+    resetFaceBaseline();
+    setStep('idle');
+  };
+
+  return (
+    <div>
+      <label className="block mb-2 text-gray-700">Face Calibration</label>
+      <p className="text-sm text-gray-600 mb-2">
+        {faceManager.isInitialized ? STEP_INSTRUCTIONS[step] : 'Calibration is available once the camera is running.'}
+      </p>
+      {recording && (
+        <p className="text-sm mb-2">{faceInView ? 'Face found' : 'Looking for your face...'}</p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={runCalibration}
+          disabled={recording || !faceManager.isInitialized}
+          className="px-3 py-1 text-sm bg-sky-500 text-white rounded hover:bg-sky-600 disabled:opacity-50 flex items-center gap-1"
+        >
+          <FaCamera /> {recording ? 'Calibrating...' : step === 'idle' ? 'Calibrate' : 'Recalibrate'}
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={recording}
+          className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 flex items-center gap-1"
+        >
+          <FaRedo /> Reset
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FaceCalibration;
@@ -4,16 +4,13 @@
 
 import React, { useState } from 'react';
 import { FaDownload, FaCheck, FaFrown } from 'react-icons/fa';
-
-// Required models for face detection
-const requiredModels = [
-  'tiny_face_detector_model-weights_manifest.json',
-  'tiny_face_detector_model-shard1',
-  'face_landmark_68_model-weights_manifest.json',
-  'face_landmark_68_model-shard1',
-  'face_expression_model-weights_manifest.json',
-  'face_expression_model-shard1',
-];
+import {
+  FaceModelManifest,
+  ModelFileProgress,
+  fetchModelManifest,
+  areFaceModelsCached,
+  downloadFaceModels,
+} from '../utils/faceModelCache';
 
 // Source URL for models
 const modelSourceUrl = 'https://github.com/justadudewhohacks/face-api.js/tree/master/weights';
@@ -22,52 +19,77 @@ interface FaceModelDownloaderProps {
   onComplete: () => void;
 }
 
+/**
+ * Progress bar and status for one model file
+ */
+const ModelFileRow: React.FC<{ file: ModelFileProgress }> = ({ file }) => {
+  const percent = file.status === 'verified' ? 100 : file.total ? Math.round((file.loaded / file.total) * 100) : 0;
+
+  return (
+    <li className="text-sm">
+      <div className="flex justify-between">
+        <span className="truncate">{file.name}</span>
+        <span className={file.status === 'failed' ? 'text-red-600' : 'text-gray-600'}>
+          {file.status === 'failed'
+            ? file.error
+            : file.status === 'downloading'
+              ? file.total ? `${percent}%` : `${Math.round(file.loaded / 1024)} KB`
+              : file.status}
+        </span>
+      </div>
+      <div className="w-full h-1.5 bg-gray-200 rounded">
+        <div
+          className={`h-full rounded ${file.status === 'failed' ? 'bg-red-500' : 'bg-blue-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </li>
+  );
+};
+
 const FaceModelDownloader: React.FC<FaceModelDownloaderProps> = ({ onComplete }) => {
   const [downloadStatus, setDownloadStatus] = useState<'idle' | 'downloading' | 'complete' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ModelFileProgress[]>([]);
 
-  // Check if models are already available
-  const checkModelsExist = async () => {
-    try {
-      // Try to fetch one of the model files to see if they're already available
-      const testResponse = await fetch('/models/tiny_face_detector_model-weights_manifest.json');
-      if (testResponse.ok) {
-        setDownloadStatus('complete');
-        onComplete();
-        return true;
-      }
-      return false;
-    } catch (error) {
-      return false;
+  // Check if models are already cached in this browser
+  const checkModelsExist = async (manifest: FaceModelManifest) => {
+    if (await areFaceModelsCached(manifest)) {
+      setDownloadStatus('complete');
+      onComplete();
+      return true;
     }
+    return false;
   };
 
-  // Create models directory and download models
+  // Download, verify and cache every model file
   const downloadModels = async () => {
     setDownloadStatus('downloading');
     setErrorMessage(null);
 
     try {
+      const manifest = await fetchModelManifest();
+      if (!manifest) {
+        setDownloadStatus('error');
+        setErrorMessage('Could not load the model list from the server.');
+        return;
+      }
+
       // Check if models already exist
-      const modelsExist = await checkModelsExist();
+      const modelsExist = await checkModelsExist(manifest);
       if (modelsExist) return;
 
-      // In a real app, this would involve downloading the models
-      // For now, we'll just inform the user to download them manually
-      
-      // Simulating a download process
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      // Cannot download models this way due to security restrictions
-      // Inform user instead
+      // Files come from this server if they were installed here, otherwise from the mirror
+      if (await downloadFaceModels(manifest, setProgress)) {
+        setDownloadStatus('complete');
+        return;
+      }
+
       setDownloadStatus('error');
-      setErrorMessage(
-        'Due to browser security restrictions, models cannot be downloaded automatically. ' +
-        'Please download the models manually and place them in the public/models directory.'
-      );
+      setErrorMessage('Some models could not be downloaded or failed their integrity check.');
     } catch (error) {
       setDownloadStatus('error');
-      setErrorMessage('Failed to download models. Please try again or download manually.');
+      setErrorMessage('Failed to download models. Please try again or install them manually.');
     }
   };
 
@@ -91,17 +113,19 @@ const FaceModelDownloader: React.FC<FaceModelDownloaderProps> = ({ onComplete })
       
       {downloadStatus === 'downloading' && (
         <div>
-          <p className="mb-4">Downloading models...</p>
-          <div className="w-full h-2 bg-gray-200 rounded">
-            <div className="w-1/2 h-full bg-blue-500 rounded animate-pulse"></div>
-          </div>
+          <p className="mb-4">Downloading and verifying models...</p>
+          <ul className="space-y-2">
+            {progress.map(file => (
+              <ModelFileRow key={file.name} file={file} />
+            ))}
+          </ul>
         </div>
       )}
       
       {downloadStatus === 'complete' && (
         <div>
           <p className="flex items-center gap-2 text-green-600 mb-4">
-            <FaCheck /> Models downloaded successfully!
+            <FaCheck /> Models downloaded, verified and saved in this browser!
           </p>
           <button
             onClick={onComplete}
@@ -117,17 +141,25 @@ const FaceModelDownloader: React.FC<FaceModelDownloaderProps> = ({ onComplete })
           <p className="flex items-center gap-2 text-red-600 mb-2">
             <FaFrown /> {errorMessage}
           </p>
+          {progress.length > 0 && (
+            <ul className="space-y-2">
+              {progress.map(file => (
+                <ModelFileRow key={file.name} file={file} />
+              ))}
+            </ul>
+          )}
           <div className="mt-4 bg-gray-100 p-4 rounded-lg">
-            <h3 className="font-bold mb-2">Manual Download Instructions:</h3>
+            <h3 className="font-bold mb-2">Manual Install Instructions:</h3>
             <ol className="list-decimal pl-5 space-y-1">
-              <li>Download the following files from <a href={modelSourceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">GitHub</a>:</li>
-              <ul className="list-disc pl-5 space-y-1 my-2">
-                {requiredModels.map(model => (
-                  <li key={model}>{model}</li>
-                ))}
-              </ul>
-              <li>Create a folder named 'models' in the 'public' directory of this project</li>
-              <li>Place the downloaded files in the 'public/models' folder</li>
+              <li>
+                Download the model files from{' '}
+                <a href={modelSourceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">GitHub</a>,
+                or use a mirror directory or archive that contains them
+              </li>
+              <li>
+                Run <code>npm run models:install -- --from path/to/models</code> in the game directory.
+                It checks every file against the pinned hashes before copying it into public/models
+              </li>
               <li>Refresh this page</li>
             </ol>
           </div>
@@ -138,12 +170,6 @@ const FaceModelDownloader: React.FC<FaceModelDownloaderProps> = ({ onComplete })
             >
               Try Again
             </button>
-            <button
-              onClick={checkModelsExist}
-              className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600"
-            >
-              Check Again
-            </button>
           </div>
         </div>
       )}
@@ -36,22 +36,40 @@ jest.mock('./ScoreBoard', () => {
   ));
 });
 
+// Mock MicCalibration component
+jest.mock('./MicCalibration', () => {
+  return jest.fn(() => <div data-testid="mock-mic-calibration" />);
+});
+
+// Mock FaceCalibration component
+jest.mock('./FaceCalibration', () => {
+  return jest.fn(() => <div data-testid="mock-face-calibration" />);
+});
+
+// Mock theme loading so the game shows instead of the loading screen
+jest.mock('../render/assets', () => ({
+  preloadTheme: jest.fn(() => Promise.resolve(jest.requireActual('../render/theme').DEFAULT_THEME)),
+}));
+
 // Mock audio utilities
 jest.mock('../utils/audioUtils', () => ({
   initAudio: jest.fn().mockResolvedValue(true),
   cleanupAudio: jest.fn(),
+  loadMicCalibration: jest.fn(),
 }));
 
 // Mock face detection utilities
 jest.mock('../utils/faceUtils', () => ({
   initFaceDetection: jest.fn().mockResolvedValue(true),
   cleanupFaceDetection: jest.fn(),
+  loadFaceBaseline: jest.fn(),
 }));
 
 // Mock localStorage
 const mockLocalStorage = {
   getItem: jest.fn(),
   setItem: jest.fn(),
+  removeItem: jest.fn(),
 };
 Object.defineProperty(window, 'localStorage', { value: mockLocalStorage });
 
@@ -71,10 +89,10 @@ describe('Game', () => {
     mockLocalStorage.getItem.mockReturnValue('100'); // Mock high score
   });
   
-  it('renders game engine with correct dimensions', () => {
+  it('renders game engine with correct dimensions', async () => {
     render(<Game />);
     
-    const gameEngine = screen.getByTestId('mock-game-engine');
+    const gameEngine = await screen.findByTestId('mock-game-engine');
     expect(gameEngine).toBeInTheDocument();
   });
   
@@ -100,6 +118,7 @@ describe('Game', () => {
     
     // Check if settings panel is shown
     expect(screen.getByText('Settings')).toBeInTheDocument();
+    expect(screen.getByTestId('mock-mic-calibration')).toBeInTheDocument();
     expect(screen.getByText('Game Width')).toBeInTheDocument();
     expect(screen.getByText('Game Height')).toBeInTheDocument();
   });
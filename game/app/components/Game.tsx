@@ -2,12 +2,79 @@
  * Game - Main game component that manages game state and renders the game engine
  */
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import GameEngine from './GameEngine';
 import FaceModelDownloader from './FaceModelDownloader';
 import ScoreBoard from './ScoreBoard';
-import { FaMedal, FaMicrophone, FaCamera, FaCog, FaSmile, FaTrophy } from 'react-icons/fa';
-import { initFaceDetection, cleanupFaceDetection } from '../utils/faceUtils';
+import MicCalibration from './MicCalibration';
+import FaceCalibration from './FaceCalibration';
+import LoadingScreen from './LoadingScreen';
+import LevelSelect from './LevelSelect';
+import { FaMedal, FaMicrophone, FaCamera, FaCog, FaSmile, FaTrophy, FaPlay, FaStop } from 'react-icons/fa';
+import { initFaceDetection, cleanupFaceDetection, loadFaceBaseline } from '../utils/faceUtils';
+import { loadMicCalibration, ControlMode } from '../utils/audioUtils';
+import { EventChannel, GameEvents } from '../engine/events';
+import { ABILITY_IDS } from '../engine/abilities';
+import {
+  FaceAction,
+  FaceBindings,
+  FaceTrigger,
+  FACE_ACTIONS,
+  FACE_TRIGGERS,
+  FACE_TRIGGER_LABELS,
+  DEFAULT_FACE_BINDINGS,
+  parseFaceBindings,
+} from '../utils/expressionDetection';
+import { InputSourceId, INPUT_SOURCE_IDS, DEFAULT_INPUT_SOURCES, parseInputSourceIds } from '../input/InputSource';
+import { getDailySeed } from '../engine/random';
+import { RunLog } from '../engine/replay';
+import { Level } from '../engine/levels';
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_PRESETS,
+  DIFFICULTY_PRESET_IDS,
+  DifficultyPresetId,
+  RANKED_DIFFICULTY,
+} from '../engine/difficulty';
+import {
+  LevelRecords,
+  LevelSummary,
+  loadLevel,
+  loadLevelList,
+  loadLevelRecords,
+  recordLevelResult,
+  saveLevelRecords,
+} from '../utils/levelStore';
+import { BestRuns, loadBestRuns, recordBestRun, saveBestRuns } from '../utils/bestRuns';
+import { RendererKind } from '../render/Renderer';
+import { DEFAULT_THEME, THEME_IDS, THEME_LABELS, Theme, ThemeId, parseThemeId } from '../render/theme';
+import { LoadProgress, preloadTheme } from '../render/assets';
+
+// Settings labels for each input source
+const INPUT_SOURCE_LABELS: Record<InputSourceId, string> = {
+  microphone: 'Microphone',
+  keyboard: 'Keyboard (hold Space, W or Up)',
+  pointer: 'Mouse / touch (press on the game)',
+  gamepad: 'Gamepad (hold A)',
+  face: 'Face (needs Face Controls)',
+};
+
+// Settings labels for the actions face expressions can trigger
+const FACE_ACTION_LABELS: Record<FaceAction, string> = {
+  shield: 'Shield',
+  slowMotion: 'Slow motion',
+  jump: 'Jump (with the Face jump control)',
+};
+
+// How to Play lines for each face action
+const FACE_ACTION_INSTRUCTIONS: Record<FaceAction, string> = {
+  shield: 'to raise a shield that lets obstacles pass through you',
+  slowMotion: 'to slow the game down for a few seconds',
+  jump: 'to jump',
+};
+
+// Generated endless courses, or hand-authored levels
+type GameMode = 'endless' | 'levels';
 
 interface GameProps {
   enableFaceControls?: boolean;
@@ -27,9 +94,33 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
   const [faceModelsLoaded, setFaceModelsLoaded] = useState<boolean>(false);
   const [lastSmileTime, setLastSmileTime] = useState<number>(0);
   const [isSmiling, setIsSmiling] = useState<boolean>(false);
+  const [dailyChallenge, setDailyChallenge] = useState<boolean>(false);
+  const [bestRuns, setBestRuns] = useState<BestRuns>({});
+  const [watchingReplay, setWatchingReplay] = useState<boolean>(false);
+  const [controlMode, setControlMode] = useState<ControlMode>('loudness');
+  const [inputSources, setInputSources] = useState<InputSourceId[]>(DEFAULT_INPUT_SOURCES);
+  const [faceBindings, setFaceBindings] = useState<FaceBindings>(DEFAULT_FACE_BINDINGS);
+  const [rendererKind, setRendererKind] = useState<RendererKind>('canvas2d');
+  const [difficulty, setDifficulty] = useState<DifficultyPresetId>(DEFAULT_DIFFICULTY);
+  const [showDifficulty, setShowDifficulty] = useState<boolean>(false);
+  const [themeId, setThemeId] = useState<ThemeId>('day');
+  // Null until the first theme has loaded; switching keeps the old theme until the new one is ready
+  const [theme, setTheme] = useState<Theme | null>(null);
+  const [themeProgress, setThemeProgress] = useState<LoadProgress | null>(null);
+  const [gameMode, setGameMode] = useState<GameMode>('endless');
+  const [levels, setLevels] = useState<LevelSummary[] | null>(null);
+  const [levelId, setLevelId] = useState<string | null>(null);
+  const [level, setLevel] = useState<Level | null>(null);
+  const [levelError, setLevelError] = useState<string | null>(null);
+  const [levelRecords, setLevelRecords] = useState<LevelRecords>({});
 
   // Video element for face detection
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  // Routes face expressions into the game engine
+  const gameEventsRef = useRef(new EventChannel<GameEvents>());
+  // Latest bindings for the face detection callback, which outlives renders
+  const faceBindingsRef = useRef<FaceBindings>(DEFAULT_FACE_BINDINGS);
+  faceBindingsRef.current = faceBindings;
 
   // Load high score from localStorage on mount
   useEffect(() => {
@@ -38,6 +129,61 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
       setHighScore(parseInt(savedHighScore, 10));
     }
 
+    // Restore the microphone levels from the last calibration
+    loadMicCalibration();
+
+    // Restore the preferred control mode
+    const savedControlMode = localStorage.getItem('flappyBirdControlMode');
+    if (savedControlMode === 'loudness' || savedControlMode === 'pitch') {
+      setControlMode(savedControlMode);
+    }
+
+    // Restore the graphics backend
+    const savedRenderer = localStorage.getItem('flappyBirdRenderer');
+    if (savedRenderer === 'canvas2d' || savedRenderer === 'webgl') {
+      setRendererKind(savedRenderer);
+    }
+
+    // Restore the difficulty preset and the debug overlay
+    const savedDifficulty = localStorage.getItem('flappyBirdDifficulty');
+    if (DIFFICULTY_PRESET_IDS.includes(savedDifficulty as DifficultyPresetId)) {
+      setDifficulty(savedDifficulty as DifficultyPresetId);
+    }
+    setShowDifficulty(localStorage.getItem('flappyBirdDifficultyOverlay') === 'true');
+
+    // Restore the theme
+    setThemeId(parseThemeId(localStorage.getItem('flappyBirdTheme')));
+
+    // Restore the best score and completion of each level
+    setLevelRecords(loadLevelRecords());
+
+    // Restore the chosen input sources
+    const savedInputSources = localStorage.getItem('flappyBirdInputSources');
+    if (savedInputSources) {
+      try {
+        const sources = parseInputSourceIds(JSON.parse(savedInputSources));
+        if (sources.length > 0) {
+          setInputSources(sources);
+        }
+      } catch (err) {
+        localStorage.removeItem('flappyBirdInputSources');
+      }
+    }
+
+    // Restore the face expression bindings and neutral face
+    const savedFaceBindings = localStorage.getItem('flappyBirdFaceBindings');
+    if (savedFaceBindings) {
+      try {
+        setFaceBindings(parseFaceBindings(JSON.parse(savedFaceBindings)));
+      } catch (err) {
+        localStorage.removeItem('flappyBirdFaceBindings');
+      }
+    }
+    loadFaceBaseline();
+
+    // Load the recorded best run of each preset
+    setBestRuns(loadBestRuns());
+
     // Adjust game size for responsive design
     const handleResize = () => {
       const maxWidth = Math.min(window.innerWidth - 40, 1000);
@@ -68,6 +214,30 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
     }
   };
 
+  // Keep each level's best score and whether it was finished
+  const handleLevelEnd = (finalScore: number, completed: boolean) => {
+    if (!level) {
+      return;
+    }
+    const records = recordLevelResult(levelRecords, level.id, finalScore, completed);
+    setLevelRecords(records);
+    saveLevelRecords(records);
+  };
+
+  // Keep the recording of the best run on each preset for replays and submission
+  const handleRunRecorded = (log: RunLog) => {
+    const runs = recordBestRun(bestRuns, log);
+    if (runs !== bestRuns) {
+      setBestRuns(runs);
+      saveBestRuns(runs);
+    }
+  };
+
+  // Pass level music cues on to whatever listens for them; stable so a cue doesn't restart the run
+  const handleMusicCue = useCallback((cue: string) => {
+    gameEventsRef.current.emit('musicCue', { cue });
+  }, []);
+
   // Check microphone permission
   const checkMicPermission = async () => {
     try {
@@ -114,10 +284,10 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
     }
   };
 
-  // Handle smile detection
-  const handleSmileDetected = () => {
+  // Handle expression detection (throttled in faceUtils)
+  const handleFaceExpression = (trigger: FaceTrigger) => {
     // Throttle smile detection
-    if (Date.now() - lastSmileTime > 1000) {
+    if (trigger === 'smile' && Date.now() - lastSmileTime > 1000) {
       setLastSmileTime(Date.now());
       setIsSmiling(true);
       
@@ -125,16 +295,18 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
       setTimeout(() => {
         setIsSmiling(false);
       }, 2000);
-      
-      // Any game effects when smiling could be triggered here
-      console.log('Smile detected!');
     }
+
+    // Jumps are polled by the face input source
+    ABILITY_IDS.filter(ability => faceBindingsRef.current[ability] === trigger).forEach(ability => {
+      gameEventsRef.current.emit('abilityRequested', { ability, trigger });
+    });
   };
 
   // Initialize face detection
   useEffect(() => {
     if (faceControlsEnabled && cameraPermission && faceModelsLoaded && videoRef.current) {
-      initFaceDetection(videoRef.current, handleSmileDetected);
+      initFaceDetection(videoRef.current, handleFaceExpression);
     }
     
     return () => {
@@ -162,12 +334,146 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
     }
   };
 
+  // Preload the theme's assets
+  useEffect(() => {
+    let cancelled = false;
+
+    preloadTheme(themeId, progress => {
+      if (!cancelled) {
+        setThemeProgress(progress);
+      }
+    })
+      .then(loaded => {
+        if (!cancelled) {
+          setTheme(loaded);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading theme:', error);
+        // Play in the original colors rather than not at all
+        if (!cancelled) {
+          setTheme(current => current ?? DEFAULT_THEME);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [themeId]);
+
+  // Load the level list the first time Levels mode is opened, starting on the first level
+  useEffect(() => {
+    if (gameMode !== 'levels' || levels) {
+      return;
+    }
+    let cancelled = false;
+
+    loadLevelList()
+      .then(list => {
+        if (!cancelled) {
+          setLevels(list);
+          setLevelId(current => current ?? list[0]?.id ?? null);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading levels:', error);
+        if (!cancelled) {
+          setLevelError('Levels could not be loaded. Try again later.');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameMode, levels]);
+
+  // Load the selected level
+  useEffect(() => {
+    if (!levelId) {
+      return;
+    }
+    let cancelled = false;
+    setLevel(null);
+    setLevelError(null);
+
+    loadLevel(levelId)
+      .then(loaded => {
+        if (!cancelled) {
+          setLevel(loaded);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading level:', error);
+        if (!cancelled) {
+          setLevelError('This level could not be loaded.');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [levelId]);
+
+  // Switch between endless runs and levels; replays are of endless runs only
+  const handleGameModeChange = (mode: GameMode) => {
+    setGameMode(mode);
+    setWatchingReplay(false);
+  };
+
   // Handle face model download completion
   const handleFaceModelsLoaded = () => {
     setFaceModelsLoaded(true);
     setShowFaceModelDownloader(false);
   };
 
+  // Switch between loudness and pitch controls
+  const handleControlModeChange = (mode: ControlMode) => {
+    setControlMode(mode);
+    localStorage.setItem('flappyBirdControlMode', mode);
+  };
+
+  // Switch between the Canvas 2D and WebGL renderers
+  const handleRendererChange = (kind: RendererKind) => {
+    setRendererKind(kind);
+    localStorage.setItem('flappyBirdRenderer', kind);
+  };
+
+  // Pick how quickly endless courses get harder
+  const handleDifficultyChange = (preset: DifficultyPresetId) => {
+    setDifficulty(preset);
+    localStorage.setItem('flappyBirdDifficulty', preset);
+  };
+
+  const toggleDifficultyOverlay = () => {
+    setShowDifficulty(!showDifficulty);
+    localStorage.setItem('flappyBirdDifficultyOverlay', String(!showDifficulty));
+  };
+
+  // Switch themes; the new one shows once its assets have loaded
+  const handleThemeChange = (id: ThemeId) => {
+    setThemeId(id);
+    localStorage.setItem('flappyBirdTheme', id);
+  };
+
+  // Turn an input source on or off, keeping at least one
+  const toggleInputSource = (id: InputSourceId) => {
+    const selected = inputSources.includes(id)
+      ? inputSources.filter(source => source !== id)
+      : INPUT_SOURCE_IDS.filter(source => source === id || inputSources.includes(source));
+
+    if (selected.length > 0) {
+      setInputSources(selected);
+      localStorage.setItem('flappyBirdInputSources', JSON.stringify(selected));
+    }
+  };
+
+  // Choose the expression for a face action, or none
+  const handleFaceBindingChange = (action: FaceAction, trigger: FaceTrigger | null) => {
+    const bindings = { ...faceBindings, [action]: trigger };
+    setFaceBindings(bindings);
+    localStorage.setItem('flappyBirdFaceBindings', JSON.stringify(bindings));
+  };
+
   // Toggle settings panel
   const toggleSettings = () => {
     setShowSettings(!showSettings);
@@ -184,6 +490,10 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
     }
   };
 
+  // The daily challenge is always played on the default preset
+  const runDifficulty = dailyChallenge ? DEFAULT_DIFFICULTY : difficulty;
+  const bestRun = bestRuns[runDifficulty] ?? null;
+
   return (
     <div className="flex flex-col items-center justify-center w-full min-h-screen bg-gradient-to-b from-sky-400 to-sky-200 p-5">
       <div className="flex flex-col w-full max-w-4xl gap-4">
@@ -246,6 +556,15 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
               <FaTrophy className="text-amber-500" />
               <span>High Score: {highScore}</span>
             </button>
+            {bestRun && gameMode === 'endless' && (
+              <button
+                onClick={() => setWatchingReplay(!watchingReplay)}
+                className="flex items-center gap-1 px-3 py-1 bg-sky-100 text-sky-800 rounded hover:bg-sky-200"
+              >
+                {watchingReplay ? <FaStop /> : <FaPlay />}
+                <span>{watchingReplay ? 'Exit Replay' : 'Watch Best Run'}</span>
+              </button>
+            )}
             <button 
               onClick={toggleSettings}
               className="p-2 text-gray-600 rounded-full hover:bg-gray-200"
@@ -284,6 +603,143 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
                 />
                 <span>{gameHeight}px</span>
               </div>
+              <div className="col-span-full">
+                <label className="block mb-2 text-gray-700">Graphics</label>
+                <div className="flex gap-4">
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="rendererKind"
+                      checked={rendererKind === 'canvas2d'}
+                      onChange={() => handleRendererChange('canvas2d')}
+                    />
+                    <span>Canvas 2D</span>
+                  </label>
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="rendererKind"
+                      checked={rendererKind === 'webgl'}
+                      onChange={() => handleRendererChange('webgl')}
+                    />
+                    <span>WebGL</span>
+                  </label>
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  WebGL draws on the GPU; browsers without it use Canvas 2D.
+                </p>
+              </div>
+              <div className="col-span-full">
+                <label className="block mb-2 text-gray-700">Theme</label>
+                <div className="flex gap-4">
+                  {THEME_IDS.map(id => (
+                    <label key={id} className="flex items-center space-x-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="theme"
+                        checked={themeId === id}
+                        onChange={() => handleThemeChange(id)}
+                      />
+                      <span>{THEME_LABELS[id]}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="col-span-full">
+                <label className="block mb-2 text-gray-700">Difficulty</label>
+                <div className="flex gap-4">
+                  {DIFFICULTY_PRESET_IDS.map(id => (
+                    <label key={id} className="flex items-center space-x-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="difficulty"
+                        checked={difficulty === id}
+                        onChange={() => handleDifficultyChange(id)}
+                      />
+                      <span>{DIFFICULTY_PRESETS[id].name}</span>
+                    </label>
+                  ))}
+                </div>
+                <label className="flex items-center space-x-2 cursor-pointer mt-2">
+                  <input
+                    type="checkbox"
+                    checked={showDifficulty}
+                    onChange={toggleDifficultyOverlay}
+                    className="form-checkbox rounded text-blue-500"
+                  />
+                  <span>Show difficulty overlay</span>
+                </label>
+                <p className="text-sm text-gray-600 mt-1">
+                  How quickly endless runs get faster and busier. The overlay shows the current speed, spawn rate,
+                  gap and obstacle chances.
+                </p>
+              </div>
+              <div className="col-span-full">
+                <label className="block mb-2 text-gray-700">Jump Controls</label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {INPUT_SOURCE_IDS.map(id => (
+                    <label key={id} className="flex items-center space-x-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={inputSources.includes(id)}
+                        onChange={() => toggleInputSource(id)}
+                        className="form-checkbox rounded text-blue-500"
+                      />
+                      <span>{INPUT_SOURCE_LABELS[id]}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  Combine as many as you like. Hold a key, button or press longer to jump higher.
+                </p>
+              </div>
+              <div className="col-span-full">
+                <label className="block mb-2 text-gray-700">Microphone Controls</label>
+                <div className="flex gap-4">
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="controlMode"
+                      checked={controlMode === 'loudness'}
+                      onChange={() => handleControlModeChange('loudness')}
+                    />
+                    <span>Loudness</span>
+                  </label>
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="controlMode"
+                      checked={controlMode === 'pitch'}
+                      onChange={() => handleControlModeChange('pitch')}
+                    />
+                    <span>Pitch</span>
+                  </label>
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  {controlMode === 'pitch'
+                    ? 'Hum higher to rise and lower to descend. Stop humming to fall.'
+                    : 'Make noise to jump; louder noises jump higher.'}
+                </p>
+              </div>
+              <div className="col-span-full">
+                <MicCalibration />
+              </div>
+              <div className="col-span-full">
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={dailyChallenge}
+                    onChange={() => setDailyChallenge(!dailyChallenge)}
+                    className="form-checkbox rounded text-blue-500"
+                  />
+                  <span>Daily Challenge</span>
+                </label>
+                {dailyChallenge && (
+                  <p className="text-sm text-gray-600 mt-1">
+                    Everyone gets the same course today, on Normal difficulty
+                  </p>
+                )}
+              </div>
               <div className="col-span-full">
                 <label className="flex items-center space-x-2 cursor-pointer">
                   <input
@@ -296,10 +752,37 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
                 </label>
                 {faceControlsEnabled && (
                   <p className="text-sm text-gray-600 mt-1">
-                    When enabled, you can smile to activate special abilities
+                    Shield and slow motion last 3 seconds. Cooldowns show under the score.
                   </p>
                 )}
               </div>
+              {faceControlsEnabled && (
+                <div className="col-span-full">
+                  <label className="block mb-2 text-gray-700">Face Expressions</label>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    {FACE_ACTIONS.map(action => (
+                      <label key={action} className="flex flex-col text-sm">
+                        <span>{FACE_ACTION_LABELS[action]}</span>
+                        <select
+                          value={faceBindings[action] ?? ''}
+                          onChange={e => handleFaceBindingChange(action, (e.target.value || null) as FaceTrigger | null)}
+                          className="p-1 border rounded"
+                        >
+                          <option value="">Off</option>
+                          {FACE_TRIGGERS.map(trigger => (
+                            <option key={trigger} value={trigger}>{FACE_TRIGGER_LABELS[trigger]}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {faceControlsEnabled && (
+                <div className="col-span-full">
+                  <FaceCalibration />
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -309,6 +792,7 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
           <div className="w-full">
             <ScoreBoard 
               localHighScore={highScore} 
+              bestRun={bestRuns[RANKED_DIFFICULTY] ?? null}
               onClose={() => setShowScoreBoard(false)} 
             />
           </div>
@@ -321,15 +805,64 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
           </div>
         )}
         
+        {/* Game Mode */}
+        <div className="w-full p-4 bg-white/80 rounded-lg shadow-lg">
+          <div className="flex gap-2" role="group" aria-label="Game mode">
+            {(['endless', 'levels'] as GameMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => handleGameModeChange(mode)}
+                aria-pressed={gameMode === mode}
+                className={`px-4 py-1 rounded ${
+                  gameMode === mode ? 'bg-sky-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {mode === 'endless' ? 'Endless' : 'Levels'}
+              </button>
+            ))}
+          </div>
+          {gameMode === 'levels' && (
+            <div className="mt-3">
+              <LevelSelect
+                levels={levels}
+                records={levelRecords}
+                selectedId={levelId}
+                error={levelError}
+                onSelect={setLevelId}
+              />
+            </div>
+          )}
+        </div>
+
         {/* Game Container */}
         <div className="w-full flex justify-center">
           <div className="p-2 bg-white rounded-lg shadow-xl">
-            <GameEngine 
-              width={gameWidth} 
-              height={gameHeight} 
-              onScoreChange={handleScoreChange}
-              onGameOver={handleGameOver}
-            />
+            {theme && (gameMode === 'endless' || level) ? (
+              <GameEngine 
+                key={watchingReplay ? 'replay' : gameMode === 'levels' && level ? `level-${level.id}` : 'live'}
+                width={gameWidth} 
+                height={gameHeight} 
+                seed={dailyChallenge ? getDailySeed() : undefined}
+                replay={watchingReplay && bestRun ? bestRun : undefined}
+                level={gameMode === 'levels' && level ? level : undefined}
+                levelBest={level ? levelRecords[level.id]?.best : undefined}
+                difficulty={runDifficulty}
+                showDifficulty={showDifficulty}
+                controlMode={controlMode}
+                inputSources={inputSources}
+                faceJumpTrigger={faceBindings.jump}
+                events={faceControlsEnabled ? gameEventsRef.current : undefined}
+                rendererKind={rendererKind}
+                theme={theme}
+                onScoreChange={handleScoreChange}
+                onGameOver={handleGameOver}
+                onRunRecorded={handleRunRecorded}
+                onLevelEnd={handleLevelEnd}
+                onMusicCue={handleMusicCue}
+              />
+            ) : (
+              <LoadingScreen width={gameWidth} height={gameHeight} progress={themeProgress} />
+            )}
           </div>
         </div>
         
@@ -349,13 +882,35 @@ const Game: React.FC<GameProps> = ({ enableFaceControls = false }) => {
         <div className="w-full p-4 bg-white/80 rounded-lg shadow-lg">
           <h2 className="text-xl font-bold mb-2">How to Play</h2>
           <ul className="list-disc pl-5 space-y-1">
-            <li>Make noise into your microphone to make the bird jump</li>
-            <li>Louder noises make the bird jump higher</li>
+            {inputSources.includes('microphone') && (controlMode === 'pitch' ? (
+              <li>Hum into your microphone: higher notes make the bird rise, lower notes make it descend</li>
+            ) : (
+              <>
+                <li>Make noise into your microphone to make the bird jump</li>
+                <li>Louder noises make the bird jump higher</li>
+              </>
+            ))}
+            {inputSources.includes('keyboard') && (
+              <li>Hold Space, W or the Up arrow to jump; hold longer to jump higher</li>
+            )}
+            {inputSources.includes('pointer') && (
+              <li>Press and hold on the game with a mouse or finger to jump</li>
+            )}
+            {inputSources.includes('gamepad') && (
+              <li>Hold the A button on a gamepad to jump</li>
+            )}
+            {inputSources.includes('face') && faceBindings.jump && (
+              <li>{FACE_TRIGGER_LABELS[faceBindings.jump]} {FACE_ACTION_INSTRUCTIONS.jump} (needs Face Controls)</li>
+            )}
             <li>Avoid obstacles and survive as long as possible</li>
+            {gameMode === 'levels' && <li>Reach the end of the level to complete it</li>}
             <li>Press Space or Click to start/restart the game</li>
-            {faceControlsEnabled && (
-              <li>Smile to activate special abilities (experimental)</li>
-            )}
+            {faceControlsEnabled && ABILITY_IDS.map(ability => {
+              const trigger = faceBindings[ability];
+              return trigger && (
+                <li key={ability}>{FACE_TRIGGER_LABELS[trigger]} {FACE_ACTION_INSTRUCTIONS[ability]}</li>
+              );
+            })}
           </ul>
         </div>
       </div>
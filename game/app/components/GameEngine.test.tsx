@@ -24,8 +24,7 @@ jest.mock('./ObstacleManager', () => {
 // Mock audio utilities
 jest.mock('../utils/audioUtils', () => ({
   initAudio: jest.fn().mockResolvedValue(true),
-  getJumpPower: jest.fn().mockReturnValue(0.8),
-  shouldJump: jest.fn().mockReturnValue(false),
+  getJumpOnset: jest.fn().mockReturnValue(null),
   cleanupAudio: jest.fn(),
   audioManager: {
     isInitialized: false,
@@ -184,7 +183,7 @@ describe('GameEngine', () => {
     jest.spyOn(React, 'useRef').mockReturnValueOnce(playerRef);
     
     // Simulate jump
-    (audioUtils.shouldJump as jest.Mock).mockReturnValue(true);
+    (audioUtils.getJumpOnset as jest.Mock).mockReturnValue({ time: 0, peak: 0.9, power: 0.8 });
     
     // Advance time to update physics
     act(() => {
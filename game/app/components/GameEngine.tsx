@@ -1,79 +1,129 @@
 /**
- * GameEngine - Core game loop, physics, and rendering
+ * GameEngine - Drives GameSimulation from the animation loop and draws it with the selected renderer
  */
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { initAudio, getJumpPower, shouldJump, cleanupAudio } from '../utils/audioUtils';
-import ObstacleManager, { Obstacle, ObstacleType } from './ObstacleManager';
-
-// Game configuration constants
-const GRAVITY = 0.5;
-const MAX_JUMP_VELOCITY = -15;
-const GROUND_HEIGHT = 50;
-const PLAYER_WIDTH = 40;
-const PLAYER_HEIGHT = 40;
-const INITIAL_GAME_SPEED = 5;
-
-// Game states
-enum GameState {
-  MENU,
-  PLAYING,
-  GAME_OVER,
-  PAUSED
-}
+import { audioManager, ControlMode } from '../utils/audioUtils';
+import { InputController, createInputSources } from '../input/InputController';
+import { InputSourceId, DEFAULT_INPUT_SOURCES, parseInputSourceIds } from '../input/InputSource';
+import { GameSimulation, GameState, SimulationInput, NO_INPUT } from '../engine/GameSimulation';
+import { FixedStepLoop } from '../engine/FixedStepLoop';
+import { RunLog, RunPlayer, RunRecorder, createReplaySimulation, quantizeInput } from '../engine/replay';
+import { Level, cuesBetween } from '../engine/levels';
+import { AbilityId, isAbilityReady } from '../engine/abilities';
+import { DEFAULT_DIFFICULTY, DifficultyPresetId } from '../engine/difficulty';
+import { GameEventChannel } from '../engine/events';
+import { FaceTrigger } from '../utils/expressionDetection';
+import { Renderer, RendererKind, createSceneFrame } from '../render/Renderer';
+import { createRenderer } from '../render/createRenderer';
+import { DEFAULT_THEME, Theme } from '../render/theme';
+import { PlayerAnimator } from '../render/animation';
 
 interface GameEngineProps {
   width: number;
   height: number;
+  seed?: number; // Course seed; every run gets a fresh random course when omitted
+  replay?: RunLog; // Play back a recorded run instead of reading live input
+  level?: Level; // Play a hand-authored level instead of a generated course
+  levelBest?: number; // Best score on the level, shown instead of the high score
+  difficulty?: DifficultyPresetId; // How generated courses ramp up; replays and levels bring their own
+  showDifficulty?: boolean; // Draw the current course parameters over the game
+  controlMode?: ControlMode; // Jump on loudness (default) or steer with hummed pitch
+  inputSources?: InputSourceId[]; // Devices that make the bird jump during live runs
+  faceJumpTrigger?: FaceTrigger | null; // Expression that jumps when the face source is selected
+  events?: GameEventChannel; // Ability requests from the face controls; abilities are off without it
+  rendererKind?: RendererKind; // Drawing backend; falls back to Canvas 2D without WebGL
+  theme?: Theme; // Preloaded look of the game; plain shapes in the original colors by default
   onScoreChange?: (score: number) => void;
   onGameOver?: (finalScore: number) => void;
+  onRunRecorded?: (log: RunLog) => void;
+  onLevelEnd?: (score: number, completed: boolean) => void; // Levels don't count towards the high score
+  onMusicCue?: (cue: string) => void; // The level reached a music cue
 }
 
-const GameEngine: React.FC<GameEngineProps> = ({ 
-  width, 
+const GameEngine: React.FC<GameEngineProps> = ({
+  width,
   height,
+  seed,
+  replay,
+  level,
+  levelBest = 0,
+  difficulty = DEFAULT_DIFFICULTY,
+  showDifficulty = false,
+  controlMode = 'loudness',
+  inputSources = DEFAULT_INPUT_SOURCES,
+  faceJumpTrigger,
+  events,
+  rendererKind = 'canvas2d',
+  theme = DEFAULT_THEME,
   onScoreChange,
-  onGameOver
+  onGameOver,
+  onRunRecorded,
+  onLevelEnd,
+  onMusicCue
 }) => {
   // Canvas and animation refs
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const rendererRef = useRef<Renderer | null>(null);
+  const animatorRef = useRef<PlayerAnimator>(new PlayerAnimator());
   const animationRef = useRef<number | null>(null);
   const lastTimeRef = useRef<number>(0);
 
-  // Game state
+  // Replays run on the playfield they were recorded on, and levels on the height they were laid out for
+  const boardWidth = replay ? replay.config.width : width;
+  const boardHeight = replay ? replay.config.height : level ? level.height : height;
+
+  // Simulation owning player, obstacles and score, stepped at a fixed rate
+  const simulationRef = useRef<GameSimulation>(
+    new GameSimulation({ width: boardWidth, height: boardHeight, seed, level, difficulty })
+  );
+  const loopRef = useRef<FixedStepLoop>(new FixedStepLoop());
+  // Input read on a frame without a simulation step is carried to the next step
+  const pendingInputRef = useRef<SimulationInput>(NO_INPUT);
+  // Recorder for live runs, player for replays
+  const recorderRef = useRef<RunRecorder | null>(null);
+  const replayPlayerRef = useRef<RunPlayer | null>(null);
+  // Selected input sources, running only during live runs
+  const inputRef = useRef<InputController | null>(null);
+  // Ability requested by the face controls, applied on the next step
+  const pendingAbilityRef = useRef<AbilityId | null>(null);
+
+  // Game state mirrored from the simulation for rendering and event handling
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
-  const [score, setScore] = useState<number>(0);
   const [highScore, setHighScore] = useState<number>(0);
-  const [audioInitialized, setAudioInitialized] = useState<boolean>(false);
-  
-  // Player state
-  const playerRef = useRef({
-    x: width * 0.2,
-    y: height - GROUND_HEIGHT - PLAYER_HEIGHT,
-    velocityY: 0,
-    isJumping: false,
-    jumpPower: 0,
-  });
-  
-  // Obstacles state
-  const [obstacles, setObstacles] = useState<Obstacle[]>([]);
-  
-  // Initialize audio
+
+  // Start the input sources for live runs; a stable key avoids restarting them on every render
+  const inputSourcesKey = inputSources.join(',');
   useEffect(() => {
-    const setupAudio = async () => {
-      const success = await initAudio();
-      setAudioInitialized(success);
-    };
-    
-    if (gameState === GameState.PLAYING && !audioInitialized) {
-      setupAudio();
+    const canvas = canvasRef.current;
+    if (gameState !== GameState.PLAYING || replay || !canvas) {
+      return;
     }
-    
+
+    const ids = parseInputSourceIds(inputSourcesKey.split(','));
+    const controller = new InputController(createInputSources(ids, { pointerTarget: canvas, controlMode, faceTrigger: faceJumpTrigger }));
+    inputRef.current = controller;
+    controller.start();
+
     return () => {
-      cleanupAudio();
+      controller.stop();
+      inputRef.current = null;
     };
-  }, [gameState, audioInitialized]);
-  
+  }, [gameState, replay, inputSourcesKey, controlMode, faceJumpTrigger]);
+
+  // Queue ability requests for live runs
+  useEffect(() => {
+    if (!events || replay) {
+      return;
+    }
+
+    return events.on('abilityRequested', ({ ability }) => {
+      if (simulationRef.current.state === GameState.PLAYING) {
+        pendingAbilityRef.current = ability;
+      }
+    });
+  }, [events, replay]);
+
   // Load high score from localStorage
   useEffect(() => {
     const savedHighScore = localStorage.getItem('flappyBirdHighScore');
@@ -81,324 +131,264 @@ const GameEngine: React.FC<GameEngineProps> = ({
       setHighScore(parseInt(savedHighScore, 10));
     }
   }, []);
-  
-  // Game over handler
-  const handleGameOver = useCallback(() => {
-    setGameState(GameState.GAME_OVER);
-    
+
+  // Game over or level complete handler
+  const handleGameOver = useCallback((finalScore: number) => {
+    setGameState(simulationRef.current.state);
+
+    // Replays don't count towards scores
+    if (replayPlayerRef.current) {
+      return;
+    }
+
+    if (level) {
+      onLevelEnd?.(finalScore, simulationRef.current.isLevelComplete);
+      return;
+    }
+
+    if (recorderRef.current && onRunRecorded) {
+      onRunRecorded(recorderRef.current.finish(finalScore));
+    }
+
     // Update high score if necessary
-    if (score > highScore) {
-      setHighScore(score);
-      localStorage.setItem('flappyBirdHighScore', score.toString());
+    if (finalScore > highScore) {
+      setHighScore(finalScore);
+      localStorage.setItem('flappyBirdHighScore', finalScore.toString());
     }
-    
+
     if (onGameOver) {
-      onGameOver(score);
+      onGameOver(finalScore);
     }
-  }, [score, highScore, onGameOver]);
-  
-  // Add obstacle callback
-  const handleAddObstacle = useCallback((obstacle: Obstacle) => {
-    setObstacles(prev => [...prev, obstacle]);
-  }, []);
-  
-  // Remove obstacle callback
-  const handleRemoveObstacle = useCallback((id: string) => {
-    setObstacles(prev => prev.filter(obstacle => obstacle.id !== id));
-  }, []);
-  
-  // Update obstacles callback
-  const handleUpdateObstacles = useCallback((updateFn: (obstacles: Obstacle[]) => Obstacle[]) => {
-    setObstacles(updateFn);
+  }, [highScore, level, onGameOver, onRunRecorded, onLevelEnd]);
+
+  // Start a new run or replay
+  const startGame = useCallback(() => {
+    if (replay) {
+      simulationRef.current = createReplaySimulation(replay);
+      replayPlayerRef.current = new RunPlayer(replay);
+      recorderRef.current = null;
+    } else {
+      simulationRef.current = new GameSimulation({ width: boardWidth, height: boardHeight, seed, level, difficulty });
+      simulationRef.current.start();
+      replayPlayerRef.current = null;
+      // Level runs can't be replayed from a seed, so they aren't recorded
+      recorderRef.current = level ? null : new RunRecorder(simulationRef.current.seed, { width, height, difficulty });
+    }
+    loopRef.current.reset();
+    pendingInputRef.current = NO_INPUT;
+    pendingAbilityRef.current = null;
+    animatorRef.current.reset();
+    lastTimeRef.current = 0;
+    setGameState(GameState.PLAYING);
+
+    if (level && onMusicCue) {
+      cuesBetween(level, -Infinity, 0).forEach(({ cue }) => onMusicCue(cue));
+    }
+  }, [width, height, boardWidth, boardHeight, seed, replay, level, difficulty, onMusicCue]);
+
+  // Read player input for this frame
+  const readInput = useCallback((): SimulationInput => {
+    const controller = inputRef.current;
+    if (!controller) {
+      return NO_INPUT;
+    }
+
+    // A jump that starts mid-air is dropped
+    const { jump, lift } = controller.read(performance.now());
+    if (!jump || simulationRef.current.player.isJumping) {
+      return quantizeInput({ ...NO_INPUT, lift });
+    }
+
+    return quantizeInput({ jump: true, jumpPower: jump.power, lift });
   }, []);
-  
-  // Check collision between player and obstacles
-  const checkCollision = useCallback((playerX: number, playerY: number) => {
-    const playerHitbox = {
-      left: playerX,
-      right: playerX + PLAYER_WIDTH,
-      top: playerY,
-      bottom: playerY + PLAYER_HEIGHT,
-    };
-    
-    for (const obstacle of obstacles) {
-      const obstacleHitbox = {
-        left: obstacle.x,
-        right: obstacle.x + obstacle.width,
-        top: obstacle.y,
-        bottom: obstacle.y + obstacle.height,
-      };
-      
-      // Check for collision
-      if (
-        playerHitbox.right > obstacleHitbox.left &&
-        playerHitbox.left < obstacleHitbox.right &&
-        playerHitbox.bottom > obstacleHitbox.top &&
-        playerHitbox.top < obstacleHitbox.bottom
-      ) {
-        // Special handling for variable ground
-        if (obstacle.type === ObstacleType.VARIABLE_GROUND) {
-          // Adjust player to stand on variable ground
-          playerRef.current.y = obstacleHitbox.top - PLAYER_HEIGHT;
-          playerRef.current.velocityY = 0;
-          playerRef.current.isJumping = false;
-          return false; // Not a collision
-        }
-        
-        // Special handling for collapsing bridge
-        if (obstacle.type === ObstacleType.COLLAPSING_BRIDGE && obstacle.integrity && obstacle.integrity > 0) {
-          // Player is on the bridge but it hasn't collapsed yet
-          if (playerHitbox.bottom <= obstacleHitbox.top + 5) {
-            playerRef.current.y = obstacleHitbox.top - PLAYER_HEIGHT;
-            playerRef.current.velocityY = 0;
-            playerRef.current.isJumping = false;
-            
-            // Decrease bridge integrity when player is on it
-            setObstacles(prev => prev.map(o => {
-              if (o.id === obstacle.id && o.integrity) {
-                return { ...o, integrity: o.integrity - 1 };
-              }
-              return o;
-            }));
-            
-            return false;
-          }
-        }
-        
-        // Collision with hazard
-        return true;
+
+  // Advance the simulation by one fixed step with live or recorded input
+  const stepSimulation = useCallback((dt: number) => {
+    const simulation = simulationRef.current;
+    const replayPlayer = replayPlayerRef.current;
+
+    // Remaining steps of a frame after game over must not be recorded
+    if (simulation.state !== GameState.PLAYING) {
+      return;
+    }
+
+    if (replayPlayer) {
+      simulation.step(dt, replayPlayer.inputForTick(simulation.tick + 1));
+      if (simulation.tick >= replayPlayer.log.ticks) {
+        simulation.end();
       }
+      return;
     }
-    
-    return false;
-  }, [obstacles]);
-  
-  // Reset game state
-  const resetGame = useCallback(() => {
-    playerRef.current = {
-      x: width * 0.2,
-      y: height - GROUND_HEIGHT - PLAYER_HEIGHT,
-      velocityY: 0,
-      isJumping: false,
-      jumpPower: 0,
+
+    // Only activations the simulation will accept are recorded
+    const ability = pendingAbilityRef.current;
+    pendingAbilityRef.current = null;
+    const input = ability && isAbilityReady(simulation.abilities[ability])
+      ? { ...pendingInputRef.current, ability }
+      : pendingInputRef.current;
+
+    recorderRef.current?.recordStep(input, audioManager.lastIntensity);
+    simulation.step(dt, input);
+    // A jump applies to one step; pitch steering holds for the rest of the frame
+    pendingInputRef.current = { ...NO_INPUT, lift: pendingInputRef.current.lift };
+  }, []);
+
+  // Draw the current simulation state
+  const render = useCallback((alpha: number = 1) => {
+    const simulation = simulationRef.current;
+    const showAbilities = replay ? Boolean(replay.abilities) : Boolean(events);
+    const playerAnimation = animatorRef.current.update(simulation.state, simulation.player, performance.now() / 1000);
+    rendererRef.current?.render(
+      createSceneFrame(simulation, alpha, {
+        highScore: level ? levelBest : highScore,
+        isReplay: Boolean(replay),
+        showAbilities,
+        showDifficulty,
+        theme,
+        playerAnimation,
+      })
+    );
+  }, [highScore, level, levelBest, replay, events, theme, showDifficulty]);
+
+  // Create the renderer; each backend gets a fresh canvas, since a canvas keeps its first context
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+
+    const renderer = createRenderer(canvas, rendererKind);
+    rendererRef.current = renderer;
+
+    return () => {
+      renderer.dispose();
+      rendererRef.current = null;
     };
-    
-    setObstacles([]);
-    setScore(0);
-    setGameState(GameState.PLAYING);
-  }, [width, height]);
-  
-  // Start game
-  const startGame = useCallback(() => {
-    resetGame();
-  }, [resetGame]);
+  }, [rendererKind]);
 
   // Game loop
   const gameLoop = useCallback((timestamp: number) => {
-    if (!canvasRef.current) return;
-    
-    const deltaTime = timestamp - (lastTimeRef.current || timestamp);
+    const simulation = simulationRef.current;
+
+    const deltaTime = (timestamp - (lastTimeRef.current || timestamp)) / 1000;
     lastTimeRef.current = timestamp;
-    
-    const ctx = canvasRef.current.getContext('2d');
-    if (!ctx) return;
-    
-    // Clear canvas
-    ctx.clearRect(0, 0, width, height);
-    
-    // Draw background
-    ctx.fillStyle = '#87CEEB'; // Sky blue
-    ctx.fillRect(0, 0, width, height);
-    
-    // Draw ground
-    ctx.fillStyle = '#8B4513'; // Brown
-    ctx.fillRect(0, height - GROUND_HEIGHT, width, GROUND_HEIGHT);
-    
-    // Draw player
-    ctx.fillStyle = '#FF0000'; // Red
-    ctx.fillRect(
-      playerRef.current.x, 
-      playerRef.current.y, 
-      PLAYER_WIDTH, 
-      PLAYER_HEIGHT
-    );
-    
-    // Draw obstacles
-    obstacles.forEach(obstacle => {
-      switch (obstacle.type) {
-        case ObstacleType.SPIKE:
-          ctx.fillStyle = '#FF5733'; // Orange-red
-          ctx.beginPath();
-          ctx.moveTo(obstacle.x, obstacle.y + obstacle.height);
-          ctx.lineTo(obstacle.x + obstacle.width / 2, obstacle.y);
-          ctx.lineTo(obstacle.x + obstacle.width, obstacle.y + obstacle.height);
-          ctx.fill();
-          break;
-          
-        case ObstacleType.MOVING_SPIKE:
-          ctx.fillStyle = '#C70039'; // Darker red
-          ctx.beginPath();
-          ctx.moveTo(obstacle.x, obstacle.y + obstacle.height);
-          ctx.lineTo(obstacle.x + obstacle.width / 2, obstacle.y);
-          ctx.lineTo(obstacle.x + obstacle.width, obstacle.y + obstacle.height);
-          ctx.fill();
-          break;
-          
-        case ObstacleType.COLLAPSING_BRIDGE:
-          // Color based on integrity
-          const integrity = obstacle.integrity || 0;
-          const alpha = Math.max(0.2, integrity / 100);
-          ctx.fillStyle = `rgba(150, 75, 0, ${alpha})`; // Brown with alpha
-          ctx.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
-          break;
-          
-        case ObstacleType.VARIABLE_GROUND:
-          ctx.fillStyle = '#556B2F'; // Dark olive green
-          const elevation = obstacle.elevation || 0;
-          ctx.fillRect(
-            obstacle.x, 
-            obstacle.y - elevation, 
-            obstacle.width, 
-            obstacle.height + elevation
-          );
-          break;
-      }
-    });
-    
-    // Draw score
-    ctx.fillStyle = '#000000';
-    ctx.font = '24px Arial';
-    ctx.textAlign = 'left';
-    ctx.fillText(`Score: ${score}`, 20, 30);
-    
-    // Process player physics
-    if (gameState === GameState.PLAYING) {
-      // Check for jump input via microphone
-      if (audioInitialized) {
-        if (!playerRef.current.isJumping && shouldJump()) {
-          playerRef.current.isJumping = true;
-          playerRef.current.jumpPower = getJumpPower();
-          playerRef.current.velocityY = MAX_JUMP_VELOCITY * playerRef.current.jumpPower;
-        }
+    let alpha = 1;
+
+    if (simulation.state === GameState.PLAYING) {
+      const previousScore = simulation.score;
+      const previousDistance = simulation.distance;
+
+      if (!replayPlayerRef.current && !pendingInputRef.current.jump) {
+        pendingInputRef.current = readInput();
       }
-      
-      // Apply gravity
-      playerRef.current.velocityY += GRAVITY;
-      playerRef.current.y += playerRef.current.velocityY;
-      
-      // Ground collision
-      if (playerRef.current.y > height - GROUND_HEIGHT - PLAYER_HEIGHT) {
-        playerRef.current.y = height - GROUND_HEIGHT - PLAYER_HEIGHT;
-        playerRef.current.velocityY = 0;
-        playerRef.current.isJumping = false;
+
+      alpha = loopRef.current.advance(deltaTime, stepSimulation);
+
+      if (simulation.score !== previousScore && onScoreChange) {
+        onScoreChange(simulation.score);
       }
-      
-      // Check obstacle collision
-      if (checkCollision(playerRef.current.x, playerRef.current.y)) {
-        handleGameOver();
+
+      if (level && onMusicCue) {
+        cuesBetween(level, previousDistance, simulation.distance).forEach(({ cue }) => onMusicCue(cue));
       }
-      
-      // Update score
-      setScore(prev => prev + 1);
-      if (onScoreChange) {
-        onScoreChange(score + 1);
+
+      if (simulation.isGameOver || simulation.isLevelComplete) {
+        handleGameOver(simulation.score);
       }
     }
-    
-    // Display game over or menu text
-    if (gameState === GameState.GAME_OVER) {
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-      ctx.fillRect(0, 0, width, height);
-      
-      ctx.fillStyle = '#FFFFFF';
-      ctx.font = '36px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText('Game Over', width / 2, height / 2 - 40);
-      ctx.font = '24px Arial';
-      ctx.fillText(`Score: ${score}`, width / 2, height / 2);
-      ctx.fillText(`High Score: ${highScore}`, width / 2, height / 2 + 30);
-      ctx.fillText('Click or press Space to play again', width / 2, height / 2 + 70);
-    } else if (gameState === GameState.MENU) {
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-      ctx.fillRect(0, 0, width, height);
-      
-      ctx.fillStyle = '#FFFFFF';
-      ctx.font = '36px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText('Microphone Flappy Bird', width / 2, height / 2 - 40);
-      ctx.font = '20px Arial';
-      ctx.fillText('Make noise to jump. Louder noise = Higher jump', width / 2, height / 2);
-      ctx.fillText('Click or press Space to start', width / 2, height / 2 + 40);
-    }
-    
+
+    render(alpha);
+
     // Continue animation loop
-    if (gameState !== GameState.PAUSED) {
+    if (simulation.state === GameState.PLAYING) {
       animationRef.current = requestAnimationFrame(gameLoop);
     }
-  }, [width, height, gameState, obstacles, score, highScore, audioInitialized, checkCollision, handleGameOver, onScoreChange]);
-  
+  }, [readInput, stepSimulation, render, handleGameOver, onScoreChange, level, onMusicCue]);
+
   // Start/stop game loop based on game state
   useEffect(() => {
     if (gameState === GameState.PLAYING) {
-      lastTimeRef.current = 0;
       animationRef.current = requestAnimationFrame(gameLoop);
+    } else {
+      // Keep drawing until the landing or death animation has played out
+      const drawUntilSettled = () => {
+        render();
+        if (!animatorRef.current.isSettled(theme.definition.player, performance.now() / 1000)) {
+          animationRef.current = requestAnimationFrame(drawUntilSettled);
+        }
+      };
+      drawUntilSettled();
     }
-    
+
     return () => {
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [gameState, gameLoop]);
-  
+  }, [gameState, gameLoop, render, theme]);
+
+  // Rebuild the idle simulation and redraw when the canvas is resized or replaced
+  useEffect(() => {
+    const simulation = simulationRef.current;
+
+    if (simulation.state === GameState.MENU) {
+      simulationRef.current = new GameSimulation({ width: boardWidth, height: boardHeight, seed, level, difficulty });
+    }
+    if (simulation.state !== GameState.PLAYING) {
+      render();
+    }
+  }, [boardWidth, boardHeight, seed, level, difficulty, render, rendererKind]);
+
   // Keyboard and click event handlers
   useEffect(() => {
+    const canStart =
+      gameState === GameState.MENU || gameState === GameState.GAME_OVER || gameState === GameState.LEVEL_COMPLETE;
+
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === 'Space') {
-        if (gameState === GameState.MENU || gameState === GameState.GAME_OVER) {
-          startGame();
-        }
+      if (gameState === GameState.PLAYING && !e.repeat) {
+        recorderRef.current?.recordKey(e.code, 'down');
+      }
+
+      if (e.code === 'Space' && canStart) {
+        startGame();
       }
     };
-    
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (gameState === GameState.PLAYING) {
+        recorderRef.current?.recordKey(e.code, 'up');
+      }
+    };
+
     const handleClick = () => {
-      if (gameState === GameState.MENU || gameState === GameState.GAME_OVER) {
+      if (canStart) {
         startGame();
       }
     };
-    
+
     window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
     window.addEventListener('click', handleClick);
-    
+
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
       window.removeEventListener('click', handleClick);
     };
   }, [gameState, startGame]);
-  
+
   return (
     <div className="relative">
       <canvas
+        key={rendererKind}
         ref={canvasRef}
-        width={width}
-        height={height}
-        className="border border-gray-400 rounded"
+        width={boardWidth}
+        height={boardHeight}
+        className="border border-gray-400 rounded touch-none"
         role="presentation"
       />
-      
-      {gameState === GameState.PLAYING && (
-        <ObstacleManager
-          gameWidth={width}
-          gameHeight={height}
-          playerScore={score}
-          groundHeight={GROUND_HEIGHT}
-          onAddObstacle={handleAddObstacle}
-          onRemoveObstacle={handleRemoveObstacle}
-          onUpdateObstacles={handleUpdateObstacles}
-        />
-      )}
     </div>
   );
 };
 
-export default GameEngine; 
\ No newline at end of file
+export default GameEngine;
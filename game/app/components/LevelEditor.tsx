@@ -0,0 +1,455 @@
+/**
+ * LevelEditor - Lays out levels on a timeline, play-tests them and saves them as level JSON
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { FaArrowLeft, FaDownload, FaPlay, FaPlus, FaStop, FaTrash, FaUpload } from 'react-icons/fa';
+import EditorTimeline from './EditorTimeline';
+import GameEngine from './GameEngine';
+import { Level, LevelObstacle, LevelObstacleField, validateLevel } from '../engine/levels';
+import { ObstacleType } from '../engine/obstacles';
+import { LevelSummary, loadLevel, loadLevelList } from '../utils/levelStore';
+import {
+  FIELD_LABELS,
+  createEmptyLevel,
+  createEntry,
+  editorField,
+  entryFields,
+  exportLevel,
+  importLevel,
+  levelFrom,
+  loadEditorDraft,
+  saveEditorDraft,
+  sortObstacles,
+} from '../utils/levelEditor';
+
+// Width of the timeline and of play-tests
+const VIEW_WIDTH = 800;
+
+// Names of the obstacle types in the palette and properties panel
+const OBSTACLE_LABELS: Record<ObstacleType, string> = {
+  [ObstacleType.SPIKE]: 'Spike',
+  [ObstacleType.MOVING_SPIKE]: 'Moving spike',
+  [ObstacleType.STALACTITE]: 'Stalactite',
+  [ObstacleType.FLYING_BIRD]: 'Flying bird',
+  [ObstacleType.VARIABLE_GROUND]: 'Raised ground',
+  [ObstacleType.FLOATING_PLATFORM]: 'Floating platform',
+  [ObstacleType.COLLAPSING_BRIDGE]: 'Collapsing bridge',
+  [ObstacleType.GAP_WALL]: 'Gap wall',
+  [ObstacleType.WIND_ZONE]: 'Wind zone',
+};
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded';
+const buttonClass = 'flex items-center gap-1 px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200';
+
+const LevelEditor: React.FC = () => {
+  const [level, setLevel] = useState<Level>(createEmptyLevel);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [playhead, setPlayhead] = useState(0);
+  // Level being play-tested, already cut to where the test starts
+  const [playtest, setPlaytest] = useState<Level | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [bundledLevels, setBundledLevels] = useState<LevelSummary[]>([]);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const validation = useMemo(() => validateLevel(level), [level]);
+  const selected = selectedIndex !== null ? level.obstacles[selectedIndex] : undefined;
+
+  useEffect(() => {
+    // Pick up where the last visit left off
+    const draft = loadEditorDraft();
+    if (draft) {
+      setLevel(draft);
+    }
+
+    // Bundled levels can be opened as a starting point
+    loadLevelList()
+      .then(setBundledLevels)
+      .catch(error => console.error('Error loading levels:', error));
+  }, []);
+
+  // Keep the last valid version of the level as the draft
+  useEffect(() => {
+    if (validation.ok) {
+      saveEditorDraft(validation.level);
+    }
+  }, [validation]);
+
+  // Replace the level being edited
+  const openLevel = (next: Level) => {
+    setLevel(next);
+    setSelectedIndex(null);
+    setPlayhead(0);
+    setPlaytest(null);
+  };
+
+  const handleOpenBundled = async (id: string) => {
+    try {
+      openLevel(await loadLevel(id));
+      setMessage(null);
+    } catch (error) {
+      console.error('Error loading level:', error);
+      setMessage('This level could not be loaded.');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    const result = importLevel(await file.text());
+    if (result.ok) {
+      openLevel(result.level);
+      setMessage(`Opened ${file.name}`);
+    } else {
+      setMessage(`${file.name} is not a valid level: ${result.errors.join('; ')}`);
+    }
+  };
+
+  const handleExport = () => {
+    if (!validation.ok) {
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([exportLevel(validation.level)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${validation.level.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Place a new obstacle at the playhead and select it
+  const handleAddObstacle = (type: ObstacleType) => {
+    const entry = createEntry(type, playhead, editorField(level, VIEW_WIDTH));
+    const next = sortObstacles({ ...level, obstacles: [...level.obstacles, entry] });
+    setLevel(next);
+    setSelectedIndex(next.obstacles.indexOf(entry));
+  };
+
+  const updateSelected = (entry: LevelObstacle) => {
+    setLevel({
+      ...level,
+      obstacles: level.obstacles.map((current, index) => (index === selectedIndex ? entry : current)),
+    });
+  };
+
+  // An emptied field goes back to the type's default
+  const handleFieldChange = (key: LevelObstacleField, value: string) => {
+    if (!selected) {
+      return;
+    }
+    const entry = { ...selected };
+    if (value === '') {
+      delete entry[key];
+    } else {
+      entry[key] = Number(value);
+    }
+    updateSelected(entry);
+  };
+
+  // Distance changes reorder the course once the field is left
+  const handleDistanceBlur = () => {
+    if (!selected) {
+      return;
+    }
+    const next = sortObstacles(level);
+    setLevel(next);
+    setSelectedIndex(next.obstacles.indexOf(selected));
+  };
+
+  const handleDelete = () => {
+    setLevel({ ...level, obstacles: level.obstacles.filter((_, index) => index !== selectedIndex) });
+    setSelectedIndex(null);
+  };
+
+  const handlePlay = (start: number) => {
+    if (validation.ok) {
+      setMessage(null);
+      setPlaytest(levelFrom(validation.level, start));
+    }
+  };
+
+  const handlePlaytestEnd = (score: number, completed: boolean) => {
+    setMessage(completed ? `Play-test finished with a score of ${score}` : `Play-test ended at a score of ${score}`);
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-sky-400 to-sky-200 p-5">
+      <div className="flex flex-col w-full max-w-5xl mx-auto gap-4">
+        {/* Header */}
+        <div className="flex justify-between items-center w-full p-4 bg-white/80 rounded-lg shadow-lg">
+          <div>
+            <Link href="/" className="text-sm text-sky-700 hover:underline flex items-center gap-1">
+              <FaArrowLeft /> Back to the game
+            </Link>
+            <h1 className="text-3xl font-bold text-sky-700">Level Editor</h1>
+          </div>
+          <div className="flex gap-2 items-center">
+            <select
+              value=""
+              onChange={(e) => handleOpenBundled(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded"
+              aria-label="Open a bundled level"
+            >
+              <option value="" disabled>Open level...</option>
+              {bundledLevels.map(summary => (
+                <option key={summary.id} value={summary.id}>{summary.name}</option>
+              ))}
+            </select>
+            <button onClick={() => openLevel(createEmptyLevel())} className={buttonClass}>
+              <FaPlus /> New
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+              <FaUpload /> Import
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            <button onClick={handleExport} disabled={!validation.ok} className={`${buttonClass} disabled:opacity-50`}>
+              <FaDownload /> Export
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <p className="p-3 bg-white/80 rounded-lg shadow text-gray-700">{message}</p>
+        )}
+
+        {playtest ? (
+          /* Play-test */
+          <div className="flex flex-col items-center gap-2 p-4 bg-white/80 rounded-lg shadow-lg">
+            <button
+              onClick={() => setPlaytest(null)}
+              className="flex items-center gap-1 px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600"
+            >
+              <FaStop /> Back to editing
+            </button>
+            <GameEngine
+              width={VIEW_WIDTH}
+              height={playtest.height}
+              level={playtest}
+              onLevelEnd={handlePlaytestEnd}
+            />
+          </div>
+        ) : (
+          <>
+            {/* Timeline */}
+            <div className="p-4 bg-white/80 rounded-lg shadow-lg">
+              <div className="flex flex-wrap gap-2 mb-3" role="group" aria-label="Add obstacle">
+                {Object.values(ObstacleType).map(type => (
+                  <button key={type} onClick={() => handleAddObstacle(type)} className={buttonClass}>
+                    <FaPlus /> {OBSTACLE_LABELS[type]}
+                  </button>
+                ))}
+              </div>
+              <EditorTimeline
+                level={level}
+                width={VIEW_WIDTH}
+                selectedIndex={selectedIndex}
+                playhead={playhead}
+                onChange={setLevel}
+                onSelect={setSelectedIndex}
+                onPlayheadChange={setPlayhead}
+              />
+              <div className="flex flex-wrap gap-2 mt-3 items-center">
+                <button
+                  onClick={() => handlePlay(0)}
+                  disabled={!validation.ok}
+                  className="flex items-center gap-1 px-3 py-1 bg-sky-600 text-white rounded hover:bg-sky-700 disabled:opacity-50"
+                >
+                  <FaPlay /> Play from start
+                </button>
+                <button
+                  onClick={() => handlePlay(playhead)}
+                  disabled={!validation.ok}
+                  className="flex items-center gap-1 px-3 py-1 bg-sky-600 text-white rounded hover:bg-sky-700 disabled:opacity-50"
+                >
+                  <FaPlay /> Play from {playhead}px
+                </button>
+                <span className="text-sm text-gray-600">
+                  Click the timeline to move the playhead. Drag obstacles to move them, or their corner to resize them.
+                </span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {/* Selected obstacle */}
+              <div className="p-4 bg-white/80 rounded-lg shadow-lg">
+                <h2 className="text-xl font-bold mb-4">Obstacle</h2>
+                {selected ? (
+                  <div className="flex flex-col gap-2">
+                    <p className="font-semibold">{OBSTACLE_LABELS[selected.type]}</p>
+                    <label className="block text-gray-700">
+                      Distance (px)
+                      <input
+                        type="number"
+                        min="0"
+                        value={selected.distance}
+                        onChange={(e) => updateSelected({ ...selected, distance: Math.max(0, Number(e.target.value)) })}
+                        onBlur={handleDistanceBlur}
+                        className={inputClass}
+                      />
+                    </label>
+                    {entryFields(selected.type).map(key => (
+                      <label key={key} className="block text-gray-700">
+                        {FIELD_LABELS[key]}
+                        <input
+                          type="number"
+                          step="any"
+                          value={selected[key] ?? ''}
+                          onChange={(e) => handleFieldChange(key, e.target.value)}
+                          className={inputClass}
+                        />
+                      </label>
+                    ))}
+                    <button
+                      onClick={handleDelete}
+                      className="flex items-center gap-1 px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 w-fit"
+                    >
+                      <FaTrash /> Delete
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-gray-600">Select an obstacle on the timeline, or add one at the playhead.</p>
+                )}
+              </div>
+
+              {/* Level settings */}
+              <div className="p-4 bg-white/80 rounded-lg shadow-lg">
+                <h2 className="text-xl font-bold mb-4">Level</h2>
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="block text-gray-700">
+                    Id
+                    <input value={level.id} onChange={(e) => setLevel({ ...level, id: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="block text-gray-700">
+                    Name
+                    <input value={level.name} onChange={(e) => setLevel({ ...level, name: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="block text-gray-700">
+                    Height (px)
+                    <input
+                      type="number"
+                      value={level.height}
+                      onChange={(e) => setLevel({ ...level, height: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="block text-gray-700">
+                    Length (px)
+                    <input
+                      type="number"
+                      value={level.length}
+                      onChange={(e) => setLevel({ ...level, length: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </label>
+                </div>
+
+                <h3 className="font-semibold mt-4 mb-2">Speed sections</h3>
+                {level.sections.map((section, index) => (
+                  <div key={index} className="flex gap-2 mb-2 items-center">
+                    <input
+                      type="number"
+                      value={section.distance}
+                      disabled={index === 0}
+                      onChange={(e) => setLevel({
+                        ...level,
+                        sections: level.sections.map((current, i) => (i === index ? { ...current, distance: Number(e.target.value) } : current)),
+                      })}
+                      className={inputClass}
+                      aria-label="Section start (px)"
+                    />
+                    <input
+                      type="number"
+                      value={section.speed}
+                      onChange={(e) => setLevel({
+                        ...level,
+                        sections: level.sections.map((current, i) => (i === index ? { ...current, speed: Number(e.target.value) } : current)),
+                      })}
+                      className={inputClass}
+                      aria-label="Section speed (px/s)"
+                    />
+                    {index > 0 && (
+                      <button
+                        onClick={() => setLevel({ ...level, sections: level.sections.filter((_, i) => i !== index) })}
+                        className="p-2 text-gray-600 rounded-full hover:bg-gray-200"
+                        aria-label="Remove section"
+                      >
+                        <FaTrash />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  onClick={() => setLevel({
+                    ...level,
+                    sections: [...level.sections, { distance: playhead, speed: level.sections[level.sections.length - 1]?.speed ?? 200 }]
+                      .sort((a, b) => a.distance - b.distance),
+                  })}
+                  className={buttonClass}
+                >
+                  <FaPlus /> Section at playhead
+                </button>
+
+                <h3 className="font-semibold mt-4 mb-2">Music cues</h3>
+                {level.cues.map((cue, index) => (
+                  <div key={index} className="flex gap-2 mb-2 items-center">
+                    <input
+                      type="number"
+                      value={cue.distance}
+                      onChange={(e) => setLevel({
+                        ...level,
+                        cues: level.cues.map((current, i) => (i === index ? { ...current, distance: Number(e.target.value) } : current)),
+                      })}
+                      className={inputClass}
+                      aria-label="Cue distance (px)"
+                    />
+                    <input
+                      value={cue.cue}
+                      onChange={(e) => setLevel({
+                        ...level,
+                        cues: level.cues.map((current, i) => (i === index ? { ...current, cue: e.target.value } : current)),
+                      })}
+                      className={inputClass}
+                      aria-label="Cue name"
+                    />
+                    <button
+                      onClick={() => setLevel({ ...level, cues: level.cues.filter((_, i) => i !== index) })}
+                      className="p-2 text-gray-600 rounded-full hover:bg-gray-200"
+                      aria-label="Remove cue"
+                    >
+                      <FaTrash />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setLevel({
+                    ...level,
+                    cues: [...level.cues, { distance: playhead, cue: 'cue' }].sort((a, b) => a.distance - b.distance),
+                  })}
+                  className={buttonClass}
+                >
+                  <FaPlus /> Cue at playhead
+                </button>
+              </div>
+            </div>
+
+            {!validation.ok && (
+              <div className="p-4 bg-white/80 rounded-lg shadow-lg">
+                <h2 className="text-xl font-bold mb-2 text-red-600">Fix these before play-testing or exporting</h2>
+                <ul className="list-disc pl-5 text-red-600">
+                  {validation.errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default LevelEditor;
@@ -0,0 +1,54 @@
+/**
+ * LevelSelect - List of levels with each one's best score and completion
+ */
+
+import React from 'react';
+import { FaCheckCircle } from 'react-icons/fa';
+import { LevelRecords, LevelSummary } from '../utils/levelStore';
+
+interface LevelSelectProps {
+  levels: LevelSummary[] | null; // Null while the list loads
+  records: LevelRecords;
+  selectedId: string | null;
+  error: string | null; // Shown instead of the list when loading failed
+  onSelect: (id: string) => void;
+}
+
+const LevelSelect: React.FC<LevelSelectProps> = ({ levels, records, selectedId, error, onSelect }) => {
+  if (error) {
+    return <p className="text-red-600">{error}</p>;
+  }
+  if (!levels) {
+    return <p className="text-gray-600">Loading levels...</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+      {levels.map((level, index) => {
+        const record = records[level.id];
+        const selected = level.id === selectedId;
+
+        return (
+          <button
+            key={level.id}
+            onClick={() => onSelect(level.id)}
+            aria-pressed={selected}
+            className={`flex flex-col items-start p-3 rounded border text-left ${
+              selected ? 'bg-sky-100 border-sky-500' : 'bg-white border-gray-300 hover:bg-gray-100'
+            }`}
+          >
+            <span className="flex items-center gap-2 font-semibold">
+              {index + 1}. {level.name}
+              {record?.completed && <FaCheckCircle className="text-green-500" title="Completed" />}
+            </span>
+            <span className="text-sm text-gray-600">
+              {record ? `Best: ${record.best}` : 'Not played yet'}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LevelSelect;
@@ -0,0 +1,36 @@
+/**
+ * LoadingScreen - Shown in place of the game while its assets load
+ */
+
+import React from 'react';
+import { LoadProgress } from '../render/assets';
+
+interface LoadingScreenProps {
+  width: number;
+  height: number;
+  progress: LoadProgress | null; // Null until the number of files is known
+}
+
+const LoadingScreen: React.FC<LoadingScreenProps> = ({ width, height, progress }) => {
+  const percent = progress ? Math.round((progress.loaded / progress.total) * 100) : 0;
+
+  return (
+    <div
+      className="flex flex-col items-center justify-center gap-3 bg-sky-200 border border-gray-400 rounded"
+      style={{ width, height }}
+      role="status"
+    >
+      <span className="text-lg font-semibold text-gray-800">Loading assets...</span>
+      <div className="w-1/2 h-2 bg-white/70 rounded">
+        <div className="h-full bg-blue-500 rounded" style={{ width: `${percent}%` }} />
+      </div>
+      {progress && (
+        <span className="text-sm text-gray-700">
+          {progress.loaded} of {progress.total} files
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default LoadingScreen;
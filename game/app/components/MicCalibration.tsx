@@ -0,0 +1,163 @@
+/**
+ * MicCalibration - Wizard that measures room noise and a shout to tune microphone levels
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { FaMicrophone, FaRedo } from 'react-icons/fa';
+import {
+  audioManager,
+  initAudio,
+  getAudioIntensity,
+  sampleAudioLevels,
+  deriveMicCalibration,
+  setMicCalibration,
+  resetMicCalibration,
+  DEFAULT_MIC_CALIBRATION,
+} from '../utils/audioUtils';
+
+// How long each recording step lasts (ms)
+const STEP_DURATION = 3000;
+
+type CalibrationStep = 'idle' | 'ambient' | 'loud' | 'done' | 'failed';
+
+const STEP_INSTRUCTIONS: Record<CalibrationStep, string> = {
+  idle: 'Calibrate to match your microphone and room.',
+  ambient: 'Stay quiet while we measure the background noise...',
+  loud: 'Now shout or clap as loud as you would to jump high!',
+  done: 'Calibrated! The marker shows how loud you need to be to jump.',
+  failed: "Your shout wasn't much louder than the room. Try again a little louder.",
+};
+
+interface MicLevelMeterProps {
+  level: number; // Normalized intensity (0-1)
+  threshold: number; // Normalized jump threshold (0-1)
+}
+
+/**
+ * Live input level bar with a marker at the jump threshold
+ */
+export const MicLevelMeter: React.FC<MicLevelMeterProps> = ({ level, threshold }) => {
+  return (
+    <div
+      className="relative h-3 w-full bg-gray-200 rounded overflow-hidden"
+      role="meter"
+      aria-label="Microphone level"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(level * 100)}
+    >
+      <div
+        className={`h-full transition-[width] duration-75 ${level > threshold ? 'bg-green-500' : 'bg-sky-400'}`}
+        style={{ width: `${level * 100}%` }}
+      />
+      <div
+        className="absolute top-0 h-full w-0.5 bg-red-500"
+        style={{ left: `${threshold * 100}%` }}
+        title="Jump threshold"
+      />
+    </div>
+  );
+};
+
+const MicCalibration: React.FC = () => {
+  const [step, setStep] = useState<CalibrationStep>('idle');
+  const [level, setLevel] = useState<number>(0);
+  const [calibration, setCalibration] = useState(audioManager.calibration);
+  const [micReady, setMicReady] = useState<boolean>(audioManager.isInitialized);
+
+  const recording = step === 'ambient' || step === 'loud';
+  const recordingRef = useRef<boolean>(false);
+  recordingRef.current = recording;
+
+  // Live meter while idle; the recording steps update the level themselves
+  useEffect(() => {
+    if (!micReady) return;
+
+    let frame: number;
+    const update = () => {
+      if (!recordingRef.current) {
+        setLevel(getAudioIntensity());
+      }
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+
+    return () => cancelAnimationFrame(frame);
+  }, [micReady]);
+
+  const enableMic = async () => {
+    setMicReady(await initAudio());
+  };
+
+  // Show raw levels on the meter against the current ceiling while recording
+  const showLevel = (rawLevel: number) => {
+    setLevel(Math.min(rawLevel / audioManager.calibration.maxIntensity, 1));
+  };
+
+  const runCalibration = async () => {
+    if (!(await initAudio())) {
+      setMicReady(false);
+      return;
+    }
+    setMicReady(true);
+
+    setStep('ambient');
+    const ambient = await sampleAudioLevels(STEP_DURATION, showLevel);
+
+    setStep('loud');
+    const loud = await sampleAudioLevels(STEP_DURATION, showLevel);
+
+    const result = deriveMicCalibration(ambient, loud);
+    if (!result) {
+      setStep('failed');
+      return;
+    }
+
+    setMicCalibration(result);
+    setCalibration(result);
+    setStep('done');
+  };
+
+  const handleReset = () => {
+    resetMicCalibration();
+    setCalibration(DEFAULT_MIC_CALIBRATION);
+    setStep('idle');
+  };
+
+  return (
+    <div>
+      <label className="block mb-2 text-gray-700">Microphone Calibration</label>
+      <p className="text-sm text-gray-600 mb-2">{STEP_INSTRUCTIONS[step]}</p>
+
+      {micReady ? (
+        <MicLevelMeter level={level} threshold={calibration.threshold} />
+      ) : (
+        <button
+          onClick={enableMic}
+          className="text-sm text-sky-700 hover:underline flex items-center gap-1"
+        >
+          <FaMicrophone /> Enable microphone to see the level meter
+        </button>
+      )}
+
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={runCalibration}
+          disabled={recording}
+          className="px-3 py-1 text-sm bg-sky-500 text-white rounded hover:bg-sky-600 disabled:opacity-50 flex items-center gap-1"
+        >
+          <FaMicrophone /> {recording ? 'Calibrating...' : step === 'idle' ? 'Calibrate' : 'Recalibrate'}
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={recording}
+          className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 flex items-center gap-1"
+        >
+          <FaRedo /> Reset
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MicCalibration;
@@ -19,7 +19,6 @@ const mockCancelAnimationFrame = jest.fn((id) => {
 const mockProps = {
   gameWidth: 800,
   gameHeight: 600,
-  playerScore: 0,
   groundHeight: 50,
   onAddObstacle: jest.fn(),
   onRemoveObstacle: jest.fn(),
@@ -59,72 +58,39 @@ describe('ObstacleManager', () => {
     expect(obstacleArg).toHaveProperty('active', true);
   });
   
-  it('should generate different types of obstacles', () => {
-    // Mock random to control obstacle type generation
-    const mockMath = Object.create(global.Math);
-    mockMath.random = jest.fn();
-    global.Math = mockMath;
-    
-    // Test spike generation
-    mockMath.random.mockReturnValueOnce(0.2); // For type selection
-    mockMath.random.mockReturnValueOnce(0.5); // For obstacle properties
-    
-    render(<ObstacleManager {...mockProps} />);
-    
-    act(() => {
-      jest.advanceTimersByTime(3000);
-    });
-    
-    // Check first call was a spike
-    expect(mockProps.onAddObstacle).toHaveBeenCalled();
-    expect(mockProps.onAddObstacle.mock.calls[0][0].type).toBe(ObstacleType.SPIKE);
-    
-    mockProps.onAddObstacle.mockClear();
-    
-    // Test moving spike generation
-    mockMath.random.mockReturnValueOnce(0.5); // For type selection
-    mockMath.random.mockReturnValueOnce(0.5); // For height
-    mockMath.random.mockReturnValueOnce(0.5); // For y position
-    mockMath.random.mockReturnValueOnce(0.7); // For direction
-    
-    act(() => {
-      jest.advanceTimersByTime(3000);
-    });
-    
-    // Check second call was a moving spike
-    expect(mockProps.onAddObstacle).toHaveBeenCalled();
-    expect(mockProps.onAddObstacle.mock.calls[0][0].type).toBe(ObstacleType.MOVING_SPIKE);
-    expect(mockProps.onAddObstacle.mock.calls[0][0].direction).toBe(1);
-    
-    mockProps.onAddObstacle.mockClear();
-    
-    // Test variable ground generation
-    mockMath.random.mockReturnValueOnce(0.8); // For type selection
-    mockMath.random.mockReturnValueOnce(0.5); // For width
-    mockMath.random.mockReturnValueOnce(0.5); // For elevation
-    
-    act(() => {
-      jest.advanceTimersByTime(3000);
-    });
-    
-    // Check third call was variable ground
-    expect(mockProps.onAddObstacle).toHaveBeenCalled();
-    expect(mockProps.onAddObstacle.mock.calls[0][0].type).toBe(ObstacleType.VARIABLE_GROUND);
-    
-    mockProps.onAddObstacle.mockClear();
-    
-    // Test collapsing bridge generation
-    mockMath.random.mockReturnValueOnce(0.9); // For type selection
-    mockMath.random.mockReturnValueOnce(0.5); // For width
+  it('should reproduce the same course for the same seed', () => {
+    const spawnCourse = (seed: number) => {
+      const onAddObstacle = jest.fn();
+      const { unmount } = render(
+        <ObstacleManager {...mockProps} seed={seed} onAddObstacle={onAddObstacle} />
+      );
+
+      act(() => {
+        jest.advanceTimersByTime(9000);
+      });
+
+      unmount();
+      return onAddObstacle.mock.calls.map(([obstacle]) => obstacle);
+    };
+
+    const first = spawnCourse(1234);
+    const second = spawnCourse(1234);
+    const other = spawnCourse(4321);
+
+    expect(first.length).toBeGreaterThan(1);
+    expect(second).toEqual(first);
+    expect(other).not.toEqual(first);
+  });
+  
+  it('should number obstacle ids sequentially', () => {
+    render(<ObstacleManager {...mockProps} seed={1} />);
     
     act(() => {
-      jest.advanceTimersByTime(3000);
+      jest.advanceTimersByTime(6000);
     });
     
-    // Check fourth call was a collapsing bridge
-    expect(mockProps.onAddObstacle).toHaveBeenCalled();
-    expect(mockProps.onAddObstacle.mock.calls[0][0].type).toBe(ObstacleType.COLLAPSING_BRIDGE);
-    expect(mockProps.onAddObstacle.mock.calls[0][0].integrity).toBe(100);
+    const ids = mockProps.onAddObstacle.mock.calls.map(([obstacle]) => obstacle.id);
+    expect(ids.slice(0, 2)).toEqual(['obstacle-0', 'obstacle-1']);
   });
   
   it('should update obstacles position and state', () => {
@@ -188,43 +154,33 @@ describe('ObstacleManager', () => {
     expect(updatedObstacles[1].y).not.toBe(mockObstacles[1].y);
   });
   
-  it('should adjust difficulty based on score', () => {
-    // Render with low score
-    const { unmount } = render(<ObstacleManager {...mockProps} />);
-    
-    // Fast-forward to generate obstacle
-    act(() => {
-      jest.advanceTimersByTime(3000);
-    });
-    
-    // Store spawned obstacle
-    const lowScoreObstacle = mockProps.onAddObstacle.mock.calls[0][0];
-    
-    unmount();
-    mockProps.onAddObstacle.mockClear();
-    
-    // Render with high score (affects difficulty)
-    render(<ObstacleManager {...mockProps} playerScore={100} />);
-    
-    // Fast-forward to generate obstacle
-    act(() => {
-      jest.advanceTimersByTime(3000);
-    });
-    
-    // Store spawned obstacle at higher difficulty
-    const highScoreObstacle = mockProps.onAddObstacle.mock.calls[0][0];
-    
-    // For moving spikes, speed should be higher with higher score
-    if (lowScoreObstacle.type === ObstacleType.MOVING_SPIKE && 
-        highScoreObstacle.type === ObstacleType.MOVING_SPIKE) {
-      expect(highScoreObstacle.speed).toBeGreaterThan(lowScoreObstacle.speed!);
-    }
-    
-    // For collapsing bridges, collapse delay should be shorter with higher score
-    if (lowScoreObstacle.type === ObstacleType.COLLAPSING_BRIDGE && 
-        highScoreObstacle.type === ObstacleType.COLLAPSING_BRIDGE) {
-      expect(highScoreObstacle.collapseDelay).toBeLessThan(lowScoreObstacle.collapseDelay!);
-    }
+  it('should adjust difficulty based on the preset', () => {
+    // Distance the first obstacle of a course moves in its first frame
+    const firstStep = (difficulty: 'easy' | 'insane') => {
+      const onAddObstacle = jest.fn();
+      const onUpdateObstacles = jest.fn();
+      const { unmount } = render(
+        <ObstacleManager
+          {...mockProps}
+          seed={7}
+          difficulty={difficulty}
+          onAddObstacle={onAddObstacle}
+          onUpdateObstacles={onUpdateObstacles}
+        />
+      );
+
+      act(() => {
+        jest.advanceTimersByTime(100);
+      });
+      unmount();
+
+      const spawned: Obstacle = onAddObstacle.mock.calls[0][0];
+      const [moved] = onUpdateObstacles.mock.calls[0][0]([spawned]);
+      return spawned.x - moved.x;
+    };
+
+    // The same course scrolls faster on the harder preset
+    expect(firstStep('insane')).toBeGreaterThan(firstStep('easy'));
   });
   
   it('should clean up animation frame on unmount', () => {
@@ -2,42 +2,114 @@
  * ScoreBoard - Component to display high scores
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import { FaMedal, FaTrophy, FaUserAlt } from 'react-icons/fa';
+import { RunLog } from '../engine/replay';
+import { getDailySeed } from '../engine/random';
+import { DIFFICULTY_PRESETS, RANKED_DIFFICULTY } from '../engine/difficulty';
+import { PLAYER_NAME_MAX_LENGTH, sanitizePlayerName, validatePlayerName } from '../utils/playerName';
+import { getPlayerIdentity, saveDisplayName } from '../utils/playerIdentity';
 
 interface Score {
   id: string;
   playerName: string;
+  playerId?: string; // Links the row to the player's profile
   score: number;
   date: string;
 }
 
+// Error body returned by the score API
+interface ApiError {
+  error: string;
+  code?: string;
+  fields?: Partial<Record<'playerName' | 'score' | 'run' | 'player', string>>;
+}
+
+interface Rank {
+  rank: number;
+  total: number;
+}
+
+// Leaderboard views, each mapped to /api/scores query params
+type ScoreView = 'all-time' | 'weekly' | 'daily' | 'challenge';
+
+const SCORE_VIEWS: { id: ScoreView; label: string }[] = [
+  { id: 'all-time', label: 'All Time' },
+  { id: 'weekly', label: 'This Week' },
+  { id: 'daily', label: 'Today' },
+  { id: 'challenge', label: 'Daily Challenge' },
+];
+
+const PAGE_SIZE = 10;
+
+// Name of the only preset the leaderboard takes runs from
+const RANKED_PRESET_NAME = DIFFICULTY_PRESETS[RANKED_DIFFICULTY].name;
+
+/**
+ * Build the leaderboard query for a view
+ * @param view Selected tab
+ * @returns Query string params shared by the scores and rank endpoints
+ */
+const getViewParams = (view: ScoreView): URLSearchParams => {
+  if (view === 'challenge') {
+    return new URLSearchParams({ window: 'daily', seed: String(getDailySeed()) });
+  }
+  return new URLSearchParams({ window: view });
+};
+
 interface ScoreBoardProps {
   localHighScore: number;
+  bestRun?: RunLog | null; // Recorded best run on the ranked preset, submitted as proof of the score
   onClose?: () => void;
 }
 
-const ScoreBoard: React.FC<ScoreBoardProps> = ({ localHighScore, onClose }) => {
+const ScoreBoard: React.FC<ScoreBoardProps> = ({ localHighScore, bestRun, onClose }) => {
+  const [view, setView] = useState<ScoreView>('all-time');
   const [scores, setScores] = useState<Score[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [rank, setRank] = useState<Rank | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [playerName, setPlayerName] = useState<string>('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState<boolean>(false);
   const [submitSuccess, setSubmitSuccess] = useState<boolean>(false);
 
-  // Fetch scores from the API
+  // Prefill the name this device last submitted under
+  useEffect(() => {
+    const identity = getPlayerIdentity();
+    setPlayerId(identity.id);
+    setPlayerName(identity.displayName ?? '');
+  }, []);
+
+  // Fetch one page of the selected leaderboard
+  const fetchPage = useCallback(async (cursor?: string) => {
+    const params = getViewParams(view);
+    params.set('limit', String(PAGE_SIZE));
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+    
+    const response = await fetch(`/api/scores?${params}`);
+    
+    if (!response.ok) {
+      throw new Error('Failed to fetch scores');
+    }
+    
+    return response.json() as Promise<{ scores: Score[]; nextCursor: string | null }>;
+  }, [view]);
+
+  // Fetch the first page whenever the view changes or a score is submitted
   useEffect(() => {
     const fetchScores = async () => {
       try {
         setLoading(true);
-        const response = await fetch('/api/scores?limit=10');
-        
-        if (!response.ok) {
-          throw new Error('Failed to fetch scores');
-        }
-        
-        const data = await response.json();
-        setScores(data);
+        const data = await fetchPage();
+        setScores(data.scores);
+        setNextCursor(data.nextCursor);
         setError(null);
       } catch (err) {
         setError('Failed to load scores. Please try again later.');
@@ -48,37 +120,91 @@ const ScoreBoard: React.FC<ScoreBoardProps> = ({ localHighScore, onClose }) => {
     };
     
     fetchScores();
-  }, [submitSuccess]);
+  }, [fetchPage, submitSuccess]);
+
+  // Look up where the local high score would place on the selected leaderboard
+  useEffect(() => {
+    const fetchRank = async () => {
+      try {
+        const params = getViewParams(view);
+        params.set('score', String(localHighScore));
+        const response = await fetch(`/api/scores/rank?${params}`);
+        setRank(response.ok ? await response.json() : null);
+      } catch (err) {
+        setRank(null);
+        console.error('Error fetching rank:', err);
+      }
+    };
+    
+    fetchRank();
+  }, [view, localHighScore, submitSuccess]);
+
+  // Append the next page
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    
+    try {
+      setLoadingMore(true);
+      const data = await fetchPage(nextCursor);
+      setScores(previous => [...previous, ...data.scores]);
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      setError('Failed to load more scores. Please try again later.');
+      console.error('Error fetching scores:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   // Submit score to the API
   const handleSubmitScore = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!playerName.trim()) {
-      setError('Please enter your name');
+    // Same rules the server applies, checked here for instant feedback
+    const name = sanitizePlayerName(playerName);
+    const invalidName = validatePlayerName(name);
+    if (invalidName) {
+      setNameError(invalidName);
+      return;
+    }
+    
+    if (!bestRun) {
+      setError(`Play a run on ${RANKED_PRESET_NAME} difficulty first. Only recorded runs on it can be submitted.`);
       return;
     }
     
     try {
       setSubmitting(true);
       
+      const identity = getPlayerIdentity();
       const response = await fetch('/api/scores', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          playerName: playerName.trim(),
-          score: localHighScore,
+          playerName: name,
+          score: bestRun.score,
+          run: bestRun,
+          player: { id: identity.id, secret: identity.secret },
         }),
       });
       
       if (!response.ok) {
-        throw new Error('Failed to submit score');
+        // Show field errors next to their input and anything else below the form
+        const data: ApiError | null = await response.json().catch(() => null);
+        if (data?.fields?.playerName) {
+          setNameError(data.fields.playerName);
+          setError(null);
+        } else {
+          setError(data?.error || 'Failed to submit score. Please try again.');
+        }
+        return;
       }
       
+      saveDisplayName(name);
       setSubmitSuccess(true);
-      setPlayerName('');
+      setNameError(null);
       setError(null);
     } catch (err) {
       setError('Failed to submit score. Please try again.');
@@ -113,30 +239,52 @@ const ScoreBoard: React.FC<ScoreBoardProps> = ({ localHighScore, onClose }) => {
       {/* Local high score */}
       <div className="bg-amber-50 p-3 rounded-lg mb-4">
         <h3 className="font-bold text-amber-800 mb-1">Your High Score</h3>
-        <div className="text-2xl text-amber-700">{localHighScore}</div>
+        <div className="flex items-baseline justify-between">
+          <div className="text-2xl text-amber-700">{localHighScore}</div>
+          {rank && (
+            <div className="text-sm text-amber-800">
+              Your rank: <span className="font-bold">#{rank.rank}</span>
+            </div>
+          )}
+        </div>
       </div>
       
       {/* Submit score form */}
       {!submitSuccess && (
         <form onSubmit={handleSubmitScore} className="mb-6">
           <h3 className="font-bold mb-2">Submit Your Score</h3>
+          <p className="text-sm text-gray-600 mb-2">
+            {bestRun
+              ? `Your best recorded run (${bestRun.score}) will be verified by replaying it.`
+              : `Play a run on ${RANKED_PRESET_NAME} difficulty to record a score you can submit.`}
+          </p>
           <div className="flex gap-2">
             <input
               type="text"
               value={playerName}
-              onChange={(e) => setPlayerName(e.target.value)}
+              onChange={(e) => {
+                setPlayerName(e.target.value);
+                setNameError(null);
+              }}
               placeholder="Enter your name"
-              className="flex-1 px-3 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-sky-500"
-              maxLength={20}
+              aria-invalid={nameError !== null}
+              aria-describedby={nameError ? 'player-name-error' : undefined}
+              className={`flex-1 px-3 py-2 border rounded focus:outline-none focus:ring-2 ${
+                nameError ? 'border-red-400 focus:ring-red-400' : 'focus:ring-sky-500'
+              }`}
+              maxLength={PLAYER_NAME_MAX_LENGTH}
             />
             <button
               type="submit"
-              disabled={submitting}
+              disabled={submitting || !bestRun}
               className="px-4 py-2 bg-sky-500 text-white rounded hover:bg-sky-600 disabled:opacity-50"
             >
               {submitting ? 'Submitting...' : 'Submit'}
             </button>
           </div>
+          {nameError && (
+            <p id="player-name-error" className="text-red-500 text-sm mt-1">{nameError}</p>
+          )}
           {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
         </form>
       )}
@@ -151,6 +299,23 @@ const ScoreBoard: React.FC<ScoreBoardProps> = ({ localHighScore, onClose }) => {
       <div>
         <h3 className="font-bold mb-2">Global Top Scores</h3>
         
+        {/* Leaderboard tabs */}
+        <div className="flex gap-1 mb-2" role="tablist">
+          {SCORE_VIEWS.map(({ id, label }) => (
+            <button
+              key={id}
+              role="tab"
+              aria-selected={view === id}
+              onClick={() => setView(id)}
+              className={`flex-1 px-2 py-1 text-sm rounded ${
+                view === id ? 'bg-sky-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        
         {loading ? (
           <div className="text-center py-4 text-gray-500">Loading scores...</div>
         ) : scores.length === 0 ? (
@@ -175,14 +340,29 @@ const ScoreBoard: React.FC<ScoreBoardProps> = ({ localHighScore, onClose }) => {
                 </div>
                 <div className="flex-1 ml-2">
                   <div className="flex items-center">
-                    <FaUserAlt className="text-gray-400 mr-1" />
-                    <span className="font-medium">{score.playerName}</span>
+                    <FaUserAlt className={`mr-1 ${score.playerId === playerId ? 'text-sky-500' : 'text-gray-400'}`} />
+                    {score.playerId ? (
+                      <Link href={`/players/${score.playerId}`} className="font-medium hover:underline">
+                        {score.playerName}
+                      </Link>
+                    ) : (
+                      <span className="font-medium">{score.playerName}</span>
+                    )}
                   </div>
                   <div className="text-xs text-gray-500">{formatDate(score.date)}</div>
                 </div>
                 <div className="text-xl font-bold text-sky-700">{score.score}</div>
               </div>
             ))}
+            {nextCursor && (
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="w-full mt-2 px-4 py-2 text-sm text-sky-700 bg-sky-50 rounded hover:bg-sky-100 disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            )}
           </div>
         )}
       </div>
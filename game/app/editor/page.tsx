@@ -0,0 +1,9 @@
+/**
+ * Level editor page - build, play-test and export levels
+ */
+
+import LevelEditor from '../components/LevelEditor';
+
+export default function EditorPage() {
+  return <LevelEditor />;
+}
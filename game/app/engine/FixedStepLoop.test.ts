@@ -0,0 +1,71 @@
+/**
+ * Tests for FixedStepLoop
+ */
+
+import { FixedStepLoop } from './FixedStepLoop';
+import { GameSimulation, NO_INPUT } from './GameSimulation';
+import { MAX_FRAME_TIME } from './constants';
+
+describe('FixedStepLoop', () => {
+  it('should run whole steps and carry the remainder', () => {
+    const loop = new FixedStepLoop(0.01);
+    const step = jest.fn();
+
+    const alpha = loop.advance(0.025, step);
+
+    expect(step).toHaveBeenCalledTimes(2);
+    expect(step).toHaveBeenCalledWith(0.01);
+    expect(alpha).toBeCloseTo(0.5);
+
+    // Remainder contributes to the next frame
+    loop.advance(0.005, step);
+    expect(step).toHaveBeenCalledTimes(3);
+  });
+
+  it('should clamp long frames', () => {
+    const loop = new FixedStepLoop(0.125);
+    const step = jest.fn();
+
+    loop.advance(10, step);
+
+    expect(step).toHaveBeenCalledTimes(MAX_FRAME_TIME / 0.125);
+  });
+
+  it('should ignore negative frame times', () => {
+    const loop = new FixedStepLoop(0.01);
+    const step = jest.fn();
+
+    expect(loop.advance(-1, step)).toBe(0);
+    expect(step).not.toHaveBeenCalled();
+  });
+
+  it('should advance the simulation identically at different refresh rates', () => {
+    const run = (refreshRate: number) => {
+      const simulation = new GameSimulation({ width: 800, height: 600 });
+      const loop = new FixedStepLoop();
+      simulation.start();
+
+      // Two seconds of frames, jumping on the first step
+      let input = { jump: true, jumpPower: 1 };
+      for (let frame = 0; frame < refreshRate * 2; frame++) {
+        loop.advance(1 / refreshRate, (dt) => {
+          // Keep the course empty so only player physics and scoring are compared
+          simulation.obstacles = [];
+          simulation.step(dt, input);
+          input = NO_INPUT;
+        });
+      }
+
+      return simulation;
+    };
+
+    const at60 = run(60);
+    const at144 = run(144);
+
+    // Both cover the same number of fixed steps give or take the carried remainder
+    expect(at60.score).toBeGreaterThan(0);
+    expect(Math.abs(at60.score - at144.score)).toBeLessThanOrEqual(1);
+    expect(at144.state).toBe(at60.state);
+    expect(at144.player.y).toBeCloseTo(at60.player.y);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * FixedStepLoop - Accumulates variable frame times into fixed simulation steps
+ */
+
+import { FIXED_TIMESTEP, MAX_FRAME_TIME } from './constants';
+
+export class FixedStepLoop {
+  readonly stepSize: number;
+  readonly maxFrameTime: number;
+
+  // Unsimulated time carried over between frames (s)
+  private accumulator = 0;
+
+  constructor(stepSize: number = FIXED_TIMESTEP, maxFrameTime: number = MAX_FRAME_TIME) {
+    this.stepSize = stepSize;
+    this.maxFrameTime = maxFrameTime;
+  }
+
+  /**
+   * Run as many fixed steps as fit into the elapsed frame time
+   * @param frameTime Elapsed time since the last frame in seconds
+   * @param step Callback invoked once per fixed step with the step size
+   * @returns Interpolation factor (0-1) between the previous and the latest step
+   */
+  advance(frameTime: number, step: (dt: number) => void): number {
+    // Clamp long frames (tab switches, breakpoints) instead of fast-forwarding
+    this.accumulator += Math.min(Math.max(frameTime, 0), this.maxFrameTime);
+
+    while (this.accumulator >= this.stepSize) {
+      step(this.stepSize);
+      this.accumulator -= this.stepSize;
+    }
+
+    return this.accumulator / this.stepSize;
+  }
+
+  reset(): void {
+    this.accumulator = 0;
+  }
+}
@@ -0,0 +1,409 @@
+/**
+ * Tests for GameSimulation
+ */
+
+import { GameSimulation, GameState, NO_INPUT } from './GameSimulation';
+import { ObstacleType } from './obstacles';
+import {
+  FIXED_TIMESTEP,
+  GROUND_HEIGHT,
+  PLAYER_HEIGHT,
+  PLAYER_WIDTH,
+  SCORE_PER_SECOND,
+  SHIELD_COOLDOWN,
+  SHIELD_DURATION,
+  SLOW_MOTION_SCALE,
+} from './constants';
+
+const config = { width: 800, height: 600 };
+const groundTop = config.height - GROUND_HEIGHT;
+const groundY = groundTop - PLAYER_HEIGHT;
+
+describe('GameSimulation', () => {
+  it('should start in the menu and not advance until started', () => {
+    const simulation = new GameSimulation(config);
+
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+
+    expect(simulation.state).toBe(GameState.MENU);
+    expect(simulation.score).toBe(0);
+    expect(simulation.obstacles).toHaveLength(0);
+  });
+
+  it('should place the player on the ground when started', () => {
+    const simulation = new GameSimulation(config);
+    simulation.start();
+
+    expect(simulation.state).toBe(GameState.PLAYING);
+    expect(simulation.player.x).toBe(160);
+    expect(simulation.player.y).toBe(groundY);
+  });
+
+  it('should jump with velocity scaled by jump power and fall back to the ground', () => {
+    const simulation = new GameSimulation(config);
+    simulation.start();
+    simulation.obstacles = [];
+
+    simulation.step(FIXED_TIMESTEP, { jump: true, jumpPower: 1 });
+
+    expect(simulation.player.isJumping).toBe(true);
+    expect(simulation.player.velocityY).toBeLessThan(0);
+    expect(simulation.player.y).toBeLessThan(groundY);
+
+    // Ignore further jumps while airborne
+    const velocity = simulation.player.velocityY;
+    simulation.step(FIXED_TIMESTEP, { jump: true, jumpPower: 1 });
+    expect(simulation.player.velocityY).toBeGreaterThan(velocity);
+
+    for (let i = 0; i < 100 && simulation.player.isJumping; i++) {
+      simulation.obstacles = [];
+      simulation.step(FIXED_TIMESTEP, NO_INPUT);
+    }
+
+    expect(simulation.player.isJumping).toBe(false);
+    expect(simulation.player.y).toBe(groundY);
+  });
+
+  it('should spawn an obstacle immediately and score each step', () => {
+    const simulation = new GameSimulation(config);
+    simulation.start();
+
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+
+    expect(simulation.obstacles).toHaveLength(1);
+    expect(simulation.obstacles[0].x).toBeLessThan(config.width);
+    expect(simulation.score).toBe(1);
+  });
+
+  it('should end the game when the player hits a spike', () => {
+    const simulation = new GameSimulation(config);
+    simulation.start();
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+
+    simulation.obstacles = [{
+      id: 'spike',
+      type: ObstacleType.SPIKE,
+      x: simulation.player.x,
+      y: config.height - GROUND_HEIGHT - 30,
+      width: 20,
+      height: 30,
+      active: true,
+    }];
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+
+    expect(simulation.state).toBe(GameState.GAME_OVER);
+    expect(simulation.score).toBe(1);
+
+    // No further progress after game over
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+    expect(simulation.score).toBe(1);
+  });
+
+  it('should let the player stand on the raised part of variable ground', () => {
+    const simulation = new GameSimulation(config);
+    simulation.start();
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+
+    simulation.obstacles = [{
+      id: 'ground',
+      type: ObstacleType.VARIABLE_GROUND,
+      x: simulation.player.x - 50,
+      y: groundTop,
+      width: 200,
+      height: GROUND_HEIGHT,
+      active: true,
+      elevation: 20,
+    }];
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+
+    expect(simulation.state).toBe(GameState.PLAYING);
+    expect(simulation.player.y).toBe(groundTop - 20 - PLAYER_HEIGHT);
+  });
+
+  it('should walk the player up the slope of variable ground', () => {
+    const simulation = new GameSimulation(config);
+    simulation.start();
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+
+    // The player's front edge is halfway up the 30px slope
+    simulation.obstacles = [{
+      id: 'ground',
+      type: ObstacleType.VARIABLE_GROUND,
+      x: simulation.player.x + PLAYER_WIDTH - 15 + simulation.difficulty.obstacleSpeed * FIXED_TIMESTEP,
+      y: groundTop,
+      width: 200,
+      height: GROUND_HEIGHT,
+      active: true,
+      elevation: 40,
+    }];
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+
+    expect(simulation.player.y).toBeCloseTo(groundTop - 20 - PLAYER_HEIGHT);
+  });
+
+  it('should crumble a bridge after it is stood on and drop the player through the gap', () => {
+    const simulation = new GameSimulation(config);
+    simulation.start();
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+
+    simulation.obstacles = [{
+      id: 'bridge',
+      type: ObstacleType.COLLAPSING_BRIDGE,
+      x: simulation.player.x - 30,
+      y: groundTop,
+      width: 140,
+      height: 15,
+      active: true,
+      integrity: 100,
+      collapseDelay: 200,
+    }];
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+
+    const [bridge] = simulation.obstacles;
+    expect(bridge.crumbleTimer).toBeCloseTo(0.2);
+    expect(bridge.collapsed).toBeFalsy();
+
+    // Standing still on the bridge until it gives way
+    for (let i = 0; i < 20 && !simulation.obstacles[0].collapsed; i++) {
+      simulation.step(FIXED_TIMESTEP, NO_INPUT);
+    }
+    expect(simulation.obstacles[0]).toMatchObject({ collapsed: true, integrity: 0 });
+    expect(simulation.obstacles[0].debris).toHaveLength(4);
+
+    for (let i = 0; i < 60 && simulation.state === GameState.PLAYING; i++) {
+      simulation.step(FIXED_TIMESTEP, NO_INPUT);
+    }
+    expect(simulation.state).toBe(GameState.GAME_OVER);
+    expect(simulation.player.y).toBeGreaterThan(groundY);
+  });
+
+  it('should land on one-way platforms from above and jump through them from below', () => {
+    const platformAt = (simulation: GameSimulation) => [{
+      id: 'platform',
+      type: ObstacleType.FLOATING_PLATFORM,
+      x: simulation.player.x - 50,
+      y: groundTop - 100,
+      width: 600,
+      height: 12,
+      active: true,
+    }];
+
+    const jumping = new GameSimulation(config);
+    jumping.start();
+    jumping.obstacles = platformAt(jumping);
+    jumping.step(FIXED_TIMESTEP, { jump: true, jumpPower: 1 });
+    let peak = jumping.player.y;
+    for (let i = 0; i < 20; i++) {
+      jumping.step(FIXED_TIMESTEP, NO_INPUT);
+      peak = Math.min(peak, jumping.player.y);
+    }
+    // Passed up through the platform
+    expect(peak + PLAYER_HEIGHT).toBeLessThan(groundTop - 100);
+
+    for (let i = 0; i < 60; i++) {
+      jumping.step(FIXED_TIMESTEP, NO_INPUT);
+    }
+    // Came down onto it
+    expect(jumping.state).toBe(GameState.PLAYING);
+    expect(jumping.player.y).toBe(groundTop - 100 - PLAYER_HEIGHT);
+    expect(jumping.player.isJumping).toBe(false);
+  });
+
+  it('should only let the player through the opening of a gap wall', () => {
+    const wallAround = (simulation: GameSimulation, gapY: number) => [{
+      id: 'wall',
+      type: ObstacleType.GAP_WALL,
+      x: simulation.player.x,
+      y: 0,
+      width: 30,
+      height: config.height - GROUND_HEIGHT,
+      active: true,
+      gapY,
+      gapHeight: 100,
+    }];
+
+    const through = new GameSimulation(config);
+    through.start();
+    through.obstacles = wallAround(through, config.height - GROUND_HEIGHT - 100);
+    through.step(FIXED_TIMESTEP, NO_INPUT);
+    expect(through.state).toBe(GameState.PLAYING);
+
+    const blocked = new GameSimulation(config);
+    blocked.start();
+    blocked.obstacles = wallAround(blocked, 100);
+    blocked.step(FIXED_TIMESTEP, NO_INPUT);
+    expect(blocked.state).toBe(GameState.GAME_OVER);
+  });
+
+  it('should push the player while inside a wind zone', () => {
+    const fall = (force: number) => {
+      const simulation = new GameSimulation(config);
+      simulation.start();
+      simulation.player.y = 100;
+      simulation.obstacles = [{
+        id: 'wind',
+        type: ObstacleType.WIND_ZONE,
+        x: simulation.player.x - 50,
+        y: 0,
+        width: 200,
+        height: config.height - GROUND_HEIGHT,
+        active: true,
+        force,
+      }];
+      for (let i = 0; i < 10; i++) {
+        simulation.step(FIXED_TIMESTEP, NO_INPUT);
+      }
+      return simulation.player.velocityY;
+    };
+
+    expect(fall(-1000)).toBeLessThan(fall(0));
+    expect(fall(1000)).toBeGreaterThan(fall(0));
+  });
+
+  it('should replay the same course from the same seed', () => {
+    const run = (seed: number) => {
+      const simulation = new GameSimulation({ ...config, seed });
+      simulation.start();
+      for (let i = 0; i < 600; i++) {
+        simulation.step(FIXED_TIMESTEP, NO_INPUT);
+      }
+      return simulation;
+    };
+
+    const first = run(7);
+    const second = run(7);
+
+    expect(second.score).toBe(first.score);
+    expect(second.obstacles).toEqual(first.obstacles);
+    expect(run(8).obstacles).not.toEqual(first.obstacles);
+  });
+
+  it('should pause and resume', () => {
+    const simulation = new GameSimulation(config);
+    simulation.start();
+    simulation.pause();
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+
+    expect(simulation.state).toBe(GameState.PAUSED);
+    expect(simulation.score).toBe(0);
+
+    simulation.resume();
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+    expect(simulation.score).toBe(1);
+  });
+
+  it('should steer with pitch lift instead of falling', () => {
+    const simulation = new GameSimulation(config);
+    simulation.start();
+
+    for (let i = 0; i < 30; i++) {
+      simulation.obstacles = [];
+      simulation.step(FIXED_TIMESTEP, { ...NO_INPUT, lift: 1 });
+    }
+    const risen = simulation.player.y;
+    expect(risen).toBeLessThan(groundY - 100);
+
+    // Level pitch hovers rather than falling under gravity
+    for (let i = 0; i < 60; i++) {
+      simulation.obstacles = [];
+      simulation.step(FIXED_TIMESTEP, { ...NO_INPUT, lift: 0 });
+    }
+    expect(Math.abs(simulation.player.velocityY)).toBeLessThan(1);
+
+    for (let i = 0; i < 120; i++) {
+      simulation.obstacles = [];
+      simulation.step(FIXED_TIMESTEP, { ...NO_INPUT, lift: -1 });
+    }
+    expect(simulation.player.y).toBe(groundY);
+  });
+
+  it('should keep steered flight below the top of the screen', () => {
+    const simulation = new GameSimulation(config);
+    simulation.start();
+
+    for (let i = 0; i < 600; i++) {
+      simulation.obstacles = [];
+      simulation.step(FIXED_TIMESTEP, { ...NO_INPUT, lift: 1 });
+    }
+
+    expect(simulation.player.y).toBe(0);
+  });
+
+  describe('abilities', () => {
+    // Spike right under the player
+    const spikeUnderPlayer = (simulation: GameSimulation) => [{
+      id: 'spike',
+      type: ObstacleType.SPIKE,
+      x: simulation.player.x,
+      y: config.height - GROUND_HEIGHT - 30,
+      width: 20,
+      height: 30,
+      active: true,
+    }];
+
+    it('should let hazards pass through an active shield', () => {
+      const simulation = new GameSimulation(config);
+      simulation.start();
+      simulation.step(FIXED_TIMESTEP, { ...NO_INPUT, ability: 'shield' });
+
+      simulation.obstacles = spikeUnderPlayer(simulation);
+      simulation.step(FIXED_TIMESTEP, NO_INPUT);
+      expect(simulation.state).toBe(GameState.PLAYING);
+
+      // Once the shield wears off the spike hits
+      for (let i = 0; i < SHIELD_DURATION / FIXED_TIMESTEP; i++) {
+        simulation.obstacles = spikeUnderPlayer(simulation);
+        simulation.step(FIXED_TIMESTEP, NO_INPUT);
+      }
+      expect(simulation.state).toBe(GameState.GAME_OVER);
+    });
+
+    it('should ignore abilities while they are on cooldown', () => {
+      const simulation = new GameSimulation(config);
+      simulation.start();
+      simulation.obstacles = [];
+
+      simulation.step(FIXED_TIMESTEP, { ...NO_INPUT, ability: 'shield' });
+      const cooldown = simulation.abilities.shield.cooldown;
+      expect(cooldown).toBeCloseTo(SHIELD_COOLDOWN - FIXED_TIMESTEP);
+
+      simulation.step(FIXED_TIMESTEP, { ...NO_INPUT, ability: 'shield' });
+      expect(simulation.abilities.shield.cooldown).toBeCloseTo(cooldown - FIXED_TIMESTEP);
+    });
+
+    it('should slow the world down in slow motion', () => {
+      const normal = new GameSimulation({ ...config, seed: 3 });
+      const slow = new GameSimulation({ ...config, seed: 3 });
+      normal.start();
+      slow.start();
+
+      normal.step(FIXED_TIMESTEP, NO_INPUT);
+      slow.step(FIXED_TIMESTEP, { ...NO_INPUT, ability: 'slowMotion' });
+      const normalStart = normal.obstacles[0].x;
+      const slowStart = slow.obstacles[0].x;
+
+      for (let i = 1; i < 60; i++) {
+        normal.step(FIXED_TIMESTEP, NO_INPUT);
+        slow.step(FIXED_TIMESTEP, NO_INPUT);
+      }
+
+      const travelled = (simulation: GameSimulation, start: number) => start - simulation.obstacles[0].x;
+      const ratio = travelled(slow, slowStart) / travelled(normal, normalStart);
+      // Half speed, a little less because the slower score also ramps difficulty up more slowly
+      expect(ratio).toBeLessThanOrEqual(SLOW_MOTION_SCALE);
+      expect(ratio).toBeGreaterThan(SLOW_MOTION_SCALE * 0.8);
+      expect(slow.score).toBe(Math.floor(SCORE_PER_SECOND * SLOW_MOTION_SCALE));
+      // Ability timers keep real time
+      expect(slow.abilities.slowMotion.active).toBeCloseTo(2);
+    });
+
+    it('should reset abilities when a new run starts', () => {
+      const simulation = new GameSimulation(config);
+      simulation.start();
+      simulation.step(FIXED_TIMESTEP, { ...NO_INPUT, ability: 'shield' });
+
+      simulation.start();
+      expect(simulation.abilities.shield).toEqual({ active: 0, cooldown: 0 });
+    });
+  });
+});
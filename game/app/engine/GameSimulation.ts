@@ -0,0 +1,445 @@
+/**
+ * GameSimulation - Framework-free game state, physics, collision and scoring
+ *
+ * Holds no references to React, the DOM or the canvas, so it can be stepped
+ * deterministically from tests, a headless Node process or any renderer.
+ */
+
+import {
+  GRAVITY,
+  MAX_JUMP_VELOCITY,
+  LIFT_SPEED,
+  LIFT_RESPONSE,
+  SCORE_PER_SECOND,
+  GROUND_HEIGHT,
+  PLAYER_WIDTH,
+  PLAYER_HEIGHT,
+  PLAYER_X_RATIO,
+  SLOW_MOTION_SCALE,
+} from './constants';
+import {
+  Hitbox,
+  Obstacle,
+  ObstacleFieldConfig,
+  generateObstacle,
+  getObstacleDefinition,
+  updateObstacles,
+} from './obstacles';
+import { DEFAULT_DIFFICULTY, Difficulty, DifficultyPresetId, getDifficulty } from './difficulty';
+import { findSupport, isOverGap } from './platforms';
+import { Level, createLevelObstacle, levelSpeedAt } from './levels';
+import { RandomSource, createRandom, randomSeed } from './random';
+import {
+  AbilityId,
+  AbilityStates,
+  activateAbility,
+  createAbilityStates,
+  isAbilityActive,
+  updateAbilities,
+} from './abilities';
+
+// Game states
+export enum GameState {
+  MENU,
+  PLAYING,
+  GAME_OVER,
+  PAUSED,
+  LEVEL_COMPLETE
+}
+
+export interface Player {
+  x: number;
+  y: number;
+  velocityY: number;
+  isJumping: boolean;
+  jumpPower: number;
+}
+
+// Player input for a single simulation step
+export interface SimulationInput {
+  jump: boolean;
+  jumpPower: number; // 0-1
+  // Pitch steering: -1 (descend) to 1 (rise); undefined when not steering
+  lift?: number;
+  // Ability to activate on this step; ignored while it is on cooldown
+  ability?: AbilityId;
+}
+
+export interface SimulationConfig {
+  width: number;
+  height: number;
+  seed?: number; // Course seed; a random one is picked when omitted
+  level?: Level; // Play a hand-authored level instead of a generated course
+  difficulty?: DifficultyPresetId; // How generated courses ramp up; Normal when omitted
+}
+
+// Positions blended between the previous and current step for drawing
+export interface RenderState {
+  player: Player;
+  obstacles: Obstacle[];
+}
+
+export const NO_INPUT: SimulationInput = { jump: false, jumpPower: 0 };
+
+const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
+
+export class GameSimulation {
+  readonly config: SimulationConfig;
+  readonly seed: number;
+  state: GameState = GameState.MENU;
+  player: Player;
+  obstacles: Obstacle[] = [];
+  score = 0;
+  tick = 0; // Simulation steps taken in the current run
+  distance = 0; // px the course has scrolled in the current run
+  time = 0; // Seconds of game time in the current run, slowed down by slow motion
+  abilities: AbilityStates = createAbilityStates();
+
+  // Course generation, restarted from the seed on every run
+  private random: RandomSource;
+  private obstacleCount = 0;
+  // Index of the next level obstacle to spawn
+  private nextLevelObstacle = 0;
+  // Fractional score carried between steps
+  private scoreAccumulator = 0;
+  // Time remaining until the next obstacle spawns (s)
+  private spawnTimer = 0;
+  // Positions before the latest step, used for interpolation
+  private previousPlayerY = 0;
+  private previousObstacles = new Map<string, { x: number; y: number }>();
+
+  constructor(config: SimulationConfig) {
+    this.config = config;
+    this.seed = config.seed ?? randomSeed();
+    this.random = createRandom(this.seed);
+    this.player = this.createPlayer();
+    this.previousPlayerY = this.player.y;
+  }
+
+  private get fieldConfig(): ObstacleFieldConfig {
+    return {
+      gameWidth: this.config.width,
+      gameHeight: this.config.height,
+      groundHeight: GROUND_HEIGHT,
+    };
+  }
+
+  get isGameOver(): boolean {
+    return this.state === GameState.GAME_OVER;
+  }
+
+  get isLevelComplete(): boolean {
+    return this.state === GameState.LEVEL_COMPLETE;
+  }
+
+  /**
+   * Fraction of the level covered (0-1), or null outside levels
+   */
+  get levelProgress(): number | null {
+    const { level } = this.config;
+    return level ? Math.min(1, this.distance / level.length) : null;
+  }
+
+  /**
+   * Parameters of the generated course at the current point of the run
+   */
+  get difficulty(): Difficulty {
+    return getDifficulty(this.config.difficulty ?? DEFAULT_DIFFICULTY, { distance: this.distance, time: this.time });
+  }
+
+  private get groundY(): number {
+    return this.config.height - GROUND_HEIGHT - PLAYER_HEIGHT;
+  }
+
+  private get playerHitbox(): Hitbox {
+    return {
+      left: this.player.x,
+      right: this.player.x + PLAYER_WIDTH,
+      top: this.player.y,
+      bottom: this.player.y + PLAYER_HEIGHT,
+    };
+  }
+
+  private createPlayer(): Player {
+    return {
+      x: this.config.width * PLAYER_X_RATIO,
+      y: this.groundY,
+      velocityY: 0,
+      isJumping: false,
+      jumpPower: 0,
+    };
+  }
+
+  /**
+   * Reset player, obstacles and score and begin a new run
+   */
+  start(): void {
+    this.player = this.createPlayer();
+    this.obstacles = [];
+    this.random = createRandom(this.seed);
+    this.obstacleCount = 0;
+    this.score = 0;
+    this.tick = 0;
+    this.distance = 0;
+    this.time = 0;
+    this.nextLevelObstacle = 0;
+    this.abilities = createAbilityStates();
+    this.scoreAccumulator = 0;
+    this.spawnTimer = 0;
+    this.previousPlayerY = this.player.y;
+    this.previousObstacles.clear();
+    this.state = GameState.PLAYING;
+  }
+
+  pause(): void {
+    if (this.state === GameState.PLAYING) {
+      this.state = GameState.PAUSED;
+    }
+  }
+
+  resume(): void {
+    if (this.state === GameState.PAUSED) {
+      this.state = GameState.PLAYING;
+    }
+  }
+
+  /**
+   * End the current run without a collision, e.g. when a replay runs out of input
+   */
+  end(): void {
+    if (this.state === GameState.PLAYING || this.state === GameState.PAUSED) {
+      this.state = GameState.GAME_OVER;
+    }
+  }
+
+  /**
+   * Advance the simulation
+   * @param dt Elapsed time in seconds, normally FIXED_TIMESTEP
+   * @param input Player input for this step
+   */
+  step(dt: number, input: SimulationInput = NO_INPUT): void {
+    if (this.state !== GameState.PLAYING) {
+      return;
+    }
+
+    this.tick += 1;
+    if (input.ability) {
+      activateAbility(this.abilities, input.ability);
+    }
+
+    // Slow motion slows the world, while ability timers keep real time
+    const worldDt = isAbilityActive(this.abilities.slowMotion) ? dt * SLOW_MOTION_SCALE : dt;
+    updateAbilities(this.abilities, dt);
+
+    this.snapshotPositions();
+    this.applyInput(input);
+    this.applyPhysics(worldDt, input.lift);
+    this.advanceObstacles(worldDt);
+    this.time += worldDt;
+    this.resolvePlatforms();
+
+    // Falling into a gap ends the run even with a shield
+    if (this.checkCollision(worldDt) || this.player.y >= this.config.height - GROUND_HEIGHT) {
+      this.state = GameState.GAME_OVER;
+      return;
+    }
+
+    this.scoreAccumulator += SCORE_PER_SECOND * worldDt;
+    this.score = Math.floor(this.scoreAccumulator);
+
+    if (this.config.level && this.distance >= this.config.level.length) {
+      this.state = GameState.LEVEL_COMPLETE;
+    }
+  }
+
+  /**
+   * Blend positions between the previous and the latest step
+   * @param alpha Interpolation factor (0-1) returned by FixedStepLoop.advance
+   * @returns Player and obstacles at the interpolated positions
+   */
+  getRenderState(alpha: number): RenderState {
+    if (this.state !== GameState.PLAYING) {
+      return { player: this.player, obstacles: this.obstacles };
+    }
+
+    return {
+      player: { ...this.player, y: lerp(this.previousPlayerY, this.player.y, alpha) },
+      obstacles: this.obstacles.map(obstacle => {
+        const previous = this.previousObstacles.get(obstacle.id);
+        if (!previous) {
+          return obstacle;
+        }
+        return {
+          ...obstacle,
+          x: lerp(previous.x, obstacle.x, alpha),
+          y: lerp(previous.y, obstacle.y, alpha),
+        };
+      }),
+    };
+  }
+
+  private snapshotPositions(): void {
+    this.previousPlayerY = this.player.y;
+    this.previousObstacles.clear();
+    for (const obstacle of this.obstacles) {
+      this.previousObstacles.set(obstacle.id, { x: obstacle.x, y: obstacle.y });
+    }
+  }
+
+  private applyInput(input: SimulationInput): void {
+    if (input.jump && !this.player.isJumping) {
+      this.player.isJumping = true;
+      this.player.jumpPower = input.jumpPower;
+      this.player.velocityY = MAX_JUMP_VELOCITY * input.jumpPower;
+    }
+  }
+
+  private applyPhysics(dt: number, lift?: number): void {
+    const player = this.player;
+
+    if (lift === undefined) {
+      // Apply gravity (semi-implicit Euler)
+      player.velocityY += GRAVITY * dt;
+      player.y += player.velocityY * dt;
+    } else {
+      // Steer towards the speed the pitch asks for instead of falling
+      const targetVelocity = -lift * LIFT_SPEED;
+      player.velocityY += (targetVelocity - player.velocityY) * Math.min(1, LIFT_RESPONSE * dt);
+      player.y += player.velocityY * dt;
+
+      if (player.velocityY < 0) {
+        player.isJumping = true;
+      }
+
+      // Keep steered flight on screen
+      if (player.y < 0) {
+        player.y = 0;
+        player.velocityY = 0;
+      }
+    }
+
+    // Ground collision, except over a gap. Once below the ground the player
+    // is falling through a gap and its edges don't catch them
+    if (
+      player.y > this.groundY &&
+      this.previousPlayerY <= this.groundY &&
+      !isOverGap(this.obstacles, player.x, player.x + PLAYER_WIDTH)
+    ) {
+      player.y = this.groundY;
+      player.velocityY = 0;
+      player.isJumping = false;
+    }
+  }
+
+  /**
+   * Clear course between the last obstacle and the right edge, where obstacles spawn
+   */
+  private get spawnClearance(): number {
+    const rightmost = Math.max(-Infinity, ...this.obstacles.map(obstacle => obstacle.x + obstacle.width));
+    return this.config.width - rightmost;
+  }
+
+  private advanceObstacles(dt: number): void {
+    if (this.config.level) {
+      this.advanceLevel(this.config.level, dt);
+      return;
+    }
+
+    const difficulty = this.difficulty;
+
+    // Spawn a new obstacle when the timer runs out, waiting for the minimum gap after the last one
+    this.spawnTimer -= dt;
+    if (this.spawnTimer <= 0 && this.spawnClearance >= difficulty.minGap) {
+      const id = `obstacle-${this.obstacleCount++}`;
+      this.obstacles.push(generateObstacle(this.fieldConfig, difficulty.level, this.random, id, difficulty.weights));
+      this.spawnTimer = difficulty.spawnInterval;
+    }
+
+    this.obstacles = updateObstacles(this.obstacles, this.fieldConfig, difficulty.obstacleSpeed, dt);
+    this.distance += difficulty.obstacleSpeed * dt;
+  }
+
+  private advanceLevel(level: Level, dt: number): void {
+    const speed = levelSpeedAt(level, this.distance);
+
+    // Spawn level obstacles as they reach the right edge
+    while (this.nextLevelObstacle < level.obstacles.length) {
+      const entry = level.obstacles[this.nextLevelObstacle];
+      const x = this.player.x + entry.distance - this.distance;
+      if (x > this.config.width) {
+        break;
+      }
+      const id = `obstacle-${this.obstacleCount++}`;
+      this.obstacles.push(createLevelObstacle(entry, this.fieldConfig, x, id));
+      this.nextLevelObstacle += 1;
+    }
+
+    this.obstacles = updateObstacles(this.obstacles, this.fieldConfig, speed, dt);
+    this.distance += speed * dt;
+  }
+
+  /**
+   * Stand the player on the platform under them, if any
+   */
+  private resolvePlatforms(): void {
+    const support = findSupport(this.obstacles, this.playerHitbox, this.previousPlayerY + PLAYER_HEIGHT);
+    if (support) {
+      this.land(support.surfaceY);
+      getObstacleDefinition(support.obstacle.type).platform?.onStand?.(support.obstacle);
+    }
+  }
+
+  /**
+   * Check collision between player and obstacles
+   * @param dt Elapsed time in seconds
+   * @returns True if the player hit a hazard
+   */
+  private checkCollision(dt: number): boolean {
+    const player = this.player;
+    const playerHitbox = this.playerHitbox;
+
+    for (const obstacle of this.obstacles) {
+      const obstacleHitbox = {
+        left: obstacle.x,
+        right: obstacle.x + obstacle.width,
+        top: obstacle.y,
+        bottom: obstacle.y + obstacle.height,
+      };
+
+      if (
+        playerHitbox.right <= obstacleHitbox.left ||
+        playerHitbox.left >= obstacleHitbox.right ||
+        playerHitbox.bottom <= obstacleHitbox.top ||
+        playerHitbox.top >= obstacleHitbox.bottom
+      ) {
+        continue;
+      }
+
+      const response = getObstacleDefinition(obstacle.type).collide(obstacle, {
+        player: playerHitbox,
+        obstacle: obstacleHitbox,
+      });
+
+      switch (response.type) {
+        case 'push':
+          player.velocityY += response.acceleration * dt;
+          break;
+
+        case 'hit':
+          // Hazards pass harmlessly through an active shield
+          if (!isAbilityActive(this.abilities.shield)) {
+            return true;
+          }
+          break;
+      }
+    }
+
+    return false;
+  }
+
+  private land(surfaceY: number): void {
+    this.player.y = surfaceY - PLAYER_HEIGHT;
+    this.player.velocityY = 0;
+    this.player.isJumping = false;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Abilities - Timed powers with cooldowns, activated through the face controls
+ *
+ * Ability state lives in the simulation and activations are part of the run
+ * log, so replays and server verification reproduce them exactly.
+ */
+
+import {
+  SHIELD_DURATION,
+  SHIELD_COOLDOWN,
+  SLOW_MOTION_DURATION,
+  SLOW_MOTION_COOLDOWN,
+} from './constants';
+
+export type AbilityId = 'shield' | 'slowMotion';
+
+export const ABILITY_IDS: AbilityId[] = ['shield', 'slowMotion'];
+
+export interface AbilityConfig {
+  label: string;
+  duration: number; // How long the ability lasts (s)
+  cooldown: number; // Time from activation until it can be used again (s)
+}
+
+export const ABILITIES: Record<AbilityId, AbilityConfig> = {
+  shield: { label: 'Shield', duration: SHIELD_DURATION, cooldown: SHIELD_COOLDOWN },
+  slowMotion: { label: 'Slow-mo', duration: SLOW_MOTION_DURATION, cooldown: SLOW_MOTION_COOLDOWN },
+};
+
+export interface AbilityState {
+  active: number; // Time left while the ability is in effect (s)
+  cooldown: number; // Time left until it can be used again (s)
+}
+
+export type AbilityStates = Record<AbilityId, AbilityState>;
+
+export const createAbilityStates = (): AbilityStates => ({
+  shield: { active: 0, cooldown: 0 },
+  slowMotion: { active: 0, cooldown: 0 },
+});
+
+export const isAbilityActive = (state: AbilityState): boolean => state.active > 0;
+
+export const isAbilityReady = (state: AbilityState): boolean => state.cooldown <= 0;
+
+/**
+ * Activate an ability if it is off cooldown
+ * @param states Ability states to update
+ * @param id Ability to activate
+ * @returns Whether the ability was activated
+ */
+export const activateAbility = (states: AbilityStates, id: AbilityId): boolean => {
+  const state = states[id];
+  if (!isAbilityReady(state)) {
+    return false;
+  }
+
+  state.active = ABILITIES[id].duration;
+  state.cooldown = ABILITIES[id].cooldown;
+  return true;
+};
+
+/**
+ * Count down ability timers
+ * @param states Ability states to update
+ * @param dt Elapsed time in seconds
+ */
+export const updateAbilities = (states: AbilityStates, dt: number): void => {
+  for (const id of ABILITY_IDS) {
+    const state = states[id];
+    state.active = Math.max(0, state.active - dt);
+    state.cooldown = Math.max(0, state.cooldown - dt);
+  }
+};
@@ -0,0 +1,36 @@
+/**
+ * Shared game configuration constants
+ *
+ * Rates are expressed per second so the simulation advances the same
+ * amount of game time regardless of display refresh rate.
+ */
+
+// Simulation timing
+export const FIXED_TIMESTEP = 1 / 60; // Seconds per simulation step
+export const MAX_FRAME_TIME = 0.25; // Longest frame (s) fed to the simulation, avoids catch-up spirals
+
+// Player physics
+export const GRAVITY = 1800; // px/s²
+export const MAX_JUMP_VELOCITY = -900; // px/s at full jump power
+
+// Pitch steering
+export const LIFT_SPEED = 400; // Vertical speed (px/s) at full lift
+export const LIFT_RESPONSE = 8; // How quickly steering reaches its target speed (1/s)
+
+// World dimensions
+export const GROUND_HEIGHT = 50;
+export const PLAYER_WIDTH = 40;
+export const PLAYER_HEIGHT = 40;
+
+// Horizontal position of the player as a fraction of the game width
+export const PLAYER_X_RATIO = 0.2;
+
+// Scoring
+export const SCORE_PER_SECOND = 60;
+
+// Abilities (s); cooldowns count from activation
+export const SHIELD_DURATION = 3;
+export const SHIELD_COOLDOWN = 12;
+export const SLOW_MOTION_DURATION = 3;
+export const SLOW_MOTION_COOLDOWN = 15;
+export const SLOW_MOTION_SCALE = 0.5; // Game speed while slow motion is active
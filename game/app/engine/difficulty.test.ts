@@ -0,0 +1,84 @@
+/**
+ * Tests for difficulty.ts
+ */
+
+import { DIFFICULTY_PRESET_IDS, curveValue, getDifficulty } from './difficulty';
+import { GameSimulation, GameState, NO_INPUT } from './GameSimulation';
+import { OBSTACLE_REGISTRY, ObstacleType } from './obstacles';
+import { FIXED_TIMESTEP } from './constants';
+
+const start = { distance: 0, time: 0 };
+
+describe('difficulty', () => {
+  it('should interpolate curves between their points and hold them outside', () => {
+    const curve = { by: 'distance' as const, points: [[1000, 10], [3000, 30]] as [number, number][] };
+
+    expect(curveValue(curve, start)).toBe(10);
+    expect(curveValue(curve, { distance: 2000, time: 0 })).toBe(20);
+    expect(curveValue(curve, { distance: 9000, time: 0 })).toBe(30);
+    expect(curveValue({ ...curve, by: 'time' }, { distance: 9000, time: 1500 })).toBe(15);
+  });
+
+  it('should ramp up with distance rather than score', () => {
+    const early = getDifficulty('normal', start);
+    const late = getDifficulty('normal', { distance: 100000, time: 0 });
+
+    expect(early).toMatchObject({ level: 0, spawnInterval: 2.2, obstacleSpeed: 200, minGap: 260 });
+    expect(late).toMatchObject({ level: 1, spawnInterval: 1, obstacleSpeed: 380, minGap: 160 });
+    expect(late.weights[ObstacleType.MOVING_SPIKE]).toBeGreaterThan(early.weights[ObstacleType.MOVING_SPIKE]);
+  });
+
+  it('should order the presets from easy to insane', () => {
+    const at = { distance: 5000, time: 20 };
+    const presets = DIFFICULTY_PRESET_IDS.map(id => getDifficulty(id, at));
+
+    for (let i = 1; i < presets.length; i++) {
+      expect(presets[i].obstacleSpeed).toBeGreaterThan(presets[i - 1].obstacleSpeed);
+      expect(presets[i].spawnInterval).toBeLessThan(presets[i - 1].spawnInterval);
+      expect(presets[i].minGap).toBeLessThan(presets[i - 1].minGap);
+    }
+  });
+
+  it('should keep the registry weight of types a preset leaves out', () => {
+    const { weights } = getDifficulty('normal', start);
+
+    OBSTACLE_REGISTRY.forEach(({ type, weight }) => expect(weights[type]).toBeGreaterThanOrEqual(0));
+    expect(weights[ObstacleType.SPIKE]).toBe(0.3);
+    expect(getDifficulty('easy', start).weights[ObstacleType.GAP_WALL]).toBe(0);
+  });
+
+  it('should drive the simulation from the chosen preset', () => {
+    const easy = new GameSimulation({ width: 800, height: 600, seed: 1, difficulty: 'easy' });
+    const insane = new GameSimulation({ width: 800, height: 600, seed: 1, difficulty: 'insane' });
+    [easy, insane].forEach(simulation => {
+      simulation.start();
+      simulation.step(FIXED_TIMESTEP, NO_INPUT);
+    });
+
+    expect(easy.difficulty.obstacleSpeed).toBeLessThan(insane.difficulty.obstacleSpeed);
+    expect(easy.distance).toBeLessThan(insane.distance);
+    expect(insane.time).toBeCloseTo(FIXED_TIMESTEP);
+  });
+
+  it('should leave the minimum gap after an obstacle before spawning the next', () => {
+    const simulation = new GameSimulation({ width: 800, height: 600, seed: 3, difficulty: 'insane' });
+    simulation.start();
+
+    let checked = 0;
+    while (simulation.tick < 600) {
+      const count = simulation.obstacles.length;
+      const { minGap } = simulation.difficulty;
+      simulation.step(FIXED_TIMESTEP, NO_INPUT);
+      // Only the spacing of the course matters here, so crashes don't end the run
+      simulation.state = GameState.PLAYING;
+
+      if (count > 0 && simulation.obstacles.length > count) {
+        const [previous, spawned] = simulation.obstacles.slice(-2);
+        expect(spawned.x - (previous.x + previous.width)).toBeGreaterThanOrEqual(minGap);
+        checked += 1;
+      }
+    }
+
+    expect(checked).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Difficulty - Presets and the curves that ramp up a generated course
+ *
+ * Curves follow the distance scrolled or the time played, so a course ramps
+ * up at the same pace whatever the frame rate. Each preset sets how obstacle
+ * level, spawn interval, speed, type weights and the gap between obstacles
+ * change over a run.
+ */
+
+import { OBSTACLE_REGISTRY, ObstacleType } from './obstacles';
+
+export type DifficultyPresetId = 'easy' | 'normal' | 'hard' | 'insane';
+
+export const DIFFICULTY_PRESET_IDS: DifficultyPresetId[] = ['easy', 'normal', 'hard', 'insane'];
+
+export const DEFAULT_DIFFICULTY: DifficultyPresetId = 'normal';
+
+// The only preset the leaderboard takes runs from, so every score on it is comparable
+export const RANKED_DIFFICULTY: DifficultyPresetId = 'normal';
+
+// What a curve follows: px scrolled or seconds played
+export type CurveMeasure = 'distance' | 'time';
+
+// Straight lines between [at, value] points, flat before the first point and after the last
+export interface DifficultyCurve {
+  by: CurveMeasure;
+  points: [at: number, value: number][];
+}
+
+export interface DifficultyPreset {
+  name: string;
+  level: DifficultyCurve; // 0-1, passed to obstacle spawns for their size and speed
+  spawnInterval: DifficultyCurve; // Time between obstacles in seconds
+  obstacleSpeed: DifficultyCurve; // Horizontal movement speed in px/s
+  minGap: DifficultyCurve; // Clear course (px) left after an obstacle before the next spawns
+  weights: Partial<Record<ObstacleType, DifficultyCurve>>; // Types left out keep their registry weight
+}
+
+// How far into a run the player is
+export interface RunProgress {
+  distance: number; // px scrolled
+  time: number; // Seconds of game time
+}
+
+// Course parameters at a point of a run
+export interface Difficulty {
+  level: number; // 0-1
+  spawnInterval: number; // Time between obstacles in seconds
+  obstacleSpeed: number; // Horizontal movement speed in px/s
+  minGap: number; // px
+  weights: Record<ObstacleType, number>; // Relative chance of each type spawning
+}
+
+// A curve that doesn't change
+const flat = (value: number): DifficultyCurve => ({ by: 'distance', points: [[0, value]] });
+
+export const DIFFICULTY_PRESETS: Record<DifficultyPresetId, DifficultyPreset> = {
+  easy: {
+    name: 'Easy',
+    level: { by: 'distance', points: [[0, 0], [40000, 0.6]] },
+    spawnInterval: { by: 'distance', points: [[0, 2.8], [40000, 1.6]] },
+    obstacleSpeed: { by: 'distance', points: [[0, 160], [40000, 280]] },
+    minGap: { by: 'distance', points: [[0, 320], [40000, 240]] },
+    weights: {
+      // Only the basics until the player has found their feet
+      [ObstacleType.MOVING_SPIKE]: { by: 'distance', points: [[0, 0.1], [40000, 0.2]] },
+      [ObstacleType.COLLAPSING_BRIDGE]: { by: 'distance', points: [[0, 0], [10000, 0.04]] },
+      [ObstacleType.GAP_WALL]: { by: 'distance', points: [[0, 0], [20000, 0.03]] },
+      [ObstacleType.WIND_ZONE]: { by: 'distance', points: [[0, 0], [20000, 0.02]] },
+    },
+  },
+  normal: {
+    name: 'Normal',
+    level: { by: 'distance', points: [[0, 0], [30000, 1]] },
+    spawnInterval: { by: 'distance', points: [[0, 2.2], [30000, 1]] },
+    obstacleSpeed: { by: 'distance', points: [[0, 200], [30000, 380]] },
+    minGap: { by: 'distance', points: [[0, 260], [30000, 160]] },
+    weights: {
+      [ObstacleType.MOVING_SPIKE]: { by: 'distance', points: [[0, 0.15], [15000, 0.25]] },
+      [ObstacleType.GAP_WALL]: { by: 'distance', points: [[0, 0.02], [15000, 0.05]] },
+    },
+  },
+  hard: {
+    name: 'Hard',
+    level: { by: 'distance', points: [[0, 0.3], [20000, 1]] },
+    spawnInterval: { by: 'distance', points: [[0, 1.8], [20000, 0.8]] },
+    obstacleSpeed: { by: 'distance', points: [[0, 240], [20000, 440]] },
+    minGap: { by: 'distance', points: [[0, 200], [20000, 120]] },
+    weights: {
+      [ObstacleType.MOVING_SPIKE]: flat(0.3),
+      [ObstacleType.FLYING_BIRD]: { by: 'distance', points: [[0, 0.1], [20000, 0.15]] },
+      [ObstacleType.GAP_WALL]: { by: 'distance', points: [[0, 0.05], [20000, 0.08]] },
+    },
+  },
+  insane: {
+    name: 'Insane',
+    // Full difficulty after half a minute, however far the course has scrolled
+    level: { by: 'time', points: [[0, 0.6], [30, 1]] },
+    spawnInterval: { by: 'time', points: [[0, 1.2], [30, 0.6]] },
+    obstacleSpeed: { by: 'time', points: [[0, 300], [30, 520]] },
+    minGap: { by: 'time', points: [[0, 160], [30, 100]] },
+    weights: {
+      [ObstacleType.SPIKE]: { by: 'time', points: [[0, 0.3], [30, 0.15]] },
+      [ObstacleType.MOVING_SPIKE]: flat(0.3),
+      [ObstacleType.FLYING_BIRD]: flat(0.15),
+      [ObstacleType.COLLAPSING_BRIDGE]: flat(0.08),
+      [ObstacleType.GAP_WALL]: flat(0.08),
+    },
+  },
+};
+
+/**
+ * Value of a curve at a point of a run
+ * @param curve Difficulty curve
+ * @param progress How far into the run the player is
+ */
+export const curveValue = ({ by, points }: DifficultyCurve, progress: RunProgress): number => {
+  const at = progress[by];
+  const next = points.findIndex(([pointAt]) => pointAt > at);
+
+  if (next === 0) {
+    return points[0][1];
+  }
+  if (next === -1) {
+    return points[points.length - 1][1];
+  }
+
+  const [fromAt, from] = points[next - 1];
+  const [toAt, to] = points[next];
+  return from + ((to - from) * (at - fromAt)) / (toAt - fromAt);
+};
+
+/**
+ * Course parameters of a preset at a point of a run
+ * @param preset Difficulty preset
+ * @param progress How far into the run the player is
+ */
+export const getDifficulty = (preset: DifficultyPresetId, progress: RunProgress): Difficulty => {
+  const { level, spawnInterval, obstacleSpeed, minGap, weights } = DIFFICULTY_PRESETS[preset];
+
+  return {
+    level: curveValue(level, progress),
+    spawnInterval: curveValue(spawnInterval, progress),
+    obstacleSpeed: curveValue(obstacleSpeed, progress),
+    minGap: curveValue(minGap, progress),
+    weights: Object.fromEntries(
+      OBSTACLE_REGISTRY.map(({ type, weight }) => {
+        const curve = weights[type];
+        return [type, curve ? curveValue(curve, progress) : weight];
+      })
+    ) as Record<ObstacleType, number>,
+  };
+};
@@ -0,0 +1,34 @@
+/**
+ * Tests for events.ts
+ */
+
+import { EventChannel, GameEvents } from './events';
+
+describe('EventChannel', () => {
+  it('should deliver payloads to subscribers of the event', () => {
+    const channel = new EventChannel<GameEvents>();
+    const listener = jest.fn();
+    channel.on('abilityRequested', listener);
+
+    channel.emit('abilityRequested', { ability: 'shield', trigger: 'smile' });
+
+    expect(listener).toHaveBeenCalledWith({ ability: 'shield', trigger: 'smile' });
+  });
+
+  it('should stop delivering after unsubscribing or clearing', () => {
+    const channel = new EventChannel<GameEvents>();
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribe = channel.on('abilityRequested', first);
+    channel.on('abilityRequested', second);
+
+    unsubscribe();
+    channel.emit('abilityRequested', { ability: 'slowMotion', trigger: 'blink' });
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+
+    channel.clear();
+    channel.emit('abilityRequested', { ability: 'slowMotion', trigger: 'blink' });
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
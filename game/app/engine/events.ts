@@ -0,0 +1,48 @@
+/**
+ * Events - Typed publish/subscribe channel for routing input events into the game
+ */
+
+import { AbilityId } from './abilities';
+import { FaceTrigger } from '../utils/expressionDetection';
+
+type Listener<T> = (payload: T) => void;
+
+export class EventChannel<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  /**
+   * Subscribe to an event
+   * @param type Event name
+   * @param listener Called with the payload of each event
+   * @returns Function that unsubscribes the listener
+   */
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    this.listeners.get(type)?.forEach(listener => (listener as Listener<Events[K]>)(payload));
+  }
+
+  clear(): void {
+    this.listeners.clear();
+  }
+}
+
+export interface GameEvents {
+  // The player asked for an ability; the simulation ignores it while on cooldown
+  abilityRequested: { ability: AbilityId; trigger: FaceTrigger };
+  // A level passed one of its music cues; for the soundtrack to follow
+  musicCue: { cue: string };
+}
+
+export type GameEventChannel = EventChannel<GameEvents>;
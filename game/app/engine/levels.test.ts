@@ -0,0 +1,106 @@
+/**
+ * Tests for levels.ts
+ */
+
+import { Level, createLevelObstacle, cuesBetween, levelSpeedAt, validateLevel } from './levels';
+import { GameSimulation, GameState, NO_INPUT } from './GameSimulation';
+import { ObstacleType } from './obstacles';
+import { FIXED_TIMESTEP } from './constants';
+import firstFlight from '../../public/levels/first-flight.json';
+import bridgesAndLedges from '../../public/levels/bridges-and-ledges.json';
+import windyHeights from '../../public/levels/windy-heights.json';
+
+const field = { gameWidth: 800, gameHeight: 600, groundHeight: 50 };
+
+const level = (overrides: Partial<Level> = {}): Level => ({
+  version: 1,
+  id: 'test',
+  name: 'Test',
+  height: 600,
+  length: 1000,
+  sections: [{ distance: 0, speed: 200 }, { distance: 500, speed: 400 }],
+  obstacles: [{ type: ObstacleType.SPIKE, distance: 300, height: 40, y: 510 }],
+  cues: [{ distance: 0, cue: 'intro' }, { distance: 500, cue: 'main' }],
+  ...overrides,
+});
+
+const errorsOf = (json: unknown): string[] => {
+  const result = validateLevel(json);
+  return result.ok ? [] : result.errors;
+};
+
+describe('levels', () => {
+  it('should accept the bundled levels', () => {
+    [firstFlight, bridgesAndLedges, windyHeights].forEach(json => expect(errorsOf(json)).toEqual([]));
+  });
+
+  it('should report every problem with where it is', () => {
+    const errors = errorsOf({
+      ...level(),
+      version: 2,
+      height: 100,
+      sections: [{ distance: 100, speed: 0 }],
+      obstacles: [
+        { type: 'spike', distance: 500, color: 'red' },
+        { type: 'lava', distance: 400, width: '20' },
+      ],
+    });
+
+    expect(errors).toEqual([
+      'version: must be 1',
+      'height: must be a number of at least 300',
+      'sections[0].speed: must be a positive number',
+      'sections: the first section must start at distance 0',
+      'obstacles[0].color: is not an obstacle field',
+      'obstacles[1].distance: must not be before the previous entry',
+      expect.stringMatching(/^obstacles\[1\]\.type: must be one of spike, /),
+      'obstacles[1].width: must be a number',
+    ]);
+  });
+
+  it('should allow levels without music cues', () => {
+    const json: Partial<Level> = level();
+    delete json.cues;
+
+    const result = validateLevel(json);
+    expect(result.ok && result.level.cues).toEqual([]);
+  });
+
+  it('should change speed by section and report cues as they pass', () => {
+    expect(levelSpeedAt(level(), 0)).toBe(200);
+    expect(levelSpeedAt(level(), 499)).toBe(200);
+    expect(levelSpeedAt(level(), 500)).toBe(400);
+
+    expect(cuesBetween(level(), 400, 600)).toEqual([{ distance: 500, cue: 'main' }]);
+    expect(cuesBetween(level(), 500, 600)).toEqual([]);
+  });
+
+  it('should fill the fields a level leaves out', () => {
+    const spike = createLevelObstacle({ type: ObstacleType.SPIKE, distance: 0, height: 30 }, field, 640, 'a');
+    expect(spike).toMatchObject({ id: 'a', x: 640, width: 20, height: 30, y: 510, active: true });
+
+    const bridge = createLevelObstacle({ type: ObstacleType.COLLAPSING_BRIDGE, distance: 0 }, field, 640, 'b');
+    expect(bridge).toMatchObject({ integrity: 100, collapseDelay: 350, width: 110 });
+  });
+
+  it('should spawn level obstacles by distance and finish at the end', () => {
+    const simulation = new GameSimulation({ width: 800, height: 600, level: level() });
+    simulation.start();
+    simulation.step(FIXED_TIMESTEP, NO_INPUT);
+
+    // The spike reaches the player after 300px
+    const [spike] = simulation.obstacles;
+    expect(spike.x).toBeCloseTo(simulation.player.x + 300 - simulation.distance);
+
+    simulation.obstacles = [];
+    while (simulation.state === GameState.PLAYING && simulation.tick < 1000) {
+      simulation.step(FIXED_TIMESTEP, NO_INPUT);
+    }
+
+    expect(simulation.state).toBe(GameState.LEVEL_COMPLETE);
+    expect(simulation.isLevelComplete).toBe(true);
+    expect(simulation.levelProgress).toBe(1);
+    // 500px at 200 px/s, then 500px at 400 px/s
+    expect(simulation.tick * FIXED_TIMESTEP).toBeCloseTo(3.75, 1);
+  });
+});
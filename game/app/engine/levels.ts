@@ -0,0 +1,259 @@
+/**
+ * Levels - Hand-authored courses and their JSON format
+ *
+ * A level lists its obstacles in course order by distance: how many pixels
+ * the course scrolls before the obstacle reaches the player. Sections set
+ * the scroll speed from a distance onwards, and music cues mark distances
+ * where the soundtrack should change. Obstacle fields a level leaves out
+ * take the middle of the type's random range, so a level only needs to set
+ * what matters to it.
+ */
+
+import {
+  Obstacle,
+  ObstacleFieldConfig,
+  ObstacleType,
+  getObstacleDefinition,
+} from './obstacles';
+
+// Bump when the format changes in a way older levels can't be read with
+export const LEVEL_VERSION = 1;
+
+// Obstacle fields a level may set; the rest are runtime state
+export const LEVEL_OBSTACLE_FIELDS = [
+  'y',
+  'width',
+  'height',
+  'direction',
+  'speed',
+  'integrity',
+  'collapseDelay',
+  'elevation',
+  'baseY',
+  'amplitude',
+  'frequency',
+  'phase',
+  'gapY',
+  'gapHeight',
+  'force',
+] as const;
+
+export type LevelObstacleField = typeof LEVEL_OBSTACLE_FIELDS[number];
+
+export type LevelObstacle = {
+  type: ObstacleType;
+  distance: number; // px scrolled before the obstacle's left edge reaches the player
+} & Partial<Pick<Obstacle, LevelObstacleField>>;
+
+export interface LevelSection {
+  distance: number; // Where the section starts
+  speed: number; // Scroll speed in px/s until the next section
+}
+
+export interface MusicCue {
+  distance: number;
+  cue: string; // Name of the track or change to play
+}
+
+export interface Level {
+  version: number;
+  id: string;
+  name: string;
+  height: number; // Playfield height the level is laid out for (px)
+  length: number; // Distance of the finish line
+  sections: LevelSection[]; // The first starts at distance 0
+  obstacles: LevelObstacle[]; // In course order
+  cues: MusicCue[]; // In course order
+}
+
+export type LevelValidationResult =
+  | { ok: true; level: Level }
+  | { ok: false; errors: string[] }; // One message per problem, prefixed with where it is
+
+// Smallest playfield a level can be laid out for, matching the game height setting
+const MIN_LEVEL_HEIGHT = 300;
+
+// Difficulty used for fields a level leaves out
+const LEVEL_DIFFICULTY = 0.5;
+
+const OBSTACLE_TYPES = Object.values(ObstacleType) as string[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check the items of a list are records in course order
+ * @param errors Messages are added here
+ * @param name Name of the list in messages
+ * @param value The list
+ * @param check Checks one item, adding messages prefixed with its path
+ */
+const checkList = (
+  errors: string[],
+  name: string,
+  value: unknown,
+  check: (item: Record<string, unknown>, path: string) => void
+) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${name}: must be a list`);
+    return;
+  }
+
+  let previous = -Infinity;
+  value.forEach((item, index) => {
+    const path = `${name}[${index}]`;
+    if (!isRecord(item)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    if (!isNumber(item.distance) || item.distance < 0) {
+      errors.push(`${path}.distance: must be a number of at least 0`);
+    } else if (item.distance < previous) {
+      errors.push(`${path}.distance: must not be before the previous entry`);
+    } else {
+      previous = item.distance;
+    }
+    check(item, path);
+  });
+};
+
+/**
+ * Check an untrusted level file
+ * @param json Parsed level JSON
+ * @returns The level, or every problem found
+ */
+export const validateLevel = (json: unknown): LevelValidationResult => {
+  if (!isRecord(json)) {
+    return { ok: false, errors: ['Level must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+
+  if (json.version !== LEVEL_VERSION) {
+    errors.push(`version: must be ${LEVEL_VERSION}`);
+  }
+  if (typeof json.id !== 'string' || json.id.length === 0) {
+    errors.push('id: is required');
+  }
+  if (typeof json.name !== 'string' || json.name.length === 0) {
+    errors.push('name: is required');
+  }
+  if (!isNumber(json.height) || json.height < MIN_LEVEL_HEIGHT) {
+    errors.push(`height: must be a number of at least ${MIN_LEVEL_HEIGHT}`);
+  }
+  if (!isNumber(json.length) || json.length <= 0) {
+    errors.push('length: must be a positive number');
+  }
+
+  checkList(errors, 'sections', json.sections, (section, path) => {
+    if (!isNumber(section.speed) || section.speed <= 0) {
+      errors.push(`${path}.speed: must be a positive number`);
+    }
+  });
+  if (Array.isArray(json.sections)) {
+    const [first] = json.sections;
+    if (!isRecord(first) || first.distance !== 0) {
+      errors.push('sections: the first section must start at distance 0');
+    }
+  }
+
+  checkList(errors, 'obstacles', json.obstacles, (obstacle, path) => {
+    if (!OBSTACLE_TYPES.includes(obstacle.type as string)) {
+      errors.push(`${path}.type: must be one of ${OBSTACLE_TYPES.join(', ')}`);
+    }
+    for (const key of Object.keys(obstacle)) {
+      if (key === 'type' || key === 'distance') {
+        continue;
+      }
+      if (!(LEVEL_OBSTACLE_FIELDS as readonly string[]).includes(key)) {
+        errors.push(`${path}.${key}: is not an obstacle field`);
+      } else if (!isNumber(obstacle[key])) {
+        errors.push(`${path}.${key}: must be a number`);
+      }
+    }
+  });
+
+  const cues = json.cues ?? [];
+  checkList(errors, 'cues', cues, (cue, path) => {
+    if (typeof cue.cue !== 'string' || cue.cue.length === 0) {
+      errors.push(`${path}.cue: is required`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    level: {
+      version: LEVEL_VERSION,
+      id: json.id as string,
+      name: json.name as string,
+      height: json.height as number,
+      length: json.length as number,
+      sections: json.sections as LevelSection[],
+      obstacles: json.obstacles as LevelObstacle[],
+      cues: cues as MusicCue[],
+    },
+  };
+};
+
+/**
+ * Scroll speed at a point of a level
+ * @param level The level
+ * @param distance Distance scrolled so far
+ * @returns Speed of the last section that has started, in px/s
+ */
+export const levelSpeedAt = (level: Level, distance: number): number => {
+  let speed = level.sections[0].speed;
+  for (const section of level.sections) {
+    if (section.distance > distance) {
+      break;
+    }
+    speed = section.speed;
+  }
+  return speed;
+};
+
+/**
+ * Music cues passed while scrolling from one distance to another
+ * @param level The level
+ * @param from Distance before the step (exclusive)
+ * @param to Distance after the step (inclusive)
+ */
+export const cuesBetween = (level: Level, from: number, to: number): MusicCue[] =>
+  level.cues.filter(cue => cue.distance > from && cue.distance <= to);
+
+/**
+ * Build an obstacle from a level entry
+ * @param entry Level obstacle
+ * @param field Playfield dimensions
+ * @param x Where the obstacle starts
+ * @param id Obstacle id, unique within a run
+ * @returns The obstacle, with fields the level left out taken from the middle of the type's range
+ */
+export const createLevelObstacle = (
+  entry: LevelObstacle,
+  field: ObstacleFieldConfig,
+  x: number,
+  id: string
+): Obstacle => {
+  const obstacle: Obstacle = {
+    id,
+    type: entry.type,
+    x,
+    active: true,
+    ...getObstacleDefinition(entry.type).spawn(field, LEVEL_DIFFICULTY, () => 0.5),
+  };
+
+  for (const key of LEVEL_OBSTACLE_FIELDS) {
+    const value = entry[key];
+    if (value !== undefined) {
+      obstacle[key] = value;
+    }
+  }
+  return obstacle;
+};
@@ -0,0 +1,136 @@
+/**
+ * Tests for obstacles.ts
+ */
+
+import {
+  OBSTACLE_REGISTRY,
+  ObstacleType,
+  generateObstacle,
+  getObstacleDefinition,
+  updateObstacles,
+} from './obstacles';
+import { createRandom, RandomSource } from './random';
+
+const config = { gameWidth: 800, gameHeight: 600, groundHeight: 50 };
+
+// Random source replaying a fixed list of values
+const sequence = (...values: number[]): RandomSource => {
+  let index = 0;
+  return () => values[index++ % values.length];
+};
+
+describe('obstacles', () => {
+  it('should pick the obstacle type from weighted ranges', () => {
+    expect(generateObstacle(config, 0, sequence(0.2, 0.5), 'a').type).toBe(ObstacleType.SPIKE);
+    expect(generateObstacle(config, 0, sequence(0.5, 0.5), 'b').type).toBe(ObstacleType.MOVING_SPIKE);
+    expect(generateObstacle(config, 0, sequence(0.8, 0.5), 'c').type).toBe(ObstacleType.VARIABLE_GROUND);
+    expect(generateObstacle(config, 0, sequence(0.9, 0.5), 'd').type).toBe(ObstacleType.COLLAPSING_BRIDGE);
+  });
+
+  it('should configure obstacles from the random source', () => {
+    const spike = generateObstacle(config, 0, sequence(0.2, 0.5), 'spike');
+    expect(spike).toMatchObject({ id: 'spike', x: 800, width: 20, height: 40, y: 510, active: true });
+
+    const movingSpike = generateObstacle(config, 1, sequence(0.5, 0.5, 0.5, 0.7), 'moving');
+    expect(movingSpike.direction).toBe(1);
+    expect(movingSpike.speed).toBe(180);
+
+    const bridge = generateObstacle(config, 0, sequence(0.9, 0.5), 'bridge');
+    expect(bridge.integrity).toBe(100);
+    expect(bridge.width).toBe(110);
+  });
+
+  it('should generate identical obstacles from identical seeds', () => {
+    const a = createRandom(99);
+    const b = createRandom(99);
+
+    for (let i = 0; i < 20; i++) {
+      expect(generateObstacle(config, 0.5, a, `o-${i}`)).toEqual(generateObstacle(config, 0.5, b, `o-${i}`));
+    }
+  });
+
+  it('should pick types from the given weights instead of the registry', () => {
+    const onlyWalls = { [ObstacleType.SPIKE]: 0, [ObstacleType.MOVING_SPIKE]: 0, [ObstacleType.GAP_WALL]: 10 };
+
+    expect(generateObstacle(config, 0, sequence(0.005, 0.5), 'a', onlyWalls).type).toBe(ObstacleType.STALACTITE);
+    expect(generateObstacle(config, 0, sequence(0.5, 0.5), 'b', onlyWalls).type).toBe(ObstacleType.GAP_WALL);
+  });
+
+  it('should move obstacles by speed and elapsed time', () => {
+    const spike = generateObstacle(config, 0, sequence(0.2, 0.5), 'spike');
+    const [moved] = updateObstacles([spike], config, 180, 0.5);
+
+    expect(moved.x).toBe(710);
+  });
+
+  it('should register every obstacle type once', () => {
+    const types = OBSTACLE_REGISTRY.map(definition => definition.type);
+
+    expect(types.sort()).toEqual(Object.values(ObstacleType).sort());
+    Object.values(ObstacleType).forEach(type => expect(getObstacleDefinition(type).type).toBe(type));
+  });
+
+  it('should spawn the new obstacle types from their weight ranges', () => {
+    expect(generateObstacle(config, 0, sequence(0.6, 0.5), 'a').type).toBe(ObstacleType.STALACTITE);
+    expect(generateObstacle(config, 0, sequence(0.7, 0.5), 'b').type).toBe(ObstacleType.FLYING_BIRD);
+    expect(generateObstacle(config, 0, sequence(0.93, 0.5), 'c').type).toBe(ObstacleType.GAP_WALL);
+    expect(generateObstacle(config, 0, sequence(0.99, 0.5), 'd').type).toBe(ObstacleType.WIND_ZONE);
+    expect(generateObstacle(config, 0, sequence(0.85, 0.5), 'e').type).toBe(ObstacleType.FLOATING_PLATFORM);
+  });
+
+  it('should hang stalactites from the top', () => {
+    const stalactite = generateObstacle(config, 0, sequence(0.6, 0.5), 'stalactite');
+
+    expect(stalactite).toMatchObject({ y: 0, width: 30, height: 90 });
+  });
+
+  it('should fly birds along a sine path', () => {
+    const bird = generateObstacle(config, 1, sequence(0.7, 0.5, 0.5, 0), 'bird');
+    expect(bird).toMatchObject({ amplitude: 35, frequency: 1, phase: 0, y: bird.baseY });
+
+    // A quarter of an oscillation later the bird is at the top of its path
+    const [moved] = updateObstacles([bird], config, 0, 0.75);
+    expect(moved.y).toBeCloseTo((bird.baseY as number) + 35 * Math.sin(Math.PI * 1.5));
+    expect(moved.x).toBe(bird.x);
+  });
+
+  it('should leave an opening above the ground in gap walls', () => {
+    const wall = generateObstacle(config, 0, sequence(0.93, 0.5), 'wall');
+    const groundTop = config.gameHeight - config.groundHeight;
+
+    expect(wall).toMatchObject({ y: 0, height: groundTop, gapHeight: 140 });
+    expect((wall.gapY as number) + (wall.gapHeight as number)).toBe(groundTop - 100);
+  });
+
+  it('should blow mostly upwards in wind zones', () => {
+    expect(generateObstacle(config, 0, sequence(0.99, 0.2, 0.5, 0.5), 'up').force).toBeLessThan(0);
+    expect(generateObstacle(config, 0, sequence(0.99, 0.8, 0.5, 0.5), 'down').force).toBeGreaterThan(0);
+  });
+
+  it('should crumble bridges once stood on and break them into falling debris', () => {
+    const bridge = { ...generateObstacle(config, 0, sequence(0.9, 0.5), 'bridge'), x: 100 };
+
+    // Nothing happens until the player stands on it
+    expect(updateObstacles([bridge], config, 0, 1)[0]).toMatchObject({ integrity: 100 });
+
+    const [crumbling] = updateObstacles([{ ...bridge, crumbleTimer: 0.5 }], config, 0, 0.25);
+    expect(crumbling.integrity).toBeCloseTo(50);
+    expect(crumbling.collapsed).toBeFalsy();
+
+    const [collapsed] = updateObstacles([crumbling], config, 0, 0.25);
+    expect(collapsed).toMatchObject({ integrity: 0, collapsed: true });
+    expect(collapsed.debris).toHaveLength(4);
+
+    const [falling] = updateObstacles([collapsed], config, 0, 0.1);
+    falling.debris?.forEach(piece => expect(piece.y).toBeGreaterThan(bridge.y));
+    expect(updateObstacles([falling], config, 0, 2)[0].debris).toEqual([]);
+  });
+
+  it('should crumble weakened bridges sooner', () => {
+    const bridge = { ...generateObstacle(config, 0, sequence(0.9, 0.5), 'bridge'), x: 100, integrity: 40 };
+    getObstacleDefinition(ObstacleType.COLLAPSING_BRIDGE).platform?.onStand?.(bridge);
+
+    expect(bridge.crumbleTimer).toBeCloseTo(0.2);
+    expect(updateObstacles([bridge], config, 0, 0.1)[0].integrity).toBeCloseTo(20);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Collapsing bridge - Stretch of ground that crumbles a moment after it is stood on
+ *
+ * Once stood on, the bridge keeps crumbling even if the player jumps off.
+ * When its timer runs out it breaks into falling debris and leaves a gap in
+ * the ground the player falls through.
+ */
+
+import { Debris, Obstacle, ObstacleDefinition, ObstacleType } from './types';
+import { GRAVITY, GROUND_HEIGHT } from '../constants';
+import { withAlpha } from '../../render/color';
+
+// Pieces a collapsing bridge breaks into
+const DEBRIS_PIECES = 4;
+
+// Speed each piece falls faster than the one to its left, so the bridge breaks up (px/s)
+const DEBRIS_STAGGER = 60;
+
+const breakUp = (obstacle: Obstacle): Debris[] => {
+  const width = obstacle.width / DEBRIS_PIECES;
+  return Array.from({ length: DEBRIS_PIECES }, (_, index) => ({
+    offsetX: index * width,
+    y: obstacle.y,
+    width,
+    height: obstacle.height,
+    velocityY: index * DEBRIS_STAGGER,
+  }));
+};
+
+export const collapsingBridge: ObstacleDefinition = {
+  type: ObstacleType.COLLAPSING_BRIDGE,
+  weight: 0.05,
+
+  spawn({ gameHeight, groundHeight }, difficulty, random) {
+    return {
+      width: 80 + random() * 60,
+      height: 15,
+      y: gameHeight - groundHeight,
+      integrity: 100, // Will decrease once the player stands on it
+      collapseDelay: 500 - difficulty * 300, // Time from first step to collapse (ms)
+    };
+  },
+
+  update(obstacle, { gameHeight }, dt) {
+    if (obstacle.collapsed) {
+      // Debris falls until it leaves the screen
+      const debris = (obstacle.debris || [])
+        .map(piece => {
+          const velocityY = piece.velocityY + GRAVITY * dt;
+          return { ...piece, velocityY, y: piece.y + velocityY * dt };
+        })
+        .filter(piece => piece.y < gameHeight);
+      return { ...obstacle, debris };
+    }
+
+    if (obstacle.crumbleTimer === undefined) {
+      return obstacle;
+    }
+
+    const crumbleTimer = obstacle.crumbleTimer - dt;
+    if (crumbleTimer <= 0) {
+      return { ...obstacle, crumbleTimer: 0, integrity: 0, collapsed: true, debris: breakUp(obstacle) };
+    }
+
+    const delay = (obstacle.collapseDelay || 0) / 1000;
+    return { ...obstacle, crumbleTimer, integrity: delay > 0 ? (100 * crumbleTimer) / delay : 0 };
+  },
+
+  platform: {
+    oneWay: false,
+    surfaceAt: (obstacle, left, right) =>
+      !obstacle.collapsed && left < obstacle.x + obstacle.width && right > obstacle.x ? obstacle.y : null,
+    onStand(obstacle) {
+      // Start crumbling on the first step; a weakened bridge has less of its delay left
+      if (obstacle.crumbleTimer === undefined) {
+        obstacle.crumbleTimer = ((obstacle.collapseDelay || 0) / 1000) * ((obstacle.integrity ?? 100) / 100);
+      }
+    },
+    isGap: obstacle => Boolean(obstacle.collapsed),
+  },
+
+  collide: () => ({ type: 'pass' }),
+
+  draw(painter, obstacle, palette) {
+    if (obstacle.collapsed) {
+      // The gap, showing sky through the ground
+      painter.fillRect(obstacle.x, obstacle.y, obstacle.width, GROUND_HEIGHT, palette.sky);
+      (obstacle.debris || []).forEach(piece =>
+        painter.fillRect(obstacle.x + piece.offsetX, piece.y, piece.width, piece.height, palette.bridge)
+      );
+      return;
+    }
+
+    // Fades as the bridge loses integrity
+    const alpha = Math.max(0.2, (obstacle.integrity || 0) / 100);
+    painter.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height, withAlpha(palette.bridge, alpha));
+  },
+};
@@ -0,0 +1,32 @@
+/**
+ * Floating platform - One-way ledge in the air
+ *
+ * The player jumps up through it from below and lands on it from above.
+ */
+
+import { ObstacleDefinition, ObstacleType } from './types';
+
+export const floatingPlatform: ObstacleDefinition = {
+  type: ObstacleType.FLOATING_PLATFORM,
+  weight: 0.03,
+
+  spawn({ gameHeight, groundHeight }, difficulty, random) {
+    return {
+      width: 90 + random() * 60,
+      height: 12,
+      y: gameHeight - groundHeight - 90 - random() * 90, // Within a jump of the ground
+    };
+  },
+
+  platform: {
+    oneWay: true,
+    surfaceAt: (obstacle, left, right) =>
+      left < obstacle.x + obstacle.width && right > obstacle.x ? obstacle.y : null,
+  },
+
+  collide: () => ({ type: 'pass' }),
+
+  draw(painter, obstacle, palette) {
+    painter.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height, palette.platform);
+  },
+};
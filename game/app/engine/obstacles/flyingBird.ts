@@ -0,0 +1,57 @@
+/**
+ * Flying bird - Hazard that flies through the sky on a sine path
+ */
+
+import { ObstacleDefinition, ObstacleType } from './types';
+
+// Lowest path centre above the ground, so birds fly rather than walk (px)
+const MIN_ALTITUDE = 120;
+
+export const flyingBird: ObstacleDefinition = {
+  type: ObstacleType.FLYING_BIRD,
+  weight: 0.1,
+
+  spawn({ gameHeight, groundHeight }, difficulty, random) {
+    const skyHeight = gameHeight - groundHeight;
+    const amplitude = 20 + random() * 30;
+    const baseY = amplitude + random() * Math.max(0, skyHeight - MIN_ALTITUDE - amplitude);
+    const phase = random() * Math.PI * 2;
+
+    return {
+      width: 34,
+      height: 20,
+      y: baseY + amplitude * Math.sin(phase),
+      baseY,
+      amplitude,
+      frequency: 0.5 + difficulty * 0.5, // Faster bobbing as difficulty increases
+      phase,
+    };
+  },
+
+  update(obstacle, field, dt) {
+    const phase = (obstacle.phase || 0) + Math.PI * 2 * (obstacle.frequency || 0) * dt;
+    return { ...obstacle, phase, y: (obstacle.baseY || 0) + (obstacle.amplitude || 0) * Math.sin(phase) };
+  },
+
+  collide: () => ({ type: 'hit' }),
+
+  draw(painter, obstacle, palette) {
+    const { x, y, width, height } = obstacle;
+    const midY = y + height / 2;
+    // Wings beat four times per oscillation of the path
+    const wingY = Math.sin((obstacle.phase || 0) * 4) > 0 ? y - height / 2 : y + height;
+
+    // Body, facing left towards the player
+    painter.fillPolygon(
+      [
+        [x, midY],
+        [x + width / 3, y + height / 4],
+        [x + width, midY],
+        [x + width / 3, y + (height * 3) / 4],
+      ],
+      palette.flyingBird
+    );
+    // Wing
+    painter.fillPolygon([[x + width / 3, midY], [x + (width * 2) / 3, wingY], [x + (width * 3) / 4, midY]], palette.flyingBird);
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * Gap wall - Wall from the ground to the top of the playfield with one opening to fly through
+ */
+
+import { ObstacleDefinition, ObstacleType } from './types';
+import { PLAYER_HEIGHT } from '../constants';
+
+// Lowest and highest bottom edge of the opening above the ground (px)
+const MIN_CLEARANCE = 50;
+const MAX_CLEARANCE = 150;
+
+export const gapWall: ObstacleDefinition = {
+  type: ObstacleType.GAP_WALL,
+  weight: 0.05,
+
+  spawn({ gameHeight, groundHeight }, difficulty, random) {
+    const groundTop = gameHeight - groundHeight;
+    // Narrower openings as difficulty increases, always wider than the player
+    const gapHeight = Math.max(PLAYER_HEIGHT * 2.5, 140 - difficulty * 40);
+    const gapBottom = groundTop - MIN_CLEARANCE - random() * (MAX_CLEARANCE - MIN_CLEARANCE);
+
+    return {
+      width: 30,
+      height: groundTop,
+      y: 0,
+      gapY: Math.max(0, gapBottom - gapHeight),
+      gapHeight,
+    };
+  },
+
+  collide(obstacle, { player }) {
+    const gapTop = obstacle.gapY || 0;
+    const gapBottom = gapTop + (obstacle.gapHeight || 0);
+    return player.top >= gapTop && player.bottom <= gapBottom ? { type: 'pass' } : { type: 'hit' };
+  },
+
+  draw(painter, obstacle, palette) {
+    const gapTop = obstacle.gapY || 0;
+    const gapBottom = gapTop + (obstacle.gapHeight || 0);
+    painter.fillRect(obstacle.x, obstacle.y, obstacle.width, gapTop - obstacle.y, palette.gapWall);
+    painter.fillRect(obstacle.x, gapBottom, obstacle.width, obstacle.y + obstacle.height - gapBottom, palette.gapWall);
+  },
+};
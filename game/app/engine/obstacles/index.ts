@@ -0,0 +1,88 @@
+/**
+ * Obstacles - Obstacle generation, movement and drawing
+ *
+ * Behaviour specific to each obstacle type lives in its definition module;
+ * this module dispatches through the registry.
+ */
+
+import { RandomSource } from '../random';
+import { Painter } from '../../render/Painter';
+import { ThemePalette } from '../../render/theme';
+import { Obstacle, ObstacleDefinition, ObstacleFieldConfig, ObstacleType } from './types';
+import { OBSTACLE_REGISTRY, getObstacleDefinition } from './registry';
+
+export * from './types';
+export { OBSTACLE_REGISTRY, getObstacleDefinition };
+
+/**
+ * Generate a random obstacle at the right edge of the playfield
+ * @param config Playfield dimensions
+ * @param difficulty Current difficulty level (0-1)
+ * @param random Random source; a seeded source reproduces the same course
+ * @param id Obstacle id, unique within a run
+ * @param weights Chance of each type spawning; the registry weights when omitted
+ * @returns The new obstacle
+ */
+export const generateObstacle = (
+  config: ObstacleFieldConfig,
+  difficulty: number,
+  random: RandomSource,
+  id: string,
+  weights?: Partial<Record<ObstacleType, number>>
+): Obstacle => {
+  // Weighted obstacle type selection
+  const weightOf = (definition: ObstacleDefinition) => weights?.[definition.type] ?? definition.weight;
+  const totalWeight = OBSTACLE_REGISTRY.reduce((sum, definition) => sum + weightOf(definition), 0);
+  const typeRandom = random() * totalWeight;
+  let cumulative = 0;
+  const definition =
+    OBSTACLE_REGISTRY.find(candidate => (cumulative += weightOf(candidate)) > typeRandom) ??
+    OBSTACLE_REGISTRY[OBSTACLE_REGISTRY.length - 1];
+
+  return {
+    id,
+    type: definition.type,
+    x: config.gameWidth, // Start at the right edge
+    active: true,
+    ...definition.spawn(config, difficulty, random),
+  };
+};
+
+/**
+ * Move obstacles left, animate moving ones and drop those that left the screen
+ * @param obstacles Current obstacles
+ * @param config Playfield dimensions
+ * @param obstacleSpeed Horizontal movement speed in px/s
+ * @param dt Elapsed time in seconds
+ * @returns Updated list of active obstacles
+ */
+export const updateObstacles = (
+  obstacles: Obstacle[],
+  config: ObstacleFieldConfig,
+  obstacleSpeed: number,
+  dt: number
+): Obstacle[] => {
+  return obstacles.map(obstacle => {
+    // Move obstacle left (basic movement)
+    const newX = obstacle.x - obstacleSpeed * dt;
+
+    // If obstacle is off-screen, mark it for removal
+    if (newX + obstacle.width < 0) {
+      return { ...obstacle, active: false };
+    }
+
+    const moved = { ...obstacle, x: newX };
+    const { update } = getObstacleDefinition(obstacle.type);
+    return update ? update(moved, config, dt) : moved;
+  }).filter(obstacle => obstacle.active);
+};
+
+/**
+ * Draw an obstacle with the draw function registered for its type
+ * @param painter Renderer primitives
+ * @param obstacle Obstacle to draw
+ * @param palette Theme colors
+ */
+export const drawObstacle = (painter: Painter, obstacle: Obstacle, palette: ThemePalette): void => {
+  getObstacleDefinition(obstacle.type).draw(painter, obstacle, palette);
+};
@@ -0,0 +1,47 @@
+/**
+ * Moving spike - Spike that bobs up and down above the ground
+ */
+
+import { ObstacleDefinition, ObstacleType } from './types';
+import { drawSpikeShape } from './spike';
+
+// How far above its lowest point the spike rises (px)
+const TRAVEL = 50;
+
+export const movingSpike: ObstacleDefinition = {
+  type: ObstacleType.MOVING_SPIKE,
+  weight: 0.25,
+
+  spawn({ gameHeight, groundHeight }, difficulty, random) {
+    const height = 20 + random() * 30;
+    return {
+      width: 20,
+      height,
+      y: gameHeight - groundHeight - height - (random() * 30),
+      direction: random() > 0.5 ? 1 : -1, // Up or down
+      speed: 60 + difficulty * 120, // Vertical movement speed
+    };
+  },
+
+  update(obstacle, { gameHeight, groundHeight }, dt) {
+    // Move up and down within bounds
+    const newY = obstacle.y + (obstacle.direction || 1) * (obstacle.speed || 60) * dt;
+    const minY = gameHeight - groundHeight - obstacle.height - TRAVEL;
+    const maxY = gameHeight - groundHeight - obstacle.height;
+
+    // Reverse direction if hitting bounds
+    if (newY <= minY || newY >= maxY) {
+      return {
+        ...obstacle,
+        y: newY <= minY ? minY : maxY,
+        direction: (obstacle.direction || 1) * -1,
+      };
+    }
+
+    return { ...obstacle, y: newY };
+  },
+
+  collide: () => ({ type: 'hit' }),
+
+  draw: (painter, obstacle, palette) => drawSpikeShape(painter, obstacle, palette.movingSpike),
+};
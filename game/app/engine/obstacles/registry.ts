@@ -0,0 +1,45 @@
+/**
+ * Obstacle registry - Every obstacle type, in spawn order
+ *
+ * To add an obstacle type, add it to ObstacleType, write its definition in
+ * its own module and list it here.
+ */
+
+import { ObstacleDefinition, ObstacleType } from './types';
+import { spike } from './spike';
+import { movingSpike } from './movingSpike';
+import { collapsingBridge } from './collapsingBridge';
+import { variableGround } from './variableGround';
+import { stalactite } from './stalactite';
+import { flyingBird } from './flyingBird';
+import { gapWall } from './gapWall';
+import { windZone } from './windZone';
+import { floatingPlatform } from './floatingPlatform';
+
+// A spawn draw picks the first type whose cumulative weight exceeds it, so the order fixes the course for a seed
+export const OBSTACLE_REGISTRY: ObstacleDefinition[] = [
+  spike,
+  movingSpike,
+  stalactite,
+  flyingBird,
+  variableGround,
+  floatingPlatform,
+  collapsingBridge,
+  gapWall,
+  windZone,
+];
+
+const definitionsByType = new Map(OBSTACLE_REGISTRY.map(definition => [definition.type, definition]));
+
+/**
+ * Look up the definition of an obstacle type
+ * @param type Obstacle type
+ * @throws Error if the type was never registered
+ */
+export const getObstacleDefinition = (type: ObstacleType): ObstacleDefinition => {
+  const definition = definitionsByType.get(type);
+  if (!definition) {
+    throw new Error(`No obstacle definition registered for "${type}"`);
+  }
+  return definition;
+};
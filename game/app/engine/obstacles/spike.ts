@@ -0,0 +1,37 @@
+/**
+ * Spike - Static spike standing on the ground
+ */
+
+import { Painter } from '../../render/Painter';
+import { Obstacle, ObstacleDefinition, ObstacleType } from './types';
+
+/**
+ * Draw a spike pointing up from the bottom of the obstacle's box
+ * @param painter Renderer primitives
+ * @param obstacle Spike to draw
+ * @param color Fill color
+ */
+export const drawSpikeShape = (painter: Painter, obstacle: Obstacle, color: string): void => {
+  painter.fillPolygon(
+    [
+      [obstacle.x, obstacle.y + obstacle.height],
+      [obstacle.x + obstacle.width / 2, obstacle.y],
+      [obstacle.x + obstacle.width, obstacle.y + obstacle.height],
+    ],
+    color
+  );
+};
+
+export const spike: ObstacleDefinition = {
+  type: ObstacleType.SPIKE,
+  weight: 0.3,
+
+  spawn({ gameHeight, groundHeight }, difficulty, random) {
+    const height = 30 + random() * 20;
+    return { width: 20, height, y: gameHeight - groundHeight - height };
+  },
+
+  collide: () => ({ type: 'hit' }),
+
+  draw: (painter, obstacle, palette) => drawSpikeShape(painter, obstacle, palette.spike),
+};
@@ -0,0 +1,29 @@
+/**
+ * Stalactite - Spike hanging from the top of the playfield, punishing jumps that go too high
+ */
+
+import { ObstacleDefinition, ObstacleType } from './types';
+
+export const stalactite: ObstacleDefinition = {
+  type: ObstacleType.STALACTITE,
+  weight: 0.08,
+
+  spawn({ gameHeight, groundHeight }, difficulty, random) {
+    // Longer as the game gets harder, always leaving room to pass underneath
+    const maxHeight = (gameHeight - groundHeight) / 2;
+    return { width: 30, height: Math.min(maxHeight, 60 + random() * 60 + difficulty * 40), y: 0 };
+  },
+
+  collide: () => ({ type: 'hit' }),
+
+  draw(painter, obstacle, palette) {
+    painter.fillPolygon(
+      [
+        [obstacle.x, obstacle.y],
+        [obstacle.x + obstacle.width, obstacle.y],
+        [obstacle.x + obstacle.width / 2, obstacle.y + obstacle.height],
+      ],
+      palette.stalactite
+    );
+  },
+};
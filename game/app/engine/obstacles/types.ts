@@ -0,0 +1,156 @@
+/**
+ * Obstacle types - Obstacle model and the definition each obstacle type registers
+ */
+
+import { RandomSource } from '../random';
+import { Painter } from '../../render/Painter';
+import { ThemePalette } from '../../render/theme';
+
+// Obstacle types
+export enum ObstacleType {
+  SPIKE = 'spike',
+  MOVING_SPIKE = 'moving-spike',
+  COLLAPSING_BRIDGE = 'collapsing-bridge',
+  VARIABLE_GROUND = 'variable-ground',
+  STALACTITE = 'stalactite',
+  FLYING_BIRD = 'flying-bird',
+  GAP_WALL = 'gap-wall',
+  WIND_ZONE = 'wind-zone',
+  FLOATING_PLATFORM = 'floating-platform',
+}
+
+// Piece of a collapsed bridge falling into the gap
+export interface Debris {
+  offsetX: number; // From the bridge's x, so debris scrolls with it
+  y: number;
+  width: number;
+  height: number;
+  velocityY: number; // px/s
+}
+
+export interface Obstacle {
+  id: string;
+  type: ObstacleType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  active: boolean;
+  // For moving obstacles
+  direction?: number;
+  speed?: number; // Vertical movement speed in px/s
+  // For collapsing bridges
+  integrity?: number; // Share of the crumble delay left (%): 100 when intact, 0 when collapsed
+  collapseDelay?: number; // Time from first being stood on to collapsing (ms)
+  crumbleTimer?: number; // Seconds left until collapse; set once stood on
+  collapsed?: boolean; // Collapsed bridges leave a gap in the ground
+  debris?: Debris[];
+  // For variable ground
+  elevation?: number; // Height of the raised part above y, reached by a slope at each end
+  // For flying birds, which follow a sine path
+  baseY?: number; // Centre of the path
+  amplitude?: number; // px above and below the centre
+  frequency?: number; // Oscillations per second
+  phase?: number; // Radians
+  // For gap walls
+  gapY?: number; // Top of the opening
+  gapHeight?: number;
+  // For wind zones
+  force?: number; // Vertical acceleration in px/s²; negative pushes up
+}
+
+// Dimensions of the playfield obstacles are generated for
+export interface ObstacleFieldConfig {
+  gameWidth: number;
+  gameHeight: number;
+  groundHeight: number;
+}
+
+// Size, position and type-specific fields of a new obstacle
+export type ObstacleSpawn = Omit<Obstacle, 'id' | 'type' | 'x' | 'active'>;
+
+export interface Hitbox {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// What touching an obstacle does to the player
+export type CollisionResponse =
+  | { type: 'pass' } // Nothing, e.g. flying through a gap
+  | { type: 'hit' } // Ends the run unless shielded
+  | { type: 'push'; acceleration: number }; // Vertical acceleration in px/s²
+
+export interface CollisionContext {
+  player: Hitbox;
+  obstacle: Hitbox;
+}
+
+/**
+ * Surface the player can stand on. Standing is resolved by the platform
+ * subsystem (platforms.ts) rather than by overlap, so the player can stand
+ * exactly on a surface and walk up slopes.
+ */
+export interface PlatformDefinition {
+  oneWay: boolean; // Jump up through it from below and land on it from above
+
+  /**
+   * Height of the standing surface under a horizontal span
+   * @param obstacle The platform
+   * @param left Left edge of the span
+   * @param right Right edge of the span
+   * @returns Highest surface y under the span, or null if there is nothing to stand on
+   */
+  surfaceAt(obstacle: Obstacle, left: number, right: number): number | null;
+
+  /**
+   * Called on every step the player stands on the platform; may wear it down
+   */
+  onStand?(obstacle: Obstacle): void;
+
+  /**
+   * Whether the platform has left a hole in the ground the player falls through
+   */
+  isGap?(obstacle: Obstacle): boolean;
+}
+
+/**
+ * Everything the game knows about one obstacle type. Definitions are listed
+ * in the registry; generation, movement, collision and drawing dispatch
+ * through them rather than switching on the type.
+ */
+export interface ObstacleDefinition {
+  type: ObstacleType;
+  weight: number; // Relative chance of spawning
+
+  /**
+   * Size and place a new obstacle
+   * @param field Playfield dimensions
+   * @param difficulty Current difficulty level (0-1)
+   * @param random Random source; a seeded source reproduces the same course
+   */
+  spawn(field: ObstacleFieldConfig, difficulty: number, random: RandomSource): ObstacleSpawn;
+
+  /**
+   * Movement besides scrolling left, applied after the scroll
+   * @param obstacle Obstacle at its new x
+   * @param field Playfield dimensions
+   * @param dt Elapsed time in seconds
+   * @returns The updated obstacle
+   */
+  update?(obstacle: Obstacle, field: ObstacleFieldConfig, dt: number): Obstacle;
+
+  // Set for obstacles the player can stand on
+  platform?: PlatformDefinition;
+
+  /**
+   * Respond to the player's hitbox overlapping the obstacle's
+   */
+  collide(obstacle: Obstacle, context: CollisionContext): CollisionResponse;
+
+  /**
+   * Draw with renderer-independent primitives in the theme's colors
+   */
+  draw(painter: Painter, obstacle: Obstacle, palette: ThemePalette): void;
+}
@@ -0,0 +1,81 @@
+/**
+ * Variable ground - Raised stretch of ground the player walks up and over
+ *
+ * The raised part is `elevation` px above y, with a slope up at the front
+ * and down at the back.
+ */
+
+import { Obstacle, ObstacleDefinition, ObstacleType } from './types';
+
+// Horizontal length of each slope (px); narrow ground uses half its width
+const SLOPE_WIDTH = 30;
+
+const slopeWidth = (obstacle: Obstacle): number => Math.min(SLOPE_WIDTH, obstacle.width / 2);
+
+/**
+ * Height of the surface above y at a point
+ * @param obstacle Variable ground
+ * @param x Playfield x
+ */
+const heightAt = (obstacle: Obstacle, x: number): number => {
+  const elevation = obstacle.elevation || 0;
+  const slope = slopeWidth(obstacle);
+  const fromLeft = x - obstacle.x;
+  const fromRight = obstacle.x + obstacle.width - x;
+
+  if (slope <= 0) {
+    return elevation;
+  }
+  return elevation * Math.max(0, Math.min(1, fromLeft / slope, fromRight / slope));
+};
+
+export const variableGround: ObstacleDefinition = {
+  type: ObstacleType.VARIABLE_GROUND,
+  weight: 0.1,
+
+  spawn({ gameHeight, groundHeight }, difficulty, random) {
+    return {
+      width: 100 + random() * 150,
+      height: groundHeight,
+      y: gameHeight - groundHeight,
+      elevation: Math.round(20 + random() * 40 * difficulty), // How much the ground changes
+    };
+  },
+
+  platform: {
+    oneWay: false,
+    surfaceAt(obstacle, left, right) {
+      const from = Math.max(left, obstacle.x);
+      const to = Math.min(right, obstacle.x + obstacle.width);
+      if (from >= to) {
+        return null;
+      }
+
+      // The surface only rises to a peak, so the highest point of the span is at an end or on the flat top
+      const slope = slopeWidth(obstacle);
+      const reachesTop = from <= obstacle.x + obstacle.width - slope && to >= obstacle.x + slope;
+      const height = reachesTop ? obstacle.elevation || 0 : Math.max(heightAt(obstacle, from), heightAt(obstacle, to));
+      return obstacle.y - height;
+    },
+  },
+
+  collide: () => ({ type: 'pass' }),
+
+  draw(painter, obstacle, palette) {
+    const { x, y, width, height } = obstacle;
+    const top = y - (obstacle.elevation || 0);
+    const slope = slopeWidth(obstacle);
+
+    painter.fillPolygon(
+      [
+        [x, y + height],
+        [x, y],
+        [x + slope, top],
+        [x + width - slope, top],
+        [x + width, y],
+        [x + width, y + height],
+      ],
+      palette.variableGround
+    );
+  },
+};
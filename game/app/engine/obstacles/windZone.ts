@@ -0,0 +1,49 @@
+/**
+ * Wind zone - Column of air that pushes the player up or down while inside it
+ */
+
+import { ObstacleDefinition, ObstacleType } from './types';
+import { withAlpha } from '../../render/color';
+
+// Updrafts are weaker than gravity, so they lengthen jumps without lifting the player off the ground
+const MIN_FORCE = 700; // px/s²
+const MAX_FORCE = 1400;
+
+// Arrows drawn across the zone
+const ARROW_COLUMNS = 3;
+const ARROW_SIZE = 12;
+
+export const windZone: ObstacleDefinition = {
+  type: ObstacleType.WIND_ZONE,
+  weight: 0.04,
+
+  spawn({ gameHeight, groundHeight }, difficulty, random) {
+    const direction = random() < 0.7 ? -1 : 1; // Mostly updrafts
+    return {
+      width: 120 + random() * 80,
+      height: gameHeight - groundHeight,
+      y: 0,
+      force: direction * (MIN_FORCE + random() * (MAX_FORCE - MIN_FORCE) * (0.5 + difficulty / 2)),
+    };
+  },
+
+  collide: obstacle => ({ type: 'push', acceleration: obstacle.force || 0 }),
+
+  draw(painter, obstacle, palette) {
+    const { x, y, width, height } = obstacle;
+    const up = (obstacle.force || 0) < 0;
+    painter.fillRect(x, y, width, height, withAlpha(palette.windZone, 0.25));
+
+    // Arrows showing which way the wind blows
+    for (let column = 0; column < ARROW_COLUMNS; column++) {
+      const centerX = x + (width * (column + 0.5)) / ARROW_COLUMNS;
+      for (let arrowY = y + height / 4; arrowY < y + height; arrowY += height / 4) {
+        const tip = up ? arrowY - ARROW_SIZE : arrowY + ARROW_SIZE;
+        painter.fillPolygon(
+          [[centerX - ARROW_SIZE / 2, arrowY], [centerX, tip], [centerX + ARROW_SIZE / 2, arrowY]],
+          withAlpha(palette.windZone, 0.6)
+        );
+      }
+    }
+  },
+};
@@ -0,0 +1,71 @@
+/**
+ * Tests for platforms.ts
+ */
+
+import { Obstacle, ObstacleType } from './obstacles';
+import { findSupport, isOverGap } from './platforms';
+
+const groundTop = 550;
+
+const obstacle = (type: ObstacleType, fields: Partial<Obstacle> = {}): Obstacle => ({
+  id: type,
+  type,
+  x: 100,
+  y: groundTop,
+  width: 200,
+  height: 15,
+  active: true,
+  ...fields,
+});
+
+// 40px square player standing with its bottom at `bottom`, 20px right of the obstacles' left edge
+const player = (bottom: number, left = 120) => ({ left, right: left + 40, top: bottom - 40, bottom });
+
+describe('platforms', () => {
+  it('should stand the player on a bridge they are touching', () => {
+    const bridge = obstacle(ObstacleType.COLLAPSING_BRIDGE, { integrity: 100 });
+
+    expect(findSupport([bridge], player(groundTop), groundTop)).toEqual({ obstacle: bridge, surfaceY: groundTop });
+    expect(findSupport([bridge], player(groundTop - 1), groundTop - 1)).toBeNull();
+    expect(findSupport([bridge], player(groundTop, 400), groundTop)).toBeNull();
+  });
+
+  it('should follow the slope of variable ground', () => {
+    const ground = obstacle(ObstacleType.VARIABLE_GROUND, { x: 100, height: 50, elevation: 30 });
+
+    // Front edge 15px up the 30px slope
+    expect(findSupport([ground], player(groundTop, 75), groundTop)?.surfaceY).toBe(groundTop - 15);
+    // On the flat top
+    expect(findSupport([ground], player(groundTop, 150), groundTop)?.surfaceY).toBe(groundTop - 30);
+    // Jumping over it
+    expect(findSupport([ground], player(groundTop - 40, 150), groundTop - 40)).toBeNull();
+  });
+
+  it('should only catch players coming down onto one-way platforms', () => {
+    const platform = obstacle(ObstacleType.FLOATING_PLATFORM, { y: 400, height: 12 });
+
+    // Falling onto it
+    expect(findSupport([platform], player(404), 398)?.surfaceY).toBe(400);
+    // Standing on it
+    expect(findSupport([platform], player(400), 400)?.surfaceY).toBe(400);
+    // Jumping up through it
+    expect(findSupport([platform], player(404), 410)).toBeNull();
+  });
+
+  it('should pick the highest surface under the player', () => {
+    const bridge = obstacle(ObstacleType.COLLAPSING_BRIDGE, { integrity: 100 });
+    const ground = obstacle(ObstacleType.VARIABLE_GROUND, { height: 50, elevation: 30 });
+
+    expect(findSupport([bridge, ground], player(groundTop, 150), groundTop)?.obstacle).toBe(ground);
+  });
+
+  it('should let the player fall through a collapsed bridge', () => {
+    const bridge = obstacle(ObstacleType.COLLAPSING_BRIDGE, { integrity: 0, collapsed: true });
+
+    expect(findSupport([bridge], player(groundTop + 5), groundTop)).toBeNull();
+    expect(isOverGap([bridge], 120, 160)).toBe(true);
+    // Part of the player is still over solid ground
+    expect(isOverGap([bridge], 80, 120)).toBe(false);
+    expect(isOverGap([{ ...bridge, collapsed: false }], 120, 160)).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Platforms - Standing on obstacles and falling through gaps in the ground
+ *
+ * Obstacles with a platform definition are stood on rather than collided
+ * with. Solid platforms (ground, bridges) hold the player up wherever their
+ * surface is; one-way platforms only catch a player coming down onto them.
+ */
+
+import { Hitbox, Obstacle, getObstacleDefinition } from './obstacles';
+
+export interface Support {
+  obstacle: Obstacle;
+  surfaceY: number;
+}
+
+/**
+ * Find the surface the player stands on
+ * @param obstacles Current obstacles
+ * @param player Player hitbox after this step's movement
+ * @param previousBottom Bottom of the player before this step's movement
+ * @returns The highest surface the player is on or has fallen onto, or null if none
+ */
+export const findSupport = (obstacles: Obstacle[], player: Hitbox, previousBottom: number): Support | null => {
+  let support: Support | null = null;
+
+  for (const obstacle of obstacles) {
+    const { platform } = getObstacleDefinition(obstacle.type);
+    const surfaceY = platform?.surfaceAt(obstacle, player.left, player.right) ?? null;
+    if (!platform || surfaceY === null || player.bottom < surfaceY) {
+      continue;
+    }
+
+    // One-way platforms only catch a player who was above them; solid ones
+    // lift the player onto them unless the player is entirely below the surface
+    const lands = platform.oneWay ? previousBottom <= surfaceY : player.top < surfaceY;
+    if (lands && (!support || surfaceY < support.surfaceY)) {
+      support = { obstacle, surfaceY };
+    }
+  }
+
+  return support;
+};
+
+/**
+ * Whether a span of the ground is entirely over a gap
+ * @param obstacles Current obstacles
+ * @param left Left edge of the span
+ * @param right Right edge of the span
+ */
+export const isOverGap = (obstacles: Obstacle[], left: number, right: number): boolean =>
+  obstacles.some(obstacle => {
+    const { platform } = getObstacleDefinition(obstacle.type);
+    return Boolean(platform?.isGap?.(obstacle)) && left >= obstacle.x && right <= obstacle.x + obstacle.width;
+  });
@@ -0,0 +1,50 @@
+/**
+ * Tests for random.ts
+ */
+
+import { createRandom, hashSeed, getDailySeed } from './random';
+
+describe('random', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+
+    const sequenceA = Array.from({ length: 10 }, () => a());
+    const sequenceB = Array.from({ length: 10 }, () => b());
+
+    expect(sequenceA).toEqual(sequenceB);
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    const a = createRandom(1);
+    const b = createRandom(2);
+
+    expect(a()).not.toBe(b());
+  });
+
+  it('should return values in [0, 1)', () => {
+    const random = createRandom(123);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('should hash strings to stable 32-bit seeds', () => {
+    expect(hashSeed('abc')).toBe(hashSeed('abc'));
+    expect(hashSeed('abc')).not.toBe(hashSeed('abd'));
+    expect(hashSeed('abc')).toBeGreaterThanOrEqual(0);
+    expect(hashSeed('abc')).toBeLessThan(4294967296);
+  });
+
+  it('should share the daily seed within a UTC day', () => {
+    const morning = getDailySeed(new Date('2024-05-01T01:00:00Z'));
+    const evening = getDailySeed(new Date('2024-05-01T23:00:00Z'));
+    const nextDay = getDailySeed(new Date('2024-05-02T01:00:00Z'));
+
+    expect(morning).toBe(evening);
+    expect(morning).not.toBe(nextDay);
+  });
+});
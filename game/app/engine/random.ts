@@ -0,0 +1,52 @@
+/**
+ * Seedable pseudo-random number generation for reproducible courses
+ */
+
+// Drop-in replacement for Math.random: returns a float in [0, 1)
+export type RandomSource = () => number;
+
+/**
+ * Create a deterministic random source (mulberry32)
+ * @param seed 32-bit integer seed
+ * @returns Random source producing the same sequence for the same seed
+ */
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Hash a string into a 32-bit seed (FNV-1a)
+ * @param text Text to hash, e.g. a date or a shared challenge code
+ * @returns 32-bit unsigned seed
+ */
+export const hashSeed = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Pick a fresh seed for an unseeded run
+ * @returns 32-bit unsigned seed
+ */
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+/**
+ * Seed shared by every player on the same UTC day
+ * @param date Day to get the seed for (defaults to today)
+ * @returns 32-bit unsigned seed
+ */
+export const getDailySeed = (date: Date = new Date()): number => {
+  return hashSeed(`daily-${date.toISOString().slice(0, 10)}`);
+};
@@ -0,0 +1,145 @@
+/**
+ * Tests for replay.ts
+ */
+
+import { GameSimulation, GameState, NO_INPUT } from './GameSimulation';
+import { FIXED_TIMESTEP } from './constants';
+import { REPLAY_VERSION, RunPlayer, RunRecorder, quantizeInput, simulateRun } from './replay';
+
+const config = { width: 800, height: 600 };
+
+// Play a run with a jump every `interval` steps until game over, recording it
+const recordRun = (seed: number, interval: number) => {
+  const simulation = new GameSimulation({ ...config, seed });
+  const recorder = new RunRecorder(seed, config);
+  simulation.start();
+
+  while (simulation.state === GameState.PLAYING && simulation.tick < 20000) {
+    const input = (simulation.tick + 1) % interval === 0
+      ? quantizeInput({ jump: true, jumpPower: 0.61234 })
+      : NO_INPUT;
+    recorder.recordStep(input, (simulation.tick % 10) / 10);
+    simulation.step(FIXED_TIMESTEP, input);
+  }
+
+  return { simulation, log: recorder.finish(simulation.score) };
+};
+
+describe('replay', () => {
+  it('should reproduce the recorded outcome', () => {
+    const { simulation, log } = recordRun(2024, 45);
+    const result = simulateRun(log);
+
+    expect(result.score).toBe(simulation.score);
+    expect(result.ticks).toBe(simulation.tick);
+    expect(result.state).toBe(simulation.state);
+  });
+
+  it('should report every replayed step', () => {
+    const { log } = recordRun(2024, 45);
+    const ticks: number[] = [];
+
+    const result = simulateRun(log, simulation => ticks.push(simulation.tick));
+
+    expect(ticks).toHaveLength(result.ticks);
+    expect(ticks[ticks.length - 1]).toBe(result.ticks);
+  });
+
+  it('should store jumps compactly with the seed and config', () => {
+    const { log } = recordRun(5, 30);
+
+    expect(log.version).toBe(REPLAY_VERSION);
+    expect(log.seed).toBe(5);
+    expect(log.config).toEqual({ ...config, difficulty: 'normal' });
+    expect(log.jumps[0]).toEqual([30, 612]);
+    expect(log.intensity.reduce((total, [, count]) => total + count, 0)).toBe(log.ticks);
+  });
+
+  it('should expose recorded input and intensity per tick', () => {
+    const recorder = new RunRecorder(1, config);
+    recorder.recordStep(NO_INPUT, 0.2);
+    recorder.recordStep(NO_INPUT, 0.2);
+    recorder.recordStep({ jump: true, jumpPower: 0.5 }, 0.9);
+    recorder.recordKey('Space', 'down');
+    const log = recorder.finish(3);
+
+    expect(log.intensity).toEqual([[20, 2], [90, 1]]);
+    expect(log.keys).toEqual([[3, 'Space', 'down']]);
+
+    const player = new RunPlayer(log);
+    expect(player.inputForTick(2)).toEqual(NO_INPUT);
+    expect(player.inputForTick(3)).toEqual({ jump: true, jumpPower: 0.5 });
+    expect(player.intensityForTick(1)).toBe(0.2);
+    expect(player.intensityForTick(3)).toBe(0.9);
+  });
+
+  it('should detect a different outcome when input is tampered with', () => {
+    const { log } = recordRun(42, 45);
+    const tampered = { ...log, jumps: [] };
+
+    expect(simulateRun(tampered).score).not.toBe(log.score);
+  });
+
+  it('should replay runs on the difficulty they were played on', () => {
+    const { simulation, log } = recordRun(2024, 45);
+    const result = simulateRun({ ...log, config: { ...log.config, difficulty: 'insane' } });
+
+    // The same input crashes at a different point on another preset
+    expect(result.ticks).not.toBe(simulation.tick);
+  });
+
+  it('should quantize lift and keep it without a jump', () => {
+    expect(quantizeInput({ jump: false, jumpPower: 0, lift: 0.12345 })).toEqual({ jump: false, jumpPower: 0, lift: 0.123 });
+    expect(quantizeInput({ jump: false, jumpPower: 0, lift: 3 }).lift).toBe(1);
+    expect(quantizeInput({ jump: false, jumpPower: 0 })).toEqual(NO_INPUT);
+  });
+
+  it('should record and replay pitch-steered runs', () => {
+    const simulation = new GameSimulation({ ...config, seed: 2024 });
+    const recorder = new RunRecorder(2024, config);
+    simulation.start();
+
+    // Hum in waves, with silent gaps between them
+    while (simulation.state === GameState.PLAYING && simulation.tick < 20000) {
+      const phase = simulation.tick % 120;
+      const input = phase < 90
+        ? quantizeInput({ jump: false, jumpPower: 0, lift: Math.sin(simulation.tick / 20) })
+        : NO_INPUT;
+      recorder.recordStep(input);
+      simulation.step(FIXED_TIMESTEP, input);
+    }
+    const log = recorder.finish(simulation.score);
+
+    expect(log.lift?.reduce((total, [, count]) => total + count, 0)).toBe(log.ticks);
+    expect(log.lift).toContainEqual([null, 30]);
+    expect(simulateRun(log)).toEqual({ score: simulation.score, ticks: simulation.tick, state: simulation.state });
+    expect(new RunPlayer(log).inputForTick(91)).toEqual(NO_INPUT);
+  });
+
+  it('should leave lift out of loudness runs', () => {
+    expect(recordRun(5, 30).log).not.toHaveProperty('lift');
+  });
+
+  it('should record and replay ability activations', () => {
+    const simulation = new GameSimulation({ ...config, seed: 2025 });
+    const recorder = new RunRecorder(2025, config);
+    simulation.start();
+
+    while (simulation.state === GameState.PLAYING && simulation.tick < 20000) {
+      const tick = simulation.tick + 1;
+      const input = quantizeInput({
+        jump: tick % 45 === 0,
+        jumpPower: 0.6,
+        ability: tick === 30 ? 'shield' : tick === 400 ? 'slowMotion' : undefined,
+      });
+      recorder.recordStep(input);
+      simulation.step(FIXED_TIMESTEP, input);
+    }
+    const log = recorder.finish(simulation.score);
+
+    expect(log.abilities).toEqual([[30, 'shield'], [400, 'slowMotion']]);
+    expect(new RunPlayer(log).inputForTick(30)).toEqual({ ...NO_INPUT, ability: 'shield' });
+    expect(simulateRun(log)).toEqual({ score: simulation.score, ticks: simulation.tick, state: simulation.state });
+    expect(recordRun(5, 30).log).not.toHaveProperty('abilities');
+  });
+});
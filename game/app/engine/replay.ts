@@ -0,0 +1,241 @@
+/**
+ * Replay - Compact run logs for recording, watching and re-simulating runs
+ *
+ * A run is fully determined by its seed, playfield size, difficulty preset and the input fed to
+ * each simulation step, so replaying a log through GameSimulation reproduces
+ * the original outcome exactly.
+ */
+
+import { FIXED_TIMESTEP } from './constants';
+import { GameSimulation, GameState, SimulationInput, NO_INPUT } from './GameSimulation';
+import { AbilityId } from './abilities';
+import { DEFAULT_DIFFICULTY, DifficultyPresetId } from './difficulty';
+
+// Bump whenever simulation rules change in a way that alters outcomes
+export const REPLAY_VERSION = 4;
+
+// Jump power is stored in thousandths
+const POWER_SCALE = 1000;
+// Microphone intensity is stored in hundredths
+const INTENSITY_SCALE = 100;
+// Pitch lift is stored in thousandths
+const LIFT_SCALE = 1000;
+
+export type KeyEventType = 'down' | 'up';
+
+// Course settings a run was played with
+export interface RunConfig {
+  width: number;
+  height: number;
+  difficulty: DifficultyPresetId;
+}
+
+export interface RunLog {
+  version: number;
+  seed: number;
+  config: RunConfig;
+  ticks: number; // Simulation steps in the run
+  score: number; // Final score reported by the recording client
+  jumps: [tick: number, power: number][];
+  intensity: [value: number, count: number][]; // Run-length encoded per-tick mic intensity
+  keys: [tick: number, code: string, type: KeyEventType][];
+  // Run-length encoded per-tick pitch lift (null when not steering); omitted for loudness runs
+  lift?: [value: number | null, count: number][];
+  // Ability activations; omitted for runs without any
+  abilities?: [tick: number, ability: AbilityId][];
+}
+
+export interface RunResult {
+  score: number;
+  ticks: number;
+  state: GameState;
+}
+
+/**
+ * Round input to the precision stored in run logs
+ * Live play feeds quantized input to the simulation so replays match exactly.
+ * @param input Raw input
+ * @returns Input with jump power and lift rounded to log precision
+ */
+export const quantizeInput = (input: SimulationInput): SimulationInput => {
+  const jumpPart = input.jump
+    ? { jump: true, jumpPower: Math.round(input.jumpPower * POWER_SCALE) / POWER_SCALE }
+    : NO_INPUT;
+  const jumpInput = input.ability ? { ...jumpPart, ability: input.ability } : jumpPart;
+
+  if (input.lift === undefined) {
+    return jumpInput;
+  }
+  const lift = Math.max(-1, Math.min(1, input.lift));
+  return { ...jumpInput, lift: Math.round(lift * LIFT_SCALE) / LIFT_SCALE };
+};
+
+// Append a value to a run-length encoded list
+const appendRun = <T>(runs: [T, number][], value: T): void => {
+  const last = runs[runs.length - 1];
+  if (last && last[0] === value) {
+    last[1] += 1;
+  } else {
+    runs.push([value, 1]);
+  }
+};
+
+// Expand a run-length encoded list to one value per tick
+const expandRuns = <T>(runs: [T, number][], scale: (value: T) => T): T[] => {
+  const values: T[] = [];
+  for (const [value, count] of runs) {
+    for (let i = 0; i < count; i++) {
+      values.push(scale(value));
+    }
+  }
+  return values;
+};
+
+export class RunRecorder {
+  private readonly seed: number;
+  private readonly config: RunConfig;
+  private ticks = 0;
+  private jumps: RunLog['jumps'] = [];
+  private intensity: RunLog['intensity'] = [];
+  private lift: NonNullable<RunLog['lift']> = [];
+  private steered = false; // Whether any step used pitch lift
+  private keys: RunLog['keys'] = [];
+  private abilities: NonNullable<RunLog['abilities']> = [];
+
+  constructor(seed: number, config: { width: number; height: number; difficulty?: DifficultyPresetId }) {
+    this.seed = seed;
+    this.config = { width: config.width, height: config.height, difficulty: config.difficulty ?? DEFAULT_DIFFICULTY };
+  }
+
+  /**
+   * Record the input fed to the next simulation step
+   * @param input Quantized input passed to GameSimulation.step
+   * @param intensity Microphone intensity (0-1) sampled for this step
+   */
+  recordStep(input: SimulationInput, intensity: number = 0): void {
+    this.ticks += 1;
+
+    if (input.jump) {
+      this.jumps.push([this.ticks, Math.round(input.jumpPower * POWER_SCALE)]);
+    }
+
+    if (input.ability) {
+      this.abilities.push([this.ticks, input.ability]);
+    }
+
+    appendRun(this.intensity, Math.round(intensity * INTENSITY_SCALE));
+
+    if (input.lift !== undefined) {
+      this.steered = true;
+    }
+    appendRun(this.lift, input.lift === undefined ? null : Math.round(input.lift * LIFT_SCALE));
+  }
+
+  /**
+   * Record a keyboard event at the current step
+   * @param code KeyboardEvent.code
+   * @param type Key press or release
+   */
+  recordKey(code: string, type: KeyEventType): void {
+    this.keys.push([this.ticks, code, type]);
+  }
+
+  /**
+   * Build the finished log
+   * @param score Final score of the run
+   */
+  finish(score: number): RunLog {
+    const log: RunLog = {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      config: { ...this.config },
+      ticks: this.ticks,
+      score,
+      jumps: this.jumps.map(([tick, power]) => [tick, power]),
+      intensity: this.intensity.map(([value, count]) => [value, count]),
+      keys: this.keys.map(([tick, code, type]) => [tick, code, type]),
+    };
+
+    if (this.steered) {
+      log.lift = this.lift.map(([value, count]) => [value, count]);
+    }
+    if (this.abilities.length > 0) {
+      log.abilities = this.abilities.map(([tick, ability]) => [tick, ability]);
+    }
+    return log;
+  }
+}
+
+export class RunPlayer {
+  readonly log: RunLog;
+  private jumpsByTick: Map<number, number>;
+  private intensityByTick: number[] | null = null;
+  private liftByTick: (number | null)[] | null;
+  private abilitiesByTick: Map<number, AbilityId>;
+
+  constructor(log: RunLog) {
+    this.log = log;
+    this.jumpsByTick = new Map(log.jumps.map(([tick, power]) => [tick, power]));
+    this.liftByTick = log.lift
+      ? expandRuns(log.lift, value => (value === null ? null : value / LIFT_SCALE))
+      : null;
+    this.abilitiesByTick = new Map(log.abilities ?? []);
+  }
+
+  /**
+   * Input recorded for a simulation step
+   * @param tick 1-based step number, i.e. GameSimulation.tick after the step
+   */
+  inputForTick(tick: number): SimulationInput {
+    const power = this.jumpsByTick.get(tick);
+    const jumpInput = power === undefined ? NO_INPUT : { jump: true, jumpPower: power / POWER_SCALE };
+    const ability = this.abilitiesByTick.get(tick);
+    const input = ability ? { ...jumpInput, ability } : jumpInput;
+
+    const lift = this.liftByTick?.[tick - 1];
+    if (lift === undefined || lift === null) {
+      return input;
+    }
+    return { ...input, lift };
+  }
+
+  /**
+   * Microphone intensity (0-1) recorded for a simulation step
+   * @param tick 1-based step number
+   */
+  intensityForTick(tick: number): number {
+    if (!this.intensityByTick) {
+      this.intensityByTick = expandRuns(this.log.intensity, value => value / INTENSITY_SCALE);
+    }
+    return this.intensityByTick[tick - 1] ?? 0;
+  }
+}
+
+/**
+ * Create a simulation set up to replay a log
+ * @param log Run log
+ * @returns Started simulation with the log's seed, playfield and difficulty
+ */
+export const createReplaySimulation = (log: RunLog): GameSimulation => {
+  const simulation = new GameSimulation({ ...log.config, seed: log.seed });
+  simulation.start();
+  return simulation;
+};
+
+/**
+ * Re-simulate a run headlessly
+ * @param log Run log
+ * @param onStep Called after every step, e.g. to draw the run with a headless renderer
+ * @returns Outcome of the replayed run
+ */
+export const simulateRun = (log: RunLog, onStep?: (simulation: GameSimulation) => void): RunResult => {
+  const simulation = createReplaySimulation(log);
+  const player = new RunPlayer(log);
+
+  while (simulation.tick < log.ticks && simulation.state === GameState.PLAYING) {
+    simulation.step(FIXED_TIMESTEP, player.inputForTick(simulation.tick + 1));
+    onStep?.(simulation);
+  }
+
+  return { score: simulation.score, ticks: simulation.tick, state: simulation.state };
+};
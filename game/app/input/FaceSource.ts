@@ -0,0 +1,45 @@
+/**
+ * FaceSource - Jump with a face expression, using the face detection started from the settings
+ */
+
+import { InputSource, JumpIntent } from './InputSource';
+import { faceManager } from '../utils/faceUtils';
+import { DEFAULT_FACE_BINDINGS, FaceTrigger } from '../utils/expressionDetection';
+
+// Expressions carry no strength, so every one is a medium jump
+export const FACE_JUMP_POWER = 0.7;
+
+export class FaceSource implements InputSource {
+  readonly id = 'face';
+
+  // Expression that jumps; null never jumps
+  private readonly trigger: FaceTrigger | null;
+
+  // Last expression already turned into a jump
+  private lastTriggerTime = 0;
+
+  constructor(trigger: FaceTrigger | null = DEFAULT_FACE_BINDINGS.jump) {
+    this.trigger = trigger;
+  }
+
+  private get triggerTime(): number {
+    return this.trigger ? faceManager.lastTriggerTimes[this.trigger] ?? 0 : 0;
+  }
+
+  async start(): Promise<boolean> {
+    // Expressions from before the run don't count
+    this.lastTriggerTime = this.triggerTime;
+    return faceManager.isInitialized;
+  }
+
+  poll(): JumpIntent | null {
+    if (this.triggerTime <= this.lastTriggerTime) {
+      return null;
+    }
+
+    this.lastTriggerTime = this.triggerTime;
+    return { source: this.id, power: FACE_JUMP_POWER, time: performance.now() };
+  }
+
+  stop(): void {}
+}
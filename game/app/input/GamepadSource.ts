@@ -0,0 +1,61 @@
+/**
+ * GamepadSource - Jump with a gamepad button through the Gamepad API
+ *
+ * The Gamepad API has no button events, so the buttons are read on every poll.
+ */
+
+import { InputSource, JumpIntent } from './InputSource';
+import { HoldTracker } from './HoldTracker';
+
+// Bottom face button (A on Xbox, Cross on PlayStation) in the standard mapping
+export const DEFAULT_GAMEPAD_BUTTONS = [0];
+
+type GamepadReader = () => ArrayLike<Gamepad | null>;
+
+const readGamepads: GamepadReader = () =>
+  typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+
+export class GamepadSource implements InputSource {
+  readonly id = 'gamepad';
+  readonly buttons: number[];
+
+  private readonly getGamepads: GamepadReader;
+  private readonly hold = new HoldTracker();
+  // Button state at the previous poll, to find presses and releases
+  private wasPressed = false;
+
+  constructor(buttons: number[] = DEFAULT_GAMEPAD_BUTTONS, getGamepads: GamepadReader = readGamepads) {
+    this.buttons = buttons;
+    this.getGamepads = getGamepads;
+  }
+
+  private isJumpPressed(): boolean {
+    return Array.from(this.getGamepads()).some(
+      gamepad => gamepad?.connected && this.buttons.some(index => gamepad.buttons[index]?.pressed)
+    );
+  }
+
+  async start(): Promise<boolean> {
+    // Pads connect later on, so the source is available even when none is plugged in yet
+    this.wasPressed = this.isJumpPressed();
+    return true;
+  }
+
+  poll(now: number): JumpIntent | null {
+    const pressed = this.isJumpPressed();
+    if (pressed && !this.wasPressed) {
+      this.hold.press(now);
+    } else if (!pressed && this.wasPressed) {
+      this.hold.release(now);
+    }
+    this.wasPressed = pressed;
+
+    const released = this.hold.poll(now);
+    return released && { source: this.id, ...released };
+  }
+
+  stop(): void {
+    this.hold.reset();
+    this.wasPressed = false;
+  }
+}
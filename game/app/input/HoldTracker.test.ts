@@ -0,0 +1,53 @@
+/**
+ * Tests for HoldTracker
+ */
+
+import { HoldTracker, MAX_HOLD_MS, MIN_HOLD_POWER, holdToPower } from './HoldTracker';
+
+describe('HoldTracker', () => {
+  it('should map longer holds to more power', () => {
+    expect(holdToPower(0)).toBe(MIN_HOLD_POWER);
+    expect(holdToPower(MAX_HOLD_MS / 2)).toBeGreaterThan(MIN_HOLD_POWER);
+    expect(holdToPower(MAX_HOLD_MS)).toBe(1);
+    expect(holdToPower(MAX_HOLD_MS * 3)).toBe(1);
+  });
+
+  it('should report a release once', () => {
+    const hold = new HoldTracker();
+
+    hold.press(1000);
+    expect(hold.poll(1050)).toBeNull();
+    hold.release(1100);
+
+    expect(hold.poll(1116)).toEqual({ power: holdToPower(100), time: 1000 });
+    expect(hold.poll(1132)).toBeNull();
+  });
+
+  it('should fire a fully charged hold without waiting for the release', () => {
+    const hold = new HoldTracker();
+
+    hold.press(0);
+    expect(hold.poll(MAX_HOLD_MS)).toEqual({ power: 1, time: 0 });
+    expect(hold.isPressed).toBe(false);
+
+    // The late release of the same press is not a second jump
+    hold.release(MAX_HOLD_MS + 200);
+    expect(hold.poll(MAX_HOLD_MS + 216)).toBeNull();
+  });
+
+  it('should ignore releases without a press', () => {
+    const hold = new HoldTracker();
+
+    hold.release(100);
+    expect(hold.poll(116)).toBeNull();
+  });
+
+  it('should drop presses on reset', () => {
+    const hold = new HoldTracker();
+
+    hold.press(0);
+    hold.reset();
+    hold.release(50);
+    expect(hold.poll(66)).toBeNull();
+  });
+});
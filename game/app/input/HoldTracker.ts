@@ -0,0 +1,74 @@
+/**
+ * HoldTracker - Maps how long a button is held to jump power
+ *
+ * Shared by the keyboard, pointer and gamepad sources: a tap is a small hop,
+ * and holding up to MAX_HOLD_MS charges a full jump, which fires on its own
+ * once fully charged so a held button never stalls the bird.
+ */
+
+// Hold time for a full-power jump (ms)
+export const MAX_HOLD_MS = 400;
+
+// Power of the shortest tap
+export const MIN_HOLD_POWER = 0.3;
+
+/**
+ * Map a hold duration to jump power
+ * @param durationMs How long the button was held
+ * @returns Power from MIN_HOLD_POWER (tap) to 1 (MAX_HOLD_MS or longer)
+ */
+export const holdToPower = (durationMs: number): number => {
+  const charge = Math.max(0, Math.min(1, durationMs / MAX_HOLD_MS));
+  return MIN_HOLD_POWER + charge * (1 - MIN_HOLD_POWER);
+};
+
+export interface HoldRelease {
+  power: number;
+  time: number; // When the press started (ms)
+}
+
+export class HoldTracker {
+  // When the current press started, or null while released
+  private pressedAt: number | null = null;
+  // Release waiting for the next poll
+  private released: HoldRelease | null = null;
+
+  get isPressed(): boolean {
+    return this.pressedAt !== null;
+  }
+
+  press(time: number): void {
+    if (this.pressedAt === null) {
+      this.pressedAt = time;
+    }
+  }
+
+  release(time: number): void {
+    if (this.pressedAt === null) {
+      // Releases without a tracked press (e.g. the key that started the game) are ignored
+      return;
+    }
+    this.released = { power: holdToPower(time - this.pressedAt), time: this.pressedAt };
+    this.pressedAt = null;
+  }
+
+  /**
+   * Take the finished press, if any
+   * @param now Frame time (ms)
+   * @returns The released press, or a fully charged one that is still held
+   */
+  poll(now: number): HoldRelease | null {
+    if (this.pressedAt !== null && now - this.pressedAt >= MAX_HOLD_MS) {
+      this.release(now);
+    }
+
+    const released = this.released;
+    this.released = null;
+    return released;
+  }
+
+  reset(): void {
+    this.pressedAt = null;
+    this.released = null;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Tests for InputController and the input sources
+ */
+
+import { InputController, createInputSources } from './InputController';
+import { InputSource, JumpIntent, parseInputSourceIds } from './InputSource';
+import { KeyboardSource } from './KeyboardSource';
+import { PointerSource } from './PointerSource';
+import { GamepadSource } from './GamepadSource';
+import { MicrophoneSource } from './MicrophoneSource';
+import { FaceSource, FACE_JUMP_POWER } from './FaceSource';
+import { holdToPower } from './HoldTracker';
+import * as audioUtils from '../utils/audioUtils';
+import { faceManager } from '../utils/faceUtils';
+
+jest.mock('../utils/audioUtils', () => ({
+  initAudio: jest.fn().mockResolvedValue(true),
+  cleanupAudio: jest.fn(),
+  getJumpOnset: jest.fn().mockReturnValue(null),
+  getAudioIntensity: jest.fn().mockReturnValue(0),
+  getPitchLift: jest.fn().mockReturnValue(undefined),
+}));
+
+jest.mock('../utils/faceUtils', () => ({
+  faceManager: { isInitialized: true, lastTriggerTimes: {} },
+}));
+
+// Source that returns a fixed sequence of polls
+const scripted = (intents: Array<JumpIntent | null>, lift?: number): InputSource => ({
+  id: 'keyboard',
+  start: jest.fn().mockResolvedValue(true),
+  poll: jest.fn(() => intents.shift() ?? null),
+  readLift: () => lift,
+  stop: jest.fn(),
+});
+
+const intent = (power: number): JumpIntent => ({ source: 'keyboard', power, time: 0 });
+
+let now = 0;
+beforeEach(() => {
+  jest.clearAllMocks();
+  now = 0;
+  jest.spyOn(performance, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('InputController', () => {
+  it('should pick the strongest jump of the frame and poll every source', () => {
+    const sources = [scripted([intent(0.4)]), scripted([intent(0.9)]), scripted([null])];
+    const controller = new InputController(sources);
+
+    expect(controller.read(0).jump?.power).toBe(0.9);
+    sources.forEach(source => expect(source.poll).toHaveBeenCalledTimes(1));
+    expect(controller.read(16).jump).toBeNull();
+  });
+
+  it('should take steering from the first steering source', () => {
+    const controller = new InputController([scripted([], undefined), scripted([], 0.5), scripted([], -1)]);
+
+    expect(controller.read(0).lift).toBe(0.5);
+  });
+
+  it('should report which sources started and stop them all', async () => {
+    const unavailable = scripted([]);
+    (unavailable.start as jest.Mock).mockResolvedValue(false);
+    const available = { ...scripted([]), id: 'gamepad' as const };
+    const controller = new InputController([unavailable, available]);
+
+    expect(await controller.start()).toEqual(['gamepad']);
+
+    controller.stop();
+    expect(unavailable.stop).toHaveBeenCalled();
+    expect(available.stop).toHaveBeenCalled();
+  });
+
+  it('should create sources by id', () => {
+    const sources = createInputSources(['microphone', 'pointer', 'face'], {
+      pointerTarget: document.createElement('canvas'),
+    });
+
+    expect(sources.map(source => source.id)).toEqual(['microphone', 'pointer', 'face']);
+  });
+
+  it('should keep only known source ids', () => {
+    expect(parseInputSourceIds(['gamepad', 'joystick', 'keyboard', 'gamepad'])).toEqual(['keyboard', 'gamepad']);
+    expect(parseInputSourceIds('keyboard')).toEqual([]);
+  });
+});
+
+describe('KeyboardSource', () => {
+  const press = (type: 'keydown' | 'keyup', code: string, at: number, repeat = false) => {
+    now = at;
+    window.dispatchEvent(new KeyboardEvent(type, { code, repeat }));
+  };
+
+  it('should jump on release with power from the hold time', async () => {
+    const source = new KeyboardSource();
+    await source.start();
+
+    press('keydown', 'Space', 100);
+    press('keydown', 'Space', 150, true);
+    expect(source.poll(160)).toBeNull();
+    press('keyup', 'Space', 300);
+
+    expect(source.poll(316)).toEqual({ source: 'keyboard', power: holdToPower(200), time: 100 });
+    source.stop();
+  });
+
+  it('should ignore other keys and stop listening when stopped', async () => {
+    const source = new KeyboardSource();
+    await source.start();
+
+    press('keydown', 'KeyA', 0);
+    press('keyup', 'KeyA', 50);
+    expect(source.poll(66)).toBeNull();
+
+    source.stop();
+    press('keydown', 'Space', 100);
+    press('keyup', 'Space', 150);
+    expect(source.poll(166)).toBeNull();
+  });
+});
+
+describe('PointerSource', () => {
+  // jsdom has no PointerEvent, so build one from a MouseEvent
+  const pointer = (target: EventTarget, type: string, at: number, isPrimary = true) => {
+    now = at;
+    const event = new MouseEvent(type, { button: 0 });
+    Object.defineProperty(event, 'isPrimary', { value: isPrimary });
+    target.dispatchEvent(event);
+  };
+
+  it('should jump on presses on its target', async () => {
+    const canvas = document.createElement('canvas');
+    const source = new PointerSource(canvas);
+    await source.start();
+
+    pointer(canvas, 'pointerdown', 0);
+    pointer(canvas, 'pointerup', 80);
+    expect(source.poll(96)).toEqual({ source: 'pointer', power: holdToPower(80), time: 0 });
+
+    // A second finger is not a jump
+    pointer(canvas, 'pointerdown', 200, false);
+    pointer(canvas, 'pointerup', 250, false);
+    expect(source.poll(266)).toBeNull();
+    source.stop();
+  });
+});
+
+describe('GamepadSource', () => {
+  it('should track the jump button between polls', async () => {
+    const pad = { connected: true, buttons: [{ pressed: false }] };
+    const source = new GamepadSource([0], () => [pad as unknown as Gamepad, null]);
+    await source.start();
+
+    expect(source.poll(0)).toBeNull();
+    pad.buttons[0].pressed = true;
+    expect(source.poll(16)).toBeNull();
+    pad.buttons[0].pressed = false;
+
+    expect(source.poll(116)).toEqual({ source: 'gamepad', power: holdToPower(100), time: 16 });
+    expect(source.poll(132)).toBeNull();
+  });
+
+  it('should not jump for a button held before the run started', async () => {
+    const pad = { connected: true, buttons: [{ pressed: true }] };
+    const source = new GamepadSource([0], () => [pad as unknown as Gamepad]);
+    await source.start();
+
+    pad.buttons[0].pressed = false;
+    expect(source.poll(100)).toBeNull();
+  });
+});
+
+describe('MicrophoneSource', () => {
+  it('should turn sound onsets into jumps', async () => {
+    const source = new MicrophoneSource();
+    expect(await source.start()).toBe(true);
+
+    (audioUtils.getJumpOnset as jest.Mock).mockReturnValueOnce({ time: 40, peak: 0.8, power: 0.75 });
+    expect(source.poll(60)).toEqual({ source: 'microphone', power: 0.75, time: 40 });
+    expect(source.readLift()).toBeUndefined();
+
+    source.stop();
+    expect(audioUtils.cleanupAudio).toHaveBeenCalled();
+  });
+
+  it('should steer instead of jumping in pitch mode', () => {
+    const source = new MicrophoneSource('pitch');
+    (audioUtils.getPitchLift as jest.Mock).mockReturnValueOnce(0.4);
+
+    expect(source.poll(0)).toBeNull();
+    expect(audioUtils.getJumpOnset).not.toHaveBeenCalled();
+    expect(source.readLift()).toBe(0.4);
+  });
+});
+
+describe('FaceSource', () => {
+  beforeEach(() => {
+    faceManager.lastTriggerTimes = {};
+  });
+
+  it('should jump once per new open mouth', async () => {
+    faceManager.lastTriggerTimes.mouthOpen = 500;
+    const source = new FaceSource();
+    await source.start();
+
+    // The open mouth from before the run doesn't count
+    expect(source.poll()).toBeNull();
+
+    faceManager.lastTriggerTimes.mouthOpen = 1500;
+    expect(source.poll()?.power).toBe(FACE_JUMP_POWER);
+    expect(source.poll()).toBeNull();
+  });
+
+  it('should only jump for its own expression', async () => {
+    const source = createInputSources(['face'], { pointerTarget: window, faceTrigger: 'headTiltLeft' })[0];
+    await source.start();
+
+    faceManager.lastTriggerTimes.mouthOpen = 1000;
+    expect(source.poll(0)).toBeNull();
+
+    faceManager.lastTriggerTimes.headTiltLeft = 1000;
+    expect(source.poll(0)?.source).toBe('face');
+  });
+});
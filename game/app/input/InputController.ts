@@ -0,0 +1,88 @@
+/**
+ * InputController - Combines the selected input sources into one input per frame
+ */
+
+import { InputSource, InputSourceId, JumpIntent } from './InputSource';
+import { MicrophoneSource } from './MicrophoneSource';
+import { KeyboardSource } from './KeyboardSource';
+import { PointerSource } from './PointerSource';
+import { GamepadSource } from './GamepadSource';
+import { FaceSource } from './FaceSource';
+import { ControlMode } from '../utils/audioUtils';
+import { FaceTrigger } from '../utils/expressionDetection';
+
+export interface InputSourceOptions {
+  pointerTarget: EventTarget; // Element that takes pointer presses
+  controlMode?: ControlMode; // How the microphone steers
+  faceTrigger?: FaceTrigger | null; // Expression that jumps; null turns face jumps off
+}
+
+// Input for one frame from all sources
+export interface FrameInput {
+  jump: JumpIntent | null; // Strongest jump of the frame
+  lift?: number; // Steering from the first source that is steering
+}
+
+/**
+ * Create sources by id
+ * @param ids Sources to create, in priority order for steering
+ * @param options Targets and modes the sources need
+ */
+export const createInputSources = (ids: InputSourceId[], options: InputSourceOptions): InputSource[] =>
+  ids.map(id => {
+    switch (id) {
+      case 'microphone':
+        return new MicrophoneSource(options.controlMode);
+      case 'keyboard':
+        return new KeyboardSource();
+      case 'pointer':
+        return new PointerSource(options.pointerTarget);
+      case 'gamepad':
+        return new GamepadSource();
+      case 'face':
+        return new FaceSource(options.faceTrigger);
+    }
+  });
+
+export class InputController {
+  readonly sources: InputSource[];
+
+  constructor(sources: InputSource[]) {
+    this.sources = sources;
+  }
+
+  /**
+   * Start every source
+   * @returns Ids of the sources that are available
+   */
+  async start(): Promise<InputSourceId[]> {
+    const results = await Promise.all(this.sources.map(source => source.start()));
+    return this.sources.filter((_, index) => results[index]).map(source => source.id);
+  }
+
+  /**
+   * Read all sources for this frame
+   * @param now Frame time (ms)
+   */
+  read(now: number): FrameInput {
+    let jump: JumpIntent | null = null;
+    let lift: number | undefined;
+
+    // Poll every source so none keeps a stale jump for a later frame
+    for (const source of this.sources) {
+      const intent = source.poll(now);
+      if (intent && (!jump || intent.power > jump.power)) {
+        jump = intent;
+      }
+      if (lift === undefined) {
+        lift = source.readLift?.();
+      }
+    }
+
+    return { jump, lift };
+  }
+
+  stop(): void {
+    this.sources.forEach(source => source.stop());
+  }
+}
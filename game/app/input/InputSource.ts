@@ -0,0 +1,57 @@
+/**
+ * InputSource - Common interface for the devices that can make the bird jump
+ *
+ * Sources are polled once per frame by the game loop. Event-driven devices
+ * (keyboard, pointer) buffer their latest jump until the next poll.
+ */
+
+export type InputSourceId = 'microphone' | 'keyboard' | 'pointer' | 'gamepad' | 'face';
+
+export const INPUT_SOURCE_IDS: InputSourceId[] = ['microphone', 'keyboard', 'pointer', 'gamepad', 'face'];
+
+// Face jumps need the camera and models, so they are opt-in
+export const DEFAULT_INPUT_SOURCES: InputSourceId[] = ['microphone', 'keyboard', 'pointer', 'gamepad'];
+
+// A request to jump from one source
+export interface JumpIntent {
+  source: InputSourceId;
+  power: number; // 0-1
+  time: number; // When the input happened (ms)
+}
+
+export interface InputSource {
+  readonly id: InputSourceId;
+
+  /**
+   * Attach listeners and acquire the device
+   * @returns False if the device is unavailable, e.g. microphone permission was denied
+   */
+  start(): Promise<boolean>;
+
+  /**
+   * Read the source for this frame
+   * @param now Frame time (ms)
+   * @returns A jump that happened since the last poll, or null
+   */
+  poll(now: number): JumpIntent | null;
+
+  /**
+   * Continuous steering for sources that support it
+   * @returns Lift from -1 to 1, or undefined while not steering
+   */
+  readLift?(): number | undefined;
+
+  stop(): void;
+}
+
+/**
+ * Check a list read from settings or props
+ * @param value Untrusted value
+ * @returns The known source ids it contains, without duplicates
+ */
+export const parseInputSourceIds = (value: unknown): InputSourceId[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return INPUT_SOURCE_IDS.filter(id => value.includes(id));
+};
@@ -0,0 +1,51 @@
+/**
+ * KeyboardSource - Jump by holding a key; longer holds jump higher
+ */
+
+import { InputSource, JumpIntent } from './InputSource';
+import { HoldTracker } from './HoldTracker';
+
+export const DEFAULT_JUMP_KEYS = ['Space', 'ArrowUp', 'KeyW'];
+
+export class KeyboardSource implements InputSource {
+  readonly id = 'keyboard';
+  readonly keys: string[];
+
+  private readonly target: EventTarget;
+  private readonly hold = new HoldTracker();
+
+  constructor(target: EventTarget = window, keys: string[] = DEFAULT_JUMP_KEYS) {
+    this.target = target;
+    this.keys = keys;
+  }
+
+  private handleKeyDown = (event: Event) => {
+    const { code, repeat } = event as KeyboardEvent;
+    if (this.keys.includes(code) && !repeat) {
+      this.hold.press(performance.now());
+    }
+  };
+
+  private handleKeyUp = (event: Event) => {
+    if (this.keys.includes((event as KeyboardEvent).code)) {
+      this.hold.release(performance.now());
+    }
+  };
+
+  async start(): Promise<boolean> {
+    this.target.addEventListener('keydown', this.handleKeyDown);
+    this.target.addEventListener('keyup', this.handleKeyUp);
+    return true;
+  }
+
+  poll(now: number): JumpIntent | null {
+    const released = this.hold.poll(now);
+    return released && { source: this.id, ...released };
+  }
+
+  stop(): void {
+    this.target.removeEventListener('keydown', this.handleKeyDown);
+    this.target.removeEventListener('keyup', this.handleKeyUp);
+    this.hold.reset();
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * MicrophoneSource - Jump on sound onsets, or steer with hummed pitch
+ */
+
+import { InputSource, JumpIntent } from './InputSource';
+import {
+  initAudio,
+  cleanupAudio,
+  getJumpOnset,
+  getAudioIntensity,
+  getPitchLift,
+  ControlMode,
+} from '../utils/audioUtils';
+
+export class MicrophoneSource implements InputSource {
+  readonly id = 'microphone';
+  readonly controlMode: ControlMode;
+
+  constructor(controlMode: ControlMode = 'loudness') {
+    this.controlMode = controlMode;
+  }
+
+  start(): Promise<boolean> {
+    return initAudio();
+  }
+
+  poll(now: number): JumpIntent | null {
+    if (this.controlMode === 'pitch') {
+      // Keep the intensity up to date for the run log
+      getAudioIntensity();
+      return null;
+    }
+
+    const onset = getJumpOnset(now);
+    return onset && { source: this.id, power: onset.power, time: onset.time };
+  }
+
+  readLift(): number | undefined {
+    return this.controlMode === 'pitch' ? getPitchLift() : undefined;
+  }
+
+  stop(): void {
+    cleanupAudio();
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * PointerSource - Jump by pressing on the game with a mouse, pen or finger
+ */
+
+import { InputSource, JumpIntent } from './InputSource';
+import { HoldTracker } from './HoldTracker';
+
+export class PointerSource implements InputSource {
+  readonly id = 'pointer';
+
+  private readonly target: EventTarget;
+  private readonly hold = new HoldTracker();
+
+  /**
+   * @param target Element that takes presses, normally the game canvas
+   */
+  constructor(target: EventTarget) {
+    this.target = target;
+  }
+
+  private handlePointerDown = (event: Event) => {
+    const { isPrimary, button } = event as PointerEvent;
+    // Primary touch or left mouse button only
+    if (isPrimary && button === 0) {
+      this.hold.press(performance.now());
+    }
+  };
+
+  private handlePointerUp = (event: Event) => {
+    if ((event as PointerEvent).isPrimary) {
+      this.hold.release(performance.now());
+    }
+  };
+
+  async start(): Promise<boolean> {
+    this.target.addEventListener('pointerdown', this.handlePointerDown);
+    this.target.addEventListener('pointerup', this.handlePointerUp);
+    this.target.addEventListener('pointercancel', this.handlePointerUp);
+    return true;
+  }
+
+  poll(now: number): JumpIntent | null {
+    const released = this.hold.poll(now);
+    return released && { source: this.id, ...released };
+  }
+
+  stop(): void {
+    this.target.removeEventListener('pointerdown', this.handlePointerDown);
+    this.target.removeEventListener('pointerup', this.handlePointerUp);
+    this.target.removeEventListener('pointercancel', this.handlePointerUp);
+    this.hold.reset();
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Player profile page - best score, run count and recent history
+ */
+
+import React from 'react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { FaArrowLeft, FaTrophy, FaUserAlt } from 'react-icons/fa';
+import { getPlayerProfile } from '../../server/players';
+
+interface PlayerPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Profiles change with every submission
+export const dynamic = 'force-dynamic';
+
+export default async function PlayerPage({ params }: PlayerPageProps) {
+  const { id } = await params;
+  const profile = await getPlayerProfile(id);
+
+  if (!profile) {
+    notFound();
+  }
+
+  return (
+    <main className="min-h-screen bg-sky-100 flex justify-center p-5">
+      <div className="bg-white rounded-lg shadow-lg p-5 w-full max-w-md h-fit">
+        <Link href="/" className="text-sm text-sky-700 hover:underline flex items-center gap-1 mb-4">
+          <FaArrowLeft /> Back to the game
+        </Link>
+
+        <h1 className="text-2xl font-bold text-sky-700 flex items-center gap-2 mb-1">
+          <FaUserAlt className="text-gray-400" /> {profile.displayName ?? 'Anonymous player'}
+        </h1>
+        <p className="text-xs text-gray-500 mb-4">
+          Playing since {new Date(profile.createdAt).toLocaleDateString()}
+        </p>
+
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          <div className="bg-amber-50 p-3 rounded-lg">
+            <h2 className="font-bold text-amber-800 mb-1 flex items-center gap-1">
+              <FaTrophy className="text-amber-500" /> Best Score
+            </h2>
+            <div className="text-2xl text-amber-700">{profile.bestScore ?? '-'}</div>
+          </div>
+          <div className="bg-sky-50 p-3 rounded-lg">
+            <h2 className="font-bold text-sky-800 mb-1">Runs</h2>
+            <div className="text-2xl text-sky-700">{profile.runCount}</div>
+          </div>
+        </div>
+
+        <h2 className="font-bold mb-2">Recent Runs</h2>
+        {profile.recentScores.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No runs submitted yet.</div>
+        ) : (
+          <div className="space-y-1">
+            {profile.recentScores.map(score => (
+              <div key={score.id} className="flex items-center justify-between p-2 rounded bg-gray-50">
+                <div>
+                  <div className="font-medium">{score.playerName}</div>
+                  <div className="text-xs text-gray-500">{new Date(score.date).toLocaleString()}</div>
+                </div>
+                <div className="text-xl font-bold text-sky-700">{score.score}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Canvas2DRenderer - Draws the game with the Canvas 2D API
+ */
+
+import { ImageCrop, Painter, PaintImage, PolygonPoint, TextStyle } from './Painter';
+import { Renderer, SceneFrame } from './Renderer';
+import { drawScene } from './drawScene';
+
+export class Canvas2DRenderer implements Renderer, Painter {
+  readonly kind = 'canvas2d';
+
+  private readonly ctx: CanvasRenderingContext2D;
+
+  constructor(ctx: CanvasRenderingContext2D) {
+    this.ctx = ctx;
+  }
+
+  render(frame: SceneFrame): void {
+    this.ctx.clearRect(0, 0, frame.width, frame.height);
+    drawScene(this, frame);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: string): void {
+    this.ctx.fillStyle = color;
+    this.ctx.fillRect(x, y, width, height);
+  }
+
+  fillPolygon(points: PolygonPoint[], color: string): void {
+    const [[startX, startY], ...rest] = points;
+    this.ctx.fillStyle = color;
+    this.ctx.beginPath();
+    this.ctx.moveTo(startX, startY);
+    rest.forEach(([x, y]) => this.ctx.lineTo(x, y));
+    this.ctx.fill();
+  }
+
+  strokeCircle(x: number, y: number, radius: number, color: string, lineWidth: number): void {
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = lineWidth;
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, radius, 0, Math.PI * 2);
+    this.ctx.stroke();
+  }
+
+  fillText(text: string, x: number, y: number, style: TextStyle): void {
+    this.ctx.fillStyle = style.color;
+    this.ctx.font = style.font;
+    this.ctx.textAlign = style.align ?? 'left';
+    this.ctx.fillText(text, x, y);
+  }
+
+  drawImage(image: PaintImage, x: number, y: number, width: number, height: number, crop?: ImageCrop): void {
+    if (crop) {
+      this.ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, x, y, width, height);
+    } else {
+      this.ctx.drawImage(image, x, y, width, height);
+    }
+  }
+
+  dispose(): void {}
+}
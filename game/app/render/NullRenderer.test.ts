@@ -0,0 +1,213 @@
+/**
+ * Tests for NullRenderer and the scene it draws
+ */
+
+import { NullRenderer } from './NullRenderer';
+import { SceneFrame, createSceneFrame } from './Renderer';
+import { GameSimulation, GameState } from '../engine/GameSimulation';
+import { ObstacleType } from '../engine/obstacles';
+import { createAbilityStates } from '../engine/abilities';
+import { DEFAULT_THEME, Theme } from './theme';
+import { PaintImage } from './Painter';
+
+// Stand-in for a loaded image; the null renderer only records it
+const image = { width: 320, height: 40 } as PaintImage;
+
+// Default theme with a player sprite sheet and one background layer
+const spriteTheme: Theme = {
+  definition: {
+    ...DEFAULT_THEME.definition,
+    player: {
+      image: 'bird.svg',
+      frameWidth: 40,
+      frameHeight: 40,
+      animations: {
+        flap: { frames: [0, 1, 2], fps: 10, loop: true },
+        land: { frames: [3, 4], fps: 10, loop: false },
+        die: { frames: [5, 6, 7], fps: 10, loop: false },
+      },
+    },
+    layers: [{ image: 'hills.svg', width: 400, height: 100, speed: 40, anchor: 'ground', offset: 0 }],
+  },
+  images: new Map([
+    ['bird.svg', image],
+    ['hills.svg', image],
+  ]),
+};
+
+const frame = (overrides: Partial<SceneFrame> = {}): SceneFrame => ({
+  width: 800,
+  height: 600,
+  state: GameState.PLAYING,
+  score: 12,
+  highScore: 40,
+  renderState: {
+    player: { x: 100, y: 300, velocityY: 0, isJumping: false, jumpPower: 0 },
+    obstacles: [],
+  },
+  abilities: null,
+  isReplay: false,
+  theme: DEFAULT_THEME,
+  playerAnimation: { name: 'land', elapsed: Infinity },
+  elapsed: 0,
+  level: null,
+  difficulty: null,
+  ...overrides,
+});
+
+const texts = (renderer: NullRenderer) =>
+  renderer.commands.flatMap(command => (command.op === 'text' ? [command.text] : []));
+
+describe('NullRenderer', () => {
+  it('should record the commands of the last frame only', () => {
+    const renderer = new NullRenderer();
+
+    renderer.render(frame());
+    const count = renderer.commands.length;
+    renderer.render(frame());
+
+    expect(renderer.frameCount).toBe(2);
+    expect(renderer.commands).toHaveLength(count);
+    expect(texts(renderer)).toEqual(['Score: 12']);
+  });
+
+  it('should draw obstacles through their registered draw functions', () => {
+    const renderer = new NullRenderer();
+    const spike = { id: 's', type: ObstacleType.SPIKE, x: 200, y: 510, width: 20, height: 40, active: true };
+    const ground = { ...spike, id: 'g', type: ObstacleType.VARIABLE_GROUND, elevation: 30 };
+
+    renderer.render(frame({ renderState: { ...frame().renderState, obstacles: [spike, ground] } }));
+
+    expect(renderer.commands).toContainEqual({
+      op: 'polygon',
+      points: [[200, 550], [210, 510], [220, 550]],
+      color: '#FF5733',
+    });
+    expect(renderer.commands).toContainEqual({
+      op: 'polygon',
+      points: [[200, 550], [200, 510], [210, 480], [210, 480], [220, 510], [220, 550]],
+      color: '#556B2F',
+    });
+  });
+
+  it('should draw the ability cooldowns and shield only when abilities are shown', () => {
+    const renderer = new NullRenderer();
+    const abilities = createAbilityStates();
+    abilities.shield.active = 2;
+
+    renderer.render(frame({ abilities }));
+    expect(renderer.commands.some(command => command.op === 'circle')).toBe(true);
+    expect(texts(renderer)).toContain('Slow-mo: Ready');
+
+    renderer.render(frame());
+    expect(renderer.commands.some(command => command.op === 'circle')).toBe(false);
+  });
+
+  it('should draw the game over screen', () => {
+    const renderer = new NullRenderer();
+
+    renderer.render(frame({ state: GameState.GAME_OVER, isReplay: true }));
+
+    expect(texts(renderer)).toEqual(
+      expect.arrayContaining(['Game Over', 'High Score: 40', 'Click or press Space to watch again'])
+    );
+  });
+
+  it('should draw the level progress and the level complete screen', () => {
+    const renderer = new NullRenderer();
+    const level = { name: 'First Flight', progress: 0.5 };
+
+    renderer.render(frame({ level }));
+    expect(renderer.commands).toContainEqual(
+      { op: 'rect', x: expect.closeTo(800 / 3), y: 16, width: expect.closeTo(800 / 6), height: 8, color: '#32CD32' }
+    );
+
+    renderer.render(frame({ state: GameState.LEVEL_COMPLETE, level: { ...level, progress: 1 } }));
+    expect(texts(renderer)).toEqual(expect.arrayContaining(['Level Complete!', 'Best: 40']));
+
+    renderer.render(frame({ state: GameState.MENU, level }));
+    expect(texts(renderer)).toContain('First Flight');
+  });
+
+  it('should draw frames described from a simulation', () => {
+    const renderer = new NullRenderer();
+    const simulation = new GameSimulation({ width: 640, height: 480 });
+
+    renderer.render(
+      createSceneFrame(simulation, 1, {
+        highScore: 0,
+        isReplay: false,
+        showAbilities: false,
+        showDifficulty: false,
+        theme: DEFAULT_THEME,
+        playerAnimation: { name: 'land', elapsed: 0 },
+      })
+    );
+
+    expect(renderer.commands[0]).toEqual({ op: 'rect', x: 0, y: 0, width: 640, height: 480, color: '#87CEEB' });
+    expect(texts(renderer)).toContain('Microphone Flappy Bird');
+  });
+
+  it('should show the course parameters in the difficulty overlay', () => {
+    const renderer = new NullRenderer();
+    const simulation = new GameSimulation({ width: 800, height: 600, difficulty: 'hard' });
+    const options = {
+      highScore: 0,
+      isReplay: false,
+      showAbilities: false,
+      showDifficulty: true,
+      theme: DEFAULT_THEME,
+      playerAnimation: { name: 'land', elapsed: 0 },
+    } as const;
+
+    renderer.render(createSceneFrame(simulation, 1, options));
+    expect(texts(renderer)).toEqual(expect.arrayContaining(['Hard: 0 px, 0.0 s', 'Speed 240 px/s', 'Min gap 200 px']));
+
+    renderer.render(createSceneFrame(simulation, 1, { ...options, showDifficulty: false }));
+    expect(texts(renderer)).not.toContain('Speed 240 px/s');
+  });
+
+  it('should draw the player frame of the current animation', () => {
+    const renderer = new NullRenderer();
+
+    renderer.render(frame({ theme: spriteTheme, playerAnimation: { name: 'flap', elapsed: 0.15 } }));
+
+    expect(renderer.commands).toContainEqual({
+      op: 'image',
+      image,
+      x: 100,
+      y: 300,
+      width: 40,
+      height: 40,
+      crop: { x: 40, y: 0, width: 40, height: 40 },
+    });
+    expect(renderer.commands.some(command => command.op === 'rect' && command.color === '#FF0000')).toBe(false);
+  });
+
+  it('should tile and scroll the parallax layers', () => {
+    const renderer = new NullRenderer();
+
+    // 2.5 seconds at 40px/s scrolls 100px into the 400px tile
+    renderer.render(frame({ theme: spriteTheme, elapsed: 2.5 }));
+
+    const tiles = renderer.commands.filter(command => command.op === 'image' && command.crop === undefined);
+    expect(tiles.map(tile => (tile.op === 'image' ? tile.x : null))).toEqual([-100, 300, 700]);
+    expect(tiles[0]).toMatchObject({ y: 450, width: 400, height: 100 });
+  });
+
+  it('should draw with the theme colors and font', () => {
+    const renderer = new NullRenderer();
+    const definition = {
+      ...DEFAULT_THEME.definition,
+      font: 'Courier New',
+      palette: { ...DEFAULT_THEME.definition.palette, sky: '#000033', text: '#FFFFFF' },
+    };
+
+    renderer.render(frame({ theme: { definition, images: new Map() } }));
+
+    expect(renderer.commands[0]).toMatchObject({ op: 'rect', color: '#000033' });
+    expect(renderer.commands).toContainEqual(
+      expect.objectContaining({ op: 'text', style: { font: '24px Courier New', color: '#FFFFFF' } })
+    );
+  });
+});
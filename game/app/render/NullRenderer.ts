@@ -0,0 +1,56 @@
+/**
+ * NullRenderer - Headless renderer that records draw commands instead of drawing
+ *
+ * Runs the full scene drawing without a canvas, for tests and for replaying
+ * runs on the server.
+ */
+
+import { ImageCrop, Painter, PaintImage, PolygonPoint, TextStyle } from './Painter';
+import { Renderer, SceneFrame } from './Renderer';
+import { drawScene } from './drawScene';
+
+export type DrawCommand =
+  | { op: 'rect'; x: number; y: number; width: number; height: number; color: string }
+  | { op: 'polygon'; points: PolygonPoint[]; color: string }
+  | { op: 'circle'; x: number; y: number; radius: number; color: string; lineWidth: number }
+  | { op: 'text'; text: string; x: number; y: number; style: TextStyle }
+  | { op: 'image'; image: PaintImage; x: number; y: number; width: number; height: number; crop?: ImageCrop };
+
+export class NullRenderer implements Renderer, Painter {
+  readonly kind = 'null';
+
+  // Frames rendered so far
+  frameCount = 0;
+  // Commands of the last frame
+  commands: DrawCommand[] = [];
+
+  render(frame: SceneFrame): void {
+    this.commands = [];
+    this.frameCount += 1;
+    drawScene(this, frame);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: string): void {
+    this.commands.push({ op: 'rect', x, y, width, height, color });
+  }
+
+  fillPolygon(points: PolygonPoint[], color: string): void {
+    this.commands.push({ op: 'polygon', points, color });
+  }
+
+  strokeCircle(x: number, y: number, radius: number, color: string, lineWidth: number): void {
+    this.commands.push({ op: 'circle', x, y, radius, color, lineWidth });
+  }
+
+  fillText(text: string, x: number, y: number, style: TextStyle): void {
+    this.commands.push({ op: 'text', text, x, y, style });
+  }
+
+  drawImage(image: PaintImage, x: number, y: number, width: number, height: number, crop?: ImageCrop): void {
+    this.commands.push({ op: 'image', image, x, y, width, height, crop });
+  }
+
+  dispose(): void {
+    this.commands = [];
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Painter - Drawing primitives shared by every renderer backend
+ *
+ * Scene and obstacle drawing is written against these primitives only, so the
+ * same drawing code runs on Canvas 2D, WebGL and the headless renderer.
+ * Coordinates are playfield pixels with the origin at the top left; colors
+ * are CSS color strings (hex, rgb() or rgba()).
+ */
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextStyle {
+  font: string; // CSS font, e.g. '24px Arial'
+  color: string;
+  align?: TextAlign; // Left by default
+}
+
+export type PolygonPoint = [number, number];
+
+// Images every backend can draw
+export type PaintImage = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+// Part of an image, in image pixels
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Painter {
+  fillRect(x: number, y: number, width: number, height: number, color: string): void;
+
+  /**
+   * Fill a convex polygon
+   * @param points Corners in drawing order
+   */
+  fillPolygon(points: PolygonPoint[], color: string): void;
+
+  strokeCircle(x: number, y: number, radius: number, color: string, lineWidth: number): void;
+
+  /**
+   * Draw a line of text
+   * @param x Anchor for the alignment
+   * @param y Baseline
+   */
+  fillText(text: string, x: number, y: number, style: TextStyle): void;
+
+  /**
+   * Draw an image, or part of it, stretched to the given box
+   * @param crop Part of the image to draw; the whole image by default
+   */
+  drawImage(image: PaintImage, x: number, y: number, width: number, height: number, crop?: ImageCrop): void;
+}
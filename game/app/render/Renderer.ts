@@ -0,0 +1,97 @@
+/**
+ * Renderer - Common interface for the backends that draw the game
+ */
+
+import { GameSimulation, GameState, RenderState } from '../engine/GameSimulation';
+import { AbilityStates } from '../engine/abilities';
+import { DIFFICULTY_PRESETS, DEFAULT_DIFFICULTY, Difficulty } from '../engine/difficulty';
+import { FIXED_TIMESTEP } from '../engine/constants';
+import { Theme } from './theme';
+import { PlayerAnimationState } from './animation';
+
+export type RendererKind = 'canvas2d' | 'webgl' | 'null';
+
+// Level being played, for the progress bar and menus
+export interface SceneLevel {
+  name: string;
+  progress: number; // 0-1
+}
+
+// Course parameters of an endless run, for the difficulty debug overlay
+export interface SceneDifficulty extends Difficulty {
+  preset: string; // Preset name
+  distance: number; // px scrolled
+  time: number; // Seconds of game time
+}
+
+// Everything needed to draw one frame
+export interface SceneFrame {
+  width: number;
+  height: number;
+  state: GameState;
+  score: number;
+  highScore: number; // Shown on the game over screen; the level's best score in levels
+  renderState: RenderState; // Interpolated player and obstacle positions
+  abilities: AbilityStates | null; // Null hides the ability cooldowns
+  isReplay: boolean;
+  theme: Theme;
+  playerAnimation: PlayerAnimationState;
+  elapsed: number; // Simulated seconds, scrolling the parallax layers
+  level: SceneLevel | null; // Null in endless runs
+  difficulty: SceneDifficulty | null; // Null hides the difficulty overlay
+}
+
+export interface Renderer {
+  readonly kind: RendererKind;
+
+  render(frame: SceneFrame): void;
+
+  /**
+   * Release GPU and canvas resources
+   */
+  dispose(): void;
+}
+
+export interface SceneOptions {
+  highScore: number;
+  isReplay: boolean;
+  showAbilities: boolean;
+  showDifficulty: boolean; // Debug overlay with the current course parameters; endless runs only
+  theme: Theme;
+  playerAnimation: PlayerAnimationState;
+}
+
+/**
+ * Describe the current simulation state for a renderer
+ * @param simulation Simulation to draw
+ * @param alpha Fraction of a step to interpolate positions by
+ * @param options What the frame shows besides the simulation
+ */
+export const createSceneFrame = (
+  simulation: GameSimulation,
+  alpha: number,
+  { highScore, isReplay, showAbilities, showDifficulty, theme, playerAnimation }: SceneOptions
+): SceneFrame => ({
+  width: simulation.config.width,
+  height: simulation.config.height,
+  state: simulation.state,
+  score: simulation.score,
+  highScore,
+  renderState: simulation.getRenderState(alpha),
+  abilities: showAbilities ? simulation.abilities : null,
+  isReplay,
+  theme,
+  playerAnimation,
+  elapsed: (simulation.tick + (simulation.state === GameState.PLAYING ? alpha - 1 : 0)) * FIXED_TIMESTEP,
+  level: simulation.config.level
+    ? { name: simulation.config.level.name, progress: simulation.levelProgress ?? 0 }
+    : null,
+  difficulty: showDifficulty && !simulation.config.level
+    ? {
+      ...simulation.difficulty,
+      preset: DIFFICULTY_PRESETS[simulation.config.difficulty ?? DEFAULT_DIFFICULTY].name,
+      distance: simulation.distance,
+      time: simulation.time,
+    }
+    : null,
+});
@@ -0,0 +1,384 @@
+/**
+ * WebGLRenderer - Draws the game with WebGL
+ *
+ * Shapes are batched into one buffer of colored triangles per frame. Images
+ * are uploaded once as textures and drawn as textured quads. WebGL can't draw
+ * text, so each string is rasterized once on a 2D canvas and drawn the same
+ * way. The shape batch is flushed before each quad to keep draw order.
+ */
+
+import { ImageCrop, Painter, PaintImage, PolygonPoint, TextStyle } from './Painter';
+import { Renderer, SceneFrame } from './Renderer';
+import { drawScene } from './drawScene';
+import { RGBA, parseColor } from './color';
+
+// Both programs map playfield pixels (origin top left) to clip space
+const SHAPE_VERTEX_SHADER = `
+attribute vec2 a_position;
+attribute vec4 a_color;
+uniform vec2 u_resolution;
+varying vec4 v_color;
+void main() {
+  vec2 clip = a_position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_color = a_color;
+}`;
+
+const SHAPE_FRAGMENT_SHADER = `
+precision mediump float;
+varying vec4 v_color;
+void main() {
+  gl_FragColor = v_color;
+}`;
+
+const TEXTURE_VERTEX_SHADER = `
+attribute vec2 a_position;
+attribute vec2 a_texCoord;
+uniform vec2 u_resolution;
+varying vec2 v_texCoord;
+void main() {
+  vec2 clip = a_position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_texCoord = a_texCoord;
+}`;
+
+const TEXTURE_FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D u_texture;
+varying vec2 v_texCoord;
+void main() {
+  gl_FragColor = texture2D(u_texture, v_texCoord);
+}`;
+
+// Floats per shape vertex: x, y, r, g, b, a
+const SHAPE_VERTEX_SIZE = 6;
+
+// Segments approximating a circle
+const CIRCLE_SEGMENTS = 32;
+
+// Text textures kept between frames; the score changes often, so old strings are dropped
+const MAX_TEXT_TEXTURES = 64;
+
+interface ProgramInfo {
+  program: WebGLProgram;
+  attributes: number[]; // Attribute locations in vertex layout order
+  resolution: WebGLUniformLocation | null;
+}
+
+interface TextTexture {
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+  ascent: number; // Baseline offset from the top
+}
+
+/**
+ * Compile and link a shader program
+ * @param attributes Attribute names in vertex layout order
+ */
+const createProgram = (
+  gl: WebGLRenderingContext,
+  vertexSource: string,
+  fragmentSource: string,
+  attributes: string[]
+): ProgramInfo => {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    if (!shader) {
+      throw new Error('Could not create a WebGL shader');
+    }
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+  };
+
+  const program = gl.createProgram();
+  if (!program) {
+    throw new Error('Could not create a WebGL program');
+  }
+  gl.attachShader(program, compile(gl.VERTEX_SHADER, vertexSource));
+  gl.attachShader(program, compile(gl.FRAGMENT_SHADER, fragmentSource));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader program failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+
+  return {
+    program,
+    attributes: attributes.map(name => gl.getAttribLocation(program, name)),
+    resolution: gl.getUniformLocation(program, 'u_resolution'),
+  };
+};
+
+const createBuffer = (gl: WebGLRenderingContext): WebGLBuffer => {
+  const buffer = gl.createBuffer();
+  if (!buffer) {
+    throw new Error('Could not create a WebGL buffer');
+  }
+  return buffer;
+};
+
+export class WebGLRenderer implements Renderer, Painter {
+  readonly kind = 'webgl';
+
+  private readonly gl: WebGLRenderingContext;
+  private readonly shapeProgram: ProgramInfo;
+  private readonly textureProgram: ProgramInfo;
+  private readonly shapeBuffer: WebGLBuffer;
+  private readonly quadBuffer: WebGLBuffer;
+  // Scratch canvas text is rasterized on
+  private readonly textContext: CanvasRenderingContext2D;
+
+  // Shape vertices waiting to be drawn
+  private vertices: number[] = [];
+  // Rasterized strings, oldest first
+  private textTextures = new Map<string, TextTexture>();
+  // Uploaded theme images
+  private imageTextures = new Map<PaintImage, WebGLTexture>();
+  private width = 1;
+  private height = 1;
+
+  /**
+   * @param gl Context of the game canvas
+   * @param textCanvas Scratch canvas for rasterizing text
+   */
+  constructor(gl: WebGLRenderingContext, textCanvas: HTMLCanvasElement = document.createElement('canvas')) {
+    const textContext = textCanvas.getContext('2d');
+    if (!textContext) {
+      throw new Error('Could not create a canvas for WebGL text');
+    }
+
+    this.gl = gl;
+    this.textContext = textContext;
+    this.shapeProgram = createProgram(gl, SHAPE_VERTEX_SHADER, SHAPE_FRAGMENT_SHADER, ['a_position', 'a_color']);
+    this.textureProgram = createProgram(gl, TEXTURE_VERTEX_SHADER, TEXTURE_FRAGMENT_SHADER, ['a_position', 'a_texCoord']);
+    this.shapeBuffer = createBuffer(gl);
+    this.quadBuffer = createBuffer(gl);
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  render(frame: SceneFrame): void {
+    const { gl } = this;
+    this.width = frame.width;
+    this.height = frame.height;
+
+    gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    drawScene(this, frame);
+    this.flush();
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: string): void {
+    const rgba = parseColor(color);
+    this.pushTriangle([x, y], [x + width, y], [x + width, y + height], rgba);
+    this.pushTriangle([x, y], [x + width, y + height], [x, y + height], rgba);
+  }
+
+  fillPolygon(points: PolygonPoint[], color: string): void {
+    const rgba = parseColor(color);
+    // Convex polygons triangulate as a fan from the first corner
+    for (let i = 1; i < points.length - 1; i++) {
+      this.pushTriangle(points[0], points[i], points[i + 1], rgba);
+    }
+  }
+
+  strokeCircle(x: number, y: number, radius: number, color: string, lineWidth: number): void {
+    const rgba = parseColor(color);
+    const inner = radius - lineWidth / 2;
+    const outer = radius + lineWidth / 2;
+
+    // A ring of quads between the inner and outer edge
+    for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+      const a0 = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+      const a1 = ((i + 1) / CIRCLE_SEGMENTS) * Math.PI * 2;
+      const innerStart: PolygonPoint = [x + Math.cos(a0) * inner, y + Math.sin(a0) * inner];
+      const outerStart: PolygonPoint = [x + Math.cos(a0) * outer, y + Math.sin(a0) * outer];
+      const innerEnd: PolygonPoint = [x + Math.cos(a1) * inner, y + Math.sin(a1) * inner];
+      const outerEnd: PolygonPoint = [x + Math.cos(a1) * outer, y + Math.sin(a1) * outer];
+      this.pushTriangle(innerStart, outerStart, outerEnd, rgba);
+      this.pushTriangle(innerStart, outerEnd, innerEnd, rgba);
+    }
+  }
+
+  fillText(text: string, x: number, y: number, style: TextStyle): void {
+    const { texture, width, height, ascent } = this.getTextTexture(text, style);
+    const left = style.align === 'center' ? x - width / 2 : style.align === 'right' ? x - width : x;
+    this.drawQuad(texture, left, y - ascent, width, height, [0, 0, 1, 1]);
+  }
+
+  drawImage(image: PaintImage, x: number, y: number, width: number, height: number, crop?: ImageCrop): void {
+    let texture = this.imageTextures.get(image);
+    if (!texture) {
+      texture = this.createTexture(image);
+      this.imageTextures.set(image, texture);
+    }
+
+    const imageWidth = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+    const imageHeight = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+    const { x: cropX, y: cropY, width: cropWidth, height: cropHeight } = crop ?? {
+      x: 0,
+      y: 0,
+      width: imageWidth,
+      height: imageHeight,
+    };
+
+    this.drawQuad(texture, x, y, width, height, [
+      cropX / imageWidth,
+      cropY / imageHeight,
+      (cropX + cropWidth) / imageWidth,
+      (cropY + cropHeight) / imageHeight,
+    ]);
+  }
+
+  dispose(): void {
+    const { gl } = this;
+    this.textTextures.forEach(({ texture }) => gl.deleteTexture(texture));
+    this.textTextures.clear();
+    this.imageTextures.forEach(texture => gl.deleteTexture(texture));
+    this.imageTextures.clear();
+    gl.deleteBuffer(this.shapeBuffer);
+    gl.deleteBuffer(this.quadBuffer);
+    gl.deleteProgram(this.shapeProgram.program);
+    gl.deleteProgram(this.textureProgram.program);
+  }
+
+  private pushTriangle(a: PolygonPoint, b: PolygonPoint, c: PolygonPoint, [r, g, bl, alpha]: RGBA): void {
+    this.vertices.push(a[0], a[1], r, g, bl, alpha, b[0], b[1], r, g, bl, alpha, c[0], c[1], r, g, bl, alpha);
+  }
+
+  /**
+   * Set up interleaved float attributes for the bound buffer
+   * @param locations Attribute locations
+   * @param sizes Floats per attribute, in the same order
+   */
+  private pointAttributes(locations: number[], sizes: number[]): void {
+    const { gl } = this;
+    const stride = sizes.reduce((sum, size) => sum + size, 0) * Float32Array.BYTES_PER_ELEMENT;
+    let offset = 0;
+    locations.forEach((location, index) => {
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, sizes[index], gl.FLOAT, false, stride, offset);
+      offset += sizes[index] * Float32Array.BYTES_PER_ELEMENT;
+    });
+  }
+
+  /**
+   * Draw a textured rectangle
+   * @param texCoords Left, top, right and bottom of the texture to show, 0-1
+   */
+  private drawQuad(
+    texture: WebGLTexture,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    [u0, v0, u1, v1]: [number, number, number, number]
+  ): void {
+    const { gl } = this;
+    // Shapes queued before the quad must stay underneath it
+    this.flush();
+
+    const right = x + width;
+    const bottom = y + height;
+    const { program, attributes, resolution } = this.textureProgram;
+    gl.useProgram(program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      new Float32Array([
+        x, y, u0, v0,
+        right, y, u1, v0,
+        x, bottom, u0, v1,
+        x, bottom, u0, v1,
+        right, y, u1, v0,
+        right, bottom, u1, v1,
+      ]),
+      gl.STREAM_DRAW
+    );
+    this.pointAttributes(attributes, [2, 2]);
+    gl.uniform2f(resolution, this.width, this.height);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+  }
+
+  // Upload an image or canvas as a texture
+  private createTexture(source: PaintImage): WebGLTexture {
+    const { gl } = this;
+    const texture = gl.createTexture();
+    if (!texture) {
+      throw new Error('Could not create a WebGL texture');
+    }
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    // Sizes are rarely powers of two, which WebGL 1 only allows without mipmaps or repeat
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    return texture;
+  }
+
+  // Draw the queued shapes
+  private flush(): void {
+    if (this.vertices.length === 0) {
+      return;
+    }
+
+    const { gl } = this;
+    const { program, attributes, resolution } = this.shapeProgram;
+    gl.useProgram(program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.shapeBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(this.vertices), gl.STREAM_DRAW);
+    this.pointAttributes(attributes, [2, 4]);
+    gl.uniform2f(resolution, this.width, this.height);
+    gl.drawArrays(gl.TRIANGLES, 0, this.vertices.length / SHAPE_VERTEX_SIZE);
+    this.vertices = [];
+  }
+
+  // Rasterize a string, or reuse it from an earlier frame
+  private getTextTexture(text: string, style: TextStyle): TextTexture {
+    const key = `${style.font}|${style.color}|${text}`;
+    const cached = this.textTextures.get(key);
+    if (cached) {
+      // Move to the back so it is dropped last
+      this.textTextures.delete(key);
+      this.textTextures.set(key, cached);
+      return cached;
+    }
+
+    const { gl, textContext } = this;
+    const canvas = textContext.canvas;
+    const fontSize = Number(/(\d+)px/.exec(style.font)?.[1] ?? 16);
+    const ascent = Math.ceil(fontSize);
+
+    textContext.font = style.font;
+    const width = Math.max(1, Math.ceil(textContext.measureText(text).width));
+    const height = Math.ceil(fontSize * 1.3);
+
+    // Resizing resets the context state
+    canvas.width = width;
+    canvas.height = height;
+    textContext.font = style.font;
+    textContext.fillStyle = style.color;
+    textContext.textBaseline = 'alphabetic';
+    textContext.fillText(text, 0, ascent);
+
+    const entry = { texture: this.createTexture(canvas), width, height, ascent };
+    this.textTextures.set(key, entry);
+
+    if (this.textTextures.size > MAX_TEXT_TEXTURES) {
+      const [oldestKey, oldest] = this.textTextures.entries().next().value as [string, TextTexture];
+      gl.deleteTexture(oldest.texture);
+      this.textTextures.delete(oldestKey);
+    }
+
+    return entry;
+  }
+}
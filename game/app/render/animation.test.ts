@@ -0,0 +1,65 @@
+/**
+ * Tests for animation.ts
+ */
+
+import { PlayerAnimator, spriteFrame } from './animation';
+import { SpriteSheet } from './theme';
+import { GameState, Player } from '../engine/GameSimulation';
+
+const sheet: SpriteSheet = {
+  image: 'bird.svg',
+  frameWidth: 40,
+  frameHeight: 40,
+  animations: {
+    flap: { frames: [0, 1, 2], fps: 10, loop: true },
+    land: { frames: [3, 4], fps: 10, loop: false },
+    die: { frames: [5, 6, 7], fps: 10, loop: false },
+  },
+};
+
+const player = (isJumping: boolean): Player => ({ x: 0, y: 0, velocityY: 0, isJumping, jumpPower: 0 });
+
+describe('spriteFrame', () => {
+  it('should loop looping animations', () => {
+    expect(spriteFrame(sheet.animations.flap, 0)).toBe(0);
+    expect(spriteFrame(sheet.animations.flap, 0.25)).toBe(2);
+    expect(spriteFrame(sheet.animations.flap, 0.35)).toBe(0);
+  });
+
+  it('should hold the last frame of animations that play once', () => {
+    expect(spriteFrame(sheet.animations.die, 0.15)).toBe(6);
+    expect(spriteFrame(sheet.animations.die, 5)).toBe(7);
+    expect(spriteFrame(sheet.animations.land, Infinity)).toBe(4);
+  });
+});
+
+describe('PlayerAnimator', () => {
+  it('should flap in the air, land on the ground and die at game over', () => {
+    const animator = new PlayerAnimator();
+
+    expect(animator.update(GameState.PLAYING, player(true), 1)).toEqual({ name: 'flap', elapsed: 0 });
+    expect(animator.update(GameState.PLAYING, player(true), 1.5)).toEqual({ name: 'flap', elapsed: 0.5 });
+    expect(animator.update(GameState.PLAYING, player(false), 2)).toEqual({ name: 'land', elapsed: 0 });
+    expect(animator.update(GameState.GAME_OVER, player(false), 3)).toEqual({ name: 'die', elapsed: 0 });
+  });
+
+  it('should settle once an animation that plays once has finished', () => {
+    const animator = new PlayerAnimator();
+    expect(animator.isSettled(sheet, 0)).toBe(true);
+
+    animator.update(GameState.GAME_OVER, player(false), 1);
+    expect(animator.isSettled(sheet, 1.2)).toBe(false);
+    expect(animator.isSettled(sheet, 1.3)).toBe(true);
+    expect(animator.isSettled(null, 1)).toBe(true);
+  });
+
+  it('should start from a settled landing after a reset', () => {
+    const animator = new PlayerAnimator();
+    animator.update(GameState.GAME_OVER, player(false), 1);
+
+    animator.reset();
+
+    expect(animator.update(GameState.MENU, player(false), 2).name).toBe('land');
+    expect(animator.isSettled(sheet, 2)).toBe(true);
+  });
+});
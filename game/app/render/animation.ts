@@ -0,0 +1,73 @@
+/**
+ * Animation - Picks the player animation and the sprite frame to show
+ */
+
+import { GameState, Player } from '../engine/GameSimulation';
+import { PlayerAnimation, SpriteAnimation, SpriteSheet } from './theme';
+
+export interface PlayerAnimationState {
+  name: PlayerAnimation;
+  elapsed: number; // Seconds since the animation started
+}
+
+/**
+ * Frame of an animation to show
+ * @param animation Animation definition
+ * @param elapsed Seconds since the animation started
+ * @returns Frame index into the sheet
+ */
+export const spriteFrame = (animation: SpriteAnimation, elapsed: number): number => {
+  const { frames, fps, loop } = animation;
+  const step = Math.floor(Math.max(0, elapsed) * fps);
+
+  if (!Number.isFinite(step)) {
+    return frames[frames.length - 1];
+  }
+  return frames[loop ? step % frames.length : Math.min(step, frames.length - 1)];
+};
+
+/**
+ * Tracks which animation the player is in: flapping in the air, landing on
+ * the ground and dying at game over. Landing and dying play once and hold
+ * their last frame.
+ */
+export class PlayerAnimator {
+  private current: PlayerAnimation = 'land';
+  // Settled on the last landing frame until the first change
+  private startedAt = -Infinity;
+
+  /**
+   * Follow the player's state
+   * @param state Game state
+   * @param player Player to animate
+   * @param time Current time in seconds
+   */
+  update(state: GameState, player: Player, time: number): PlayerAnimationState {
+    const next: PlayerAnimation = state === GameState.GAME_OVER ? 'die' : player.isJumping ? 'flap' : 'land';
+
+    if (next !== this.current) {
+      this.current = next;
+      this.startedAt = time;
+    }
+
+    return { name: this.current, elapsed: time - this.startedAt };
+  }
+
+  /**
+   * Whether the current animation has stopped changing, so idle screens can stop redrawing
+   * @param sheet Player sprite sheet; nothing animates without one
+   * @param time Current time in seconds
+   */
+  isSettled(sheet: SpriteSheet | null, time: number): boolean {
+    if (!sheet) {
+      return true;
+    }
+    const { frames, fps, loop } = sheet.animations[this.current];
+    return !loop && (time - this.startedAt) * fps >= frames.length;
+  }
+
+  reset(): void {
+    this.current = 'land';
+    this.startedAt = -Infinity;
+  }
+}
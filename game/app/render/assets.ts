@@ -0,0 +1,93 @@
+/**
+ * Assets - Preloads theme files and their images before the game starts
+ */
+
+import { PaintImage } from './Painter';
+import { Theme, ThemeDefinition, ThemeId, parseTheme } from './theme';
+
+// Where the theme files are served
+const THEME_URL = '/themes';
+
+export interface LoadProgress {
+  loaded: number; // Files finished, including ones that failed
+  total: number;
+}
+
+// Loaded themes, so switching back doesn't load them again
+const loadedThemes = new Map<ThemeId, Promise<Theme>>();
+
+/**
+ * Load an image
+ * @param url Image URL
+ */
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load image ${url}`));
+    image.src = url;
+  });
+
+/**
+ * Images a theme needs
+ * @param definition Theme definition
+ * @returns Unique image URLs
+ */
+export const themeImageUrls = (definition: ThemeDefinition): string[] => {
+  const urls = definition.layers.map(layer => layer.image);
+  if (definition.player) {
+    urls.push(definition.player.image);
+  }
+  return Array.from(new Set(urls));
+};
+
+/**
+ * Load a theme file and every image it uses
+ * @param id Theme to load
+ * @param onProgress Called as each file finishes
+ * @returns The theme; images that fail to load are left out and drawn with plain shapes
+ * @throws Error if the theme file can't be loaded or is invalid
+ */
+const fetchTheme = async (id: ThemeId, onProgress?: (progress: LoadProgress) => void): Promise<Theme> => {
+  const response = await fetch(`${THEME_URL}/${id}.json`);
+  if (!response.ok) {
+    throw new Error(`Could not load theme "${id}" (HTTP ${response.status})`);
+  }
+  const definition = parseTheme(await response.json());
+
+  const urls = themeImageUrls(definition);
+  const progress = { loaded: 1, total: urls.length + 1 };
+  onProgress?.({ ...progress });
+
+  const images = new Map<string, PaintImage>();
+  await Promise.all(
+    urls.map(async url => {
+      try {
+        images.set(url, await loadImage(url));
+      } catch (error) {
+        console.error('Error loading theme image:', error);
+      }
+      progress.loaded += 1;
+      onProgress?.({ ...progress });
+    })
+  );
+
+  return { definition, images };
+};
+
+/**
+ * Load a theme once, reusing it on later calls
+ * @param id Theme to load
+ * @param onProgress Called as each file finishes
+ * @throws Error if the theme file can't be loaded or is invalid
+ */
+export const preloadTheme = (id: ThemeId, onProgress?: (progress: LoadProgress) => void): Promise<Theme> => {
+  let theme = loadedThemes.get(id);
+  if (!theme) {
+    theme = fetchTheme(id, onProgress);
+    // A failed load can be retried
+    theme.catch(() => loadedThemes.delete(id));
+    loadedThemes.set(id, theme);
+  }
+  return theme;
+};
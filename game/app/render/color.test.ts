@@ -0,0 +1,30 @@
+/**
+ * Tests for color.ts
+ */
+
+import { parseColor, withAlpha } from './color';
+
+describe('parseColor', () => {
+  it('should parse short and long hex colors', () => {
+    expect(parseColor('#FF0000')).toEqual([1, 0, 0, 1]);
+    expect(parseColor('#fff')).toEqual([1, 1, 1, 1]);
+  });
+
+  it('should parse rgb and rgba colors', () => {
+    expect(parseColor('rgb(255, 0, 0)')).toEqual([1, 0, 0, 1]);
+    const [r, g, b, a] = parseColor('rgba(0, 0, 0, 0.7)');
+    expect([r, g, b]).toEqual([0, 0, 0]);
+    expect(a).toBeCloseTo(0.7);
+  });
+
+  it('should fall back to opaque black for unknown colors', () => {
+    expect(parseColor('skyblue')).toEqual([0, 0, 0, 1]);
+  });
+});
+
+describe('withAlpha', () => {
+  it('should combine the opacity with the color', () => {
+    expect(withAlpha('#964B00', 0.5)).toBe('rgba(150, 75, 0, 0.5)');
+    expect(withAlpha('rgba(0, 0, 0, 0.5)', 0.5)).toBe('rgba(0, 0, 0, 0.25)');
+  });
+});
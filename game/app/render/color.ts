@@ -0,0 +1,50 @@
+/**
+ * Color - Parses the CSS colors used by the scene into RGBA components for backends without CSS colors
+ */
+
+// Red, green, blue and alpha, each 0-1
+export type RGBA = [number, number, number, number];
+
+// Colors repeat every frame, so each string is parsed once
+const parsed = new Map<string, RGBA>();
+
+const OPAQUE_BLACK: RGBA = [0, 0, 0, 1];
+
+/**
+ * Parse a hex (#rgb, #rrggbb), rgb() or rgba() color
+ * @param color CSS color
+ * @returns Components, or opaque black for colors it doesn't understand
+ */
+export const parseColor = (color: string): RGBA => {
+  const cached = parsed.get(color);
+  if (cached) {
+    return cached;
+  }
+
+  let rgba = OPAQUE_BLACK;
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  const functional = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(color.trim());
+
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, digit => digit + digit) : hex[1];
+    const value = parseInt(digits, 16);
+    rgba = [(value >> 16) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255, 1];
+  } else if (functional) {
+    const [, r, g, b, a] = functional;
+    rgba = [Number(r) / 255, Number(g) / 255, Number(b) / 255, a === undefined ? 1 : Number(a)];
+  }
+
+  parsed.set(color, rgba);
+  return rgba;
+};
+
+/**
+ * Apply an opacity to a color
+ * @param color CSS color
+ * @param alpha Opacity, 0-1, multiplied with the color's own
+ * @returns An rgba() color
+ */
+export const withAlpha = (color: string, alpha: number): string => {
+  const [r, g, b, a] = parseColor(color);
+  return `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${a * alpha})`;
+};
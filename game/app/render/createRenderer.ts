@@ -0,0 +1,37 @@
+/**
+ * createRenderer - Picks a renderer backend for a canvas
+ */
+
+import { Renderer, RendererKind } from './Renderer';
+import { Canvas2DRenderer } from './Canvas2DRenderer';
+import { WebGLRenderer } from './WebGLRenderer';
+import { NullRenderer } from './NullRenderer';
+
+/**
+ * Create the requested renderer, falling back to Canvas 2D when WebGL is unavailable
+ * @param canvas Canvas to draw on
+ * @param kind Preferred backend
+ * @returns A renderer; the null renderer if the canvas gives no usable context
+ */
+export const createRenderer = (canvas: HTMLCanvasElement, kind: RendererKind): Renderer => {
+  if (kind === 'null') {
+    return new NullRenderer();
+  }
+
+  if (kind === 'webgl') {
+    const gl = canvas.getContext('webgl');
+    if (gl) {
+      try {
+        return new WebGLRenderer(gl);
+      } catch (error) {
+        // A canvas keeps its first context, so there is no 2D context to fall back to
+        console.error('Error creating WebGL renderer:', error);
+        return new NullRenderer();
+      }
+    }
+    console.warn('WebGL is not available, using Canvas 2D');
+  }
+
+  const ctx = canvas.getContext('2d');
+  return ctx ? new Canvas2DRenderer(ctx) : new NullRenderer();
+};
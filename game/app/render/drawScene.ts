@@ -0,0 +1,234 @@
+/**
+ * drawScene - Draws a frame of the game with renderer-independent primitives
+ *
+ * Every color, sprite and background layer comes from the frame's theme.
+ */
+
+import { Painter } from './Painter';
+import { SceneDifficulty, SceneFrame, SceneLevel } from './Renderer';
+import { Theme } from './theme';
+import { spriteFrame } from './animation';
+import { GameState } from '../engine/GameSimulation';
+import { OBSTACLE_REGISTRY, drawObstacle } from '../engine/obstacles';
+import { ABILITIES, ABILITY_IDS, AbilityStates, isAbilityActive } from '../engine/abilities';
+import { GROUND_HEIGHT, PLAYER_WIDTH, PLAYER_HEIGHT } from '../engine/constants';
+
+/**
+ * Draw the theme's background layers, each tiled and scrolled at its own speed
+ * @param painter Renderer primitives
+ * @param frame Frame being drawn
+ */
+const drawParallax = (painter: Painter, frame: SceneFrame) => {
+  const { width, height, theme, elapsed } = frame;
+
+  theme.definition.layers.forEach(layer => {
+    const image = theme.images.get(layer.image);
+    if (!image) {
+      return;
+    }
+
+    const y = layer.anchor === 'top' ? layer.offset : height - GROUND_HEIGHT - layer.offset - layer.height;
+    const shift = (elapsed * layer.speed) % layer.width;
+    for (let x = -shift; x < width; x += layer.width) {
+      painter.drawImage(image, x, y, layer.width, layer.height);
+    }
+  });
+};
+
+/**
+ * Draw the player with the theme's sprite sheet, or as a plain box without one
+ * @param painter Renderer primitives
+ * @param frame Frame being drawn
+ */
+const drawPlayer = (painter: Painter, frame: SceneFrame) => {
+  const { theme, playerAnimation } = frame;
+  const { player } = frame.renderState;
+  const sheet = theme.definition.player;
+  const image = sheet && theme.images.get(sheet.image);
+
+  if (!sheet || !image) {
+    painter.fillRect(player.x, player.y, PLAYER_WIDTH, PLAYER_HEIGHT, theme.definition.palette.player);
+    return;
+  }
+
+  const index = spriteFrame(sheet.animations[playerAnimation.name], playerAnimation.elapsed);
+  painter.drawImage(image, player.x, player.y, PLAYER_WIDTH, PLAYER_HEIGHT, {
+    x: index * sheet.frameWidth,
+    y: 0,
+    width: sheet.frameWidth,
+    height: sheet.frameHeight,
+  });
+};
+
+/**
+ * Draw a bar per ability showing its remaining effect or cooldown
+ * @param painter Renderer primitives
+ * @param abilities Ability timers
+ * @param theme Colors and font
+ */
+const drawAbilityHud = (painter: Painter, abilities: AbilityStates, theme: Theme) => {
+  const { font, palette } = theme.definition;
+  const barWidth = 100;
+  const barHeight = 8;
+
+  ABILITY_IDS.forEach((id, index) => {
+    const { label, duration, cooldown } = ABILITIES[id];
+    const state = abilities[id];
+    const x = 20;
+    const y = 50 + index * 30;
+
+    let status: string;
+    let fill: number;
+    let color: string;
+    if (isAbilityActive(state)) {
+      status = `${state.active.toFixed(1)}s`;
+      fill = state.active / duration;
+      color = palette.abilityActive;
+    } else if (state.cooldown > 0) {
+      status = `${Math.ceil(state.cooldown)}s`;
+      fill = 1 - state.cooldown / cooldown;
+      color = palette.abilityCooldown;
+    } else {
+      status = 'Ready';
+      fill = 1;
+      color = palette.abilityReady;
+    }
+
+    painter.fillRect(x, y + 6, barWidth * fill, barHeight, color);
+    painter.fillText(`${label}: ${status}`, x + barWidth + 10, y + 14, { font: `14px ${font}`, color: palette.text });
+  });
+};
+
+/**
+ * Draw how far through the level the player is
+ * @param painter Renderer primitives
+ * @param frame Frame being drawn
+ * @param level Level being played
+ */
+const drawLevelProgress = (painter: Painter, frame: SceneFrame, level: SceneLevel) => {
+  const { palette } = frame.theme.definition;
+  const barWidth = frame.width / 3;
+  const x = (frame.width - barWidth) / 2;
+
+  painter.fillRect(x, 16, barWidth, 8, palette.abilityCooldown);
+  painter.fillRect(x, 16, barWidth * level.progress, 8, palette.abilityReady);
+};
+
+/**
+ * Draw the current course parameters in a box at the top right, for tuning difficulty presets
+ * @param painter Renderer primitives
+ * @param frame Frame being drawn
+ * @param difficulty Course parameters
+ */
+const drawDifficultyOverlay = (painter: Painter, frame: SceneFrame, difficulty: SceneDifficulty) => {
+  const { font, palette } = frame.theme.definition;
+  const totalWeight = OBSTACLE_REGISTRY.reduce((sum, { type }) => sum + difficulty.weights[type], 0);
+  const lines = [
+    `${difficulty.preset}: ${Math.round(difficulty.distance)} px, ${difficulty.time.toFixed(1)} s`,
+    `Level ${difficulty.level.toFixed(2)}`,
+    `Speed ${Math.round(difficulty.obstacleSpeed)} px/s`,
+    `Spawn every ${difficulty.spawnInterval.toFixed(2)} s`,
+    `Min gap ${Math.round(difficulty.minGap)} px`,
+    ...OBSTACLE_REGISTRY.map(({ type }) => `${type} ${Math.round((100 * difficulty.weights[type]) / totalWeight)}%`),
+  ];
+  const lineHeight = 16;
+  const boxWidth = 220;
+  const x = frame.width - boxWidth - 10;
+  const y = 44;
+
+  painter.fillRect(x, y, boxWidth, lines.length * lineHeight + 10, palette.overlay);
+  lines.forEach((text, index) => {
+    painter.fillText(text, x + 8, y + 18 + index * lineHeight, { font: `12px ${font}`, color: palette.overlayText });
+  });
+};
+
+/**
+ * Draw the game over, level complete or menu screen over the playfield
+ * @param painter Renderer primitives
+ * @param frame Frame being drawn
+ */
+const drawOverlay = (painter: Painter, frame: SceneFrame) => {
+  const { width, height, state, score, highScore, isReplay, level } = frame;
+  const { font, palette } = frame.theme.definition;
+  const line = (size: number) => ({ font: `${size}px ${font}`, color: palette.overlayText, align: 'center' } as const);
+  const title = line(36);
+
+  painter.fillRect(0, 0, width, height, palette.overlay);
+
+  if (state === GameState.GAME_OVER || state === GameState.LEVEL_COMPLETE) {
+    painter.fillText(state === GameState.LEVEL_COMPLETE ? 'Level Complete!' : 'Game Over', width / 2, height / 2 - 40, title);
+    painter.fillText(`Score: ${score}`, width / 2, height / 2, line(24));
+    painter.fillText(level ? `Best: ${highScore}` : `High Score: ${highScore}`, width / 2, height / 2 + 30, line(24));
+    painter.fillText(
+      isReplay ? 'Click or press Space to watch again' : 'Click or press Space to play again',
+      width / 2,
+      height / 2 + 70,
+      line(24)
+    );
+    return;
+  }
+
+  painter.fillText(isReplay ? 'Replay' : level ? level.name : 'Microphone Flappy Bird', width / 2, height / 2 - 40, title);
+  if (!isReplay) {
+    painter.fillText('Make noise to jump. Louder noise = Higher jump', width / 2, height / 2, line(20));
+  }
+  painter.fillText(
+    isReplay ? 'Click or press Space to watch' : 'Click or press Space to start',
+    width / 2,
+    height / 2 + 40,
+    line(20)
+  );
+};
+
+/**
+ * Draw one frame
+ * @param painter Renderer primitives
+ * @param frame Simulation state and HUD options
+ */
+export const drawScene = (painter: Painter, frame: SceneFrame): void => {
+  const { width, height, state, score, renderState, abilities, isReplay, theme } = frame;
+  const { player, obstacles } = renderState;
+  const { font, palette } = theme.definition;
+
+  // Draw background
+  painter.fillRect(0, 0, width, height, palette.sky);
+  drawParallax(painter, frame);
+
+  // Draw ground
+  painter.fillRect(0, height - GROUND_HEIGHT, width, GROUND_HEIGHT, palette.ground);
+
+  drawPlayer(painter, frame);
+
+  // Draw shield bubble
+  if (abilities && isAbilityActive(abilities.shield)) {
+    painter.strokeCircle(player.x + PLAYER_WIDTH / 2, player.y + PLAYER_HEIGHT / 2, PLAYER_WIDTH, palette.shield, 3);
+  }
+
+  // Draw obstacles
+  obstacles.forEach(obstacle => drawObstacle(painter, obstacle, palette));
+
+  // Draw score
+  const hudText = { font: `24px ${font}`, color: palette.text };
+  painter.fillText(`Score: ${score}`, 20, 30, hudText);
+
+  if (isReplay) {
+    painter.fillText('Replay', width - 20, 30, { ...hudText, align: 'right' });
+  }
+
+  if (abilities) {
+    drawAbilityHud(painter, abilities, theme);
+  }
+
+  if (frame.level) {
+    drawLevelProgress(painter, frame, frame.level);
+  }
+
+  if (frame.difficulty) {
+    drawDifficultyOverlay(painter, frame, frame.difficulty);
+  }
+
+  // Display game over, level complete or menu text
+  if (state === GameState.GAME_OVER || state === GameState.LEVEL_COMPLETE || state === GameState.MENU) {
+    drawOverlay(painter, frame);
+  }
+};
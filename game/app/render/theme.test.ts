@@ -0,0 +1,58 @@
+/**
+ * Tests for theme.ts
+ */
+
+import { DEFAULT_THEME, parseTheme, parseThemeId } from './theme';
+import day from '../../public/themes/day.json';
+import night from '../../public/themes/night.json';
+import retro from '../../public/themes/retro.json';
+
+const valid = () => JSON.parse(JSON.stringify(day));
+
+describe('parseTheme', () => {
+  it('should accept the bundled themes', () => {
+    expect(parseTheme(day).name).toBe('Day');
+    expect(parseTheme(night).player?.animations.flap.loop).toBe(true);
+    expect(parseTheme(retro).layers).toHaveLength(2);
+  });
+
+  it('should keep the original colors in the day theme', () => {
+    expect(parseTheme(day).palette).toEqual(DEFAULT_THEME.definition.palette);
+  });
+
+  it('should allow themes without sprites or layers', () => {
+    const theme = valid();
+    delete theme.player;
+    delete theme.layers;
+
+    expect(parseTheme(theme)).toMatchObject({ player: null, layers: [] });
+  });
+
+  it('should name missing colors', () => {
+    const theme = valid();
+    delete theme.palette.sky;
+    delete theme.palette.spike;
+
+    expect(() => parseTheme(theme)).toThrow('missing colors: sky, spike');
+  });
+
+  it('should reject broken sprite sheets and layers', () => {
+    const sheet = valid();
+    sheet.player.animations.die.frames = [];
+    expect(() => parseTheme(sheet)).toThrow('invalid player sprite sheet');
+
+    const layer = valid();
+    layer.layers[0].anchor = 'middle';
+    expect(() => parseTheme(layer)).toThrow('invalid parallax layer');
+
+    expect(() => parseTheme('day')).toThrow('needs an id and a name');
+  });
+});
+
+describe('parseThemeId', () => {
+  it('should fall back to the day theme', () => {
+    expect(parseThemeId('retro')).toBe('retro');
+    expect(parseThemeId('neon')).toBe('day');
+    expect(parseThemeId(null)).toBe('day');
+  });
+});
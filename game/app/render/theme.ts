@@ -0,0 +1,217 @@
+/**
+ * Theme - Colors, player sprite sheet and parallax layers the scene is drawn with
+ *
+ * Themes are JSON files in public/themes; parseTheme checks them before use.
+ */
+
+import { PaintImage } from './Painter';
+
+export type ThemeId = 'day' | 'night' | 'retro';
+
+export const THEME_IDS: ThemeId[] = ['day', 'night', 'retro'];
+
+// Settings labels, available before the theme files load
+export const THEME_LABELS: Record<ThemeId, string> = {
+  day: 'Day',
+  night: 'Night',
+  retro: 'Retro',
+};
+
+// Every color the scene uses
+export interface ThemePalette {
+  sky: string;
+  ground: string;
+  player: string; // Drawn when the theme has no player sprite
+  shield: string;
+  spike: string;
+  movingSpike: string;
+  bridge: string; // Faded as the bridge loses integrity
+  variableGround: string;
+  stalactite: string;
+  flyingBird: string;
+  gapWall: string;
+  windZone: string; // Drawn translucent
+  platform: string; // Floating platforms
+  text: string;
+  overlay: string;
+  overlayText: string;
+  abilityActive: string;
+  abilityCooldown: string;
+  abilityReady: string;
+}
+
+const PALETTE_KEYS: (keyof ThemePalette)[] = [
+  'sky',
+  'ground',
+  'player',
+  'shield',
+  'spike',
+  'movingSpike',
+  'bridge',
+  'variableGround',
+  'stalactite',
+  'flyingBird',
+  'gapWall',
+  'windZone',
+  'platform',
+  'text',
+  'overlay',
+  'overlayText',
+  'abilityActive',
+  'abilityCooldown',
+  'abilityReady',
+];
+
+export type PlayerAnimation = 'flap' | 'land' | 'die';
+
+export const PLAYER_ANIMATIONS: PlayerAnimation[] = ['flap', 'land', 'die'];
+
+export interface SpriteAnimation {
+  frames: number[]; // Frame indices into the sheet, left to right
+  fps: number;
+  loop: boolean; // Animations that don't loop hold their last frame
+}
+
+export interface SpriteSheet {
+  image: string; // URL of a sheet with the frames side by side
+  frameWidth: number;
+  frameHeight: number;
+  animations: Record<PlayerAnimation, SpriteAnimation>;
+}
+
+export interface ParallaxLayer {
+  image: string; // URL of an image tiled horizontally
+  width: number; // Size of one tile on the playfield
+  height: number;
+  speed: number; // Scroll speed in px/s; distant layers scroll slower
+  anchor: 'top' | 'ground'; // Edge of the playfield the layer hangs from or stands on
+  offset: number; // Distance from that edge in px
+}
+
+export interface ThemeDefinition {
+  id: string;
+  name: string;
+  font: string; // Font family for all text
+  palette: ThemePalette;
+  player: SpriteSheet | null;
+  layers: ParallaxLayer[]; // Back to front
+}
+
+// A theme with its images loaded
+export interface Theme {
+  definition: ThemeDefinition;
+  images: Map<string, PaintImage>; // By URL; images that failed to load are missing
+}
+
+// The original look, used until a theme loads or if it can't
+export const DEFAULT_THEME: Theme = {
+  definition: {
+    id: 'default',
+    name: 'Default',
+    font: 'Arial',
+    palette: {
+      sky: '#87CEEB', // Sky blue
+      ground: '#8B4513', // Brown
+      player: '#FF0000', // Red
+      shield: 'rgba(0, 191, 255, 0.8)', // Deep sky blue
+      spike: '#FF5733', // Orange-red
+      movingSpike: '#C70039', // Darker red
+      bridge: '#964B00', // Brown
+      variableGround: '#556B2F', // Dark olive green
+      stalactite: '#708090', // Slate grey
+      flyingBird: '#4B0082', // Indigo
+      gapWall: '#2F4F4F', // Dark slate grey
+      windZone: '#F0F8FF', // Alice blue
+      platform: '#A0522D', // Sienna
+      text: '#000000',
+      overlay: 'rgba(0, 0, 0, 0.7)',
+      overlayText: '#FFFFFF',
+      abilityActive: '#00BFFF', // Deep sky blue
+      abilityCooldown: '#A9A9A9', // Grey
+      abilityReady: '#32CD32', // Lime green
+    },
+    player: null,
+    layers: [],
+  },
+  images: new Map(),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isAnimation = (value: unknown): value is SpriteAnimation =>
+  isRecord(value) &&
+  Array.isArray(value.frames) &&
+  value.frames.length > 0 &&
+  value.frames.every(frame => Number.isInteger(frame) && frame >= 0) &&
+  isPositive(value.fps) &&
+  typeof value.loop === 'boolean';
+
+const isSpriteSheet = (value: unknown): value is SpriteSheet =>
+  isRecord(value) &&
+  typeof value.image === 'string' &&
+  isPositive(value.frameWidth) &&
+  isPositive(value.frameHeight) &&
+  isRecord(value.animations) &&
+  PLAYER_ANIMATIONS.every(name => isAnimation((value.animations as Record<string, unknown>)[name]));
+
+const isLayer = (value: unknown): value is ParallaxLayer =>
+  isRecord(value) &&
+  typeof value.image === 'string' &&
+  isPositive(value.width) &&
+  isPositive(value.height) &&
+  typeof value.speed === 'number' &&
+  (value.anchor === 'top' || value.anchor === 'ground') &&
+  typeof value.offset === 'number';
+
+/**
+ * Check an untrusted theme file
+ * @param json Parsed theme JSON
+ * @returns The theme definition
+ * @throws Error naming the first invalid part
+ */
+export const parseTheme = (json: unknown): ThemeDefinition => {
+  if (!isRecord(json) || typeof json.id !== 'string' || typeof json.name !== 'string') {
+    throw new Error('Theme needs an id and a name');
+  }
+
+  const palette = json.palette;
+  if (typeof json.font !== 'string' || !isRecord(palette)) {
+    throw new Error(`Theme "${json.id}" needs a font and a palette`);
+  }
+
+  const missing = PALETTE_KEYS.filter(key => typeof palette[key] !== 'string');
+  if (missing.length > 0) {
+    throw new Error(`Theme "${json.id}" is missing colors: ${missing.join(', ')}`);
+  }
+
+  const player = json.player ?? null;
+  if (player !== null && !isSpriteSheet(player)) {
+    throw new Error(`Theme "${json.id}" has an invalid player sprite sheet`);
+  }
+
+  const layers = json.layers ?? [];
+  if (!Array.isArray(layers) || !layers.every(isLayer)) {
+    throw new Error(`Theme "${json.id}" has an invalid parallax layer`);
+  }
+
+  return {
+    id: json.id,
+    name: json.name,
+    font: json.font,
+    palette: palette as unknown as ThemePalette,
+    player,
+    layers,
+  };
+};
+
+/**
+ * Parse a stored theme choice
+ * @param value Stored value
+ * @returns The theme id, or day for anything unknown
+ */
+export const parseThemeId = (value: unknown): ThemeId =>
+  THEME_IDS.includes(value as ThemeId) ? (value as ThemeId) : 'day';
@@ -0,0 +1,77 @@
+/**
+ * JsonFile - A JSON document on disk with serialized, crash-safe updates
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export class JsonFile<T> {
+  readonly filePath: string;
+  private readonly createEmpty: () => T;
+  // Serializes read-modify-write cycles so concurrent requests don't lose updates
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param filePath Location of the document
+   * @param createEmpty Contents to use while the file doesn't exist yet
+   */
+  constructor(filePath: string, createEmpty: () => T) {
+    this.filePath = filePath;
+    this.createEmpty = createEmpty;
+  }
+
+  private async load(): Promise<T> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(contents) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.createEmpty();
+      }
+      throw error;
+    }
+  }
+
+  private async save(data: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a truncated document
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data));
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Read the current contents
+   */
+  read(): Promise<T> {
+    return this.enqueue(() => this.load());
+  }
+
+  /**
+   * Read, modify and write back the contents as one step
+   * @param modify Mutates the contents in place and returns a result for the caller
+   * @returns Whatever modify returned
+   */
+  update<R>(modify: (data: T) => R): Promise<R> {
+    return this.enqueue(async () => {
+      const data = await this.load();
+      const result = modify(data);
+      await this.save(data);
+      return result;
+    });
+  }
+
+  /**
+   * Replace the contents
+   */
+  write(data: T): Promise<void> {
+    return this.enqueue(() => this.save(data));
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for adminAuth.ts
+ */
+
+import { checkAdminToken } from './adminAuth';
+
+const token = 's3cret-admin-token';
+
+describe('checkAdminToken', () => {
+  it('should accept the configured bearer token', () => {
+    expect(checkAdminToken(`Bearer ${token}`, token)).toEqual({ ok: true });
+    expect(checkAdminToken(`bearer ${token}`, token)).toEqual({ ok: true });
+  });
+
+  it('should return 401 without credentials', () => {
+    for (const header of [null, '', token, 'Basic abc', 'Bearer ']) {
+      expect(checkAdminToken(header, token)).toMatchObject({ ok: false, status: 401, code: 'UNAUTHORIZED' });
+    }
+  });
+
+  it('should return 403 for a wrong token', () => {
+    expect(checkAdminToken('Bearer wrong', token)).toMatchObject({ ok: false, status: 403, code: 'FORBIDDEN' });
+    expect(checkAdminToken(`Bearer ${token}x`, token)).toMatchObject({ ok: false, status: 403 });
+  });
+
+  it('should reject every request when no token is configured', () => {
+    expect(checkAdminToken(`Bearer ${token}`, undefined)).toMatchObject({ ok: false, status: 403, code: 'ADMIN_DISABLED' });
+    expect(checkAdminToken('Bearer ', '')).toMatchObject({ ok: false, code: 'ADMIN_DISABLED' });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Token authentication for the admin API
+ *
+ * Admin requests send `Authorization: Bearer <token>` matching the ADMIN_TOKEN
+ * environment variable. Without ADMIN_TOKEN the admin API is disabled.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditAction, getModerationRepository } from './moderation';
+import { getClientIp } from './rateLimit';
+
+export type AdminAuthResult =
+  | { ok: true }
+  | { ok: false; status: 401 | 403; code: 'UNAUTHORIZED' | 'FORBIDDEN' | 'ADMIN_DISABLED'; message: string };
+
+// Hash first so tokens of different lengths compare in constant time too
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+/**
+ * Check an Authorization header against the configured admin token
+ * @param authorization Authorization header from the request
+ * @param adminToken Configured token (ADMIN_TOKEN)
+ * @returns Success, or the status and error to respond with
+ */
+export const checkAdminToken = (authorization: string | null, adminToken: string | undefined): AdminAuthResult => {
+  if (!adminToken) {
+    return { ok: false, status: 403, code: 'ADMIN_DISABLED', message: 'The admin API is not enabled on this server' };
+  }
+
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return { ok: false, status: 401, code: 'UNAUTHORIZED', message: 'An admin token is required' };
+  }
+
+  if (!timingSafeEqual(digest(match[1]), digest(adminToken))) {
+    return { ok: false, status: 403, code: 'FORBIDDEN', message: 'Invalid admin token' };
+  }
+
+  return { ok: true };
+};
+
+/**
+ * Authenticate an admin request
+ * @param req Incoming request
+ * @returns An error response to return as-is, or null if the request may proceed
+ */
+export const requireAdmin = (req: NextRequest): NextResponse | null => {
+  const result = checkAdminToken(req.headers.get('authorization'), process.env.ADMIN_TOKEN);
+  if (result.ok) {
+    return null;
+  }
+
+  return NextResponse.json(
+    { error: result.message, code: result.code },
+    {
+      status: result.status,
+      headers: result.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : undefined,
+    }
+  );
+};
+
+/**
+ * Add an admin action to the audit log
+ * @param req Request that performed the action
+ * @param action What was done
+ * @param target Score id or player name it applied to
+ * @param details Extra context, e.g. the removed score
+ */
+export const recordAdminAction = (
+  req: NextRequest,
+  action: AuditAction,
+  target?: string,
+  details?: Record<string, unknown>
+) => {
+  return getModerationRepository().record({
+    id: crypto.randomUUID(),
+    action,
+    target,
+    details,
+    ip: getClientIp(req),
+    date: new Date().toISOString(),
+  });
+};
@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for leaderboard.ts
+ */
+
+import {
+  ScoreEntry,
+  compareScores,
+  decodeCursor,
+  encodeCursor,
+  getWindowStart,
+  paginateScores,
+  parseScoreQuery,
+  rankScore,
+} from './leaderboard';
+
+// Wednesday
+const now = new Date('2024-05-15T12:00:00.000Z');
+
+const entry = (id: string, score: number, date = '2024-05-15T08:00:00.000Z', seed?: number): ScoreEntry => ({
+  id,
+  playerName: `player-${id}`,
+  score,
+  date,
+  seed,
+});
+
+const board = [
+  entry('today-high', 90),
+  entry('monday', 80, '2024-05-13T01:00:00.000Z'),
+  entry('today-seeded', 70, '2024-05-15T09:00:00.000Z', 7),
+  entry('last-week', 60, '2024-05-10T00:00:00.000Z', 7),
+  entry('today-low', 10),
+].sort(compareScores);
+
+const ids = (scores: ScoreEntry[]) => scores.map(score => score.id);
+
+describe('leaderboard', () => {
+  it('should order by score and then by submission time', () => {
+    const sorted = [
+      entry('late', 10, '2024-05-15T10:00:00.000Z'),
+      entry('high', 20),
+      entry('early', 10, '2024-05-15T09:00:00.000Z'),
+    ].sort(compareScores);
+
+    expect(ids(sorted)).toEqual(['high', 'early', 'late']);
+  });
+
+  it('should start daily windows at UTC midnight and weekly windows on Monday', () => {
+    expect(getWindowStart('daily', now)?.toISOString()).toBe('2024-05-15T00:00:00.000Z');
+    expect(getWindowStart('weekly', now)?.toISOString()).toBe('2024-05-13T00:00:00.000Z');
+    expect(getWindowStart('weekly', new Date('2024-05-19T23:00:00.000Z'))?.toISOString())
+      .toBe('2024-05-13T00:00:00.000Z');
+    expect(getWindowStart('all-time', now)).toBeNull();
+  });
+
+  it('should filter pages by window and seed', () => {
+    const page = (window: 'daily' | 'weekly' | 'all-time', seed?: number) =>
+      ids(paginateScores(board, { window, seed, limit: 10 }, now).scores);
+
+    expect(page('all-time')).toEqual(['today-high', 'monday', 'today-seeded', 'last-week', 'today-low']);
+    expect(page('weekly')).toEqual(['today-high', 'monday', 'today-seeded', 'today-low']);
+    expect(page('daily')).toEqual(['today-high', 'today-seeded', 'today-low']);
+    expect(page('all-time', 7)).toEqual(['today-seeded', 'last-week']);
+    expect(page('daily', 7)).toEqual(['today-seeded']);
+  });
+
+  it('should walk every page with cursors', () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = paginateScores(board, { window: 'weekly', limit: 2, cursor }, now);
+      seen.push(...ids(page.scores));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(['today-high', 'monday', 'today-seeded', 'today-low']);
+  });
+
+  it('should not return a cursor when the page ends the board', () => {
+    expect(paginateScores(board, { window: 'daily', limit: 3 }, now).nextCursor).toBeNull();
+  });
+
+  it('should round-trip cursors and reject malformed ones', () => {
+    expect(decodeCursor(encodeCursor(board[0]))).toEqual({
+      score: 90,
+      date: board[0].date,
+      id: 'today-high',
+    });
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('{"a":1}').toString('base64url'))).toBeNull();
+  });
+
+  it('should rank a score below equal existing scores', () => {
+    expect(rankScore(board, 100, { window: 'all-time' }, now)).toEqual({ rank: 1, total: 5 });
+    expect(rankScore(board, 80, { window: 'all-time' }, now)).toEqual({ rank: 3, total: 5 });
+    expect(rankScore(board, 80, { window: 'daily' }, now)).toEqual({ rank: 2, total: 3 });
+    expect(rankScore(board, 0, { window: 'all-time', seed: 7 }, now)).toEqual({ rank: 3, total: 2 });
+  });
+
+  it('should parse query strings with defaults', () => {
+    expect(parseScoreQuery(new URLSearchParams())).toEqual({
+      ok: true,
+      value: { window: 'all-time', seed: undefined, limit: 10, cursor: undefined },
+    });
+    expect(parseScoreQuery(new URLSearchParams('window=daily&seed=42&limit=5'))).toEqual({
+      ok: true,
+      value: { window: 'daily', seed: 42, limit: 5, cursor: undefined },
+    });
+  });
+
+  it('should reject invalid query strings', () => {
+    for (const query of ['window=monthly', 'seed=-1', 'seed=abc', 'limit=0', 'limit=1000', 'cursor=zzz']) {
+      expect(parseScoreQuery(new URLSearchParams(query)).ok).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Leaderboard queries - ordering, time windows, per-seed boards, cursors and ranks
+ *
+ * Repositories keep their entries sorted with compareScores, so a page is a
+ * forward scan from the cursor position instead of a sort per request.
+ */
+
+export interface ScoreEntry {
+  id: string;
+  playerName: string; // Display name at the time of submission
+  playerId?: string; // Submitting player, absent on scores from before player identities
+  score: number;
+  date: string; // ISO timestamp
+  seed?: number; // Course seed of the verified run
+}
+
+export type LeaderboardWindow = 'daily' | 'weekly' | 'all-time';
+
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['daily', 'weekly', 'all-time'];
+
+// Which scores a leaderboard includes
+export interface LeaderboardFilter {
+  window: LeaderboardWindow;
+  seed?: number; // Only scores from runs on this course
+}
+
+export interface ScoreQuery extends LeaderboardFilter {
+  limit: number;
+  cursor?: string; // Opaque position returned as nextCursor by the previous page
+}
+
+export interface ScorePage {
+  scores: ScoreEntry[];
+  nextCursor: string | null;
+}
+
+export interface ScoreRank {
+  rank: number; // 1-based place the score would take
+  total: number; // Scores on the board
+}
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Leaderboard order: highest score first, earlier submissions win ties
+ */
+export const compareScores = (a: ScoreEntry, b: ScoreEntry): number =>
+  b.score - a.score || a.date.localeCompare(b.date) || a.id.localeCompare(b.id);
+
+/**
+ * Find where an entry belongs in a list sorted with compareScores
+ * @param sorted Entries in leaderboard order
+ * @param entry Entry to place
+ * @returns Index of the first entry ranked after it
+ */
+export const findInsertIndex = (sorted: ScoreEntry[], entry: ScoreEntry): number => {
+  let low = 0;
+  let high = sorted.length;
+
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (compareScores(sorted[mid], entry) <= 0) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+};
+
+/**
+ * Start of a leaderboard window, in UTC like the daily challenge seed
+ * @param window Time window
+ * @param now Current time
+ * @returns Earliest included submission time, or null for all-time
+ */
+export const getWindowStart = (window: LeaderboardWindow, now: Date = new Date()): Date | null => {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  switch (window) {
+    case 'daily':
+      return start;
+    case 'weekly':
+      // Weeks start on Monday
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+      return start;
+    default:
+      return null;
+  }
+};
+
+const createMatcher = (filter: LeaderboardFilter, now: Date) => {
+  const windowStart = getWindowStart(filter.window, now)?.toISOString();
+
+  return (entry: ScoreEntry): boolean =>
+    (windowStart === undefined || entry.date >= windowStart) &&
+    (filter.seed === undefined || entry.seed === filter.seed);
+};
+
+type CursorPosition = Pick<ScoreEntry, 'score' | 'date' | 'id'>;
+
+export const encodeCursor = (entry: ScoreEntry): string =>
+  Buffer.from(JSON.stringify([entry.score, entry.date, entry.id])).toString('base64url');
+
+/**
+ * Decode a cursor returned by a previous page
+ * @param cursor Untrusted cursor from the query string
+ * @returns The position to continue after, or null if the cursor is malformed
+ */
+export const decodeCursor = (cursor: string): CursorPosition | null => {
+  try {
+    const [score, date, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof score !== 'number' || typeof date !== 'string' || typeof id !== 'string') {
+      return null;
+    }
+    return { score, date, id };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read one page of a leaderboard
+ * @param sorted All entries in leaderboard order
+ * @param query Filter, page size and cursor (must already be validated)
+ * @param now Current time, for time windows
+ * @returns The page and the cursor for the next one
+ */
+export const paginateScores = (sorted: ScoreEntry[], query: ScoreQuery, now: Date = new Date()): ScorePage => {
+  const matches = createMatcher(query, now);
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const scores: ScoreEntry[] = [];
+
+  let index = after ? findInsertIndex(sorted, { ...after, playerName: '' }) : 0;
+  for (; index < sorted.length; index++) {
+    if (!matches(sorted[index])) {
+      continue;
+    }
+    if (scores.length === query.limit) {
+      // There is at least one more entry after this page
+      return { scores, nextCursor: encodeCursor(scores[scores.length - 1]) };
+    }
+    scores.push(sorted[index]);
+  }
+
+  return { scores, nextCursor: null };
+};
+
+/**
+ * Find where a score would place on a leaderboard
+ * @param sorted All entries in leaderboard order
+ * @param score Score to place; it ranks below existing equal scores
+ * @param filter Leaderboard to place it on
+ * @param now Current time, for time windows
+ */
+export const rankScore = (
+  sorted: ScoreEntry[],
+  score: number,
+  filter: LeaderboardFilter,
+  now: Date = new Date()
+): ScoreRank => {
+  const matches = createMatcher(filter, now);
+  let ahead = 0;
+  let total = 0;
+
+  for (const entry of sorted) {
+    if (matches(entry)) {
+      total += 1;
+      if (entry.score >= score) {
+        ahead += 1;
+      }
+    }
+  }
+
+  return { rank: ahead + 1, total };
+};
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; message: string };
+
+/**
+ * Read the leaderboard filter from a query string
+ * @param params Search params with optional `window` and `seed`
+ */
+export const parseLeaderboardFilter = (params: URLSearchParams): ParseResult<LeaderboardFilter> => {
+  const window = params.get('window') || 'all-time';
+  if (!LEADERBOARD_WINDOWS.includes(window as LeaderboardWindow)) {
+    return { ok: false, message: `window must be one of: ${LEADERBOARD_WINDOWS.join(', ')}` };
+  }
+
+  const seedParam = params.get('seed');
+  const seed = seedParam === null ? undefined : Number(seedParam);
+  if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF)) {
+    return { ok: false, message: 'seed must be a 32-bit unsigned integer' };
+  }
+
+  return { ok: true, value: { window: window as LeaderboardWindow, seed } };
+};
+
+/**
+ * Read a page query from a query string
+ * @param params Search params with optional `limit`, `cursor`, `window` and `seed`
+ */
+export const parseScoreQuery = (params: URLSearchParams): ParseResult<ScoreQuery> => {
+  const filter = parseLeaderboardFilter(params);
+  if (!filter.ok) {
+    return filter;
+  }
+
+  const limit = Number(params.get('limit') || DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { ok: false, message: `limit must be an integer from 1 to ${MAX_PAGE_SIZE}` };
+  }
+
+  const cursor = params.get('cursor') || undefined;
+  if (cursor !== undefined && !decodeCursor(cursor)) {
+    return { ok: false, message: 'cursor is invalid' };
+  }
+
+  return { ok: true, value: { ...filter.value, limit, cursor } };
+};
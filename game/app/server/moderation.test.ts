@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for moderation.ts
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AuditEntry,
+  ModerationRepository,
+  InMemoryModerationRepository,
+  FileModerationRepository,
+  isSamePlayer,
+} from './moderation';
+
+const auditEntry = (id: string): AuditEntry => ({
+  id,
+  action: 'score.delete',
+  target: `score-${id}`,
+  date: '2024-01-01T00:00:00.000Z',
+});
+
+let tempDir: string;
+
+beforeAll(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'moderation-'));
+});
+
+afterAll(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+const implementations: [string, () => ModerationRepository][] = [
+  ['InMemoryModerationRepository', () => new InMemoryModerationRepository()],
+  ['FileModerationRepository', () => new FileModerationRepository(path.join(tempDir, `${Math.random()}.json`))],
+];
+
+describe.each(implementations)('%s', (_name, createRepository) => {
+  let repository: ModerationRepository;
+
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
+  it('should ban names regardless of case and surrounding spaces', async () => {
+    await repository.addBan({ playerName: 'Cheater', date: '2024-01-01T00:00:00.000Z' });
+
+    expect(await repository.isBanned('cheater')).toBe(true);
+    expect(await repository.isBanned('  CHEATER ')).toBe(true);
+    expect(await repository.isBanned('cheater2')).toBe(false);
+  });
+
+  it('should replace an existing ban for the same name', async () => {
+    await repository.addBan({ playerName: 'cheater', reason: 'first', date: '2024-01-01T00:00:00.000Z' });
+    await repository.addBan({ playerName: 'Cheater', reason: 'second', date: '2024-01-02T00:00:00.000Z' });
+
+    const bans = await repository.listBans();
+    expect(bans).toHaveLength(1);
+    expect(bans[0].reason).toBe('second');
+  });
+
+  it('should lift bans', async () => {
+    await repository.addBan({ playerName: 'cheater', date: '2024-01-01T00:00:00.000Z' });
+
+    expect(await repository.removeBan('CHEATER')).toBe(true);
+    expect(await repository.removeBan('cheater')).toBe(false);
+    expect(await repository.isBanned('cheater')).toBe(false);
+  });
+
+  it('should list audit entries newest first', async () => {
+    for (const id of ['1', '2', '3']) {
+      await repository.record(auditEntry(id));
+    }
+
+    expect((await repository.listAudit(2)).map(entry => entry.id)).toEqual(['3', '2']);
+  });
+});
+
+describe('isSamePlayer', () => {
+  it('should compare names trimmed and case-insensitively', () => {
+    expect(isSamePlayer(' Alice', 'alice ')).toBe(true);
+    expect(isSamePlayer('Alice', 'Alicia')).toBe(false);
+  });
+});
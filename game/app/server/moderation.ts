@@ -0,0 +1,167 @@
+/**
+ * Moderation storage - banned player names and the admin audit log
+ *
+ * Uses the same backend as scores (SCORE_STORE); the file backend persists to
+ * MODERATION_STORE_PATH (default `.data/moderation.json`).
+ */
+
+import path from 'path';
+import { sanitizePlayerName } from '../utils/playerName';
+import { JsonFile } from './JsonFile';
+
+export interface Ban {
+  playerName: string;
+  reason?: string;
+  date: string; // ISO timestamp
+}
+
+export type AuditAction = 'score.delete' | 'scores.clear' | 'player.ban' | 'player.unban';
+
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  target?: string; // Score id or player name the action applied to
+  details?: Record<string, unknown>;
+  ip?: string; // Address the request came from
+  date: string; // ISO timestamp
+}
+
+export interface ModerationRepository {
+  listBans(): Promise<Ban[]>;
+  isBanned(playerName: string): Promise<boolean>;
+  /** Ban a name, replacing any existing ban for it */
+  addBan(ban: Ban): Promise<Ban>;
+  /** Lift a ban, returning whether one existed */
+  removeBan(playerName: string): Promise<boolean>;
+  /** Append to the audit log */
+  record(entry: AuditEntry): Promise<AuditEntry>;
+  /** Latest audit entries, newest first */
+  listAudit(limit: number): Promise<AuditEntry[]>;
+}
+
+/**
+ * Compare player names the way bans do: sanitized and case-insensitive
+ */
+export const normalizePlayerName = (playerName: string): string =>
+  sanitizePlayerName(playerName).toLowerCase();
+
+export const isSamePlayer = (a: string, b: string): boolean =>
+  normalizePlayerName(a) === normalizePlayerName(b);
+
+interface ModerationData {
+  bans: Ban[];
+  audit: AuditEntry[]; // Oldest first
+}
+
+const createEmptyData = (): ModerationData => ({ bans: [], audit: [] });
+
+// Shared by both backends, applied to whichever copy of the data they hold
+const banPlayer = (data: ModerationData, ban: Ban): Ban => {
+  data.bans = data.bans.filter(existing => !isSamePlayer(existing.playerName, ban.playerName));
+  data.bans.push(ban);
+  return ban;
+};
+
+const unbanPlayer = (data: ModerationData, playerName: string): boolean => {
+  const count = data.bans.length;
+  data.bans = data.bans.filter(existing => !isSamePlayer(existing.playerName, playerName));
+  return data.bans.length < count;
+};
+
+const latestAudit = (data: ModerationData, limit: number): AuditEntry[] =>
+  data.audit.slice(-limit).reverse();
+
+export class InMemoryModerationRepository implements ModerationRepository {
+  private data = createEmptyData();
+
+  async listBans(): Promise<Ban[]> {
+    return [...this.data.bans];
+  }
+
+  async isBanned(playerName: string): Promise<boolean> {
+    return this.data.bans.some(ban => isSamePlayer(ban.playerName, playerName));
+  }
+
+  async addBan(ban: Ban): Promise<Ban> {
+    return banPlayer(this.data, ban);
+  }
+
+  async removeBan(playerName: string): Promise<boolean> {
+    return unbanPlayer(this.data, playerName);
+  }
+
+  async record(entry: AuditEntry): Promise<AuditEntry> {
+    this.data.audit.push(entry);
+    return entry;
+  }
+
+  async listAudit(limit: number): Promise<AuditEntry[]> {
+    return latestAudit(this.data, limit);
+  }
+}
+
+export class FileModerationRepository implements ModerationRepository {
+  private readonly file: JsonFile<ModerationData>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath, createEmptyData);
+  }
+
+  async listBans(): Promise<Ban[]> {
+    return (await this.file.read()).bans;
+  }
+
+  async isBanned(playerName: string): Promise<boolean> {
+    return (await this.file.read()).bans.some(ban => isSamePlayer(ban.playerName, playerName));
+  }
+
+  addBan(ban: Ban): Promise<Ban> {
+    return this.file.update(data => banPlayer(data, ban));
+  }
+
+  removeBan(playerName: string): Promise<boolean> {
+    return this.file.update(data => unbanPlayer(data, playerName));
+  }
+
+  record(entry: AuditEntry): Promise<AuditEntry> {
+    return this.file.update(data => {
+      data.audit.push(entry);
+      return entry;
+    });
+  }
+
+  async listAudit(limit: number): Promise<AuditEntry[]> {
+    return latestAudit(await this.file.read(), limit);
+  }
+}
+
+/**
+ * Create the repository selected by the environment
+ * @param env Environment variables (defaults to process.env)
+ */
+export const createModerationRepository = (
+  env: Record<string, string | undefined> = process.env
+): ModerationRepository => {
+  const store = env.SCORE_STORE || 'memory';
+
+  switch (store) {
+    case 'memory':
+      return new InMemoryModerationRepository();
+    case 'file':
+      return new FileModerationRepository(
+        path.resolve(env.MODERATION_STORE_PATH || path.join('.data', 'moderation.json'))
+      );
+    default:
+      throw new Error(`Unknown SCORE_STORE "${store}". Expected "memory" or "file".`);
+  }
+};
+
+// Shared repository for the API routes
+let repository: ModerationRepository | null = null;
+
+export const getModerationRepository = (): ModerationRepository => {
+  if (!repository) {
+    repository = createModerationRepository();
+  }
+  return repository;
+};
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for playerRepository.ts
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  PlayerRecord,
+  PlayerRepository,
+  InMemoryPlayerRepository,
+  FilePlayerRepository,
+} from './playerRepository';
+
+const player = (id: string, displayName?: string): PlayerRecord => ({
+  id,
+  secretHash: 'ab'.repeat(32),
+  displayName,
+  createdAt: '2024-01-01T00:00:00.000Z',
+});
+
+let tempDir: string;
+
+beforeAll(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'players-'));
+});
+
+afterAll(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+const implementations: [string, () => PlayerRepository][] = [
+  ['InMemoryPlayerRepository', () => new InMemoryPlayerRepository()],
+  ['FilePlayerRepository', () => new FilePlayerRepository(path.join(tempDir, `${Math.random()}.json`))],
+];
+
+describe.each(implementations)('%s', (_name, createRepository) => {
+  let repository: PlayerRepository;
+
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
+  it('should save and load players by id', async () => {
+    await repository.save(player('a', 'Alice'));
+
+    expect(await repository.get('a')).toEqual(player('a', 'Alice'));
+    expect(await repository.get('b')).toBeNull();
+  });
+
+  it('should replace a player saved again', async () => {
+    await repository.save(player('a', 'Alice'));
+    await repository.save(player('a', 'Alicia'));
+
+    expect((await repository.get('a'))?.displayName).toBe('Alicia');
+    expect(await repository.findByName('Alice')).toBeNull();
+  });
+
+  it('should find the holder of a name regardless of case', async () => {
+    await repository.save(player('a', 'Alice'));
+    await repository.save(player('b'));
+
+    expect((await repository.findByName(' ALICE '))?.id).toBe('a');
+  });
+
+  it('should claim a free name and refuse one held by another player', async () => {
+    await repository.save(player('a', 'Alice'));
+
+    expect(await repository.claimName(player('b', 'alice'))).toBeNull();
+    expect(await repository.get('b')).toBeNull();
+    expect(await repository.claimName(player('a', 'Alice'))).toEqual(player('a', 'Alice'));
+    expect(await repository.claimName(player('b', 'Bob'))).toEqual(player('b', 'Bob'));
+  });
+
+  it('should let only one of two simultaneous claims for a name succeed', async () => {
+    const results = await Promise.all([
+      repository.claimName(player('a', 'Alice')),
+      repository.claimName(player('b', 'Alice')),
+    ]);
+
+    expect(results.filter(result => result !== null)).toHaveLength(1);
+    expect(await repository.get('b')).toBeNull();
+  });
+});
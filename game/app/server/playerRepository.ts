@@ -0,0 +1,126 @@
+/**
+ * Player storage - anonymous device-bound identities with optional display names
+ *
+ * Uses the same backend as scores (SCORE_STORE); the file backend persists to
+ * PLAYER_STORE_PATH (default `.data/players.json`).
+ */
+
+import path from 'path';
+import { JsonFile } from './JsonFile';
+import { normalizePlayerName } from './moderation';
+
+export interface PlayerRecord {
+  id: string; // Generated on the device
+  secretHash: string; // SHA-256 of the device secret, hex
+  displayName?: string; // Last name the player claimed
+  createdAt: string; // ISO timestamp
+}
+
+export interface PlayerRepository {
+  get(id: string): Promise<PlayerRecord | null>;
+  /** The player currently holding a display name, compared like bans */
+  findByName(displayName: string): Promise<PlayerRecord | null>;
+  /** Create or replace a player */
+  save(player: PlayerRecord): Promise<PlayerRecord>;
+  /**
+   * Create or replace a player unless another player holds its display name,
+   * checking and saving as one step
+   * @returns The saved player, or null when the name is taken
+   */
+  claimName(player: PlayerRecord): Promise<PlayerRecord | null>;
+}
+
+const findByName = (players: PlayerRecord[], displayName: string): PlayerRecord | null => {
+  const key = normalizePlayerName(displayName);
+  return players.find(player => player.displayName && normalizePlayerName(player.displayName) === key) ?? null;
+};
+
+const savePlayer = (players: PlayerRecord[], player: PlayerRecord): PlayerRecord => {
+  const index = players.findIndex(existing => existing.id === player.id);
+  if (index === -1) {
+    players.push(player);
+  } else {
+    players[index] = player;
+  }
+  return player;
+};
+
+const claimName = (players: PlayerRecord[], player: PlayerRecord): PlayerRecord | null => {
+  const holder = player.displayName ? findByName(players, player.displayName) : null;
+  return holder && holder.id !== player.id ? null : savePlayer(players, player);
+};
+
+export class InMemoryPlayerRepository implements PlayerRepository {
+  private players: PlayerRecord[] = [];
+
+  async get(id: string): Promise<PlayerRecord | null> {
+    return this.players.find(player => player.id === id) ?? null;
+  }
+
+  async findByName(displayName: string): Promise<PlayerRecord | null> {
+    return findByName(this.players, displayName);
+  }
+
+  async save(player: PlayerRecord): Promise<PlayerRecord> {
+    return savePlayer(this.players, player);
+  }
+
+  async claimName(player: PlayerRecord): Promise<PlayerRecord | null> {
+    return claimName(this.players, player);
+  }
+}
+
+export class FilePlayerRepository implements PlayerRepository {
+  private readonly file: JsonFile<PlayerRecord[]>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<PlayerRecord[]>(filePath, () => []);
+  }
+
+  async get(id: string): Promise<PlayerRecord | null> {
+    return (await this.file.read()).find(player => player.id === id) ?? null;
+  }
+
+  async findByName(displayName: string): Promise<PlayerRecord | null> {
+    return findByName(await this.file.read(), displayName);
+  }
+
+  save(player: PlayerRecord): Promise<PlayerRecord> {
+    return this.file.update(players => savePlayer(players, player));
+  }
+
+  claimName(player: PlayerRecord): Promise<PlayerRecord | null> {
+    return this.file.update(players => claimName(players, player));
+  }
+}
+
+/**
+ * Create the repository selected by the environment
+ * @param env Environment variables (defaults to process.env)
+ */
+export const createPlayerRepository = (
+  env: Record<string, string | undefined> = process.env
+): PlayerRepository => {
+  const store = env.SCORE_STORE || 'memory';
+
+  switch (store) {
+    case 'memory':
+      return new InMemoryPlayerRepository();
+    case 'file':
+      return new FilePlayerRepository(
+        path.resolve(env.PLAYER_STORE_PATH || path.join('.data', 'players.json'))
+      );
+    default:
+      throw new Error(`Unknown SCORE_STORE "${store}". Expected "memory" or "file".`);
+  }
+};
+
+// Shared repository for the API routes
+let repository: PlayerRepository | null = null;
+
+export const getPlayerRepository = (): PlayerRepository => {
+  if (!repository) {
+    repository = createPlayerRepository();
+  }
+  return repository;
+};
@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for players.ts
+ */
+
+import { authenticatePlayer, getPlayerProfile, hashSecret, PROFILE_HISTORY_LENGTH } from './players';
+import { InMemoryPlayerRepository } from './playerRepository';
+import { InMemoryScoreRepository } from './scoreRepository';
+
+const alice = { id: '11111111-1111-4111-8111-111111111111', secret: 'alice-secret-0123456789' };
+const bob = { id: '22222222-2222-4222-8222-222222222222', secret: 'bob-secret-0123456789' };
+const now = new Date('2024-05-15T12:00:00.000Z');
+
+describe('authenticatePlayer', () => {
+  let players: InMemoryPlayerRepository;
+
+  beforeEach(() => {
+    players = new InMemoryPlayerRepository();
+  });
+
+  it('should register a new player with a hashed secret', async () => {
+    const result = await authenticatePlayer(players, alice, 'Alice', now);
+
+    expect(result).toEqual({
+      ok: true,
+      player: { id: alice.id, secretHash: hashSecret(alice.secret), displayName: 'Alice', createdAt: now.toISOString() },
+    });
+    expect(JSON.stringify(await players.get(alice.id))).not.toContain(alice.secret);
+  });
+
+  it('should require the same secret on later submissions', async () => {
+    await authenticatePlayer(players, alice, 'Alice', now);
+
+    expect(await authenticatePlayer(players, { ...alice, secret: 'guessed-secret-012345' }, 'Alice'))
+      .toMatchObject({ ok: false, status: 403, code: 'PLAYER_AUTH_FAILED' });
+    expect((await authenticatePlayer(players, alice, 'Alice')).ok).toBe(true);
+  });
+
+  it('should not let another player use a claimed name', async () => {
+    await authenticatePlayer(players, alice, 'Alice', now);
+
+    expect(await authenticatePlayer(players, bob, 'alice ', now))
+      .toMatchObject({ ok: false, status: 409, code: 'NAME_TAKEN' });
+    expect(await players.get(bob.id)).toBeNull();
+  });
+
+  it('should give a name to only one of two players claiming it at once', async () => {
+    const results = await Promise.all([
+      authenticatePlayer(players, alice, 'Alice', now),
+      authenticatePlayer(players, bob, 'Alice', now),
+    ]);
+
+    expect(results[0].ok).toBe(true);
+    expect(results[1]).toMatchObject({ ok: false, status: 409, code: 'NAME_TAKEN' });
+    expect(await players.get(bob.id)).toBeNull();
+  });
+
+  it('should release a name when its holder renames', async () => {
+    await authenticatePlayer(players, alice, 'Alice', now);
+    await authenticatePlayer(players, alice, 'Queen Alice', now);
+
+    expect((await authenticatePlayer(players, bob, 'Alice', now)).ok).toBe(true);
+    expect((await players.get(alice.id))?.createdAt).toBe(now.toISOString());
+  });
+});
+
+describe('getPlayerProfile', () => {
+  it('should summarize the player\'s scores without exposing the secret', async () => {
+    const players = new InMemoryPlayerRepository();
+    const scores = new InMemoryScoreRepository();
+    await authenticatePlayer(players, alice, 'Alice', now);
+
+    for (let i = 0; i < 12; i++) {
+      await scores.add({
+        id: `score-${i}`,
+        playerName: 'Alice',
+        playerId: alice.id,
+        score: (i * 7) % 12,
+        date: new Date(now.getTime() + i * 1000).toISOString(),
+      });
+    }
+    await scores.add({ id: 'other', playerName: 'Bob', playerId: bob.id, score: 99, date: now.toISOString() });
+
+    const profile = await getPlayerProfile(alice.id, players, scores);
+
+    expect(profile).toMatchObject({ id: alice.id, displayName: 'Alice', bestScore: 11, runCount: 12 });
+    expect(profile?.recentScores).toHaveLength(PROFILE_HISTORY_LENGTH);
+    expect(profile?.recentScores[0].id).toBe('score-11');
+    expect(profile).not.toHaveProperty('secretHash');
+  });
+
+  it('should return null for unknown or malformed ids', async () => {
+    const players = new InMemoryPlayerRepository();
+    const scores = new InMemoryScoreRepository();
+
+    expect(await getPlayerProfile(bob.id, players, scores)).toBeNull();
+    expect(await getPlayerProfile('../etc/passwd', players, scores)).toBeNull();
+  });
+});
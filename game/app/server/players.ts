@@ -0,0 +1,107 @@
+/**
+ * Player identity - authenticating submissions and building public profiles
+ *
+ * A player is an id and secret generated on the device. The first submission
+ * registers them; later ones must present the same secret. Display names are
+ * claimed on submission and can't be used by another player while held.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { ScoreEntry } from './leaderboard';
+import { PlayerRecord, PlayerRepository, getPlayerRepository } from './playerRepository';
+import { ScoreRepository, getScoreRepository } from './scoreRepository';
+
+export const PLAYER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Scores listed under "recent" on a profile
+export const PROFILE_HISTORY_LENGTH = 10;
+
+export interface PlayerCredentials {
+  id: string;
+  secret: string;
+}
+
+export type PlayerAuthResult =
+  | { ok: true; player: PlayerRecord }
+  | { ok: false; status: 403 | 409; code: 'PLAYER_AUTH_FAILED' | 'NAME_TAKEN'; message: string };
+
+// Public view of a player, safe to return from the API
+export interface PlayerProfile {
+  id: string;
+  displayName: string | null;
+  createdAt: string;
+  bestScore: number | null;
+  runCount: number;
+  recentScores: ScoreEntry[]; // Newest first
+}
+
+export const hashSecret = (secret: string): string => createHash('sha256').update(secret).digest('hex');
+
+const secretMatches = (secret: string, secretHash: string): boolean =>
+  timingSafeEqual(Buffer.from(hashSecret(secret), 'hex'), Buffer.from(secretHash, 'hex'));
+
+/**
+ * Register or authenticate a player and claim a display name for them
+ * @param repository Player storage
+ * @param credentials Id and secret from the device
+ * @param displayName Sanitized name to claim
+ * @param now Current time, for new registrations
+ * @returns The stored player, or why the submission may not use this identity or name
+ */
+export const authenticatePlayer = async (
+  repository: PlayerRepository,
+  credentials: PlayerCredentials,
+  displayName: string,
+  now: Date = new Date()
+): Promise<PlayerAuthResult> => {
+  const existing = await repository.get(credentials.id);
+  if (existing && !secretMatches(credentials.secret, existing.secretHash)) {
+    return { ok: false, status: 403, code: 'PLAYER_AUTH_FAILED', message: 'Player credentials are invalid' };
+  }
+
+  const player: PlayerRecord = existing
+    ? { ...existing, displayName }
+    : { id: credentials.id, secretHash: hashSecret(credentials.secret), displayName, createdAt: now.toISOString() };
+
+  // Checked and saved in one step so two devices can't both claim a free name
+  const claimed = await repository.claimName(player);
+  if (!claimed) {
+    return { ok: false, status: 409, code: 'NAME_TAKEN', message: 'This name is already used by another player' };
+  }
+
+  return { ok: true, player: claimed };
+};
+
+/**
+ * Summarize a player's scores
+ * @param player Stored player
+ * @param scores All of the player's scores, in leaderboard order
+ */
+export const buildPlayerProfile = (player: PlayerRecord, scores: ScoreEntry[]): PlayerProfile => ({
+  id: player.id,
+  displayName: player.displayName ?? null,
+  createdAt: player.createdAt,
+  bestScore: scores.length > 0 ? scores[0].score : null,
+  runCount: scores.length,
+  recentScores: [...scores]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, PROFILE_HISTORY_LENGTH),
+});
+
+/**
+ * Look up a player's public profile
+ * @param id Player id
+ * @returns The profile, or null for unknown players
+ */
+export const getPlayerProfile = async (
+  id: string,
+  players: PlayerRepository = getPlayerRepository(),
+  scores: ScoreRepository = getScoreRepository()
+): Promise<PlayerProfile | null> => {
+  if (!PLAYER_ID_PATTERN.test(id)) {
+    return null;
+  }
+
+  const player = await players.get(id);
+  return player ? buildPlayerProfile(player, await scores.listByPlayer(id)) : null;
+};
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for rateLimit.ts
+ */
+
+import { NextRequest } from 'next/server';
+import { RateLimiter, getClientIp } from './rateLimit';
+
+describe('RateLimiter', () => {
+  it('should allow requests up to the limit and then report when to retry', () => {
+    const limiter = new RateLimiter({ limit: 2, windowMs: 60_000 });
+
+    expect(limiter.consume('a', 0)).toEqual({ allowed: true, remaining: 1 });
+    expect(limiter.consume('a', 10_000)).toEqual({ allowed: true, remaining: 0 });
+    expect(limiter.consume('a', 15_000)).toEqual({ allowed: false, retryAfter: 45 });
+  });
+
+  it('should count keys separately', () => {
+    const limiter = new RateLimiter({ limit: 1, windowMs: 60_000 });
+
+    expect(limiter.consume('a', 0).allowed).toBe(true);
+    expect(limiter.consume('b', 0).allowed).toBe(true);
+    expect(limiter.consume('a', 0).allowed).toBe(false);
+  });
+
+  it('should let requests through again as the window slides', () => {
+    const limiter = new RateLimiter({ limit: 2, windowMs: 60_000 });
+    limiter.consume('a', 0);
+    limiter.consume('a', 30_000);
+
+    expect(limiter.consume('a', 59_000).allowed).toBe(false);
+    expect(limiter.consume('a', 60_001).allowed).toBe(true);
+    expect(limiter.consume('a', 60_002).allowed).toBe(false);
+  });
+
+  it('should not count rejected requests', () => {
+    const limiter = new RateLimiter({ limit: 1, windowMs: 1000 });
+    limiter.consume('a', 0);
+
+    for (let i = 1; i < 10; i++) {
+      limiter.consume('a', i * 100);
+    }
+
+    expect(limiter.consume('a', 1001).allowed).toBe(true);
+  });
+});
+
+describe('getClientIp', () => {
+  const request = (headers: Record<string, string>) => new NextRequest('http://localhost/api/scores', { headers });
+
+  it('should ignore forwarded headers without a trusted proxy', () => {
+    const req = request({ 'x-forwarded-for': '1.2.3.4', 'x-real-ip': '1.2.3.4' });
+
+    expect(getClientIp(req, {})).toBeUndefined();
+    expect(getClientIp(req, { TRUST_PROXY: 'false' })).toBeUndefined();
+  });
+
+  it('should take the address the trusted proxy added', () => {
+    const env = { TRUST_PROXY: 'true' };
+
+    expect(getClientIp(request({ 'x-forwarded-for': '1.2.3.4, 10.0.0.7' }), env)).toBe('10.0.0.7');
+    expect(getClientIp(request({ 'x-real-ip': '10.0.0.8' }), env)).toBe('10.0.0.8');
+    expect(getClientIp(request({}), env)).toBeUndefined();
+  });
+});
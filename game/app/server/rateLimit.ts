@@ -0,0 +1,91 @@
+/**
+ * In-process rate limiting for API routes
+ *
+ * Counts are kept per server process, so with several instances each one
+ * applies the limits separately.
+ */
+
+import { NextRequest } from 'next/server';
+
+export interface RateLimitOptions {
+  limit: number; // Requests allowed per window
+  windowMs: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfter: number }; // Seconds until the key may retry
+
+export class RateLimiter {
+  private readonly options: RateLimitOptions;
+  // Request times per key within the current window, oldest first
+  private hits = new Map<string, number[]>();
+
+  constructor(options: RateLimitOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Count a request for a key (sliding window)
+   * @param key Client identity, e.g. an IP address or player name
+   * @param now Current time in ms
+   */
+  consume(key: string, now: number = Date.now()): RateLimitResult {
+    const { limit, windowMs } = this.options;
+    const recent = (this.hits.get(key) ?? []).filter(time => time > now - windowMs);
+
+    if (recent.length >= limit) {
+      this.hits.set(key, recent);
+      return { allowed: false, retryAfter: Math.ceil((recent[0] + windowMs - now) / 1000) };
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+    this.prune(now);
+    return { allowed: true, remaining: limit - recent.length };
+  }
+
+  reset(): void {
+    this.hits.clear();
+  }
+
+  // Forget keys with no requests in the window so the map doesn't grow forever
+  private prune(now: number): void {
+    if (this.hits.size < 1000) {
+      return;
+    }
+    for (const [key, times] of this.hits) {
+      if (times[times.length - 1] <= now - this.options.windowMs) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
+
+// Key shared by every request whose address isn't known
+export const UNKNOWN_CLIENT = 'unknown';
+
+/**
+ * Client address of a request
+ *
+ * Forwarded headers are only read with TRUST_PROXY=true: without a proxy in
+ * front of the app they come straight from the client and can be anything.
+ * The proxy appends the address it was connected from, so that is the last
+ * x-forwarded-for entry, not the first. Next.js doesn't expose the connection
+ * address to route handlers, so without a trusted proxy the address is unknown.
+ * @param req Incoming request
+ * @param env Environment variables (defaults to process.env)
+ * @returns The address, or undefined when the server can't tell
+ */
+export const getClientIp = (
+  req: NextRequest,
+  env: Record<string, string | undefined> = process.env
+): string | undefined => {
+  if (env.TRUST_PROXY !== 'true') {
+    return undefined;
+  }
+
+  return req.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+    || req.headers.get('x-real-ip')
+    || undefined;
+};
@@ -0,0 +1,112 @@
+/**
+ * Tests for runVerification.ts
+ */
+
+import { GameSimulation, GameState, NO_INPUT } from '../engine/GameSimulation';
+import { FIXED_TIMESTEP } from '../engine/constants';
+import { RunLog, RunRecorder, quantizeInput } from '../engine/replay';
+import { DifficultyPresetId } from '../engine/difficulty';
+import { MAX_RUN_TICKS, verifyRun } from './runVerification';
+
+// Record a genuine run that jumps every 45 steps until the player crashes
+const recordRun = (difficulty: DifficultyPresetId = 'normal'): RunLog => {
+  const config = { width: 800, height: 600, difficulty };
+  const simulation = new GameSimulation({ ...config, seed: 2024 });
+  const recorder = new RunRecorder(simulation.seed, config);
+  simulation.start();
+
+  while (simulation.state === GameState.PLAYING) {
+    const input = (simulation.tick + 1) % 45 === 0
+      ? quantizeInput({ jump: true, jumpPower: 0.6 })
+      : NO_INPUT;
+    recorder.recordStep(input);
+    simulation.step(FIXED_TIMESTEP, input);
+  }
+
+  return recorder.finish(simulation.score);
+};
+
+describe('verifyRun', () => {
+  const run = recordRun();
+
+  it('should accept a genuine run with its replayed score', () => {
+    const result = verifyRun(run, run.score);
+
+    expect(result).toMatchObject({ ok: true, score: run.score, ticks: run.ticks });
+  });
+
+  it('should reject a missing or malformed run', () => {
+    expect(verifyRun(undefined, 10)).toMatchObject({ ok: false, code: 'INVALID_RUN' });
+    expect(verifyRun({ ...run, seed: -1 }, run.score)).toMatchObject({ ok: false, code: 'INVALID_RUN' });
+    expect(verifyRun({ ...run, jumps: 'none' }, run.score)).toMatchObject({ ok: false, code: 'INVALID_RUN' });
+    expect(verifyRun({ ...run, config: { ...run.config, difficulty: 'godlike' } }, run.score))
+      .toMatchObject({ ok: false, code: 'INVALID_RUN' });
+  });
+
+  it('should only accept runs on the ranked difficulty', () => {
+    const easyRun = recordRun('easy');
+
+    expect(verifyRun(easyRun, easyRun.score)).toMatchObject({ ok: false, code: 'UNRANKED_DIFFICULTY' });
+    expect(verifyRun({ ...run, config: { ...run.config, difficulty: 'insane' } }, run.score))
+      .toMatchObject({ ok: false, code: 'UNRANKED_DIFFICULTY' });
+  });
+
+  it('should reject runs from other game versions', () => {
+    expect(verifyRun({ ...run, version: 999 }, run.score)).toMatchObject({ ok: false, code: 'UNSUPPORTED_VERSION' });
+  });
+
+  it('should reject runs that are too long', () => {
+    expect(verifyRun({ ...run, ticks: MAX_RUN_TICKS + 1 }, run.score)).toMatchObject({ ok: false, code: 'RUN_TOO_LONG' });
+  });
+
+  it('should reject impossible input', () => {
+    const outOfOrder = { ...run, jumps: [[50, 500], [10, 500]] };
+    const tooStrong = { ...run, jumps: [[10, 5000]] };
+
+    expect(verifyRun(outOfOrder, run.score)).toMatchObject({ ok: false, code: 'IMPOSSIBLE_RUN' });
+    expect(verifyRun(tooStrong, run.score)).toMatchObject({ ok: false, code: 'IMPOSSIBLE_RUN' });
+  });
+
+  it('should accept pitch-steered runs and reject malformed lift', () => {
+    const config = { width: 800, height: 600 };
+    const simulation = new GameSimulation({ ...config, seed: 7 });
+    const recorder = new RunRecorder(simulation.seed, config);
+    simulation.start();
+    while (simulation.state === GameState.PLAYING) {
+      const input = quantizeInput({ ...NO_INPUT, lift: (simulation.tick % 90) / 45 - 1 });
+      recorder.recordStep(input);
+      simulation.step(FIXED_TIMESTEP, input);
+    }
+    const pitchRun = recorder.finish(simulation.score);
+
+    expect(verifyRun(pitchRun, pitchRun.score)).toMatchObject({ ok: true });
+    expect(verifyRun({ ...pitchRun, lift: 'up' }, pitchRun.score)).toMatchObject({ code: 'INVALID_RUN' });
+    expect(verifyRun({ ...pitchRun, lift: [[5000, pitchRun.ticks]] }, pitchRun.score))
+      .toMatchObject({ code: 'IMPOSSIBLE_RUN' });
+    expect(verifyRun({ ...pitchRun, lift: [[0, pitchRun.ticks - 1]] }, pitchRun.score))
+      .toMatchObject({ code: 'IMPOSSIBLE_RUN' });
+    expect(verifyRun({ ...pitchRun, lift: [[null, pitchRun.ticks + 1]] }, pitchRun.score))
+      .toMatchObject({ code: 'IMPOSSIBLE_RUN' });
+  });
+
+  it('should reject malformed ability activations', () => {
+    expect(verifyRun({ ...run, abilities: 'shield' }, run.score)).toMatchObject({ code: 'INVALID_RUN' });
+    expect(verifyRun({ ...run, abilities: [[10, 'teleport']] }, run.score))
+      .toMatchObject({ code: 'IMPOSSIBLE_RUN' });
+    expect(verifyRun({ ...run, abilities: [[20, 'shield'], [10, 'slowMotion']] }, run.score))
+      .toMatchObject({ code: 'IMPOSSIBLE_RUN' });
+    expect(verifyRun({ ...run, abilities: [[run.ticks + 1, 'shield']] }, run.score))
+      .toMatchObject({ code: 'IMPOSSIBLE_RUN' });
+  });
+
+  it('should reject runs that do not end with the recorded crash', () => {
+    const extended = { ...run, ticks: run.ticks + 100 };
+
+    expect(verifyRun(extended, run.score)).toMatchObject({ ok: false, code: 'IMPOSSIBLE_RUN' });
+  });
+
+  it('should reject an inflated score', () => {
+    expect(verifyRun(run, 999999)).toMatchObject({ ok: false, code: 'SCORE_MISMATCH' });
+    expect(verifyRun({ ...run, score: 999999 }, 999999)).toMatchObject({ ok: false, code: 'SCORE_MISMATCH' });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Server-side verification of submitted runs by headless re-simulation
+ */
+
+import { GameState } from '../engine/GameSimulation';
+import { REPLAY_VERSION, RunLog, simulateRun } from '../engine/replay';
+import { ABILITY_IDS, AbilityId } from '../engine/abilities';
+import { DIFFICULTY_PRESETS, DIFFICULTY_PRESET_IDS, DifficultyPresetId, RANKED_DIFFICULTY } from '../engine/difficulty';
+
+// Longest accepted run: one hour of simulation steps at 60 steps per second
+export const MAX_RUN_TICKS = 60 * 60 * 60;
+
+// Accepted playfield sizes (px)
+const MIN_BOARD_SIZE = 200;
+const MAX_BOARD_SIZE = 2000;
+
+export type RunRejectionCode =
+  | 'INVALID_RUN'
+  | 'UNSUPPORTED_VERSION'
+  | 'UNRANKED_DIFFICULTY'
+  | 'RUN_TOO_LONG'
+  | 'IMPOSSIBLE_RUN'
+  | 'SCORE_MISMATCH';
+
+export type RunVerificationResult =
+  | { ok: true; score: number; ticks: number; run: RunLog }
+  | { ok: false; code: RunRejectionCode; message: string };
+
+const reject = (code: RunRejectionCode, message: string): RunVerificationResult => ({
+  ok: false,
+  code,
+  message,
+});
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate the structure of a submitted run log
+ * @param run Untrusted run from the request body
+ * @returns Rejection result, or null if the run is well-formed
+ */
+const checkRunShape = (run: unknown): RunVerificationResult | null => {
+  if (!isRecord(run)) {
+    return reject('INVALID_RUN', 'A run proof is required');
+  }
+
+  if (run.version !== REPLAY_VERSION) {
+    return reject('UNSUPPORTED_VERSION', `Run was recorded with an unsupported game version (${String(run.version)})`);
+  }
+
+  const config = run.config;
+  if (
+    !isInteger(run.seed, 0, 0xFFFFFFFF) ||
+    !isRecord(config) ||
+    !isInteger(config.width, MIN_BOARD_SIZE, MAX_BOARD_SIZE) ||
+    !isInteger(config.height, MIN_BOARD_SIZE, MAX_BOARD_SIZE) ||
+    !DIFFICULTY_PRESET_IDS.includes(config.difficulty as DifficultyPresetId) ||
+    !Array.isArray(run.jumps) ||
+    !Array.isArray(run.intensity) ||
+    !Array.isArray(run.keys) ||
+    !isInteger(run.ticks, 1, Number.MAX_SAFE_INTEGER)
+  ) {
+    return reject('INVALID_RUN', 'Run proof is malformed');
+  }
+
+  if (run.ticks > MAX_RUN_TICKS) {
+    return reject('RUN_TOO_LONG', 'Run exceeds the maximum length');
+  }
+
+  // Jumps must be [tick, power] pairs in increasing tick order within the run
+  let previousTick = 0;
+  for (const jump of run.jumps) {
+    if (
+      !Array.isArray(jump) ||
+      jump.length !== 2 ||
+      !isInteger(jump[0], previousTick + 1, run.ticks) ||
+      !isInteger(jump[1], 0, 1000)
+    ) {
+      return reject('IMPOSSIBLE_RUN', 'Run contains impossible input');
+    }
+    previousTick = jump[0];
+  }
+
+  // Pitch lift is optional, run-length encoded and must cover every step exactly
+  if (run.lift !== undefined) {
+    if (!Array.isArray(run.lift)) {
+      return reject('INVALID_RUN', 'Run proof is malformed');
+    }
+
+    let coveredTicks = 0;
+    for (const entry of run.lift) {
+      if (
+        !Array.isArray(entry) ||
+        entry.length !== 2 ||
+        !(entry[0] === null || isInteger(entry[0], -1000, 1000)) ||
+        !isInteger(entry[1], 1, run.ticks - coveredTicks)
+      ) {
+        return reject('IMPOSSIBLE_RUN', 'Run contains impossible input');
+      }
+      coveredTicks += entry[1];
+    }
+
+    if (coveredTicks !== run.ticks) {
+      return reject('IMPOSSIBLE_RUN', 'Run contains impossible input');
+    }
+  }
+
+  // Abilities are optional [tick, ability] pairs in increasing tick order; cooldowns are enforced by the replay
+  if (run.abilities !== undefined) {
+    if (!Array.isArray(run.abilities)) {
+      return reject('INVALID_RUN', 'Run proof is malformed');
+    }
+
+    let previousAbilityTick = 0;
+    for (const activation of run.abilities) {
+      if (
+        !Array.isArray(activation) ||
+        activation.length !== 2 ||
+        !isInteger(activation[0], previousAbilityTick + 1, run.ticks) ||
+        !ABILITY_IDS.includes(activation[1] as AbilityId)
+      ) {
+        return reject('IMPOSSIBLE_RUN', 'Run contains impossible input');
+      }
+      previousAbilityTick = activation[0];
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Re-simulate a submitted run and compute its authoritative score
+ * @param run Untrusted run from the request body
+ * @param claimedScore Score the client reported for the run
+ * @returns The verified score, or the reason the run was rejected
+ */
+export const verifyRun = (run: unknown, claimedScore: number): RunVerificationResult => {
+  const shapeError = checkRunShape(run);
+  if (shapeError) {
+    return shapeError;
+  }
+
+  const log = run as RunLog;
+  if (log.config.difficulty !== RANKED_DIFFICULTY) {
+    return reject(
+      'UNRANKED_DIFFICULTY',
+      `Only runs on ${DIFFICULTY_PRESETS[RANKED_DIFFICULTY].name} difficulty can be submitted`
+    );
+  }
+
+  const result = simulateRun(log);
+
+  // A genuine run ends with a collision exactly on its last recorded step
+  if (result.state !== GameState.GAME_OVER || result.ticks !== log.ticks) {
+    return reject('IMPOSSIBLE_RUN', 'Run does not end the way it was recorded');
+  }
+
+  if (result.score !== claimedScore || result.score !== log.score) {
+    return reject('SCORE_MISMATCH', `Submitted score does not match the replayed score of ${result.score}`);
+  }
+
+  return { ok: true, score: result.score, ticks: result.ticks, run: log };
+};
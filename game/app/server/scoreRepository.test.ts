@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for scoreRepository.ts
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ScoreEntry,
+  ScoreRepository,
+  InMemoryScoreRepository,
+  FileScoreRepository,
+  createScoreRepository,
+} from './scoreRepository';
+
+const entry = (id: string, score: number, date = '2024-01-01T00:00:00.000Z'): ScoreEntry => ({
+  id,
+  playerName: `player-${id}`,
+  score,
+  date,
+});
+
+const top = async (repository: ScoreRepository, limit: number) =>
+  (await repository.list({ window: 'all-time', limit })).scores;
+
+let tempDir: string;
+
+beforeAll(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scores-'));
+});
+
+afterAll(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+const implementations: [string, () => ScoreRepository][] = [
+  ['InMemoryScoreRepository', () => new InMemoryScoreRepository()],
+  ['FileScoreRepository', () => new FileScoreRepository(path.join(tempDir, `${Math.random()}.json`))],
+];
+
+describe.each(implementations)('%s', (_name, createRepository) => {
+  let repository: ScoreRepository;
+
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
+  it('should start empty', async () => {
+    expect(await top(repository, 10)).toEqual([]);
+  });
+
+  it('should list scores highest first up to the limit', async () => {
+    await repository.add(entry('a', 10));
+    await repository.add(entry('b', 30));
+    await repository.add(entry('c', 20));
+
+    const scores = await top(repository, 2);
+    expect(scores.map(score => score.id)).toEqual(['b', 'c']);
+  });
+
+  it('should rank earlier submissions first on ties', async () => {
+    await repository.add(entry('late', 10, '2024-01-02T00:00:00.000Z'));
+    await repository.add(entry('early', 10, '2024-01-01T00:00:00.000Z'));
+
+    const scores = await top(repository, 10);
+    expect(scores.map(score => score.id)).toEqual(['early', 'late']);
+  });
+
+  it('should keep every score when adding concurrently', async () => {
+    await Promise.all(Array.from({ length: 20 }, (_, i) => repository.add(entry(`${i}`, i))));
+
+    expect(await top(repository, 100)).toHaveLength(20);
+  });
+
+  it('should list a player\'s scores highest first', async () => {
+    await repository.add({ ...entry('a', 10), playerId: 'p1' });
+    await repository.add({ ...entry('b', 30), playerId: 'p2' });
+    await repository.add({ ...entry('c', 20), playerId: 'p1' });
+
+    expect((await repository.listByPlayer('p1')).map(score => score.id)).toEqual(['c', 'a']);
+  });
+
+  it('should remove a score by id', async () => {
+    await repository.add(entry('a', 10));
+    await repository.add(entry('b', 20));
+
+    expect(await repository.remove('a')).toEqual(entry('a', 10));
+    expect(await repository.remove('a')).toBeNull();
+    expect((await top(repository, 10)).map(score => score.id)).toEqual(['b']);
+  });
+
+  it('should remove every score by a player', async () => {
+    await repository.add({ ...entry('a', 10), playerName: 'Cheater' });
+    await repository.add({ ...entry('b', 20), playerName: 'cheater ' });
+    await repository.add(entry('c', 30));
+
+    expect(await repository.removeByPlayer('CHEATER')).toBe(2);
+    expect((await top(repository, 10)).map(score => score.id)).toEqual(['c']);
+  });
+
+  it('should clear all scores', async () => {
+    await repository.add(entry('a', 10));
+    await repository.clear();
+
+    expect(await top(repository, 10)).toEqual([]);
+  });
+});
+
+describe('FileScoreRepository persistence', () => {
+  it('should load scores saved by a previous instance', async () => {
+    const filePath = path.join(tempDir, 'nested', 'scores.json');
+
+    await new FileScoreRepository(filePath).add(entry('a', 42));
+
+    expect(await top(new FileScoreRepository(filePath), 10)).toEqual([entry('a', 42)]);
+  });
+});
+
+describe('createScoreRepository', () => {
+  it('should select the backend from the environment', () => {
+    expect(createScoreRepository({})).toBeInstanceOf(InMemoryScoreRepository);
+    expect(createScoreRepository({ SCORE_STORE: 'file', SCORE_STORE_PATH: path.join(tempDir, 'env.json') }))
+      .toBeInstanceOf(FileScoreRepository);
+    expect(() => createScoreRepository({ SCORE_STORE: 'redis' })).toThrow('Unknown SCORE_STORE');
+  });
+});
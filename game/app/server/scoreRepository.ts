@@ -0,0 +1,161 @@
+/**
+ * Score storage behind a repository interface
+ *
+ * The backend is chosen by the SCORE_STORE environment variable:
+ * - `memory` (default): scores live in the server process
+ * - `file`: scores are persisted as JSON at SCORE_STORE_PATH (default `.data/scores.json`)
+ */
+
+import path from 'path';
+import { JsonFile } from './JsonFile';
+import {
+  ScoreEntry,
+  ScorePage,
+  ScoreQuery,
+  ScoreRank,
+  LeaderboardFilter,
+  findInsertIndex,
+  paginateScores,
+  rankScore,
+} from './leaderboard';
+import { isSamePlayer } from './moderation';
+
+export type { ScoreEntry } from './leaderboard';
+
+export interface ScoreRepository {
+  /** One page of a leaderboard, highest first */
+  list(query: ScoreQuery): Promise<ScorePage>;
+  /** Where a score would place on a leaderboard */
+  rank(score: number, filter: LeaderboardFilter): Promise<ScoreRank>;
+  /** Every score by a player id, highest first */
+  listByPlayer(playerId: string): Promise<ScoreEntry[]>;
+  add(entry: ScoreEntry): Promise<ScoreEntry>;
+  /** Delete one score, returning it if it existed */
+  remove(id: string): Promise<ScoreEntry | null>;
+  /** Delete every score by a player, returning how many were removed */
+  removeByPlayer(playerName: string): Promise<number>;
+  clear(): Promise<void>;
+}
+
+// Insert into a list kept in leaderboard order
+const insertSorted = (scores: ScoreEntry[], entry: ScoreEntry): void => {
+  scores.splice(findInsertIndex(scores, entry), 0, entry);
+};
+
+// Remove matching entries in place, returning the removed ones
+const removeWhere = (scores: ScoreEntry[], matches: (entry: ScoreEntry) => boolean): ScoreEntry[] => {
+  const removed: ScoreEntry[] = [];
+  for (let i = scores.length - 1; i >= 0; i--) {
+    if (matches(scores[i])) {
+      removed.unshift(...scores.splice(i, 1));
+    }
+  }
+  return removed;
+};
+
+export class InMemoryScoreRepository implements ScoreRepository {
+  // Kept in leaderboard order
+  private scores: ScoreEntry[] = [];
+
+  async list(query: ScoreQuery): Promise<ScorePage> {
+    return paginateScores(this.scores, query);
+  }
+
+  async rank(score: number, filter: LeaderboardFilter): Promise<ScoreRank> {
+    return rankScore(this.scores, score, filter);
+  }
+
+  async listByPlayer(playerId: string): Promise<ScoreEntry[]> {
+    return this.scores.filter(entry => entry.playerId === playerId);
+  }
+
+  async add(entry: ScoreEntry): Promise<ScoreEntry> {
+    insertSorted(this.scores, entry);
+    return entry;
+  }
+
+  async remove(id: string): Promise<ScoreEntry | null> {
+    return removeWhere(this.scores, entry => entry.id === id)[0] ?? null;
+  }
+
+  async removeByPlayer(playerName: string): Promise<number> {
+    return removeWhere(this.scores, entry => isSamePlayer(entry.playerName, playerName)).length;
+  }
+
+  async clear(): Promise<void> {
+    this.scores = [];
+  }
+}
+
+export class FileScoreRepository implements ScoreRepository {
+  // Entries are stored in leaderboard order
+  private readonly file: JsonFile<ScoreEntry[]>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<ScoreEntry[]>(filePath, () => []);
+  }
+
+  async list(query: ScoreQuery): Promise<ScorePage> {
+    return paginateScores(await this.file.read(), query);
+  }
+
+  async rank(score: number, filter: LeaderboardFilter): Promise<ScoreRank> {
+    return rankScore(await this.file.read(), score, filter);
+  }
+
+  async listByPlayer(playerId: string): Promise<ScoreEntry[]> {
+    return (await this.file.read()).filter(entry => entry.playerId === playerId);
+  }
+
+  remove(id: string): Promise<ScoreEntry | null> {
+    return this.file.update(scores => removeWhere(scores, entry => entry.id === id)[0] ?? null);
+  }
+
+  removeByPlayer(playerName: string): Promise<number> {
+    return this.file.update(
+      scores => removeWhere(scores, entry => isSamePlayer(entry.playerName, playerName)).length
+    );
+  }
+
+  add(entry: ScoreEntry): Promise<ScoreEntry> {
+    return this.file.update(scores => {
+      insertSorted(scores, entry);
+      return entry;
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.file.write([]);
+  }
+}
+
+/**
+ * Create the repository selected by the environment
+ * @param env Environment variables (defaults to process.env)
+ */
+export const createScoreRepository = (
+  env: Record<string, string | undefined> = process.env
+): ScoreRepository => {
+  const store = env.SCORE_STORE || 'memory';
+
+  switch (store) {
+    case 'memory':
+      return new InMemoryScoreRepository();
+    case 'file':
+      return new FileScoreRepository(
+        path.resolve(env.SCORE_STORE_PATH || path.join('.data', 'scores.json'))
+      );
+    default:
+      throw new Error(`Unknown SCORE_STORE "${store}". Expected "memory" or "file".`);
+  }
+};
+
+// Shared repository for the API routes
+let repository: ScoreRepository | null = null;
+
+export const getScoreRepository = (): ScoreRepository => {
+  if (!repository) {
+    repository = createScoreRepository();
+  }
+  return repository;
+};
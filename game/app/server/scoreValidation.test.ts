@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for scoreValidation.ts
+ */
+
+import { MAX_SCORE, parseScoreSubmission } from './scoreValidation';
+
+const run = { version: 1 };
+const player = { id: '0b0d8b3c-5a8e-4c6e-9d55-3f1c2b7a9e10', secret: 'a'.repeat(32) };
+
+describe('parseScoreSubmission', () => {
+  it('should accept a valid submission and sanitize the name', () => {
+    expect(parseScoreSubmission({ playerName: '  Ada  ', score: 120, run, player })).toEqual({
+      ok: true,
+      value: { playerName: 'Ada', score: 120, run, player },
+    });
+  });
+
+  it('should allow the highest reachable score', () => {
+    expect(MAX_SCORE).toBe(216000);
+    expect(parseScoreSubmission({ playerName: 'Ada', score: MAX_SCORE, run, player }).ok).toBe(true);
+  });
+
+  it('should reject scores that are not whole numbers in range', () => {
+    for (const score of [-1, 1.5, NaN, Infinity, MAX_SCORE + 1, '100', null]) {
+      const result = parseScoreSubmission({ playerName: 'Ada', score, run, player });
+      expect(result).toMatchObject({ ok: false, fields: { score: expect.stringContaining('whole number') } });
+    }
+  });
+
+  it('should reject invalid names with a field message', () => {
+    for (const playerName of [undefined, '', '   ', 'x'.repeat(10_000), '<img src=x>', 'sh1t']) {
+      const result = parseScoreSubmission({ playerName, score: 1, run, player });
+      expect(result.ok).toBe(false);
+      expect(result.ok || result.fields.playerName).toBeTruthy();
+    }
+  });
+
+  it('should require a run proof', () => {
+    expect(parseScoreSubmission({ playerName: 'Ada', score: 1, player })).toMatchObject({
+      ok: false,
+      fields: { run: 'A run proof is required' },
+    });
+  });
+
+  it('should report every invalid field at once', () => {
+    const result = parseScoreSubmission({ playerName: '', score: -5 });
+    expect(result.ok).toBe(false);
+    expect(result.ok || Object.keys(result.fields).sort()).toEqual(['player', 'playerName', 'run', 'score']);
+  });
+
+  it('should reject missing or malformed player credentials', () => {
+    for (const credentials of [
+      undefined,
+      { id: 'not-a-uuid', secret: player.secret },
+      { id: player.id, secret: 'short' },
+      { id: player.id, secret: 'x'.repeat(129) },
+      { id: player.id },
+    ]) {
+      expect(parseScoreSubmission({ playerName: 'Ada', score: 1, run, player: credentials })).toMatchObject({
+        ok: false,
+        fields: { player: expect.any(String) },
+      });
+    }
+  });
+
+  it('should reject bodies that are not objects', () => {
+    for (const body of [null, [], 'text', 42]) {
+      expect(parseScoreSubmission(body)).toMatchObject({ ok: false, fields: {} });
+    }
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Validation of score submission request bodies
+ *
+ * Checks field types and ranges before the (more expensive) run verification.
+ */
+
+import { FIXED_TIMESTEP, SCORE_PER_SECOND } from '../engine/constants';
+import { PLAYER_NAME_MAX_LENGTH, sanitizePlayerName, validatePlayerName } from '../utils/playerName';
+import { PLAYER_ID_PATTERN, PlayerCredentials } from './players';
+import { MAX_RUN_TICKS } from './runVerification';
+
+// Highest score the longest accepted run could reach
+export const MAX_SCORE = Math.floor(MAX_RUN_TICKS * FIXED_TIMESTEP * SCORE_PER_SECOND);
+
+export interface ScoreSubmission {
+  playerName: string; // Sanitized
+  score: number;
+  run: unknown; // Checked by verifyRun
+  player: PlayerCredentials;
+}
+
+export type SubmissionField = 'playerName' | 'score' | 'run' | 'player';
+
+// Length bounds for the device secret
+const MIN_SECRET_LENGTH = 16;
+const MAX_SECRET_LENGTH = 128;
+
+export type ScoreSubmissionResult =
+  | { ok: true; value: ScoreSubmission }
+  | { ok: false; message: string; fields: Partial<Record<SubmissionField, string>> };
+
+/**
+ * Validate and normalize a score submission
+ * @param body Parsed JSON request body
+ * @returns The submission, or a message per invalid field
+ */
+export const parseScoreSubmission = (body: unknown): ScoreSubmissionResult => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, message: 'Request body must be a JSON object', fields: {} };
+  }
+
+  const { playerName, score, run, player } = body as Record<string, unknown>;
+  const fields: Partial<Record<SubmissionField, string>> = {};
+
+  let name = '';
+  if (typeof playerName !== 'string') {
+    fields.playerName = 'Name is required';
+  } else if (playerName.length > PLAYER_NAME_MAX_LENGTH * 4) {
+    // Reject huge inputs before normalizing them
+    fields.playerName = `Name must be at most ${PLAYER_NAME_MAX_LENGTH} characters`;
+  } else {
+    name = sanitizePlayerName(playerName);
+    const nameError = validatePlayerName(name);
+    if (nameError) {
+      fields.playerName = nameError;
+    }
+  }
+
+  if (typeof score !== 'number' || !Number.isInteger(score) || score < 0 || score > MAX_SCORE) {
+    fields.score = `Score must be a whole number from 0 to ${MAX_SCORE}`;
+  }
+
+  if (typeof run !== 'object' || run === null) {
+    fields.run = 'A run proof is required';
+  }
+
+  const credentials = player as Record<string, unknown> | null;
+  if (
+    typeof credentials !== 'object' ||
+    credentials === null ||
+    typeof credentials.id !== 'string' ||
+    !PLAYER_ID_PATTERN.test(credentials.id) ||
+    typeof credentials.secret !== 'string' ||
+    credentials.secret.length < MIN_SECRET_LENGTH ||
+    credentials.secret.length > MAX_SECRET_LENGTH
+  ) {
+    fields.player = 'Player credentials are missing or malformed';
+  }
+
+  if (Object.keys(fields).length > 0) {
+    return { ok: false, message: Object.values(fields)[0], fields };
+  }
+
+  return {
+    ok: true,
+    value: {
+      playerName: name,
+      score: score as number,
+      run,
+      player: { id: credentials!.id as string, secret: credentials!.secret as string },
+    },
+  };
+};
@@ -2,7 +2,21 @@
  * Tests for audioUtils.ts
  */
 
-import { audioManager, initAudio, getAudioIntensity, shouldJump, getJumpPower, cleanupAudio } from './audioUtils';
+import {
+  audioManager,
+  initAudio,
+  getAudioIntensity,
+  getJumpOnset,
+  cleanupAudio,
+  DEFAULT_MIC_CALIBRATION,
+  DEFAULT_PITCH_RANGE,
+  deriveMicCalibration,
+  detectPitch,
+  pitchToLift,
+  setMicCalibration,
+  loadMicCalibration,
+  resetMicCalibration,
+} from './audioUtils';
 
 // Mock global objects that are not available in test environment
 const mockAnalyserNode = {
@@ -62,6 +76,8 @@ beforeEach(() => {
   audioManager.microphone = null;
   audioManager.isInitialized = false;
   audioManager.smoothedIntensity = 0;
+  audioManager.calibration = DEFAULT_MIC_CALIBRATION;
+  audioManager.onsetDetector.reset();
   
   // Setup global navigator mock
   Object.defineProperty(global, 'navigator', {
@@ -164,64 +180,48 @@ describe('Audio Utilities', () => {
     });
   });
   
-  describe('shouldJump', () => {
+  describe('getJumpOnset', () => {
     beforeEach(async () => {
       // Setup initialized audio manager
       await initAudio();
     });
     
-    it('should return false for silent or low intensity sounds', () => {
-      global.mockAudioIntensity = 'silent';
-      expect(shouldJump()).toBe(false);
-      
-      global.mockAudioIntensity = 'low';
-      expect(shouldJump()).toBe(false);
-    });
+    // Feed one level per frame, 20ms apart, and collect the jump events
+    const play = (levels: Array<'silent' | 'low' | 'medium' | 'high'>) =>
+      levels.flatMap((level, frame) => {
+        global.mockAudioIntensity = level;
+        const onset = getJumpOnset(frame * 20);
+        return onset ? [onset] : [];
+      });
     
-    it('should return true for sounds above threshold', () => {
-      global.mockAudioIntensity = 'medium';
-      
-      // May need to call multiple times due to smoothing
-      getAudioIntensity();
-      getAudioIntensity();
-      
-      expect(shouldJump()).toBe(true);
-      
+    it('should return null if audio is not initialized', () => {
+      audioManager.isInitialized = false;
       global.mockAudioIntensity = 'high';
-      expect(shouldJump()).toBe(true);
+      
+      expect(getJumpOnset(0)).toBeNull();
     });
-  });
-  
-  describe('getJumpPower', () => {
-    beforeEach(async () => {
-      // Setup initialized audio manager
-      await initAudio();
+    
+    it('should not fire for silence or quiet sounds', () => {
+      expect(play(Array(10).fill('silent'))).toEqual([]);
+      expect(play(['silent', 'low', 'low', 'silent', 'low'])).toEqual([]);
     });
     
-    it('should return 0 for sounds below threshold', () => {
-      global.mockAudioIntensity = 'silent';
-      expect(getJumpPower()).toBe(0);
+    it('should fire once for a sustained loud sound', () => {
+      const onsets = play(['silent', 'silent', ...Array(50).fill('high')]);
       
-      global.mockAudioIntensity = 'low';
-      expect(getJumpPower()).toBe(0);
+      expect(onsets).toHaveLength(1);
+      expect(onsets[0].time).toBe(40);
     });
     
-    it('should return higher values for louder sounds', () => {
-      // Set medium intensity and allow smoothing to stabilize
-      global.mockAudioIntensity = 'medium';
-      getAudioIntensity();
-      getAudioIntensity();
-      const mediumPower = getJumpPower();
+    it('should give louder sounds more jump power', () => {
+      const [medium] = play(['silent', 'silent', ...Array(10).fill('medium')]);
+      audioManager.onsetDetector.reset();
+      audioManager.smoothedIntensity = 0;
+      const [high] = play(['silent', 'silent', ...Array(10).fill('high')]);
       
-      // Set high intensity and allow smoothing to stabilize
-      global.mockAudioIntensity = 'high';
-      getAudioIntensity();
-      getAudioIntensity();
-      const highPower = getJumpPower();
-      
-      expect(mediumPower).toBeGreaterThan(0);
-      expect(highPower).toBeGreaterThan(mediumPower);
-      expect(highPower).toBeLessThanOrEqual(1);
+      expect(medium.power).toBeGreaterThan(0);
+      expect(high.power).toBeGreaterThan(medium.power);
+      expect(high.power).toBeLessThanOrEqual(1);
     });
   });
   
@@ -240,4 +240,116 @@ describe('Audio Utilities', () => {
       expect(mockAudioContext.close).toHaveBeenCalled();
     });
   });
+  
+  describe('calibration', () => {
+    const repeat = (level: number, count = 40) => Array(count).fill(level);
+
+    it('should raise the threshold above a noisy room', () => {
+      const calibration = deriveMicCalibration(repeat(0.2), repeat(0.6));
+      
+      expect(calibration).not.toBeNull();
+      // The room's own noise must stay below the jump threshold
+      expect(0.2 / calibration!.maxIntensity).toBeLessThan(calibration!.threshold);
+      expect(calibration!.maxIntensity).toBeCloseTo(0.6);
+    });
+    
+    it('should lower the ceiling for a quiet microphone', () => {
+      const calibration = deriveMicCalibration(repeat(0.005), repeat(0.15));
+      
+      expect(calibration!.maxIntensity).toBeCloseTo(0.15);
+      expect(calibration!.threshold).toBeLessThan(0.2);
+    });
+    
+    it('should ignore occasional spikes in the ambient recording', () => {
+      const ambient = [...repeat(0.05, 98), 0.7, 0.7];
+      
+      expect(deriveMicCalibration(ambient, repeat(0.5))).not.toBeNull();
+    });
+    
+    it('should fail when the shout is not louder than the room', () => {
+      expect(deriveMicCalibration(repeat(0.3), repeat(0.32))).toBeNull();
+      expect(deriveMicCalibration([], repeat(0.5))).toBeNull();
+    });
+    
+    it('should feed the calibration into onset detection', async () => {
+      await initAudio();
+      // A noisy room: medium levels are background noise
+      setMicCalibration({ threshold: 0.95, maxIntensity: 1 });
+      
+      global.mockAudioIntensity = 'silent';
+      getJumpOnset(0);
+      global.mockAudioIntensity = 'medium';
+      expect(getJumpOnset(20)).toBeNull();
+      expect(getJumpOnset(40)).toBeNull();
+    });
+    
+    it('should persist and restore the calibration', () => {
+      setMicCalibration({ threshold: 0.3, maxIntensity: 0.4 });
+      expect(localStorage.setItem).toHaveBeenCalledWith(
+        'flappyBirdMicCalibration',
+        JSON.stringify({ threshold: 0.3, maxIntensity: 0.4 })
+      );
+      
+      audioManager.calibration = DEFAULT_MIC_CALIBRATION;
+      (localStorage.getItem as jest.Mock).mockReturnValueOnce('{"threshold":0.3,"maxIntensity":0.4}');
+      expect(loadMicCalibration()).toEqual({ threshold: 0.3, maxIntensity: 0.4 });
+      
+      resetMicCalibration();
+      expect(audioManager.calibration).toEqual(DEFAULT_MIC_CALIBRATION);
+      expect(localStorage.removeItem).toHaveBeenCalledWith('flappyBirdMicCalibration');
+    });
+    
+    it('should ignore a corrupt saved calibration', () => {
+      (localStorage.getItem as jest.Mock).mockReturnValueOnce('{"threshold": 5, "maxIntensity": -1}');
+      expect(loadMicCalibration()).toEqual(DEFAULT_MIC_CALIBRATION);
+      
+      (localStorage.getItem as jest.Mock).mockReturnValueOnce('not json');
+      expect(loadMicCalibration()).toEqual(DEFAULT_MIC_CALIBRATION);
+    });
+  });
+  
+  describe('pitch', () => {
+    const sampleRate = 48000;
+    
+    // Two harmonics, like a hummed note
+    const hum = (frequency: number, amplitude = 0.5) => {
+      const buffer = new Float32Array(2048);
+      for (let i = 0; i < buffer.length; i++) {
+        const t = i / sampleRate;
+        buffer[i] = amplitude * (
+          Math.sin(2 * Math.PI * frequency * t) + 0.5 * Math.sin(2 * Math.PI * 2 * frequency * t)
+        );
+      }
+      return buffer;
+    };
+    
+    it('should detect the pitch of a hum', () => {
+      for (const frequency of [100, 150, 220, 330, 440]) {
+        const detected = detectPitch(hum(frequency), sampleRate);
+        expect(detected).not.toBeNull();
+        expect(Math.abs(detected! - frequency) / frequency).toBeLessThan(0.01);
+      }
+    });
+    
+    it('should ignore silence and noise', () => {
+      expect(detectPitch(hum(220, 0.001), sampleRate)).toBeNull();
+      
+      const noise = new Float32Array(2048);
+      let seed = 1;
+      for (let i = 0; i < noise.length; i++) {
+        seed = (seed * 16807) % 2147483647;
+        noise[i] = seed / 2147483647 - 0.5;
+      }
+      expect(detectPitch(noise, sampleRate)).toBeNull();
+    });
+    
+    it('should map higher pitches to more lift', () => {
+      expect(pitchToLift(DEFAULT_PITCH_RANGE.low)).toBe(-1);
+      expect(pitchToLift(DEFAULT_PITCH_RANGE.high)).toBe(1);
+      expect(pitchToLift(200)).toBeCloseTo(0);
+      expect(pitchToLift(50)).toBe(-1);
+      expect(pitchToLift(1000)).toBe(1);
+      expect(pitchToLift(300)).toBeGreaterThan(pitchToLift(250));
+    });
+  });
 }); 
\ No newline at end of file
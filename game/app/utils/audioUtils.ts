@@ -2,23 +2,60 @@
  * Audio utilities for microphone-based game control
  */
 
+import { OnsetDetector, OnsetEvent } from './onsetDetector';
+
 // Smoothing factor for the audio intensity (0-1)
 // Lower values mean more smoothing/slower response
 const SMOOTHING_FACTOR = 0.3;
 
-// Minimum audio intensity threshold to trigger a jump
+// Minimum audio intensity threshold to trigger a jump, used until the mic is calibrated
 const MIN_INTENSITY_THRESHOLD = 0.05;
 
-// Maximum intensity value (for normalization)
+// Maximum intensity value (for normalization), used until the mic is calibrated
 const MAX_INTENSITY = 0.8;
 
+// Where the calibration is kept between sessions
+const CALIBRATION_STORAGE_KEY = 'flappyBirdMicCalibration';
+
+// Per-user microphone levels derived by the calibration wizard
+export interface MicCalibration {
+  threshold: number; // Normalized intensity (0-1) needed to jump
+  maxIntensity: number; // Smoothed raw level treated as full power
+}
+
+export const DEFAULT_MIC_CALIBRATION: MicCalibration = {
+  threshold: MIN_INTENSITY_THRESHOLD,
+  maxIntensity: MAX_INTENSITY,
+};
+
+// How the microphone steers the bird: jump on loud sounds, or rise and fall with hummed pitch
+export type ControlMode = 'loudness' | 'pitch';
+
+// Hummed pitches mapped onto full descent (low) and full lift (high), in Hz
+export const DEFAULT_PITCH_RANGE = { low: 100, high: 400 };
+
+// Samples analysed for pitch; long enough to hold a few periods of a low hum
+const PITCH_FFT_SIZE = 2048;
+
+// Quietest signal (RMS of samples in -1..1) considered a hum rather than silence
+const MIN_PITCH_RMS = 0.01;
+
+// How periodic the signal must be (normalized autocorrelation) to count as a pitch
+const MIN_PITCH_CLARITY = 0.8;
+
 interface AudioManager {
   audioContext: AudioContext | null;
   analyser: AnalyserNode | null;
   dataArray: Uint8Array | null;
   microphone: MediaStreamAudioSourceNode | null;
+  pitchAnalyser: AnalyserNode | null;
+  timeDomainData: Float32Array | null;
+  smoothedLift: number | null; // Null while not humming
   isInitialized: boolean;
   smoothedIntensity: number;
+  lastIntensity: number; // Most recent normalized intensity, for recording and meters
+  calibration: MicCalibration;
+  onsetDetector: OnsetDetector;
 }
 
 // Singleton audio manager
@@ -27,8 +64,14 @@ export const audioManager: AudioManager = {
   analyser: null,
   dataArray: null,
   microphone: null,
+  pitchAnalyser: null,
+  timeDomainData: null,
+  smoothedLift: null,
   isInitialized: false,
   smoothedIntensity: 0,
+  lastIntensity: 0,
+  calibration: DEFAULT_MIC_CALIBRATION,
+  onsetDetector: new OnsetDetector(),
 };
 
 /**
@@ -58,15 +101,23 @@ export const initAudio = async (): Promise<boolean> => {
     const bufferLength = analyser.frequencyBinCount;
     const dataArray = new Uint8Array(bufferLength);
     
-    // Connect microphone to analyzer
+    // Separate analyser with a longer window for pitch detection
+    const pitchAnalyser = audioContext.createAnalyser();
+    pitchAnalyser.fftSize = PITCH_FFT_SIZE;
+    const timeDomainData = new Float32Array(PITCH_FFT_SIZE);
+    
+    // Connect microphone to analyzers
     const microphone = audioContext.createMediaStreamSource(stream);
     microphone.connect(analyser);
+    microphone.connect(pitchAnalyser);
     
     // Store references
     audioManager.audioContext = audioContext;
     audioManager.analyser = analyser;
     audioManager.dataArray = dataArray;
     audioManager.microphone = microphone;
+    audioManager.pitchAnalyser = pitchAnalyser;
+    audioManager.timeDomainData = timeDomainData;
     audioManager.isInitialized = true;
     
     return true;
@@ -77,10 +128,10 @@ export const initAudio = async (): Promise<boolean> => {
 };
 
 /**
- * Get the current audio intensity (0-1) with smoothing
- * @returns Normalized and smoothed audio intensity between 0-1
+ * Read the microphone and update the smoothed level
+ * @returns Smoothed raw level (0-1) before calibration is applied
  */
-export const getAudioIntensity = (): number => {
+export const readAudioLevel = (): number => {
   if (!audioManager.isInitialized || !audioManager.analyser || !audioManager.dataArray) {
     return 0;
   }
@@ -97,39 +148,251 @@ export const getAudioIntensity = (): number => {
     SMOOTHING_FACTOR * rawIntensity + 
     (1 - SMOOTHING_FACTOR) * audioManager.smoothedIntensity;
 
-  // Normalize to 0-1 range with upper bound
-  const normalizedIntensity = Math.min(audioManager.smoothedIntensity / MAX_INTENSITY, 1);
+  return audioManager.smoothedIntensity;
+};
+
+/**
+ * Get the current audio intensity (0-1) with smoothing
+ * @returns Normalized and smoothed audio intensity between 0-1
+ */
+export const getAudioIntensity = (): number => {
+  if (!audioManager.isInitialized || !audioManager.analyser || !audioManager.dataArray) {
+    return 0;
+  }
+
+  const level = readAudioLevel();
+
+  // Normalize to 0-1 range with the calibrated upper bound
+  const normalizedIntensity = Math.min(level / audioManager.calibration.maxIntensity, 1);
+  audioManager.lastIntensity = normalizedIntensity;
   
   return normalizedIntensity;
 };
 
 /**
- * Determine if audio intensity exceeds jump threshold
- * @returns Boolean indicating if jump should occur
+ * Read the microphone and report the start of a new sound
+ * @param now Frame time (ms)
+ * @returns A jump event with a power taken from the sound's peak, or null
  */
-export const shouldJump = (): boolean => {
+export const getJumpOnset = (now: number = performance.now()): OnsetEvent | null => {
+  if (!audioManager.isInitialized || !audioManager.analyser || !audioManager.dataArray) {
+    return null;
+  }
+
+  // Reads the analyser once per frame, also keeping the level meter and run log current
   const intensity = getAudioIntensity();
-  return intensity > MIN_INTENSITY_THRESHOLD;
+
+  return audioManager.onsetDetector.process(
+    audioManager.dataArray,
+    intensity,
+    now,
+    audioManager.calibration.threshold
+  );
 };
 
 /**
- * Map audio intensity to jump height
- * @returns Jump force/height (0-1)
+ * Estimate the fundamental frequency of a signal by autocorrelation
+ * @param buffer Time-domain samples in -1..1
+ * @param sampleRate Samples per second
+ * @param minFrequency Lowest pitch to look for (Hz)
+ * @param maxFrequency Highest pitch to look for (Hz)
+ * @returns Frequency in Hz, or null for silence and unpitched noise
  */
-export const getJumpPower = (): number => {
-  const intensity = getAudioIntensity();
-  
-  // Only return values above threshold
-  if (intensity <= MIN_INTENSITY_THRESHOLD) {
-    return 0;
+export const detectPitch = (
+  buffer: Float32Array,
+  sampleRate: number,
+  minFrequency = 60,
+  maxFrequency = 1000
+): number | null => {
+  let sumSquares = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    sumSquares += buffer[i] * buffer[i];
   }
-  
-  // Map from threshold->1 to 0.3->1 (minimum and maximum jump power)
-  const minJumpPower = 0.3;
-  const normalizedIntensity = (intensity - MIN_INTENSITY_THRESHOLD) / 
-                              (1 - MIN_INTENSITY_THRESHOLD);
-  
-  return minJumpPower + normalizedIntensity * (1 - minJumpPower);
+  if (Math.sqrt(sumSquares / buffer.length) < MIN_PITCH_RMS) {
+    return null;
+  }
+
+  const minLag = Math.max(1, Math.floor(sampleRate / maxFrequency));
+  const maxLag = Math.min(Math.ceil(sampleRate / minFrequency), Math.floor(buffer.length / 2));
+  const windowSize = buffer.length - maxLag;
+
+  // Normalized autocorrelation for each candidate period
+  const correlations = new Float32Array(maxLag + 1);
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let product = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i < windowSize; i++) {
+      product += buffer[i] * buffer[i + lag];
+      energyA += buffer[i] * buffer[i];
+      energyB += buffer[i + lag] * buffer[i + lag];
+    }
+    correlations[lag] = energyA > 0 && energyB > 0 ? product / Math.sqrt(energyA * energyB) : 0;
+  }
+
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    best = Math.max(best, correlations[lag]);
+  }
+  if (best < MIN_PITCH_CLARITY) {
+    return null;
+  }
+
+  // The shortest strong period is the fundamental; longer ones are its multiples
+  for (let lag = minLag + 1; lag < maxLag; lag++) {
+    const value = correlations[lag];
+    if (value >= best * 0.9 && value >= correlations[lag - 1] && value >= correlations[lag + 1]) {
+      // Refine between samples with a parabola through the neighbours
+      const previous = correlations[lag - 1];
+      const next = correlations[lag + 1];
+      const curvature = previous - 2 * value + next;
+      const offset = curvature !== 0 ? (previous - next) / (2 * curvature) : 0;
+      return sampleRate / (lag + offset);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Map a hummed pitch to lift, on a musical (logarithmic) scale
+ * @param frequency Pitch in Hz
+ * @param range Pitches for full descent and full lift
+ * @returns Lift from -1 (descend) to 1 (rise)
+ */
+export const pitchToLift = (
+  frequency: number,
+  range: { low: number; high: number } = DEFAULT_PITCH_RANGE
+): number => {
+  const position = Math.log2(frequency / range.low) / Math.log2(range.high / range.low);
+  return Math.max(-1, Math.min(1, position * 2 - 1));
+};
+
+/**
+ * Read the hummed pitch as steering input, with smoothing
+ * @returns Lift from -1 to 1, or undefined while the player isn't humming
+ */
+export const getPitchLift = (): number | undefined => {
+  const { audioContext, pitchAnalyser, timeDomainData } = audioManager;
+  if (!audioManager.isInitialized || !audioContext || !pitchAnalyser || !timeDomainData) {
+    return undefined;
+  }
+
+  pitchAnalyser.getFloatTimeDomainData(timeDomainData);
+  const frequency = detectPitch(timeDomainData, audioContext.sampleRate);
+
+  if (frequency === null) {
+    audioManager.smoothedLift = null;
+    return undefined;
+  }
+
+  const lift = pitchToLift(frequency);
+  audioManager.smoothedLift = audioManager.smoothedLift === null
+    ? lift
+    : SMOOTHING_FACTOR * lift + (1 - SMOOTHING_FACTOR) * audioManager.smoothedLift;
+
+  return audioManager.smoothedLift;
+};
+
+// Value below which the given fraction of samples fall
+const percentile = (samples: number[], fraction: number): number => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+};
+
+/**
+ * Derive per-user levels from a quiet and a loud recording
+ * @param ambientSamples Smoothed levels while the room is quiet
+ * @param loudSamples Smoothed levels while the player shouts
+ * @returns The calibration, or null if the shout wasn't clearly louder than the room
+ */
+export const deriveMicCalibration = (
+  ambientSamples: number[],
+  loudSamples: number[]
+): MicCalibration | null => {
+  if (ambientSamples.length === 0 || loudSamples.length === 0) {
+    return null;
+  }
+
+  // Loudest steady background noise, ignoring the occasional spike
+  const noiseFloor = percentile(ambientSamples, 0.95);
+  // A shout the player can repeat, rather than its single loudest moment
+  const loudLevel = percentile(loudSamples, 0.9);
+
+  if (loudLevel < noiseFloor * 1.5 || loudLevel - noiseFloor < 0.02) {
+    return null;
+  }
+
+  // Jump once the level clears the noise floor by a margin
+  const jumpLevel = Math.max(noiseFloor * 1.5, noiseFloor + 0.1 * (loudLevel - noiseFloor));
+
+  return {
+    threshold: Math.min(0.9, Math.max(0.02, jumpLevel / loudLevel)),
+    maxIntensity: Math.min(1, loudLevel),
+  };
+};
+
+/**
+ * Record smoothed levels from the microphone
+ * @param durationMs How long to record
+ * @param onSample Called with each sample, e.g. to drive a level meter
+ * @param intervalMs Time between samples
+ * @returns The recorded levels
+ */
+export const sampleAudioLevels = (
+  durationMs: number,
+  onSample?: (level: number) => void,
+  intervalMs = 50
+): Promise<number[]> => {
+  return new Promise(resolve => {
+    const samples: number[] = [];
+    const interval = setInterval(() => {
+      const level = readAudioLevel();
+      samples.push(level);
+      onSample?.(level);
+    }, intervalMs);
+
+    setTimeout(() => {
+      clearInterval(interval);
+      resolve(samples);
+    }, durationMs);
+  });
+};
+
+/**
+ * Apply a calibration and remember it for future sessions
+ * @param calibration Levels from deriveMicCalibration
+ */
+export const setMicCalibration = (calibration: MicCalibration): void => {
+  audioManager.calibration = calibration;
+  localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(calibration));
+};
+
+/**
+ * Restore the saved calibration, if any
+ * @returns The calibration now in use
+ */
+export const loadMicCalibration = (): MicCalibration => {
+  const saved = localStorage.getItem(CALIBRATION_STORAGE_KEY);
+  if (saved) {
+    try {
+      const { threshold, maxIntensity } = JSON.parse(saved);
+      if (threshold > 0 && threshold < 1 && maxIntensity > 0 && maxIntensity <= 1) {
+        audioManager.calibration = { threshold, maxIntensity };
+      }
+    } catch (err) {
+      localStorage.removeItem(CALIBRATION_STORAGE_KEY);
+    }
+  }
+  return audioManager.calibration;
+};
+
+/**
+ * Go back to the default levels
+ */
+export const resetMicCalibration = (): void => {
+  audioManager.calibration = DEFAULT_MIC_CALIBRATION;
+  localStorage.removeItem(CALIBRATION_STORAGE_KEY);
 };
 
 /**
@@ -139,6 +402,8 @@ export const cleanupAudio = (): void => {
   if (audioManager.microphone) {
     audioManager.microphone.disconnect();
   }
+  audioManager.smoothedLift = null;
+  audioManager.onsetDetector.reset();
   
   if (audioManager.audioContext) {
     audioManager.audioContext.close();
@@ -0,0 +1,43 @@
+/**
+ * Tests for bestRuns.ts
+ */
+
+import { REPLAY_VERSION, RunLog } from '../engine/replay';
+import { DifficultyPresetId } from '../engine/difficulty';
+import { parseBestRuns, recordBestRun } from './bestRuns';
+
+const run = (score: number, difficulty: DifficultyPresetId, version = REPLAY_VERSION): RunLog => ({
+  version,
+  seed: 1,
+  config: { width: 800, height: 600, difficulty },
+  ticks: 100,
+  jumps: [],
+  intensity: [],
+  keys: [],
+  score,
+});
+
+describe('bestRuns', () => {
+  it('should keep the best run of each preset separately', () => {
+    let runs = recordBestRun({}, run(50, 'normal'));
+    runs = recordBestRun(runs, run(200, 'easy'));
+    expect(runs.normal?.score).toBe(50);
+    expect(runs.easy?.score).toBe(200);
+
+    runs = recordBestRun(runs, run(40, 'normal'));
+    expect(runs.normal?.score).toBe(50);
+
+    runs = recordBestRun(runs, run(80, 'normal'));
+    expect(runs.normal?.score).toBe(80);
+  });
+
+  it('should drop stored runs from other game versions or filed under the wrong preset', () => {
+    expect(parseBestRuns({
+      normal: run(50, 'normal'),
+      easy: run(60, 'easy', REPLAY_VERSION - 1),
+      hard: run(70, 'insane'),
+      insane: 'run',
+    })).toEqual({ normal: run(50, 'normal') });
+    expect(parseBestRuns(null)).toEqual({});
+  });
+});
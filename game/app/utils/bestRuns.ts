@@ -0,0 +1,104 @@
+/**
+ * Best runs - Keeps the recording of the best run on each difficulty preset
+ *
+ * Runs are kept in localStorage by preset, for replays and for leaderboard
+ * submission. Recordings from another game version can't be replayed, so
+ * they are dropped when loaded.
+ */
+
+import { REPLAY_VERSION, RunLog } from '../engine/replay';
+import { DIFFICULTY_PRESET_IDS, DifficultyPresetId } from '../engine/difficulty';
+
+const STORAGE_KEY = 'flappyBirdBestRuns';
+
+// Single best run kept before runs were kept per preset
+const LEGACY_STORAGE_KEY = 'flappyBirdBestRun';
+
+export type BestRuns = Partial<Record<DifficultyPresetId, RunLog>>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Whether a stored run can still be replayed by this version of the game
+ * @param value Parsed stored run
+ */
+const isCurrentRun = (value: unknown): value is RunLog =>
+  isRecord(value) &&
+  value.version === REPLAY_VERSION &&
+  typeof value.score === 'number' &&
+  isRecord(value.config) &&
+  DIFFICULTY_PRESET_IDS.includes(value.config.difficulty as DifficultyPresetId);
+
+/**
+ * Keep a run if it beats the best one on its preset
+ * @param runs Current best runs
+ * @param log Recorded run
+ * @returns The updated best runs
+ */
+export const recordBestRun = (runs: BestRuns, log: RunLog): BestRuns => {
+  const previous = runs[log.config.difficulty];
+  if (previous && previous.score >= log.score) {
+    return runs;
+  }
+  return { ...runs, [log.config.difficulty]: log };
+};
+
+/**
+ * Check stored best runs, dropping runs from other game versions or filed under the wrong preset
+ * @param value Parsed stored value
+ */
+export const parseBestRuns = (value: unknown): BestRuns => {
+  const runs: BestRuns = {};
+  if (!isRecord(value)) {
+    return runs;
+  }
+
+  for (const id of DIFFICULTY_PRESET_IDS) {
+    const run = value[id];
+    if (isCurrentRun(run) && run.config.difficulty === id) {
+      runs[id] = run;
+    }
+  }
+  return runs;
+};
+
+/**
+ * Store the best runs
+ * @param runs Runs to keep
+ */
+export const saveBestRuns = (runs: BestRuns): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(runs));
+};
+
+/**
+ * Load the stored best runs, taking over the single run kept by earlier versions
+ */
+export const loadBestRuns = (): BestRuns => {
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacy) {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    try {
+      const run: unknown = JSON.parse(legacy);
+      if (isCurrentRun(run) && !localStorage.getItem(STORAGE_KEY)) {
+        const runs = recordBestRun({}, run);
+        saveBestRuns(runs);
+        return runs;
+      }
+    } catch (err) {
+      // Nothing worth keeping
+    }
+  }
+
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) {
+    return {};
+  }
+
+  try {
+    return parseBestRuns(JSON.parse(saved));
+  } catch (err) {
+    localStorage.removeItem(STORAGE_KEY);
+    return {};
+  }
+};
@@ -0,0 +1,8 @@
+/**
+ * Create the face detection worker
+ * Kept in its own module and loaded on demand so bundlers see the worker entry point
+ * while environments without workers never evaluate it.
+ */
+
+export const createFaceWorker = (): Worker =>
+  new Worker(new URL('./faceDetection.worker.ts', import.meta.url));
@@ -0,0 +1,65 @@
+/**
+ * Tests for detectionScheduler.ts
+ */
+
+import { DetectionScheduler } from './detectionScheduler';
+
+describe('DetectionScheduler', () => {
+  it('should skip frames while a detection is running', () => {
+    const scheduler = new DetectionScheduler();
+
+    expect(scheduler.tryBegin()).toBe(true);
+    expect(scheduler.tryBegin()).toBe(false);
+    expect(scheduler.tryBegin()).toBe(false);
+    expect(scheduler.skipped).toBe(2);
+
+    scheduler.end(20);
+    expect(scheduler.isBusy).toBe(false);
+    expect(scheduler.tryBegin()).toBe(true);
+  });
+
+  it('should start at the fastest rate', () => {
+    expect(new DetectionScheduler({ minInterval: 80 }).interval).toBe(80);
+  });
+
+  it('should slow down when detections are slow and speed up when they get faster', () => {
+    const scheduler = new DetectionScheduler({ minInterval: 100, maxInterval: 1000, targetLoad: 0.25 });
+
+    scheduler.tryBegin();
+    scheduler.end(100);
+    expect(scheduler.interval).toBe(400);
+
+    for (let i = 0; i < 20; i++) {
+      scheduler.tryBegin();
+      scheduler.end(10);
+    }
+    expect(scheduler.interval).toBe(100);
+  });
+
+  it('should cap the interval on very slow devices', () => {
+    const scheduler = new DetectionScheduler({ maxInterval: 1000 });
+
+    scheduler.tryBegin();
+    scheduler.end(5000);
+    expect(scheduler.interval).toBe(1000);
+  });
+
+  it('should not count frames that never ran towards the rate', () => {
+    const scheduler = new DetectionScheduler();
+
+    scheduler.tryBegin();
+    scheduler.end();
+    expect(scheduler.interval).toBe(scheduler.options.minInterval);
+  });
+
+  it('should forget timings on reset', () => {
+    const scheduler = new DetectionScheduler();
+    scheduler.tryBegin();
+    scheduler.end(900);
+    scheduler.tryBegin();
+
+    scheduler.reset();
+    expect(scheduler.isBusy).toBe(false);
+    expect(scheduler.interval).toBe(scheduler.options.minInterval);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * DetectionScheduler - Paces face detection to the speed of the device
+ *
+ * Only one frame is analysed at a time; frames captured while a detection is
+ * still running are skipped rather than queued. The capture interval follows
+ * how long detections take, so slow devices spend a bounded share of their
+ * time on detection and fast ones react sooner.
+ */
+
+export interface DetectionSchedulerOptions {
+  minInterval: number; // Fastest capture rate (ms between frames)
+  maxInterval: number; // Slowest capture rate (ms between frames)
+  targetLoad: number; // Share of the time (0-1) detection may take
+}
+
+export const DEFAULT_DETECTION_SCHEDULE: DetectionSchedulerOptions = {
+  minInterval: 100,
+  maxInterval: 1000,
+  targetLoad: 0.3,
+};
+
+// Weight of the latest duration in the running average
+const DURATION_SMOOTHING = 0.3;
+
+export class DetectionScheduler {
+  readonly options: DetectionSchedulerOptions;
+
+  // Frames dropped because a detection was still running
+  skipped = 0;
+
+  private inFlight = false;
+  // Running average of detection time (ms), null until the first detection
+  private averageDuration: number | null = null;
+
+  constructor(options: Partial<DetectionSchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_DETECTION_SCHEDULE, ...options };
+  }
+
+  get isBusy(): boolean {
+    return this.inFlight;
+  }
+
+  /**
+   * Time to wait before capturing the next frame (ms)
+   */
+  get interval(): number {
+    const { minInterval, maxInterval, targetLoad } = this.options;
+    if (this.averageDuration === null) {
+      return minInterval;
+    }
+    return Math.max(minInterval, Math.min(maxInterval, this.averageDuration / targetLoad));
+  }
+
+  /**
+   * Claim the detector for a new frame
+   * @returns False if a detection is still running and the frame should be skipped
+   */
+  tryBegin(): boolean {
+    if (this.inFlight) {
+      this.skipped += 1;
+      return false;
+    }
+    this.inFlight = true;
+    return true;
+  }
+
+  /**
+   * Release the detector after a frame
+   * @param durationMs How long the detection took, or undefined if it didn't run
+   */
+  end(durationMs?: number): void {
+    this.inFlight = false;
+
+    if (durationMs !== undefined) {
+      this.averageDuration = this.averageDuration === null
+        ? durationMs
+        : DURATION_SMOOTHING * durationMs + (1 - DURATION_SMOOTHING) * this.averageDuration;
+    }
+  }
+
+  reset(): void {
+    this.inFlight = false;
+    this.averageDuration = null;
+    this.skipped = 0;
+  }
+}
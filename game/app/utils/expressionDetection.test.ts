@@ -0,0 +1,181 @@
+/**
+ * Tests for expressionDetection.ts
+ */
+
+import {
+  ExpressionDetector,
+  FaceMeasurements,
+  Point,
+  DEFAULT_FACE_BASELINE,
+  DEFAULT_FACE_BINDINGS,
+  FACE_ACTIONS,
+  deriveFaceBaseline,
+  eyeAspectRatio,
+  measureFace,
+  mouthAspectRatio,
+  parseFaceBindings,
+} from './expressionDetection';
+
+// Six eye landmarks of an eye `width` wide whose lids are `gap` apart
+const eye = (cx: number, cy: number, width: number, gap: number): Point[] => [
+  { x: cx - width / 2, y: cy },
+  { x: cx - width / 6, y: cy - gap / 2 },
+  { x: cx + width / 6, y: cy - gap / 2 },
+  { x: cx + width / 2, y: cy },
+  { x: cx + width / 6, y: cy + gap / 2 },
+  { x: cx - width / 6, y: cy + gap / 2 },
+];
+
+// Eight inner lip landmarks of a mouth `width` wide whose lips are `gap` apart
+const mouth = (cx: number, cy: number, width: number, gap: number): Point[] => [
+  { x: cx - width / 2, y: cy },
+  { x: cx - width / 4, y: cy - gap / 2 },
+  { x: cx, y: cy - gap / 2 },
+  { x: cx + width / 4, y: cy - gap / 2 },
+  { x: cx + width / 2, y: cy },
+  { x: cx + width / 4, y: cy + gap / 2 },
+  { x: cx, y: cy + gap / 2 },
+  { x: cx - width / 4, y: cy + gap / 2 },
+];
+
+// 68 landmarks for a face at the given scale; only the eyes and inner lips are placed
+const landmarks = (scale: number, eyeGap: number, mouthGap: number, rightEyeDrop = 0): Point[] => {
+  const points: Point[] = Array.from({ length: 68 }, () => ({ x: 0, y: 0 }));
+  points.splice(36, 6, ...eye(40 * scale, 50 * scale, 30 * scale, eyeGap * scale));
+  points.splice(42, 6, ...eye(100 * scale, (50 + rightEyeDrop) * scale, 30 * scale, eyeGap * scale));
+  points.splice(60, 8, ...mouth(70 * scale, 120 * scale, 40 * scale, mouthGap * scale));
+  return points;
+};
+
+const face = (overrides: Partial<FaceMeasurements> = {}): FaceMeasurements => ({
+  eyeAspectRatio: 0.3,
+  mouthAspectRatio: 0.05,
+  headRoll: 0,
+  happy: 0,
+  surprised: 0,
+  ...overrides,
+});
+
+describe('face measurements', () => {
+  it('should compute the eye aspect ratio from all six landmarks', () => {
+    expect(eyeAspectRatio(eye(0, 0, 30, 9))).toBeCloseTo(0.3);
+    expect(eyeAspectRatio(eye(0, 0, 30, 0))).toBe(0);
+  });
+
+  it('should compute the mouth aspect ratio from the inner lips', () => {
+    expect(mouthAspectRatio(mouth(0, 0, 40, 20))).toBeCloseTo(0.5);
+  });
+
+  it('should not depend on the size of the face in the frame', () => {
+    const near = measureFace(landmarks(2, 9, 4), { happy: 0, surprised: 0 });
+    const far = measureFace(landmarks(0.5, 9, 4), { happy: 0, surprised: 0 });
+
+    expect(near.eyeAspectRatio).toBeCloseTo(far.eyeAspectRatio);
+    expect(near.mouthAspectRatio).toBeCloseTo(far.mouthAspectRatio);
+  });
+
+  it('should measure head roll from the line between the eyes', () => {
+    expect(measureFace(landmarks(1, 9, 2), { happy: 0, surprised: 0 }).headRoll).toBeCloseTo(0);
+    // The eye on the right of the image is 60px across and 60px down: 45 degrees
+    expect(measureFace(landmarks(1, 9, 2, 60), { happy: 0, surprised: 0 }).headRoll).toBeCloseTo(45);
+  });
+});
+
+describe('deriveFaceBaseline', () => {
+  it('should take the median of the calibration frames', () => {
+    const samples = [0.28, 0.3, 0.05, 0.32, 0.3].map(eyeAspectRatio => face({ eyeAspectRatio }));
+
+    expect(deriveFaceBaseline(samples)?.eyeAspectRatio).toBe(0.3);
+  });
+
+  it('should reject too few frames or closed eyes', () => {
+    expect(deriveFaceBaseline([face(), face()])).toBeNull();
+    expect(deriveFaceBaseline(Array(10).fill(face({ eyeAspectRatio: 0.05 })))).toBeNull();
+  });
+});
+
+describe('ExpressionDetector', () => {
+  it('should fire a blink once until the eyes open again', () => {
+    const detector = new ExpressionDetector();
+    const closed = face({ eyeAspectRatio: 0.1 });
+
+    expect(detector.update(face())).toEqual([]);
+    expect(detector.update(closed)).toEqual(['blink']);
+    expect(detector.update(closed)).toEqual([]);
+    expect(detector.update(face())).toEqual([]);
+    expect(detector.update(closed)).toEqual(['blink']);
+  });
+
+  it('should stay active between the enter and exit levels', () => {
+    const detector = new ExpressionDetector();
+    detector.update(face({ eyeAspectRatio: 0.1 }));
+
+    // 0.21 is open enough not to start a blink, but not open enough to end one
+    expect(detector.update(face({ eyeAspectRatio: 0.21 }))).toEqual([]);
+    expect(detector.update(face({ eyeAspectRatio: 0.1 }))).toEqual([]);
+  });
+
+  it('should measure blinks against the baseline', () => {
+    // Narrow eyes that would always look closed against the default baseline
+    const detector = new ExpressionDetector({ ...DEFAULT_FACE_BASELINE, eyeAspectRatio: 0.18 });
+
+    expect(detector.update(face({ eyeAspectRatio: 0.17 }))).toEqual([]);
+    expect(detector.update(face({ eyeAspectRatio: 0.08 }))).toEqual(['blink']);
+  });
+
+  it('should need consecutive frames to confirm a smile', () => {
+    const detector = new ExpressionDetector();
+    const smiling = face({ happy: 0.9 });
+
+    expect(detector.update(smiling)).toEqual([]);
+    expect(detector.update(face())).toEqual([]);
+    expect(detector.update(smiling)).toEqual([]);
+    expect(detector.update(smiling)).toEqual(['smile']);
+  });
+
+  it('should detect open mouths, surprise and head tilts', () => {
+    const detector = new ExpressionDetector();
+    const frame = face({ mouthAspectRatio: 0.6, surprised: 0.8, headRoll: -20 });
+
+    detector.update(frame);
+    expect(detector.update(frame).sort()).toEqual(['headTiltRight', 'mouthOpen', 'surprised']);
+  });
+
+  it('should measure head tilt against the usual head position', () => {
+    const detector = new ExpressionDetector({ ...DEFAULT_FACE_BASELINE, headRoll: 10 });
+    const frame = face({ headRoll: 20 });
+
+    detector.update(frame);
+    expect(detector.update(frame)).toEqual([]);
+  });
+
+  it('should restart confirmation when the face is lost', () => {
+    const detector = new ExpressionDetector();
+    const smiling = face({ happy: 0.9 });
+
+    detector.update(smiling);
+    expect(detector.update(null)).toEqual([]);
+    expect(detector.update(smiling)).toEqual([]);
+    expect(detector.update(smiling)).toEqual(['smile']);
+  });
+});
+
+describe('parseFaceBindings', () => {
+  it('should keep known triggers and turned off actions', () => {
+    expect(parseFaceBindings({ shield: 'mouthOpen', slowMotion: null, jump: 'headTiltLeft' })).toEqual({
+      shield: 'mouthOpen',
+      slowMotion: null,
+      jump: 'headTiltLeft',
+    });
+  });
+
+  it('should give each action its own expression by default', () => {
+    const triggers = FACE_ACTIONS.map(action => DEFAULT_FACE_BINDINGS[action]);
+    expect(new Set(triggers).size).toBe(FACE_ACTIONS.length);
+  });
+
+  it('should fall back to the defaults for unknown values', () => {
+    expect(parseFaceBindings({ shield: 'wink' })).toEqual(DEFAULT_FACE_BINDINGS);
+    expect(parseFaceBindings('smile')).toEqual(DEFAULT_FACE_BINDINGS);
+  });
+});
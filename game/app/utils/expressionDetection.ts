@@ -0,0 +1,257 @@
+/**
+ * Expression detection - Scale-invariant face measurements and debounced expression triggers
+ *
+ * Measurements are ratios and angles, so they don't depend on camera
+ * resolution or distance from the camera. Each trigger compares its
+ * measurement with the player's neutral baseline, must hold for a few frames
+ * before it fires, and re-arms only once it falls back past a lower exit
+ * level (hysteresis), so one expression fires exactly once.
+ */
+
+import { AbilityId } from '../engine/abilities';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Per-frame measurements of one face
+export interface FaceMeasurements {
+  eyeAspectRatio: number; // Mean of both eyes; drops towards 0 as the eyes close
+  mouthAspectRatio: number; // Inner lip gap relative to mouth width
+  headRoll: number; // Tilt of the line between the eyes (degrees, positive towards the player's left shoulder)
+  happy: number; // Expression confidences (0-1) from the expression model
+  surprised: number;
+}
+
+// The player's neutral face
+export interface FaceBaseline {
+  eyeAspectRatio: number;
+  mouthAspectRatio: number;
+  headRoll: number;
+}
+
+export const DEFAULT_FACE_BASELINE: FaceBaseline = {
+  eyeAspectRatio: 0.3,
+  mouthAspectRatio: 0.05,
+  headRoll: 0,
+};
+
+export type FaceTrigger = 'smile' | 'blink' | 'surprised' | 'mouthOpen' | 'headTiltLeft' | 'headTiltRight';
+
+export const FACE_TRIGGERS: FaceTrigger[] = ['smile', 'blink', 'surprised', 'mouthOpen', 'headTiltLeft', 'headTiltRight'];
+
+export const FACE_TRIGGER_LABELS: Record<FaceTrigger, string> = {
+  smile: 'Smile',
+  blink: 'Blink',
+  surprised: 'Surprised face',
+  mouthOpen: 'Open mouth',
+  headTiltLeft: 'Tilt head left',
+  headTiltRight: 'Tilt head right',
+};
+
+interface TriggerRule {
+  // Strength of the expression relative to the baseline
+  measure: (face: FaceMeasurements, baseline: FaceBaseline) => number;
+  enter: number; // Strength at which the expression starts
+  exit: number; // Strength below which it has ended
+  confirmFrames: number; // Consecutive frames above `enter` before it fires
+}
+
+const TRIGGER_RULES: Record<FaceTrigger, TriggerRule> = {
+  smile: { measure: face => face.happy, enter: 0.7, exit: 0.4, confirmFrames: 2 },
+  surprised: { measure: face => face.surprised, enter: 0.7, exit: 0.4, confirmFrames: 2 },
+  // How far the eyes have closed compared with the open baseline; blinks are short, so one frame confirms
+  blink: {
+    measure: (face, baseline) => 1 - face.eyeAspectRatio / baseline.eyeAspectRatio,
+    enter: 0.4,
+    exit: 0.2,
+    confirmFrames: 1,
+  },
+  mouthOpen: {
+    measure: (face, baseline) => face.mouthAspectRatio - baseline.mouthAspectRatio,
+    enter: 0.35,
+    exit: 0.2,
+    confirmFrames: 2,
+  },
+  headTiltLeft: { measure: (face, baseline) => face.headRoll - baseline.headRoll, enter: 15, exit: 8, confirmFrames: 2 },
+  headTiltRight: { measure: (face, baseline) => baseline.headRoll - face.headRoll, enter: 15, exit: 8, confirmFrames: 2 },
+};
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+const centroid = (points: Point[]): Point => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+});
+
+/**
+ * Eye aspect ratio from the six eye landmarks
+ * @param eye Corner, two upper lid points, corner, two lower lid points (68-point order)
+ * @returns Lid opening relative to eye width
+ */
+export const eyeAspectRatio = (eye: Point[]): number => {
+  const [p1, p2, p3, p4, p5, p6] = eye;
+  const width = distance(p1, p4);
+  return width > 0 ? (distance(p2, p6) + distance(p3, p5)) / (2 * width) : 0;
+};
+
+/**
+ * Mouth aspect ratio from the eight inner lip landmarks
+ * @param mouth Inner lip points 60-67 of the 68-point model
+ * @returns Mean lip gap relative to mouth width
+ */
+export const mouthAspectRatio = (mouth: Point[]): number => {
+  const [corner, upper1, upper2, upper3, otherCorner, lower3, lower2, lower1] = mouth;
+  const width = distance(corner, otherCorner);
+  const gap = distance(upper1, lower1) + distance(upper2, lower2) + distance(upper3, lower3);
+  return width > 0 ? gap / (3 * width) : 0;
+};
+
+/**
+ * Measure a face from 68-point landmarks and expression confidences
+ * @param landmarks The 68 landmark positions
+ * @param expressions Expression confidences from the expression model
+ */
+export const measureFace = (
+  landmarks: Point[],
+  expressions: { happy: number; surprised: number }
+): FaceMeasurements => {
+  // Landmarks 36-41 are the eye on the left of the image (the player's right), 42-47 the other one
+  const imageLeftEye = landmarks.slice(36, 42);
+  const imageRightEye = landmarks.slice(42, 48);
+  const leftCenter = centroid(imageLeftEye);
+  const rightCenter = centroid(imageRightEye);
+
+  return {
+    eyeAspectRatio: (eyeAspectRatio(imageLeftEye) + eyeAspectRatio(imageRightEye)) / 2,
+    mouthAspectRatio: mouthAspectRatio(landmarks.slice(60, 68)),
+    headRoll: (Math.atan2(rightCenter.y - leftCenter.y, rightCenter.x - leftCenter.x) * 180) / Math.PI,
+    happy: expressions.happy,
+    surprised: expressions.surprised,
+  };
+};
+
+// Middle value, robust to the odd blink or glance during calibration
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Fewest frames that make a usable baseline
+const MIN_BASELINE_SAMPLES = 5;
+
+/**
+ * Derive the neutral baseline from frames of a relaxed face
+ * @param samples Measurements recorded during calibration
+ * @returns The baseline, or null if there were too few frames with a face or the eyes looked closed
+ */
+export const deriveFaceBaseline = (samples: FaceMeasurements[]): FaceBaseline | null => {
+  if (samples.length < MIN_BASELINE_SAMPLES) {
+    return null;
+  }
+
+  const baseline = {
+    eyeAspectRatio: median(samples.map(sample => sample.eyeAspectRatio)),
+    mouthAspectRatio: median(samples.map(sample => sample.mouthAspectRatio)),
+    headRoll: median(samples.map(sample => sample.headRoll)),
+  };
+
+  return baseline.eyeAspectRatio > 0.1 ? baseline : null;
+};
+
+interface TriggerState {
+  active: boolean; // Fired and not yet fallen below the exit level
+  frames: number; // Consecutive frames above the enter level
+}
+
+const createTriggerStates = (): Record<FaceTrigger, TriggerState> =>
+  Object.fromEntries(FACE_TRIGGERS.map(trigger => [trigger, { active: false, frames: 0 }])) as Record<
+    FaceTrigger,
+    TriggerState
+  >;
+
+export class ExpressionDetector {
+  baseline: FaceBaseline;
+
+  private states = createTriggerStates();
+
+  constructor(baseline: FaceBaseline = DEFAULT_FACE_BASELINE) {
+    this.baseline = baseline;
+  }
+
+  /**
+   * Feed the measurements of one frame
+   * @param face Measurements, or null if no face was found
+   * @returns Expressions that started on this frame
+   */
+  update(face: FaceMeasurements | null): FaceTrigger[] {
+    if (!face) {
+      // Losing the face breaks any confirmation in progress
+      this.states = createTriggerStates();
+      return [];
+    }
+
+    const started: FaceTrigger[] = [];
+
+    for (const trigger of FACE_TRIGGERS) {
+      const rule = TRIGGER_RULES[trigger];
+      const state = this.states[trigger];
+      const strength = rule.measure(face, this.baseline);
+
+      if (state.active) {
+        if (strength < rule.exit) {
+          state.active = false;
+          state.frames = 0;
+        }
+        continue;
+      }
+
+      state.frames = strength >= rule.enter ? state.frames + 1 : 0;
+      if (state.frames >= rule.confirmFrames) {
+        state.active = true;
+        started.push(trigger);
+      }
+    }
+
+    return started;
+  }
+
+  reset(): void {
+    this.states = createTriggerStates();
+  }
+}
+
+// What each face action is triggered by; null turns the action off
+export type FaceAction = AbilityId | 'jump';
+
+export type FaceBindings = Record<FaceAction, FaceTrigger | null>;
+
+export const FACE_ACTIONS: FaceAction[] = ['shield', 'slowMotion', 'jump'];
+
+export const DEFAULT_FACE_BINDINGS: FaceBindings = {
+  shield: 'smile',
+  slowMotion: 'blink',
+  jump: 'mouthOpen', // Deliberate, unlike blinks that also happen on their own
+};
+
+/**
+ * Check bindings read from settings
+ * @param value Untrusted value
+ * @returns Bindings with unknown or missing entries replaced by the defaults
+ */
+export const parseFaceBindings = (value: unknown): FaceBindings => {
+  const bindings = { ...DEFAULT_FACE_BINDINGS };
+  if (typeof value !== 'object' || value === null) {
+    return bindings;
+  }
+
+  for (const action of FACE_ACTIONS) {
+    const trigger = (value as Record<string, unknown>)[action];
+    if (trigger === null || FACE_TRIGGERS.includes(trigger as FaceTrigger)) {
+      bindings[action] = trigger as FaceTrigger | null;
+    }
+  }
+  return bindings;
+};
@@ -0,0 +1,60 @@
+/**
+ * Face detection - Model loading and face measurement shared by the worker and the main-thread fallback
+ */
+
+import * as faceapi from 'face-api.js';
+import { FaceMeasurements, measureFace } from './expressionDetection';
+import { FACE_MODEL_URL, cachedFetch } from './faceModelCache';
+
+// tf.io.loadWeights fetches shards itself, so weights go through a loader that reads the model cache
+const loadCachedWeights = faceapi.tf.io.weightsLoaderFactory(urls =>
+  Promise.all(urls.map(async url => (await cachedFetch(url)).arrayBuffer()))
+);
+
+/**
+ * Load one network's weights from the model cache or the network
+ * @param net Network to load
+ * @param modelName File name prefix of the model
+ * @param modelUrl Where the model files are served
+ */
+const loadNet = async (net: faceapi.NeuralNetwork<unknown>, modelName: string, modelUrl: string) => {
+  const response = await cachedFetch(`${modelUrl}/${modelName}-weights_manifest.json`);
+  if (!response.ok) {
+    throw new Error(`Could not fetch the ${modelName} manifest (HTTP ${response.status})`);
+  }
+  net.loadFromWeightMap(await loadCachedWeights(await response.json(), modelUrl));
+};
+
+/**
+ * Load the face detection models
+ * @param modelUrl Where the model files are served
+ * @returns Whether the models loaded
+ */
+export const loadFaceModels = async (modelUrl: string = FACE_MODEL_URL): Promise<boolean> => {
+  try {
+    await Promise.all([
+      loadNet(faceapi.nets.tinyFaceDetector, 'tiny_face_detector_model', modelUrl),
+      loadNet(faceapi.nets.faceLandmark68Net, 'face_landmark_68_model', modelUrl),
+      loadNet(faceapi.nets.faceExpressionNet, 'face_expression_model', modelUrl),
+    ]);
+
+    return true;
+  } catch (error) {
+    console.error('Error loading face-api models:', error);
+    return false;
+  }
+};
+
+/**
+ * Measure the first face in an image
+ * @param input Video, canvas or OffscreenCanvas holding the frame
+ * @returns Measurements of the face, or null if there is no face
+ */
+export const detectFaceMeasurements = async (input: faceapi.TNetInput): Promise<FaceMeasurements | null> => {
+  const detection = await faceapi
+    .detectSingleFace(input, new faceapi.TinyFaceDetectorOptions())
+    .withFaceLandmarks()
+    .withFaceExpressions();
+
+  return detection ? measureFace(detection.landmarks.positions, detection.expressions) : null;
+};
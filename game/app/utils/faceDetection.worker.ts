@@ -0,0 +1,75 @@
+/**
+ * Face detection worker - Runs face-api.js off the main thread on frames sent as ImageBitmaps
+ */
+
+import * as faceapi from 'face-api.js';
+import { loadFaceModels, detectFaceMeasurements } from './faceDetection';
+import { FaceWorkerRequest, FaceWorkerResponse } from './faceWorkerProtocol';
+
+// The parts of DedicatedWorkerGlobalScope used here (the DOM typings don't include it)
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<FaceWorkerRequest>) => void) | null;
+  postMessage(message: FaceWorkerResponse): void;
+  fetch: typeof fetch;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// face-api.js expects a DOM; give it OffscreenCanvas instead
+const unavailable = () => {
+  throw new Error('Not available in the face detection worker');
+};
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D,
+  Image: OffscreenCanvas,
+  ImageData,
+  Video: OffscreenCanvas,
+  createCanvasElement: () => new OffscreenCanvas(1, 1),
+  createImageElement: unavailable,
+  fetch: (url: string, init?: RequestInit) => scope.fetch(url, init),
+  readFile: unavailable,
+} as unknown as faceapi.Environment);
+
+// Frames are drawn onto one reused canvas
+let canvas: OffscreenCanvas | null = null;
+let busy = false;
+
+const analyseFrame = async (id: number, bitmap: ImageBitmap) => {
+  // Never queue frames behind a slow detection
+  if (busy) {
+    bitmap.close();
+    scope.postMessage({ type: 'skipped', id });
+    return;
+  }
+  busy = true;
+
+  try {
+    if (!canvas || canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+      canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    }
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+
+    const start = performance.now();
+    const measurements = await detectFaceMeasurements(canvas as unknown as faceapi.TNetInput);
+    scope.postMessage({ type: 'result', id, durationMs: performance.now() - start, measurements });
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: String(error) });
+  } finally {
+    bitmap.close();
+    busy = false;
+  }
+};
+
+scope.onmessage = async ({ data }) => {
+  switch (data.type) {
+    case 'init': {
+      const loaded = await loadFaceModels(data.modelUrl);
+      scope.postMessage(loaded ? { type: 'ready' } : { type: 'error', message: 'Could not load face models' });
+      break;
+    }
+    case 'frame':
+      await analyseFrame(data.id, data.bitmap);
+      break;
+  }
+};
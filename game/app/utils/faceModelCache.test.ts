@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for faceModelCache.ts
+ */
+
+import {
+  FaceModelManifest,
+  ModelFileProgress,
+  areFaceModelsCached,
+  cachedFetch,
+  downloadFaceModels,
+  sha256Hex,
+} from './faceModelCache';
+import shippedManifest from '../../public/models/face-models.json';
+
+// Cache Storage backed by a map, keyed by URL
+const createCaches = () => {
+  const entries = new Map<string, ArrayBuffer>();
+  const cache = {
+    match: jest.fn(async (url: string) => (entries.has(url) ? new Response(entries.get(url)) : undefined)),
+    put: jest.fn(async (url: string, response: Response) => {
+      entries.set(url, await response.arrayBuffer());
+    }),
+  };
+  return { entries, storage: { open: jest.fn(async () => cache), delete: jest.fn() } };
+};
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+// Serve the given files by URL; everything else is a 404
+const serve = (files: Record<string, string>) =>
+  jest.fn(async (url: string) =>
+    url in files
+      ? new Response(files[url], { headers: { 'Content-Length': String(files[url].length) } })
+      : new Response(null, { status: 404 })
+  ) as unknown as typeof fetch;
+
+let caches: ReturnType<typeof createCaches>;
+let manifest: FaceModelManifest;
+
+beforeEach(async () => {
+  caches = createCaches();
+  Object.assign(globalThis, { caches: caches.storage });
+  manifest = {
+    mirror: 'https://mirror.example/weights',
+    files: [
+      { name: 'model-weights_manifest.json', sha256: await sha256Hex(encode('[]')) },
+      { name: 'model-shard1', sha256: await sha256Hex(encode('weights')) },
+    ],
+  };
+});
+
+describe('downloadFaceModels', () => {
+  it('should verify and cache every file, reporting progress', async () => {
+    global.fetch = serve({ '/models/model-weights_manifest.json': '[]', '/models/model-shard1': 'weights' });
+    const updates: ModelFileProgress[][] = [];
+
+    expect(await downloadFaceModels(manifest, progress => updates.push(progress))).toBe(true);
+
+    expect([...caches.entries.keys()]).toEqual(['/models/model-weights_manifest.json', '/models/model-shard1']);
+    const final = updates[updates.length - 1];
+    expect(final.map(file => file.status)).toEqual(['verified', 'verified']);
+    expect(final[1]).toMatchObject({ loaded: 7, total: 7 });
+    expect(updates.some(progress => progress[1].status === 'downloading')).toBe(true);
+  });
+
+  it('should fall back to the mirror for files the app does not serve', async () => {
+    global.fetch = serve({
+      '/models/model-weights_manifest.json': '[]',
+      'https://mirror.example/weights/model-shard1': 'weights',
+    });
+
+    expect(await downloadFaceModels(manifest)).toBe(true);
+    expect(caches.entries.has('/models/model-shard1')).toBe(true);
+  });
+
+  it('should reject files that do not match their hash', async () => {
+    global.fetch = serve({ '/models/model-weights_manifest.json': '[]', '/models/model-shard1': 'tampered' });
+    let final: ModelFileProgress[] = [];
+
+    expect(await downloadFaceModels(manifest, progress => (final = progress))).toBe(false);
+
+    expect(caches.entries.has('/models/model-shard1')).toBe(false);
+    expect(final[1]).toMatchObject({ status: 'failed', error: 'Checksum mismatch' });
+  });
+
+  it('should refuse files without a pinned hash', async () => {
+    global.fetch = serve({ '/models/model-weights_manifest.json': '[]', '/models/model-shard1': 'weights' });
+    manifest.files[1].sha256 = null;
+
+    expect(await downloadFaceModels(manifest)).toBe(false);
+    expect(caches.entries.has('/models/model-shard1')).toBe(false);
+  });
+
+  it('should not download cached files again', async () => {
+    global.fetch = serve({ '/models/model-weights_manifest.json': '[]', '/models/model-shard1': 'weights' });
+    await downloadFaceModels(manifest);
+    (global.fetch as jest.Mock).mockClear();
+
+    expect(await downloadFaceModels(manifest)).toBe(true);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('face-models.json', () => {
+  it('should pin a SHA-256 hash for every model file', () => {
+    expect(shippedManifest.files).toHaveLength(6);
+    shippedManifest.files.forEach(file => expect(file.sha256).toMatch(/^[0-9a-f]{64}$/));
+  });
+});
+
+describe('areFaceModelsCached', () => {
+  it('should only be true once every file is cached', async () => {
+    expect(await areFaceModelsCached(manifest)).toBe(false);
+
+    caches.entries.set('/models/model-weights_manifest.json', encode('[]'));
+    expect(await areFaceModelsCached(manifest)).toBe(false);
+
+    caches.entries.set('/models/model-shard1', encode('weights'));
+    expect(await areFaceModelsCached(manifest)).toBe(true);
+  });
+});
+
+describe('cachedFetch', () => {
+  it('should answer from the cache before the network', async () => {
+    global.fetch = serve({ '/models/model-shard1': 'network' });
+    caches.entries.set('/models/model-shard1', encode('cached'));
+
+    expect(await (await cachedFetch('/models/model-shard1')).text()).toBe('cached');
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(await (await cachedFetch('/models/other')).status).toBe(404);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Face model cache - Downloads the face-api.js models, checks them against the pinned SHA-256 hashes
+ * and keeps them in Cache Storage, so they are fetched once per browser
+ *
+ * Shared by the main thread and the detection worker: both load the models
+ * through cachedFetch, which answers from the cache before the network.
+ */
+
+// Where the app serves the models, and the URLs they are cached under
+export const FACE_MODEL_URL = '/models';
+
+// Pinned hashes, written by scripts/install-face-models.js
+const MANIFEST_URL = `${FACE_MODEL_URL}/face-models.json`;
+
+// Bump to drop models cached by older versions
+export const FACE_MODEL_CACHE = 'flappyBird-face-models-v1';
+
+export interface FaceModelFile {
+  name: string;
+  sha256: string | null; // Null until pinned
+}
+
+export interface FaceModelManifest {
+  mirror: string; // Public copy of the models, used when the app doesn't serve them
+  files: FaceModelFile[];
+}
+
+const CHECKSUM_MISMATCH = 'Checksum mismatch';
+
+export type ModelFileStatus = 'pending' | 'downloading' | 'verified' | 'failed';
+
+export interface ModelFileProgress {
+  name: string;
+  status: ModelFileStatus;
+  loaded: number; // Bytes received
+  total: number | null; // Bytes expected, if the server said
+  error?: string;
+}
+
+/**
+ * Hex SHA-256 of a buffer
+ */
+export const sha256Hex = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Load the pinned manifest
+ * @returns The manifest, or null if it can't be fetched
+ */
+export const fetchModelManifest = async (): Promise<FaceModelManifest | null> => {
+  try {
+    const response = await fetch(MANIFEST_URL, { cache: 'no-cache' });
+    return response.ok ? await response.json() : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Read a response body, reporting bytes as they arrive
+ * @param response Response to read
+ * @param onBytes Called with the bytes received so far
+ */
+const readWithProgress = async (response: Response, onBytes: (loaded: number) => void): Promise<ArrayBuffer> => {
+  if (!response.body) {
+    const buffer = await response.arrayBuffer();
+    onBytes(buffer.byteLength);
+    return buffer;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    onBytes(loaded);
+  }
+
+  const buffer = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return buffer.buffer;
+};
+
+/**
+ * Whether every model is already cached
+ * @param manifest Files to look for
+ */
+export const areFaceModelsCached = async (manifest: FaceModelManifest): Promise<boolean> => {
+  if (typeof caches === 'undefined') {
+    return false;
+  }
+  const cache = await caches.open(FACE_MODEL_CACHE);
+  const matches = await Promise.all(manifest.files.map(file => cache.match(`${FACE_MODEL_URL}/${file.name}`)));
+  return matches.every(Boolean);
+};
+
+/**
+ * Download, verify and cache every model file
+ * @param manifest Files and their pinned hashes
+ * @param onProgress Called with the state of every file whenever one changes
+ * @returns Whether every file is now cached
+ */
+export const downloadFaceModels = async (
+  manifest: FaceModelManifest,
+  onProgress?: (progress: ModelFileProgress[]) => void
+): Promise<boolean> => {
+  const progress: ModelFileProgress[] = manifest.files.map(file => ({
+    name: file.name,
+    status: 'pending',
+    loaded: 0,
+    total: null,
+  }));
+  const update = (index: number, changes: Partial<ModelFileProgress>) => {
+    progress[index] = { ...progress[index], ...changes };
+    onProgress?.([...progress]);
+  };
+
+  const cache = await caches.open(FACE_MODEL_CACHE);
+  // The app's own copy first, then the public mirror
+  const sources = [FACE_MODEL_URL, manifest.mirror];
+
+  // One file at a time keeps the progress readable and the bandwidth on the current file
+  for (const [index, file] of manifest.files.entries()) {
+    const cacheUrl = `${FACE_MODEL_URL}/${file.name}`;
+
+    if (!file.sha256) {
+      update(index, { status: 'failed', error: 'No hash pinned; run npm run models:install -- --pin' });
+      continue;
+    }
+
+    if (await cache.match(cacheUrl)) {
+      update(index, { status: 'verified' });
+      continue;
+    }
+
+    const failures: string[] = [];
+    for (const source of sources) {
+      try {
+        const response = await fetch(`${source}/${file.name}`);
+        if (!response.ok) {
+          failures.push(`HTTP ${response.status}`);
+          continue;
+        }
+
+        const length = Number(response.headers.get('Content-Length'));
+        update(index, { status: 'downloading', loaded: 0, total: length > 0 ? length : null });
+        const data = await readWithProgress(response, loaded => update(index, { loaded }));
+
+        if ((await sha256Hex(data)) !== file.sha256) {
+          failures.push(CHECKSUM_MISMATCH);
+          continue;
+        }
+
+        await cache.put(cacheUrl, new Response(data, { headers: { 'Content-Type': 'application/octet-stream' } }));
+        update(index, { status: 'verified', loaded: data.byteLength, total: data.byteLength, error: undefined });
+        break;
+      } catch (err) {
+        failures.push(String(err));
+      }
+    }
+
+    if (progress[index].status !== 'verified') {
+      // A tampered file matters more than a missing one
+      update(index, { status: 'failed', error: failures.find(failure => failure === CHECKSUM_MISMATCH) ?? failures[0] });
+    }
+  }
+
+  return progress.every(file => file.status === 'verified');
+};
+
+/**
+ * Fetch that answers model requests from the cache before the network
+ * @param url Requested URL
+ * @param init Request options
+ */
+export const cachedFetch = async (url: string, init?: RequestInit): Promise<Response> => {
+  if (typeof caches !== 'undefined') {
+    const cache = await caches.open(FACE_MODEL_CACHE);
+    const cached = await cache.match(url);
+    if (cached) {
+      return cached;
+    }
+  }
+  return fetch(url, init);
+};
@@ -2,21 +2,41 @@
  * Face detection and expression recognition utilities
  * Note: This uses the face-api.js library which needs to be installed:
  * npm install face-api.js
+ *
+ * Detection runs in a Web Worker on frames sent as ImageBitmaps, so it never
+ * blocks the game loop. Browsers without workers or OffscreenCanvas fall back
+ * to detecting on the main thread at the same adaptive rate.
  */
 
-import * as faceapi from 'face-api.js';
+import { loadFaceModels, detectFaceMeasurements } from './faceDetection';
+import { FACE_MODEL_URL } from './faceModelCache';
+import {
+  ExpressionDetector,
+  FaceBaseline,
+  FaceMeasurements,
+  FaceTrigger,
+  DEFAULT_FACE_BASELINE,
+} from './expressionDetection';
+import { FaceWorkerResponse } from './faceWorkerProtocol';
+import { DetectionScheduler } from './detectionScheduler';
+
+// Where the neutral face baseline is kept between sessions
+const BASELINE_STORAGE_KEY = 'flappyBirdFaceBaseline';
 
 // Face recognition states
 interface FaceManager {
   isInitialized: boolean;
   videoElement: HTMLVideoElement | null;
   stream: MediaStream | null;
-  detectionInterval: number | null;
-  onSmileDetected: (() => void) | null;
-  onBlinkDetected: (() => void) | null;
-  lastSmileTime: number;
-  lastBlinkTime: number;
-  minExpressionInterval: number; // Minimum ms between expression triggers
+  detectionTimer: number | null;
+  worker: Worker | null;
+  scheduler: DetectionScheduler;
+  frameId: number; // Id of the latest frame sent to the worker
+  detector: ExpressionDetector;
+  onExpression: ((trigger: FaceTrigger) => void) | null;
+  onMeasurements: ((measurements: FaceMeasurements | null) => void) | null; // Raw frames, e.g. for calibration
+  lastTriggerTimes: Partial<Record<FaceTrigger, number>>; // When each expression last fired (ms)
+  minExpressionInterval: number; // Minimum ms between triggers of the same expression
 }
 
 // Face manager singleton
@@ -24,58 +44,83 @@ export const faceManager: FaceManager = {
   isInitialized: false,
   videoElement: null,
   stream: null,
-  detectionInterval: null,
-  onSmileDetected: null,
-  onBlinkDetected: null,
-  lastSmileTime: 0,
-  lastBlinkTime: 0,
+  detectionTimer: null,
+  worker: null,
+  scheduler: new DetectionScheduler(),
+  frameId: 0,
+  detector: new ExpressionDetector(),
+  onExpression: null,
+  onMeasurements: null,
+  lastTriggerTimes: {},
   minExpressionInterval: 1000, // 1 second between triggers to prevent rapid firing
 };
 
 /**
- * Load face recognition models
+ * Whether detection can run in a worker on this browser
  */
-const loadModels = async () => {
+export const supportsWorkerDetection = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+/**
+ * Start the detection worker and load the models in it
+ * @returns The ready worker, or null if it could not start
+ */
+const startWorker = async (): Promise<Worker | null> => {
   try {
-    // Load models from the public directory
-    const MODEL_URL = '/models';
-    
-    await Promise.all([
-      faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
-      faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
-      faceapi.nets.faceExpressionNet.loadFromUri(MODEL_URL),
-    ]);
-    
-    return true;
+    const { createFaceWorker } = await import('./createFaceWorker');
+    const worker = createFaceWorker();
+
+    const ready = await new Promise<boolean>((resolve) => {
+      worker.onmessage = ({ data }: MessageEvent<FaceWorkerResponse>) => {
+        resolve(data.type === 'ready');
+      };
+      worker.onerror = () => resolve(false);
+      worker.postMessage({ type: 'init', modelUrl: FACE_MODEL_URL });
+    });
+
+    if (!ready) {
+      worker.terminate();
+      return null;
+    }
+
+    worker.onmessage = ({ data }: MessageEvent<FaceWorkerResponse>) => handleWorkerMessage(data);
+    worker.onerror = (error) => {
+      console.warn('Face detection worker error:', error);
+      faceManager.scheduler.end();
+    };
+    return worker;
   } catch (error) {
-    console.error('Error loading face-api models:', error);
-    return false;
+    console.warn('Face detection worker unavailable, detecting on the main thread:', error);
+    return null;
   }
 };
 
 /**
  * Initialize face detection
  * @param videoElement The video element to use for face detection
- * @param onSmileDetected Callback when smile is detected
- * @param onBlinkDetected Callback when blink is detected
+ * @param onExpression Callback when an expression starts
  */
 export const initFaceDetection = async (
   videoElement: HTMLVideoElement,
-  onSmileDetected?: () => void,
-  onBlinkDetected?: () => void
+  onExpression?: (trigger: FaceTrigger) => void
 ): Promise<boolean> => {
   try {
     // If already initialized, clean up first
     if (faceManager.isInitialized) {
       cleanupFaceDetection();
     }
-    
-    // Load models if not already loaded
-    const modelsLoaded = await loadModels();
-    if (!modelsLoaded) {
-      return false;
+
+    // Prefer the worker; the main thread needs the models only as a fallback
+    const worker = supportsWorkerDetection() ? await startWorker() : null;
+    if (!worker) {
+      const modelsLoaded = await loadFaceModels();
+      if (!modelsLoaded) {
+        return false;
+      }
     }
-    
+
     // Get camera stream
     const stream = await navigator.mediaDevices.getUserMedia({
       video: {
@@ -84,7 +129,7 @@ export const initFaceDetection = async (
         height: { ideal: 240 }
       }
     });
-    
+
     // Set up video element
     videoElement.srcObject = stream;
     await new Promise<void>((resolve) => {
@@ -93,19 +138,20 @@ export const initFaceDetection = async (
         resolve();
       };
     });
-    
-    // Set callback functions
-    faceManager.onSmileDetected = onSmileDetected || null;
-    faceManager.onBlinkDetected = onBlinkDetected || null;
-    
+
+    // Set callback function
+    faceManager.onExpression = onExpression || null;
+    faceManager.detector.reset();
+
     // Store references
     faceManager.videoElement = videoElement;
     faceManager.stream = stream;
+    faceManager.worker = worker;
     faceManager.isInitialized = true;
-    
+
     // Start detection loop
     startDetectionLoop();
-    
+
     return true;
   } catch (error) {
     console.error('Error initializing face detection:', error);
@@ -113,98 +159,191 @@ export const initFaceDetection = async (
   }
 };
 
+/**
+ * Run a frame's measurements through the detector and trigger the expressions that started
+ * @param measurements Measurements of the face, or null if there was none
+ */
+const handleMeasurements = (measurements: FaceMeasurements | null) => {
+  faceManager.onMeasurements?.(measurements);
+
+  const now = Date.now();
+  for (const trigger of faceManager.detector.update(measurements)) {
+    if (now - (faceManager.lastTriggerTimes[trigger] ?? 0) > faceManager.minExpressionInterval) {
+      // Expressions are also polled as jump input
+      faceManager.lastTriggerTimes[trigger] = now;
+      faceManager.onExpression?.(trigger);
+    }
+  }
+};
+
+const handleWorkerMessage = (message: FaceWorkerResponse) => {
+  switch (message.type) {
+    case 'result':
+      // Results for frames from before a restart are stale
+      if (message.id === faceManager.frameId) {
+        faceManager.scheduler.end(message.durationMs);
+        handleMeasurements(message.measurements);
+      }
+      break;
+    case 'skipped':
+      if (message.id === faceManager.frameId) {
+        faceManager.scheduler.end();
+      }
+      break;
+    case 'error':
+      console.warn('Face detection error:', message.message);
+      faceManager.scheduler.end();
+      break;
+  }
+};
+
+/**
+ * Analyse the current video frame, unless the previous one is still being analysed
+ */
+const detectFrame = async () => {
+  const { videoElement, worker, scheduler } = faceManager;
+  if (!videoElement || !faceManager.isInitialized || !scheduler.tryBegin()) {
+    return;
+  }
+
+  try {
+    if (worker) {
+      // The worker reports back through handleWorkerMessage
+      const bitmap = await createImageBitmap(videoElement);
+      faceManager.frameId += 1;
+      worker.postMessage({ type: 'frame', id: faceManager.frameId, bitmap }, [bitmap]);
+      return;
+    }
+
+    const start = performance.now();
+    const measurements = await detectFaceMeasurements(videoElement);
+    scheduler.end(performance.now() - start);
+    handleMeasurements(measurements);
+  } catch (error) {
+    scheduler.end();
+    console.warn('Face detection error:', error);
+  }
+};
+
 /**
  * Start the face detection loop
  */
 const startDetectionLoop = () => {
-  // Clear any existing interval
-  if (faceManager.detectionInterval !== null) {
-    clearInterval(faceManager.detectionInterval);
+  // Clear any existing timer
+  if (faceManager.detectionTimer !== null) {
+    clearTimeout(faceManager.detectionTimer);
   }
-  
-  // Set up detection interval (every 100ms)
-  faceManager.detectionInterval = window.setInterval(async () => {
-    if (!faceManager.videoElement || !faceManager.isInitialized) {
+  faceManager.scheduler.reset();
+
+  // Each capture schedules the next one at the scheduler's current rate
+  const tick = () => {
+    if (!faceManager.isInitialized) {
       return;
     }
-    
+    detectFrame();
+    faceManager.detectionTimer = window.setTimeout(tick, faceManager.scheduler.interval);
+  };
+  tick();
+};
+
+/**
+ * Record measurements from the running face detection
+ * @param durationMs How long to record
+ * @param onSample Called with each frame, e.g. to show whether a face is in view
+ * @returns Measurements of the frames that had a face
+ */
+export const sampleFaceMeasurements = (
+  durationMs: number,
+  onSample?: (measurements: FaceMeasurements | null) => void
+): Promise<FaceMeasurements[]> => {
+  return new Promise(resolve => {
+    const samples: FaceMeasurements[] = [];
+    faceManager.onMeasurements = measurements => {
+      if (measurements) {
+        samples.push(measurements);
+      }
+      onSample?.(measurements);
+    };
+
+    setTimeout(() => {
+      faceManager.onMeasurements = null;
+      resolve(samples);
+    }, durationMs);
+  });
+};
+
+/**
+ * Apply a neutral face baseline and remember it for future sessions
+ * @param baseline Baseline from deriveFaceBaseline
+ */
+export const setFaceBaseline = (baseline: FaceBaseline): void => {
+  faceManager.detector.baseline = baseline;
+  faceManager.detector.reset();
+  localStorage.setItem(BASELINE_STORAGE_KEY, JSON.stringify(baseline));
+};
+
+/**
+ * Restore the saved baseline, if any
+ * @returns The baseline now in use
+ */
+export const loadFaceBaseline = (): FaceBaseline => {
+  const saved = localStorage.getItem(BASELINE_STORAGE_KEY);
+  if (saved) {
     try {
-      // Detect faces
-      const detections = await faceapi.detectAllFaces(
-        faceManager.videoElement,
-        new faceapi.TinyFaceDetectorOptions()
-      )
-      .withFaceLandmarks()
-      .withFaceExpressions();
-      
-      // Process detected faces
-      if (detections.length > 0) {
-        const detection = detections[0]; // Use first face detected
-        
-        // Check for smile
-        if (faceManager.onSmileDetected && 
-            detection.expressions.happy > 0.7 && 
-            Date.now() - faceManager.lastSmileTime > faceManager.minExpressionInterval) {
-          
-          faceManager.lastSmileTime = Date.now();
-          faceManager.onSmileDetected();
-        }
-        
-        // Check for blink by analyzing eye landmarks
-        if (faceManager.onBlinkDetected && detection.landmarks) {
-          const landmarks = detection.landmarks.positions;
-          
-          // Eye landmarks
-          const leftEyeTop = landmarks[37].y;
-          const leftEyeBottom = landmarks[41].y;
-          const rightEyeTop = landmarks[43].y;
-          const rightEyeBottom = landmarks[47].y;
-          
-          // Calculate eye openness
-          const leftEyeOpenness = leftEyeBottom - leftEyeTop;
-          const rightEyeOpenness = rightEyeBottom - rightEyeTop;
-          
-          // If eyes are almost closed, trigger blink
-          if (leftEyeOpenness < 2 && rightEyeOpenness < 2 && 
-              Date.now() - faceManager.lastBlinkTime > faceManager.minExpressionInterval) {
-            
-            faceManager.lastBlinkTime = Date.now();
-            faceManager.onBlinkDetected();
-          }
-        }
+      const { eyeAspectRatio, mouthAspectRatio, headRoll } = JSON.parse(saved);
+      if (eyeAspectRatio > 0 && mouthAspectRatio >= 0 && Math.abs(headRoll) < 90) {
+        faceManager.detector.baseline = { eyeAspectRatio, mouthAspectRatio, headRoll };
       }
-    } catch (error) {
-      console.warn('Face detection error:', error);
+    } catch (err) {
+      localStorage.removeItem(BASELINE_STORAGE_KEY);
     }
-  }, 100);
+  }
+  return faceManager.detector.baseline;
+};
+
+/**
+ * Go back to the default baseline
+ */
+export const resetFaceBaseline = (): void => {
+  faceManager.detector.baseline = DEFAULT_FACE_BASELINE;
+  faceManager.detector.reset();
+  localStorage.removeItem(BASELINE_STORAGE_KEY);
 };
 
 /**
  * Clean up face detection resources
  */
 export const cleanupFaceDetection = () => {
-  // Stop detection interval
-  if (faceManager.detectionInterval !== null) {
-    clearInterval(faceManager.detectionInterval);
-    faceManager.detectionInterval = null;
+  // Stop detection timer
+  if (faceManager.detectionTimer !== null) {
+    clearTimeout(faceManager.detectionTimer);
+    faceManager.detectionTimer = null;
+  }
+
+  // Stop the worker
+  if (faceManager.worker) {
+    faceManager.worker.terminate();
+    faceManager.worker = null;
   }
-  
+  faceManager.scheduler.reset();
+
   // Stop camera stream
   if (faceManager.stream) {
     faceManager.stream.getTracks().forEach(track => track.stop());
     faceManager.stream = null;
   }
-  
+
   // Reset video element
   if (faceManager.videoElement) {
     faceManager.videoElement.srcObject = null;
     faceManager.videoElement = null;
   }
-  
+
   // Reset callback functions
-  faceManager.onSmileDetected = null;
-  faceManager.onBlinkDetected = null;
-  
+  faceManager.onExpression = null;
+  faceManager.onMeasurements = null;
+  faceManager.detector.reset();
+
   // Reset state
   faceManager.isInitialized = false;
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,17 @@
+/**
+ * Messages exchanged with the face detection worker
+ */
+
+import { FaceMeasurements } from './expressionDetection';
+
+export type FaceWorkerRequest =
+  | { type: 'init'; modelUrl: string }
+  | { type: 'frame'; id: number; bitmap: ImageBitmap };
+
+export type FaceWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  // Measurements are null when no face was found in the frame
+  | { type: 'result'; id: number; durationMs: number; measurements: FaceMeasurements | null }
+  // The worker was still busy, so the frame was dropped
+  | { type: 'skipped'; id: number };
@@ -0,0 +1,96 @@
+/**
+ * Tests for levelEditor.ts
+ */
+
+import {
+  createEmptyLevel,
+  createEntry,
+  editorField,
+  entryBounds,
+  entryFields,
+  exportLevel,
+  hitTest,
+  importLevel,
+  levelFrom,
+  moveEntry,
+  resizeEntry,
+  sortObstacles,
+} from './levelEditor';
+import { Level, validateLevel } from '../engine/levels';
+import { ObstacleType } from '../engine/obstacles';
+
+const field = { gameWidth: 800, gameHeight: 600, groundHeight: 50 };
+
+const level = (): Level => ({
+  ...createEmptyLevel(),
+  length: 2000,
+  sections: [{ distance: 0, speed: 200 }, { distance: 1000, speed: 300 }],
+  obstacles: [
+    { type: ObstacleType.SPIKE, distance: 300, y: 510, width: 30, height: 40 },
+    { type: ObstacleType.COLLAPSING_BRIDGE, distance: 1200 },
+  ],
+  cues: [{ distance: 0, cue: 'intro' }, { distance: 1500, cue: 'finale' }],
+});
+
+describe('levelEditor', () => {
+  it('should start from a valid empty level', () => {
+    expect(validateLevel(createEmptyLevel()).ok).toBe(true);
+  });
+
+  it('should write out the fields each obstacle type uses', () => {
+    expect(entryFields(ObstacleType.SPIKE)).toEqual(['y', 'width', 'height']);
+    expect(entryFields(ObstacleType.COLLAPSING_BRIDGE)).toEqual(
+      expect.arrayContaining(['integrity', 'collapseDelay'])
+    );
+
+    const entry = createEntry(ObstacleType.MOVING_SPIKE, 450.4, editorField(level(), 800));
+    expect(entry).toMatchObject({ type: ObstacleType.MOVING_SPIKE, distance: 450 });
+    expect(entry.speed).toBeGreaterThan(0);
+    expect(entry.direction).toBeDefined();
+    expect(validateLevel({ ...level(), obstacles: [entry] }).ok).toBe(true);
+  });
+
+  it('should find obstacles and their resize handle under the pointer', () => {
+    expect(hitTest(level(), field, 310, 520)).toEqual({ index: 0, handle: 'move' });
+    expect(hitTest(level(), field, 328, 548)).toEqual({ index: 0, handle: 'resize' });
+    expect(hitTest(level(), field, 500, 100)).toBeNull();
+  });
+
+  it('should move and resize obstacles within the course', () => {
+    const [spike] = level().obstacles;
+
+    expect(moveEntry(spike, field, 50, -10)).toMatchObject({ distance: 350, y: 500 });
+    expect(moveEntry(spike, field, -1000, 0).distance).toBe(0);
+    expect(resizeEntry(spike, 60.4, -20)).toMatchObject({ width: 60, height: 5 });
+
+    const bird = createEntry(ObstacleType.FLYING_BIRD, 0, field);
+    expect(moveEntry(bird, field, 0, 20).baseY).toBe(Math.round((bird.baseY ?? 0) + 20));
+    expect(entryBounds(bird, field).x).toBe(0);
+  });
+
+  it('should keep obstacles in course order', () => {
+    const edited = level();
+    edited.obstacles[0] = { ...edited.obstacles[0], distance: 1500 };
+    expect(sortObstacles(edited).obstacles.map(entry => entry.distance)).toEqual([1200, 1500]);
+  });
+
+  it('should cut a level to play-test from a point', () => {
+    const rest = levelFrom(level(), 1100);
+
+    expect(rest.length).toBe(900);
+    expect(rest.sections).toEqual([{ distance: 0, speed: 300 }]);
+    expect(rest.obstacles).toEqual([{ type: ObstacleType.COLLAPSING_BRIDGE, distance: 100 }]);
+    expect(rest.cues).toEqual([{ distance: 400, cue: 'finale' }]);
+    expect(validateLevel(rest).ok).toBe(true);
+
+    expect(levelFrom(level(), 0)).toEqual(level());
+  });
+
+  it('should import what it exports and report broken files', () => {
+    const result = importLevel(exportLevel(level()));
+    expect(result).toEqual({ ok: true, level: level() });
+
+    expect(importLevel('{')).toEqual({ ok: false, errors: ['The file is not valid JSON'] });
+    expect(importLevel('{"version": 1}').ok).toBe(false);
+  });
+});
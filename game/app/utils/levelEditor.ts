@@ -0,0 +1,269 @@
+/**
+ * Level editor - Editing operations behind the level editor
+ *
+ * Positions on the timeline are course coordinates: x is the distance along
+ * the level and y is the playfield y. Every operation returns new objects,
+ * so edits can be compared and undone by reference.
+ */
+
+import {
+  LEVEL_OBSTACLE_FIELDS,
+  LEVEL_VERSION,
+  Level,
+  LevelObstacle,
+  LevelObstacleField,
+  LevelValidationResult,
+  createLevelObstacle,
+  levelSpeedAt,
+  validateLevel,
+} from '../engine/levels';
+import { ObstacleFieldConfig, ObstacleType, getObstacleDefinition } from '../engine/obstacles';
+import { GROUND_HEIGHT } from '../engine/constants';
+
+const DRAFT_STORAGE_KEY = 'flappyBirdEditorDraft';
+
+// Size of the square drag handle at an obstacle's bottom right corner (px)
+export const RESIZE_HANDLE_SIZE = 10;
+
+// Smallest obstacle the editor resizes to (px)
+const MIN_SIZE = 5;
+
+// Labels for the obstacle fields in the properties panel
+export const FIELD_LABELS: Record<LevelObstacleField, string> = {
+  y: 'Top (px)',
+  width: 'Width (px)',
+  height: 'Height (px)',
+  direction: 'Direction (1 down, -1 up)',
+  speed: 'Vertical speed (px/s)',
+  integrity: 'Integrity (%)',
+  collapseDelay: 'Collapse delay (ms)',
+  elevation: 'Elevation (px)',
+  baseY: 'Path centre (px)',
+  amplitude: 'Path amplitude (px)',
+  frequency: 'Oscillations per second',
+  phase: 'Phase (radians)',
+  gapY: 'Opening top (px)',
+  gapHeight: 'Opening height (px)',
+  force: 'Force (px/s², negative is up)',
+};
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface EditorHit {
+  index: number; // Index into the level's obstacles
+  handle: 'move' | 'resize';
+}
+
+/**
+ * A blank level to start from
+ */
+export const createEmptyLevel = (): Level => ({
+  version: LEVEL_VERSION,
+  id: 'new-level',
+  name: 'New Level',
+  height: 600,
+  length: 3000,
+  sections: [{ distance: 0, speed: 200 }],
+  obstacles: [],
+  cues: [],
+});
+
+/**
+ * Playfield a level's obstacles are sized for
+ * @param level The level
+ * @param width Width of the view
+ */
+export const editorField = (level: Level, width: number): ObstacleFieldConfig => ({
+  gameWidth: width,
+  gameHeight: level.height,
+  groundHeight: GROUND_HEIGHT,
+});
+
+/**
+ * Fields an obstacle type uses, in the order of LEVEL_OBSTACLE_FIELDS
+ * @param type Obstacle type
+ */
+export const entryFields = (type: ObstacleType): LevelObstacleField[] => {
+  const spawned = getObstacleDefinition(type).spawn(
+    { gameWidth: 800, gameHeight: 600, groundHeight: GROUND_HEIGHT },
+    0.5,
+    () => 0.5
+  );
+  return LEVEL_OBSTACLE_FIELDS.filter(key => spawned[key] !== undefined);
+};
+
+/**
+ * A new obstacle with every field it uses written out, so they can be edited
+ * @param type Obstacle type
+ * @param distance Where to place it
+ * @param field Playfield the level is laid out for
+ */
+export const createEntry = (type: ObstacleType, distance: number, field: ObstacleFieldConfig): LevelObstacle => {
+  const obstacle = createLevelObstacle({ type, distance }, field, distance, 'new');
+  const entry: LevelObstacle = { type, distance: Math.round(distance) };
+
+  for (const key of entryFields(type)) {
+    const value = obstacle[key];
+    if (value !== undefined) {
+      entry[key] = Math.round(value * 100) / 100;
+    }
+  }
+  return entry;
+};
+
+/**
+ * Where an obstacle sits on the timeline
+ * @param entry Level obstacle
+ * @param field Playfield the level is laid out for
+ */
+export const entryBounds = (entry: LevelObstacle, field: ObstacleFieldConfig): Bounds => {
+  const { x, y, width, height } = createLevelObstacle(entry, field, entry.distance, 'bounds');
+  return { x, y, width, height };
+};
+
+/**
+ * Find the obstacle under a point, preferring the one drawn on top
+ * @param level The level
+ * @param field Playfield the level is laid out for
+ * @param x Course x
+ * @param y Playfield y
+ */
+export const hitTest = (level: Level, field: ObstacleFieldConfig, x: number, y: number): EditorHit | null => {
+  for (let index = level.obstacles.length - 1; index >= 0; index--) {
+    const bounds = entryBounds(level.obstacles[index], field);
+    const right = bounds.x + bounds.width;
+    const bottom = bounds.y + bounds.height;
+
+    if (x >= right - RESIZE_HANDLE_SIZE && x <= right && y >= bottom - RESIZE_HANDLE_SIZE && y <= bottom) {
+      return { index, handle: 'resize' };
+    }
+    if (x >= bounds.x && x <= right && y >= bounds.y && y <= bottom) {
+      return { index, handle: 'move' };
+    }
+  }
+  return null;
+};
+
+/**
+ * Move an obstacle, keeping it on the course
+ * @param entry Obstacle as it was when the drag started
+ * @param field Playfield the level is laid out for
+ * @param dx Horizontal drag distance
+ * @param dy Vertical drag distance
+ */
+export const moveEntry = (entry: LevelObstacle, field: ObstacleFieldConfig, dx: number, dy: number): LevelObstacle => {
+  const bounds = entryBounds(entry, field);
+  const moved = { ...entry, distance: Math.max(0, Math.round(entry.distance + dx)) };
+
+  // Obstacles with a path or an opening move those along with them
+  if (dy !== 0) {
+    moved.y = Math.round(bounds.y + dy);
+    if (entry.baseY !== undefined) {
+      moved.baseY = Math.round(entry.baseY + dy);
+    }
+    if (entry.gapY !== undefined) {
+      moved.gapY = Math.round(entry.gapY + dy);
+    }
+  }
+  return moved;
+};
+
+/**
+ * Resize an obstacle from its top left corner
+ * @param entry Level obstacle
+ * @param width New width
+ * @param height New height
+ */
+export const resizeEntry = (entry: LevelObstacle, width: number, height: number): LevelObstacle => ({
+  ...entry,
+  width: Math.max(MIN_SIZE, Math.round(width)),
+  height: Math.max(MIN_SIZE, Math.round(height)),
+});
+
+/**
+ * Put a level's obstacles back in course order after an edit
+ * @param level The level
+ */
+export const sortObstacles = (level: Level): Level => ({
+  ...level,
+  obstacles: [...level.obstacles].sort((a, b) => a.distance - b.distance),
+});
+
+/**
+ * The rest of a level from a point on, for play-testing from there
+ * @param level The level
+ * @param start Distance to start from
+ * @returns A level starting at that distance at the speed the original has there
+ */
+export const levelFrom = (level: Level, start: number): Level => {
+  const from = Math.max(0, Math.min(start, level.length - 1));
+
+  return {
+    ...level,
+    length: level.length - from,
+    sections: [
+      { distance: 0, speed: levelSpeedAt(level, from) },
+      ...level.sections
+        .filter(section => section.distance > from)
+        .map(section => ({ ...section, distance: section.distance - from })),
+    ],
+    obstacles: level.obstacles
+      .filter(entry => entry.distance >= from)
+      .map(entry => ({ ...entry, distance: entry.distance - from })),
+    cues: level.cues
+      .filter(cue => cue.distance >= from)
+      .map(cue => ({ ...cue, distance: cue.distance - from })),
+  };
+};
+
+/**
+ * Level JSON as saved to a file
+ * @param level The level
+ */
+export const exportLevel = (level: Level): string => `${JSON.stringify(level, null, 2)}\n`;
+
+/**
+ * Read a level file
+ * @param text File contents
+ * @returns The level, or every problem found
+ */
+export const importLevel = (text: string): LevelValidationResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    return { ok: false, errors: ['The file is not valid JSON'] };
+  }
+  return validateLevel(json);
+};
+
+/**
+ * Load the level left in the editor last time
+ * @returns The draft, or null without a valid one
+ */
+export const loadEditorDraft = (): Level | null => {
+  const saved = localStorage.getItem(DRAFT_STORAGE_KEY);
+  if (!saved) {
+    return null;
+  }
+
+  const result = importLevel(saved);
+  if (!result.ok) {
+    localStorage.removeItem(DRAFT_STORAGE_KEY);
+    return null;
+  }
+  return result.level;
+};
+
+/**
+ * Keep the level being edited across visits
+ * @param level The level
+ */
+export const saveEditorDraft = (level: Level): void => {
+  localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(level));
+};
@@ -0,0 +1,27 @@
+/**
+ * Tests for levelStore.ts
+ */
+
+import { parseLevelRecords, recordLevelResult } from './levelStore';
+
+describe('levelStore', () => {
+  it('should keep only valid stored records', () => {
+    expect(parseLevelRecords({
+      'first-flight': { best: 120, completed: true },
+      broken: { best: '12', completed: true },
+      other: 5,
+    })).toEqual({ 'first-flight': { best: 120, completed: true } });
+    expect(parseLevelRecords(null)).toEqual({});
+  });
+
+  it('should keep the best score and remember completion', () => {
+    let records = recordLevelResult({}, 'a', 80, false);
+    expect(records).toEqual({ a: { best: 80, completed: false } });
+
+    records = recordLevelResult(records, 'a', 60, true);
+    expect(records.a).toEqual({ best: 80, completed: true });
+
+    records = recordLevelResult(records, 'a', 150, false);
+    expect(records.a).toEqual({ best: 150, completed: true });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Level store - Loads the bundled level files and keeps each level's results
+ *
+ * Levels are JSON files in public/levels, listed in index.json. Results are
+ * kept in localStorage by level id.
+ */
+
+import { Level, validateLevel } from '../engine/levels';
+
+// Where the level files are served
+const LEVEL_URL = '/levels';
+
+const STORAGE_KEY = 'flappyBirdLevelRecords';
+
+// Entry of the level list
+export interface LevelSummary {
+  id: string;
+  name: string;
+}
+
+export interface LevelRecord {
+  best: number; // Best score, finished or not
+  completed: boolean; // Whether the level has been finished
+}
+
+export type LevelRecords = Record<string, LevelRecord>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Load the list of levels
+ * @throws Error if the list can't be loaded or is invalid
+ */
+export const loadLevelList = async (): Promise<LevelSummary[]> => {
+  const response = await fetch(`${LEVEL_URL}/index.json`);
+  if (!response.ok) {
+    throw new Error(`Could not load the level list (HTTP ${response.status})`);
+  }
+
+  const list: unknown = await response.json();
+  if (!Array.isArray(list) || !list.every(item => isRecord(item) && typeof item.id === 'string' && typeof item.name === 'string')) {
+    throw new Error('The level list is invalid');
+  }
+  return list.map(({ id, name }) => ({ id, name }));
+};
+
+/**
+ * Load and check a level file
+ * @param id Level to load
+ * @throws Error if the file can't be loaded or is invalid
+ */
+export const loadLevel = async (id: string): Promise<Level> => {
+  const response = await fetch(`${LEVEL_URL}/${encodeURIComponent(id)}.json`);
+  if (!response.ok) {
+    throw new Error(`Could not load level "${id}" (HTTP ${response.status})`);
+  }
+
+  const result = validateLevel(await response.json());
+  if (!result.ok) {
+    throw new Error(`Level "${id}" is invalid: ${result.errors.join('; ')}`);
+  }
+  return result.level;
+};
+
+/**
+ * Check stored level results, dropping entries that aren't valid
+ * @param value Parsed stored value
+ */
+export const parseLevelRecords = (value: unknown): LevelRecords => {
+  const records: LevelRecords = {};
+  if (!isRecord(value)) {
+    return records;
+  }
+
+  for (const [id, record] of Object.entries(value)) {
+    if (isRecord(record) && typeof record.best === 'number' && typeof record.completed === 'boolean') {
+      records[id] = { best: record.best, completed: record.completed };
+    }
+  }
+  return records;
+};
+
+/**
+ * Add the result of a run to a level's record
+ * @param records Current records
+ * @param id Level played
+ * @param score Score of the run
+ * @param completed Whether the run finished the level
+ * @returns The updated records
+ */
+export const recordLevelResult = (records: LevelRecords, id: string, score: number, completed: boolean): LevelRecords => {
+  const previous = records[id];
+  return {
+    ...records,
+    [id]: {
+      best: Math.max(previous?.best ?? 0, score),
+      completed: Boolean(previous?.completed) || completed,
+    },
+  };
+};
+
+/**
+ * Load the stored level results
+ */
+export const loadLevelRecords = (): LevelRecords => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) {
+    return {};
+  }
+
+  try {
+    return parseLevelRecords(JSON.parse(saved));
+  } catch (err) {
+    localStorage.removeItem(STORAGE_KEY);
+    return {};
+  }
+};
+
+/**
+ * Store the level results
+ * @param records Records to keep
+ */
+export const saveLevelRecords = (records: LevelRecords): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+};
@@ -0,0 +1,99 @@
+/**
+ * Tests for onsetDetector.ts
+ */
+
+import { OnsetDetector, OnsetEvent, peakToJumpPower } from './onsetDetector';
+
+const THRESHOLD = 0.1;
+const FRAME_MS = 20;
+
+// A frame of an analyser spectrum at one byte level across all bins
+const spectrum = (value: number) => new Uint8Array(64).fill(value);
+
+// Feed [byte value, smoothed level] frames and collect the jump events
+const run = (detector: OnsetDetector, frames: Array<[number, number]>): OnsetEvent[] =>
+  frames.flatMap(([value, level], frame) => {
+    const onset = detector.process(spectrum(value), level, frame * FRAME_MS, THRESHOLD);
+    return onset ? [onset] : [];
+  });
+
+const silence = (count: number): Array<[number, number]> => Array(count).fill([0, 0]);
+const sound = (count: number, value = 200, level = 0.8): Array<[number, number]> =>
+  Array(count).fill([value, level]);
+
+describe('OnsetDetector', () => {
+  it('should fire once for a sustained sound', () => {
+    const onsets = run(new OnsetDetector(), [...silence(5), ...sound(100)]);
+
+    expect(onsets).toHaveLength(1);
+    expect(onsets[0].time).toBe(5 * FRAME_MS);
+  });
+
+  it('should fire again for a second sound after the refractory period', () => {
+    const detector = new OnsetDetector({ refractoryMs: 200 });
+    const onsets = run(detector, [...silence(1), ...sound(5), ...silence(14), ...sound(5)]);
+
+    expect(onsets.map(onset => onset.time)).toEqual([1 * FRAME_MS, 20 * FRAME_MS]);
+  });
+
+  it('should ignore a second sound inside the refractory period', () => {
+    const detector = new OnsetDetector({ refractoryMs: 500 });
+    const onsets = run(detector, [...silence(1), ...sound(5), ...silence(3), ...sound(5)]);
+
+    expect(onsets).toHaveLength(1);
+  });
+
+  it('should ignore rises that stay below the threshold', () => {
+    const onsets = run(new OnsetDetector(), [...silence(2), ...sound(10, 200, THRESHOLD / 2)]);
+
+    expect(onsets).toEqual([]);
+  });
+
+  it('should not fire for silence or small flickers', () => {
+    const flicker: Array<[number, number]> = Array.from({ length: 50 }, (_, i) => [i % 2 ? 3 : 0, 0.5]);
+
+    expect(run(new OnsetDetector(), [...silence(10), ...flicker])).toEqual([]);
+  });
+
+  it('should follow a rising sound to its peak', () => {
+    const detector = new OnsetDetector({ peakWindowMs: 100 });
+    const onsets = run(detector, [[0, 0], [100, 0.3], [150, 0.5], [200, 0.7], [200, 0.6], ...silence(3)]);
+
+    expect(onsets).toHaveLength(1);
+    expect(onsets[0].time).toBe(FRAME_MS);
+    expect(onsets[0].peak).toBe(0.7);
+    expect(onsets[0].power).toBeCloseTo(peakToJumpPower(0.7, THRESHOLD));
+  });
+
+  it('should stop following the peak after the peak window', () => {
+    const detector = new OnsetDetector({ peakWindowMs: 40 });
+    const rising: Array<[number, number]> = Array.from({ length: 10 }, (_, i) => [100 + i * 10, 0.2 + i * 0.05]);
+    const onsets = run(detector, [[0, 0], ...rising]);
+
+    expect(onsets).toHaveLength(1);
+    // Only the frame 20ms after the onset still falls inside the 40ms window
+    expect(onsets[0].peak).toBeCloseTo(0.25);
+  });
+
+  it('should emit immediately without a peak window', () => {
+    const detector = new OnsetDetector({ peakWindowMs: 0 });
+
+    detector.process(spectrum(0), 0, 0, THRESHOLD);
+    expect(detector.process(spectrum(200), 0.8, FRAME_MS, THRESHOLD)).not.toBeNull();
+  });
+
+  it('should forget the previous frame on reset', () => {
+    const detector = new OnsetDetector();
+    run(detector, silence(3));
+    detector.reset();
+
+    // The first frame after a reset has nothing to rise from
+    expect(run(detector, sound(10))).toEqual([]);
+  });
+
+  it('should map peaks to jump power between the minimum and full power', () => {
+    expect(peakToJumpPower(THRESHOLD, THRESHOLD)).toBeCloseTo(0.3);
+    expect(peakToJumpPower(1, THRESHOLD)).toBe(1);
+    expect(peakToJumpPower(0.5, THRESHOLD)).toBeGreaterThan(peakToJumpPower(0.3, THRESHOLD));
+  });
+});
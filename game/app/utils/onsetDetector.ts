@@ -0,0 +1,141 @@
+/**
+ * OnsetDetector - Turns microphone spectra into discrete jump events
+ *
+ * A jump fires on the rise of a sound (spectral flux) rather than on its
+ * level, so a sustained noise yields one jump instead of one per landing.
+ */
+
+export interface OnsetEvent {
+  time: number; // When the sound started (ms)
+  peak: number; // Loudest normalized level (0-1) reached by the sound
+  power: number; // Jump power (0-1) derived from the peak
+}
+
+export interface OnsetDetectorOptions {
+  refractoryMs: number; // Quiet period after an onset in which no new onset fires
+  peakWindowMs: number; // How long to follow a rising sound for its peak
+  sensitivity: number; // Flux must exceed this multiple of the recent average
+  historySize: number; // Frames averaged for the adaptive flux threshold
+}
+
+export const DEFAULT_ONSET_OPTIONS: OnsetDetectorOptions = {
+  refractoryMs: 250,
+  peakWindowMs: 80,
+  sensitivity: 1.5,
+  historySize: 20,
+};
+
+// Smallest flux (mean rise per bin, 0-1) that can count as an onset, so silence never triggers
+const MIN_FLUX = 0.02;
+
+// Jump power given to a sound that only just clears the threshold
+const MIN_JUMP_POWER = 0.3;
+
+/**
+ * Map a peak level to jump power, from MIN_JUMP_POWER at the threshold to 1 at full level
+ * @param peak Normalized peak level (0-1)
+ * @param threshold Normalized level needed to jump
+ */
+export const peakToJumpPower = (peak: number, threshold: number): number => {
+  const normalized = Math.max(0, Math.min(1, (peak - threshold) / (1 - threshold)));
+  return MIN_JUMP_POWER + normalized * (1 - MIN_JUMP_POWER);
+};
+
+export class OnsetDetector {
+  readonly options: OnsetDetectorOptions;
+
+  // Spectrum of the previous frame, normalized to 0-1
+  private previousSpectrum: Float32Array | null = null;
+  // Flux of recent frames, for the adaptive threshold
+  private fluxHistory: number[] = [];
+  private lastOnsetTime = -Infinity;
+  // Onset whose peak is still being followed
+  private pending: { time: number; peak: number } | null = null;
+
+  constructor(options: Partial<OnsetDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_ONSET_OPTIONS, ...options };
+  }
+
+  /**
+   * Feed one analyser frame
+   * @param spectrum Byte frequency data (0-255 per bin)
+   * @param level Calibrated, smoothed level of the frame (0-1)
+   * @param time Frame time (ms)
+   * @param threshold Level a sound must reach to count (0-1)
+   * @returns A jump event once the peak of a new sound is known, otherwise null
+   */
+  process(spectrum: ArrayLike<number>, level: number, time: number, threshold: number): OnsetEvent | null {
+    const flux = this.measureFlux(spectrum);
+
+    const averageFlux = this.fluxHistory.length > 0
+      ? this.fluxHistory.reduce((sum, value) => sum + value, 0) / this.fluxHistory.length
+      : 0;
+    this.fluxHistory.push(flux);
+    if (this.fluxHistory.length > this.options.historySize) {
+      this.fluxHistory.shift();
+    }
+
+    if (this.pending) {
+      // Keep following the sound while it is still getting louder
+      if (level > this.pending.peak && time - this.pending.time < this.options.peakWindowMs) {
+        this.pending.peak = level;
+        return null;
+      }
+      return this.emit(threshold);
+    }
+
+    const isOnset =
+      time - this.lastOnsetTime >= this.options.refractoryMs &&
+      flux > Math.max(MIN_FLUX, averageFlux * this.options.sensitivity) &&
+      level > threshold;
+
+    if (!isOnset) {
+      return null;
+    }
+
+    this.lastOnsetTime = time;
+    this.pending = { time, peak: level };
+    return this.options.peakWindowMs > 0 ? null : this.emit(threshold);
+  }
+
+  reset(): void {
+    this.previousSpectrum = null;
+    this.fluxHistory = [];
+    this.lastOnsetTime = -Infinity;
+    this.pending = null;
+  }
+
+  // Mean rise per bin (0-1) since the previous frame
+  private measureFlux(spectrum: ArrayLike<number>): number {
+    const previous = this.previousSpectrum;
+    // The first frame has nothing to rise from
+    const hasPrevious = previous !== null && previous.length === spectrum.length;
+    const current = hasPrevious ? previous : new Float32Array(spectrum.length);
+
+    let flux = 0;
+    for (let i = 0; i < spectrum.length; i++) {
+      const value = spectrum[i] / 255;
+      if (hasPrevious) {
+        flux += Math.max(0, value - current[i]);
+      }
+      current[i] = value;
+    }
+    this.previousSpectrum = current;
+
+    return flux / Math.max(spectrum.length, 1);
+  }
+
+  private emit(threshold: number): OnsetEvent | null {
+    const pending = this.pending;
+    this.pending = null;
+    if (!pending) {
+      return null;
+    }
+
+    return {
+      time: pending.time,
+      peak: pending.peak,
+      power: peakToJumpPower(pending.peak, threshold),
+    };
+  }
+}
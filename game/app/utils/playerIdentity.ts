@@ -0,0 +1,50 @@
+/**
+ * Anonymous player identity bound to this device
+ *
+ * The id and secret are generated once and kept in localStorage. The server
+ * registers them on the first score submission and requires the same secret
+ * afterwards, so nobody else can post under this player's profile or name.
+ */
+
+const STORAGE_KEY = 'flappyBirdPlayer';
+
+export interface PlayerIdentity {
+  id: string;
+  secret: string;
+  displayName?: string; // Last name submitted from this device
+}
+
+const createIdentity = (): PlayerIdentity => ({
+  id: crypto.randomUUID(),
+  secret: `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, ''),
+});
+
+/**
+ * Load this device's identity, creating it on first use
+ * @returns The stored identity
+ */
+export const getPlayerIdentity = (): PlayerIdentity => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      const identity = JSON.parse(saved);
+      if (typeof identity?.id === 'string' && typeof identity?.secret === 'string') {
+        return identity;
+      }
+    } catch (err) {
+      // Fall through and replace the corrupt entry
+    }
+  }
+
+  const identity = createIdentity();
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(identity));
+  return identity;
+};
+
+/**
+ * Remember the name this device last submitted under
+ * @param displayName Name accepted by the server
+ */
+export const saveDisplayName = (displayName: string): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...getPlayerIdentity(), displayName }));
+};
@@ -0,0 +1,54 @@
+/**
+ * Tests for playerName.ts
+ */
+
+import { containsBlockedWord, sanitizePlayerName, validatePlayerName } from './playerName';
+
+describe('playerName', () => {
+  it('should trim and collapse whitespace', () => {
+    expect(sanitizePlayerName('  Ada \t  Lovelace \n')).toBe('Ada Lovelace');
+  });
+
+  it('should fold full-width characters', () => {
+    expect(sanitizePlayerName('Ａｄａ')).toBe('Ada');
+  });
+
+  it('should accept ordinary names in any script', () => {
+    for (const name of ['Ada', 'player_1', "O'Brien", 'Jean-Luc', 'Zoë', '小明', 'a.b']) {
+      expect(validatePlayerName(name)).toBeNull();
+    }
+  });
+
+  it('should reject empty and overlong names', () => {
+    expect(validatePlayerName('')).toBe('Please enter your name');
+    expect(validatePlayerName('a'.repeat(20))).toBeNull();
+    expect(validatePlayerName('a'.repeat(21))).toMatch('at most 20');
+  });
+
+  it('should reject markup and control characters', () => {
+    for (const name of ['<b>hi</b>', 'a<script>', 'tab\there', 'line\u0000', '-leading', 'x"y']) {
+      expect(validatePlayerName(name)).toMatch('may only contain');
+    }
+  });
+
+  it('should catch blocked words in disguise', () => {
+    expect(containsBlockedWord('ShitHead')).toBe(true);
+    expect(containsBlockedWord('sh1t')).toBe(true);
+    expect(containsBlockedWord('s h i t')).toBe(true);
+    expect(containsBlockedWord('Sunshine')).toBe(false);
+    expect(validatePlayerName('5hit')).toBe('Please choose a different name');
+  });
+
+  it('should catch blocked words inside compound and leetspeak names', () => {
+    for (const name of ['fuckyou', 'shitface', 'Bigshit', 'xXfuckXx', 'sh1tf4ce', 'b1tchy']) {
+      expect(containsBlockedWord(name)).toBe(true);
+    }
+  });
+
+  it('should allow ordinary words that contain a blocked word', () => {
+    expect(validatePlayerName('Grape')).toBeNull();
+    expect(validatePlayerName('Scunthorpe United')).toBeNull();
+    expect(validatePlayerName('Therapist')).toBeNull();
+    expect(containsBlockedWord('Grape rape')).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Player name rules shared by the score form and the score API
+ */
+
+export const PLAYER_NAME_MAX_LENGTH = 20;
+
+// Letters and digits from any script, plus spaces and a little punctuation
+const ALLOWED_NAME = /^[\p{L}\p{N}][\p{L}\p{N} _.'-]*$/u;
+
+// Words that may not appear anywhere in a name, after undoing common letter swaps, other than inside ALLOWED_WORDS
+const BLOCKED_WORDS = [
+  'asshole',
+  'bastard',
+  'bitch',
+  'cunt',
+  'fag',
+  'fuck',
+  'nazi',
+  'nigg',
+  'penis',
+  'porn',
+  'rape',
+  'retard',
+  'shit',
+  'slut',
+  'whore',
+];
+
+// Ordinary words that contain a blocked word, removed before checking
+const ALLOWED_WORDS = [
+  'drape',
+  'grape',
+  'niggle',
+  'penistone',
+  'scrape',
+  'scunthorpe',
+  'snigger',
+  'therapist',
+];
+
+const LOOKALIKES: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '@': 'a',
+  '$': 's',
+  '!': 'i',
+};
+
+/**
+ * Normalize a name before validating or storing it
+ * @param name Raw input
+ * @returns Name with compatibility characters folded and whitespace collapsed
+ */
+export const sanitizePlayerName = (name: string): string => {
+  return name.normalize('NFKC').replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Check whether a name contains a blocked word, including spaced or disguised spellings
+ * @param name Name to check
+ */
+export const containsBlockedWord = (name: string): boolean => {
+  const folded = Array.from(name.toLowerCase())
+    .map(char => LOOKALIKES[char] ?? char)
+    .join('')
+    .replace(/[^\p{L}]/gu, '');
+  const remaining = ALLOWED_WORDS.reduce((text, word) => text.split(word).join(' '), folded);
+
+  return BLOCKED_WORDS.some(word => remaining.includes(word));
+};
+
+/**
+ * Validate a sanitized player name
+ * @param name Output of sanitizePlayerName
+ * @returns Error message, or null if the name is acceptable
+ */
+export const validatePlayerName = (name: string): string | null => {
+  if (!name) {
+    return 'Please enter your name';
+  }
+
+  if (Array.from(name).length > PLAYER_NAME_MAX_LENGTH) {
+    return `Name must be at most ${PLAYER_NAME_MAX_LENGTH} characters`;
+  }
+
+  if (!ALLOWED_NAME.test(name)) {
+    return "Name may only contain letters, numbers, spaces and _ . ' -";
+  }
+
+  if (containsBlockedWord(name)) {
+    return 'Please choose a different name';
+  }
+
+  return null;
+};
@@ -37,21 +37,20 @@ Please download the following files from the face-api.js repository:
 - face_expression_model-weights_manifest.json
 - face_expression_model-shard1
 
-## Download Instructions
+## Install Instructions
 
-1. Go to: https://github.com/justadudewhohacks/face-api.js/tree/master/weights
-2. Download each of the required files
-3. Place them in this directory (public/models)
-4. Restart the application
+1. Get the files from https://github.com/justadudewhohacks/face-api.js/tree/master/weights
+2. Run \`npm run models:install -- --from <directory or archive>\`
+3. Restart the application
 
-No further configuration is needed once the files are in place.
+The install script checks every file against the hashes pinned in face-models.json.
 `;
   
   fs.writeFileSync(readmePath, readmeContent);
   console.log('Created README.md with instructions');
   
   console.log('Models directory created at:', modelsDir);
-  console.log('Please follow the instructions in the README.md file to download the required model files.');
+  console.log('Install the model files with: npm run models:install -- --from <directory or archive>');
 } else {
   console.log('Models directory already exists at:', modelsDir);
 }
@@ -0,0 +1,146 @@
+/**
+ * Script to install the face-api.js models into public/models and check them against the pinned SHA-256 hashes
+ *
+ * Usage:
+ *   node scripts/install-face-models.js --from <dir|archive>   Install from a mirror directory or a .zip/.tar/.tar.gz archive
+ *   node scripts/install-face-models.js --from <dir|archive> --pin   Maintainers: re-pin the manifest to new trusted model files
+ *   node scripts/install-face-models.js   Check the models already installed
+ *
+ * Nothing is copied unless every file matches its pinned hash.
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+const { execFileSync } = require('child_process');
+
+// Define paths
+const modelsDir = path.join(__dirname, '..', 'public', 'models');
+const manifestPath = path.join(modelsDir, 'face-models.json');
+
+const parseArgs = (argv) => {
+  const args = { from: null, pin: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--from') {
+      args.from = argv[++i];
+    } else if (argv[i] === '--pin') {
+      args.pin = true;
+    } else {
+      throw new Error(`Unknown option "${argv[i]}"`);
+    }
+  }
+  if (args.pin && !args.from) {
+    throw new Error('--pin needs --from with the files to trust');
+  }
+  return args;
+};
+
+const sha256 = (file) => crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+
+// Find a file anywhere under a directory; archives and repository clones nest the weights folder
+const findFile = (dir, name) => {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isFile() && entry.name === name) {
+      return entryPath;
+    }
+    if (entry.isDirectory()) {
+      const found = findFile(entryPath, name);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return null;
+};
+
+// Unpack an archive into a temporary directory
+const extractArchive = (archive) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'face-models-'));
+  if (/\.zip$/i.test(archive)) {
+    execFileSync('unzip', ['-q', archive, '-d', dir]);
+  } else {
+    execFileSync('tar', ['-xf', archive, '-C', dir]);
+  }
+  return dir;
+};
+
+/**
+ * Check files against the manifest
+ * @returns Problems found, empty if every file matches
+ */
+const verifyFiles = (manifest, locate) =>
+  manifest.files.flatMap(({ name, sha256: expected }) => {
+    const file = locate(name);
+    if (!file) {
+      return [`${name}: missing`];
+    }
+    if (!expected) {
+      return [`${name}: no hash pinned in ${path.relative(process.cwd(), manifestPath)}`];
+    }
+    const actual = sha256(file);
+    return actual === expected ? [] : [`${name}: expected sha256 ${expected}, got ${actual}`];
+  });
+
+const fail = (problems) => {
+  throw new Error(['Face models failed verification:', ...problems.map(problem => `  - ${problem}`)].join('\n'));
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+
+  if (!args.from) {
+    const problems = verifyFiles(manifest, name => {
+      const file = path.join(modelsDir, name);
+      return fs.existsSync(file) ? file : null;
+    });
+    if (problems.length > 0) {
+      fail(problems);
+    }
+    console.log('All face models are installed and verified.');
+    return;
+  }
+
+  const source = path.resolve(args.from);
+  const sourceDir = fs.statSync(source).isDirectory() ? source : extractArchive(source);
+
+  try {
+    const locate = name => findFile(sourceDir, name);
+
+    if (args.pin) {
+      const missing = manifest.files.filter(file => !locate(file.name)).map(file => `${file.name}: missing`);
+      if (missing.length > 0) {
+        fail(missing);
+      }
+      manifest.files.forEach(file => {
+        file.sha256 = sha256(locate(file.name));
+      });
+      fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+      console.log('Pinned hashes in', manifestPath);
+    } else {
+      const problems = verifyFiles(manifest, locate);
+      if (problems.length > 0) {
+        fail(problems);
+      }
+    }
+
+    manifest.files.forEach(({ name }) => {
+      fs.copyFileSync(locate(name), path.join(modelsDir, name));
+      console.log('Installed', name);
+    });
+    console.log('Face models installed at:', modelsDir);
+  } finally {
+    if (sourceDir !== source) {
+      fs.rmSync(sourceDir, { recursive: true, force: true });
+    }
+  }
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}